@@ -6,16 +6,18 @@
  * - Lint spec/all specs
  * - Run audit
  * - Open spec files
+ * - Open and create additional spec documents
+ * - Set spec lifecycle status
  * - Mark task complete
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { SpecTreeProvider, SpecTreeItem } from './specView';
-import { GuardrailTreeProvider, GuardrailTreeItem } from './guardrailView';
-import { TaskTreeProvider, TaskTreeItem } from './taskView';
-import { isValidSpecName, VALID_AUDIT_TYPES, execFileAsync } from './utils';
+import { SpecTreeProvider, SpecTreeItem, SpecInfo, SpecDocumentItem, loadSpecInfo } from './specView';
+import { GuardrailTreeProvider, GuardrailTreeItem, GUARDRAILS_ASSIGNED_TO_ME_STATE_KEY } from './guardrailView';
+import { TaskTreeProvider, TaskTreeItem, TASKS_ASSIGNED_TO_ME_STATE_KEY } from './taskView';
+import { isValidSpecName, VALID_AUDIT_TYPES, execFileAsync, getGitUserIdentities, parseTasksContent } from './utils';
 import {
     getActiveProject,
     setActiveProject,
@@ -28,7 +30,57 @@ import {
     runAutoDetectWithUI,
     clearLdfPathConfig
 } from './extension';
-import { resolveProjects, isLdfProject } from './workspace';
+import { resolveProjects, isLdfProject, detectWorkspaceContext, getReportsDir } from './workspace';
+import { readSpecMetadata, writeSpecStatus } from './specMetadata';
+import { specIndex } from './specIndex';
+import { archiveSpec, restoreSpec, listArchivedSpecs, listSpecDirs, getSpecDir } from './specArchive';
+import { DependencyGraphPanel } from './dependencyGraph';
+import { runNewSpecWizard } from './newSpecWizard';
+import { listQuestionPacks } from './questionPacks';
+import { DashboardPanel } from './dashboard';
+import { SpecHistoryPanel } from './specHistory';
+import { SpecDiffPanel, SpecRevisionContentProvider, SpecRevisionRef } from './specDiff';
+import { SpecVersion, diffSpecVersions, parseCoverageMatrix } from './specDiffData';
+import {
+    ExportBundle,
+    ExportedSpec,
+    ExportFormat,
+    EXPORT_EXTENSIONS,
+    renderExport,
+    getExportFileName
+} from './specExport';
+import { SpecCommit, listSpecCommits, readSpecFileAt, resolveRevision } from './specHistoryData';
+import { planSpecRename, TextReplacement } from './specRename';
+import { planSpecDuplicate, listSpecFiles } from './specDuplicate';
+import { SpecFilter, EMPTY_SPEC_FILTER, SPEC_FILTER_STATE_KEY, isCoverageGap } from './specFilter';
+import { OwnedSpec, buildOwnerRollup, parseOwnerLine } from './specOwners';
+import { ImportSource, ImportedIssue, parseIssueExport, toSpecContent, toSpecName } from './specImport';
+import {
+    SpecTemplateName,
+    RequirementsContent,
+    TasksContent,
+    createTemplateVariables,
+    createRequirementsVariables,
+    createTasksVariables,
+    getTemplateDirs,
+    renderSpecTemplate
+} from './specTemplates';
+import {
+    SpecDocumentType,
+    isCollection,
+    findDocumentFiles,
+    getDocumentPath,
+    getRequiredDocuments,
+    renderDocumentTemplate
+} from './specDocuments';
+import {
+    getAllowedTransitions,
+    getNextStatus,
+    getStatusLabel,
+    canTransition,
+    loadSpecWorkflow,
+    SpecWorkflow
+} from './specWorkflow';
 
 interface CommandContext {
     specProvider: SpecTreeProvider;
@@ -45,7 +97,9 @@ export function registerCommands(
 
     // Refresh specs
     context.subscriptions.push(
-        vscode.commands.registerCommand('ldf.refreshSpecs', () => {
+        vscode.commands.registerCommand('ldf.refreshSpecs', async () => {
+            // Re-read the spec files too, in case their watchers missed a change
+            await specIndex.update(specProvider.getWorkspacePaths().map(getSpecsDirectory));
             specProvider.refresh();
             guardrailProvider.refresh();
             taskProvider.refresh();
@@ -53,36 +107,125 @@ export function registerCommands(
         })
     );
 
-    // Create new spec
+    // Filter the Specs view (persisted per workspace)
+    const setSpecFilter = (filter: SpecFilter) => {
+        specProvider.setFilter(filter);
+        return context.workspaceState.update(SPEC_FILTER_STATE_KEY, filter);
+    };
     context.subscriptions.push(
-        vscode.commands.registerCommand('ldf.createSpec', async () => {
-            const specName = await vscode.window.showInputBox({
-                prompt: 'Enter spec name (e.g., user-authentication)',
-                placeHolder: 'feature-name',
-                validateInput: (value) => {
-                    if (!value) return 'Spec name is required';
-                    if (!/^[a-z0-9-]+$/.test(value)) {
-                        return 'Use lowercase letters, numbers, and hyphens only';
+        vscode.commands.registerCommand('ldf.filterSpecs', async () => {
+            const filter = specProvider.getFilter();
+
+            // Statuses of every loaded workflow, in workflow order
+            const statuses = new Map<string, string>();
+            for (const workspace of specProvider.getWorkspacePaths()) {
+                for (const status of specProvider.getWorkflow(workspace).statuses) {
+                    if (!statuses.has(status.id)) {
+                        statuses.set(status.id, status.label);
                     }
-                    return null;
+                }
+            }
+
+            type FilterPickItem = vscode.QuickPickItem & { status?: string; option?: 'hasGaps' | 'ownedByMe' };
+            const items: FilterPickItem[] = [
+                { label: 'Status', kind: vscode.QuickPickItemKind.Separator },
+                ...[...statuses].map(([id, label]) => ({
+                    label,
+                    status: id,
+                    picked: filter.statuses.includes(id),
+                })),
+                { label: 'Options', kind: vscode.QuickPickItemKind.Separator },
+                {
+                    label: 'Has gaps',
+                    description: 'Guardrail coverage rows not DONE or N/A',
+                    option: 'hasGaps',
+                    picked: filter.hasGaps,
+                },
+                {
+                    label: 'Assigned to me',
+                    description: 'Spec or task owner matches your git user.name or user.email',
+                    option: 'ownedByMe',
+                    picked: filter.ownedByMe,
                 },
+            ];
+
+            const selected = await vscode.window.showQuickPick(items, {
+                canPickMany: true,
+                placeHolder: 'Show specs matching (no status selected shows all statuses)',
+            });
+            if (!selected) return;
+
+            await setSpecFilter({
+                ...filter,
+                statuses: selected.filter(item => item.status).map(item => item.status!),
+                hasGaps: selected.some(item => item.option === 'hasGaps'),
+                ownedByMe: selected.some(item => item.option === 'ownedByMe'),
             });
+        }),
+        vscode.commands.registerCommand('ldf.searchSpecs', async () => {
+            const text = await vscode.window.showInputBox({
+                prompt: 'Show specs whose name or overview contains (leave empty to clear)',
+                value: specProvider.getFilter().text,
+            });
+            if (text === undefined) return;
+
+            await setSpecFilter({ ...specProvider.getFilter(), text: text.trim() });
+        }),
+        vscode.commands.registerCommand('ldf.clearSpecFilter', () => setSpecFilter({ ...EMPTY_SPEC_FILTER }))
+    );
 
-            if (!specName) return;
+    // "Assigned to me" filters of the Guardrails and Tasks views (persisted per workspace)
+    const setGuardrailsAssignedToMe = (assignedToMe: boolean) => {
+        guardrailProvider.setAssignedToMe(assignedToMe);
+        return context.workspaceState.update(GUARDRAILS_ASSIGNED_TO_ME_STATE_KEY, assignedToMe);
+    };
+    const setTasksAssignedToMe = (assignedToMe: boolean) => {
+        taskProvider.setAssignedToMe(assignedToMe);
+        return context.workspaceState.update(TASKS_ASSIGNED_TO_ME_STATE_KEY, assignedToMe);
+    };
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ldf.showGuardrailsAssignedToMe', () => setGuardrailsAssignedToMe(true)),
+        vscode.commands.registerCommand('ldf.showAllGuardrails', () => setGuardrailsAssignedToMe(false)),
+        vscode.commands.registerCommand('ldf.showTasksAssignedToMe', () => setTasksAssignedToMe(true)),
+        vscode.commands.registerCommand('ldf.showAllTasks', () => setTasksAssignedToMe(false))
+    );
 
-            // Use active project path if set, otherwise default workspace
+    // Create new spec
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ldf.createSpec', async () => {
+            // Default to the active project if set, otherwise the default workspace
             const activeProject = getActiveProject();
-            const targetPath = activeProject ? activeProject.path : workspacePath;
+            const answers = await runNewSpecWizard({
+                projects: specProvider.getWorkspacePaths().map(p => ({
+                    path: p,
+                    name: specProvider.getProjectName(p),
+                })),
+                defaultProjectPath: activeProject ? activeProject.path : workspacePath,
+                validateName: validateNewSpecName,
+                getQuestionPacks: projectPath => listQuestionPacks(projectPath, getSharedDir(projectPath, 'question-packs')),
+            });
+            if (!answers) return;
 
-            const config = vscode.workspace.getConfiguration('ldf');
-            const specsDir = path.join(
-                targetPath,
-                config.get('specsDirectory', '.ldf/specs')
-            );
-            const specPath = path.join(specsDir, specName);
+            const specName = answers.name;
+            const specPath = path.join(getSpecsDirectory(answers.projectPath), specName);
 
-            if (fs.existsSync(specPath)) {
-                vscode.window.showErrorMessage(`Spec '${specName}' already exists`);
+            // Project, shared or built-in template (see specTemplates.ts), with the
+            // matrix built from the guardrails loaded for the target project
+            const { templateDirs, variables } = await getTemplateContext(
+                guardrailProvider,
+                answers.projectPath,
+                specName,
+                {
+                    overview: answers.overview,
+                    userStories: answers.userStories,
+                    questionPacks: answers.questionPacks,
+                }
+            );
+            let requirementsTemplate: string;
+            try {
+                requirementsTemplate = renderSpecTemplate('requirements', templateDirs, variables);
+            } catch (err) {
+                vscode.window.showErrorMessage(`Failed to read requirements template: ${err}`);
                 return;
             }
 
@@ -94,56 +237,6 @@ export function registerCommands(
                 return;
             }
 
-            const requirementsTemplate = `# ${specName} - Requirements
-
-## Overview
-
-[Brief description of the feature]
-
-## User Stories
-
-### US-1: [Story Title]
-
-**As a** [user type]
-**I want to** [action]
-**So that** [benefit]
-
-**Acceptance Criteria:**
-- [ ] AC-1.1: [Criterion]
-- [ ] AC-1.2: [Criterion]
-
-## Question-Pack Answers
-
-### Security
-- Authentication: [answer]
-- Authorization: [answer]
-
-### Data Model
-- Tables: [answer]
-- Relationships: [answer]
-
-## Guardrail Coverage Matrix
-
-| Guardrail | Requirements | Design | Tasks/Tests | Owner | Status |
-|-----------|--------------|--------|-------------|-------|--------|
-| 1. Testing Coverage | [US-1] | [TBD] | [TBD] | [TBD] | TODO |
-| 2. Security Basics | [US-1] | [TBD] | [TBD] | [TBD] | TODO |
-| 3. Error Handling | [US-1] | [TBD] | [TBD] | [TBD] | TODO |
-| 4. Logging & Observability | [US-1] | [TBD] | [TBD] | [TBD] | TODO |
-| 5. API Design | [US-1] | [TBD] | [TBD] | [TBD] | TODO |
-| 6. Data Validation | [US-1] | [TBD] | [TBD] | [TBD] | TODO |
-| 7. Database Migrations | [US-1] | [TBD] | [TBD] | [TBD] | TODO |
-| 8. Documentation | [US-1] | [TBD] | [TBD] | [TBD] | TODO |
-
-## Dependencies
-
-- [List any dependencies]
-
-## Out of Scope
-
-- [What's explicitly not included]
-`;
-
             try {
                 fs.writeFileSync(
                     path.join(specPath, 'requirements.md'),
@@ -154,6 +247,7 @@ export function registerCommands(
                 return;
             }
 
+            await specIndex.update([specPath]);
             specProvider.refresh();
 
             // Open the new requirements file
@@ -166,6 +260,109 @@ export function registerCommands(
         })
     );
 
+    // Import specs from an issue-tracker export
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ldf.importSpec', async () => {
+            const [file] = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: 'Import',
+                filters: { 'Issue exports': ['json', 'csv'] },
+            }) ?? [];
+            if (!file) return;
+
+            let source: ImportSource;
+            let issues: ImportedIssue[];
+            try {
+                ({ source, issues } = parseIssueExport(fs.readFileSync(file.fsPath, 'utf-8'), file.fsPath));
+            } catch (err) {
+                vscode.window.showErrorMessage(`LDF: Failed to read ${path.basename(file.fsPath)}: ${err instanceof Error ? err.message : err}`);
+                return;
+            }
+            if (issues.length === 0) {
+                vscode.window.showInformationMessage(`LDF: No issues found in ${path.basename(file.fsPath)}`);
+                return;
+            }
+
+            // Default to the active project if set, otherwise the default workspace
+            const projects = specProvider.getWorkspacePaths();
+            let projectPath = getActiveProject()?.path ?? workspacePath;
+            if (projects.length > 1) {
+                const selected = await vscode.window.showQuickPick(
+                    projects.map(p => ({
+                        label: specProvider.getProjectName(p),
+                        description: p,
+                        picked: p === projectPath,
+                        projectPath: p,
+                    })),
+                    { placeHolder: 'Select project to import into' }
+                );
+                if (!selected) return;
+                projectPath = selected.projectPath;
+            }
+
+            let selectedIssues = issues;
+            if (issues.length > 1) {
+                const picked = await vscode.window.showQuickPick(
+                    issues.map(issue => ({
+                        label: issue.title,
+                        description: issue.key,
+                        detail: `${issue.criteria.length} acceptance criteria, ${issue.tasks.length} tasks`,
+                        picked: true,
+                        issue,
+                    })),
+                    { placeHolder: `Select ${source} issues to import as specs`, canPickMany: true }
+                );
+                if (!picked || picked.length === 0) return;
+                selectedIssues = picked.map(item => item.issue);
+            }
+
+            // A single issue's spec name can be edited; several get free names derived from their titles
+            const names: string[] = [];
+            if (selectedIssues.length === 1) {
+                const name = await vscode.window.showInputBox({
+                    prompt: 'Enter spec name',
+                    value: getImportedSpecName(projectPath, selectedIssues[0], names),
+                    validateInput: value => validateNewSpecName(projectPath, value),
+                });
+                if (!name) return;
+                names.push(name);
+            } else {
+                for (const issue of selectedIssues) {
+                    names.push(getImportedSpecName(projectPath, issue, names));
+                }
+            }
+
+            const created: string[] = [];
+            for (const [i, issue] of selectedIssues.entries()) {
+                const specPath = path.join(getSpecsDirectory(projectPath), names[i]);
+                try {
+                    const content = toSpecContent(issue, source);
+                    const { templateDirs, variables } = await getTemplateContext(
+                        guardrailProvider, projectPath, names[i], content
+                    );
+                    const requirements = renderSpecTemplate('requirements', templateDirs, variables);
+                    const tasks = content.tasks ? renderSpecTemplate('tasks', templateDirs, variables) : undefined;
+                    fs.mkdirSync(specPath, { recursive: true });
+                    fs.writeFileSync(path.join(specPath, 'requirements.md'), requirements);
+                    if (tasks !== undefined) {
+                        fs.writeFileSync(path.join(specPath, 'tasks.md'), tasks);
+                    }
+                    created.push(specPath);
+                } catch (err) {
+                    vscode.window.showErrorMessage(`LDF: Failed to import ${issue.key} as '${names[i]}': ${err}`);
+                }
+            }
+            if (created.length === 0) return;
+
+            await specIndex.update(created);
+            specProvider.refresh();
+            await vscode.window.showTextDocument(vscode.Uri.file(path.join(created[0], 'requirements.md')));
+            vscode.window.showInformationMessage(created.length === 1
+                ? `LDF: Imported spec '${path.basename(created[0])}' from ${source}`
+                : `LDF: Imported ${created.length} specs from ${source}`);
+        })
+    );
+
     // Lint single spec
     context.subscriptions.push(
         vscode.commands.registerCommand(
@@ -230,9 +427,7 @@ export function registerCommands(
             'ldf.openSpec',
             async (item?: SpecTreeItem) => {
                 if (!item?.specInfo) return;
-                // Use the item's workspace folder path (multi-root support)
-                const targetPath = item.specInfo.folderPath || workspacePath;
-                await openSpecFile(targetPath, item.specInfo.name, 'requirements');
+                await openSpecFile(guardrailProvider, item.specInfo, 'requirements');
             }
         )
     );
@@ -243,8 +438,7 @@ export function registerCommands(
             'ldf.openRequirements',
             async (item?: SpecTreeItem) => {
                 if (!item?.specInfo) return;
-                const targetPath = item.specInfo.folderPath || workspacePath;
-                await openSpecFile(targetPath, item.specInfo.name, 'requirements');
+                await openSpecFile(guardrailProvider, item.specInfo, 'requirements');
             }
         )
     );
@@ -255,8 +449,7 @@ export function registerCommands(
             'ldf.openDesign',
             async (item?: SpecTreeItem) => {
                 if (!item?.specInfo) return;
-                const targetPath = item.specInfo.folderPath || workspacePath;
-                await openSpecFile(targetPath, item.specInfo.name, 'design');
+                await openSpecFile(guardrailProvider, item.specInfo, 'design');
             }
         )
     );
@@ -267,12 +460,189 @@ export function registerCommands(
             'ldf.openTasks',
             async (item?: SpecTreeItem) => {
                 if (!item?.specInfo) return;
-                const targetPath = item.specInfo.folderPath || workspacePath;
-                await openSpecFile(targetPath, item.specInfo.name, 'tasks');
+                await openSpecFile(guardrailProvider, item.specInfo, 'tasks');
             }
         )
     );
 
+    // Open an additional spec document (test plan, ADR, ...), offering to create missing ones
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.openSpecDocument',
+            async (item?: SpecTreeItem | SpecDocumentItem) => {
+                const spec = item?.specInfo ?? await pickSpec(specProvider, 'Select spec');
+                if (!spec) return;
+
+                const types = specProvider.getDocumentTypes(spec.folderPath);
+                if (types.length === 0) {
+                    showNoDocumentTypesMessage();
+                    return;
+                }
+
+                const items: Array<vscode.QuickPickItem & { type: SpecDocumentType; file?: string }> = [];
+                for (const type of types) {
+                    const files = findDocumentFiles(spec.path, type);
+                    for (const file of files) {
+                        items.push({ label: `$(${type.icon}) ${type.label}`, description: file, type, file });
+                    }
+                    if (isCollection(type) || files.length === 0) {
+                        items.push({ label: `$(add) New ${type.label}...`, description: type.file, type });
+                    }
+                }
+
+                const selected = await vscode.window.showQuickPick(items, {
+                    placeHolder: `Open a document of '${spec.name}'`,
+                });
+                if (!selected) return;
+
+                if (selected.file) {
+                    await vscode.window.showTextDocument(vscode.Uri.file(path.join(spec.path, selected.file)));
+                } else {
+                    await createSpecDocument(guardrailProvider, spec, selected.type);
+                }
+            }
+        )
+    );
+
+    // Create an additional spec document from its template
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.newSpecDocument',
+            async (item?: SpecTreeItem | SpecDocumentItem) => {
+                const spec = item?.specInfo ?? await pickSpec(specProvider, 'Select spec');
+                if (!spec) return;
+
+                let type = item instanceof SpecDocumentItem ? item.documentFiles.type : undefined;
+                if (!type) {
+                    // Single documents that already exist can't be created again
+                    const types = specProvider.getDocumentTypes(spec.folderPath)
+                        .filter(t => isCollection(t) || findDocumentFiles(spec.path, t).length === 0);
+                    if (types.length === 0) {
+                        showNoDocumentTypesMessage();
+                        return;
+                    }
+                    const selected = await vscode.window.showQuickPick(
+                        types.map(t => ({ label: `$(${t.icon}) ${t.label}`, description: t.file, type: t })),
+                        { placeHolder: `New document for '${spec.name}'` }
+                    );
+                    type = selected?.type;
+                }
+                if (!type) return;
+
+                await createSpecDocument(guardrailProvider, spec, type);
+            }
+        )
+    );
+
+    // Set explicit spec status (limited to transitions the project workflow allows)
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.setSpecStatus',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo ?? await pickSpec(specProvider, 'Select spec to update');
+                if (!spec) return;
+
+                const workflow = specProvider.getWorkflow(spec.folderPath);
+                const currentLabel = getStatusLabel(workflow, spec.status);
+                const allowed = getAllowedTransitions(workflow, spec.status);
+
+                const items: Array<vscode.QuickPickItem & { status?: string }> = allowed.map(status => ({
+                    label: `$(${status.icon}) ${status.label}`,
+                    status: status.id
+                }));
+                if (spec.statusSource === 'metadata') {
+                    items.push({
+                        label: '$(discard) Infer from files',
+                        description: 'Remove the explicit status',
+                    });
+                }
+
+                if (items.length === 0) {
+                    vscode.window.showInformationMessage(
+                        `LDF: The workflow allows no transitions from ${currentLabel}`
+                    );
+                    return;
+                }
+
+                const selected = await vscode.window.showQuickPick(items, {
+                    placeHolder: `Set status for '${spec.name}' (currently ${currentLabel})`,
+                });
+                if (!selected) return;
+
+                await updateSpecStatus(spec, workflow, selected.status);
+            }
+        )
+    );
+
+    // Advance spec to the next status in the workflow
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.advanceSpecStatus',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo ?? await pickSpec(specProvider, 'Select spec to advance');
+                if (!spec) return;
+
+                const workflow = specProvider.getWorkflow(spec.folderPath);
+                const next = getNextStatus(workflow, spec.status);
+                if (!next) {
+                    vscode.window.showInformationMessage(
+                        `LDF: '${spec.name}' is ${getStatusLabel(workflow, spec.status)} and cannot be advanced`
+                    );
+                    return;
+                }
+
+                await updateSpecStatus(spec, workflow, next.id);
+            }
+        )
+    );
+
+    /**
+     * Persist a spec's explicit status and refresh the views.
+     * Passing undefined clears the explicit status so heuristics apply again.
+     * Transitions the workflow does not allow are rejected.
+     */
+    async function updateSpecStatus(
+        spec: SpecInfo,
+        workflow: SpecWorkflow,
+        status: string | undefined
+    ): Promise<void> {
+        if (status !== undefined && !canTransition(workflow, spec.status, status)) {
+            vscode.window.showErrorMessage(
+                `LDF: Cannot move '${spec.name}' from ${getStatusLabel(workflow, spec.status)} ` +
+                `to ${getStatusLabel(workflow, status)}`
+            );
+            return;
+        }
+
+        // Documents the new status requires (see specDocuments.ts)
+        const missing = status === undefined ? [] : getRequiredDocuments(
+            specProvider.getDocumentTypes(spec.folderPath), workflow, status
+        ).filter(type => findDocumentFiles(spec.path, type).length === 0);
+        if (missing.length > 0) {
+            const action = await vscode.window.showWarningMessage(
+                `LDF: ${getStatusLabel(workflow, status!)} requires ${missing.map(t => t.file).join(', ')}, ` +
+                `which '${spec.name}' doesn't have.`,
+                { modal: true },
+                'Set Anyway'
+            );
+            if (action !== 'Set Anyway') return;
+        }
+
+        try {
+            writeSpecStatus(spec.path, status);
+        } catch (err) {
+            vscode.window.showErrorMessage(`LDF: Failed to update status for '${spec.name}': ${err}`);
+            return;
+        }
+
+        await specIndex.update([spec.path]);
+        specProvider.refresh();
+        taskProvider.refresh();
+
+        const label = status ? getStatusLabel(workflow, status) : 'inferred from files';
+        vscode.window.showInformationMessage(`LDF: '${spec.name}' status set to ${label}`);
+    }
+
     // Run audit
     context.subscriptions.push(
         vscode.commands.registerCommand(
@@ -368,7 +738,7 @@ export function registerCommands(
 
                 // Show all specs with their status, not just DONE specs
                 const specsInfo = guardrail.specCoverage.length > 0
-                    ? guardrail.specCoverage.map(sc => `${sc.specName} (${sc.status})`).join(', ')
+                    ? guardrail.specCoverage.map(sc => `${sc.specName} (${[sc.status, ...sc.owners ?? []].join(', ')})`).join('; ')
                     : 'No specs';
 
                 const message = [
@@ -484,6 +854,7 @@ lint:
 `;
             fs.writeFileSync(configFile, configYaml);
 
+            await specIndex.update([specsDir]);
             specProvider.refresh();
             guardrailProvider.refresh();
             taskProvider.refresh();
@@ -601,6 +972,307 @@ lint:
         })
     );
 
+    // Dashboard
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ldf.openDashboard', () => {
+            DashboardPanel.createOrShow({ specProvider, guardrailProvider, taskProvider });
+        })
+    );
+
+    // Archive a spec
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.archiveSpec',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo
+                    ?? await pickSpec(specProvider, 'Select spec to archive', s => !s.archived);
+                if (!spec || spec.archived) return;
+
+                try {
+                    archiveSpec(path.dirname(spec.path), spec.name);
+                } catch (err) {
+                    vscode.window.showErrorMessage(`LDF: Failed to archive spec: ${err instanceof Error ? err.message : err}`);
+                    return;
+                }
+                await specIndex.update([path.dirname(spec.path)]);
+                specProvider.refresh();
+                guardrailProvider.refresh();
+                taskProvider.refresh();
+                vscode.window.showInformationMessage(`LDF: Archived spec '${spec.name}'`);
+            }
+        )
+    );
+
+    // Restore an archived spec
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.restoreSpec',
+            async (item?: SpecTreeItem) => {
+                let specsDir: string;
+                let specName: string;
+
+                if (item?.specInfo?.archived) {
+                    // Archived spec dirs are <specsDir>/_archive/<name>
+                    specsDir = path.dirname(path.dirname(item.specInfo.path));
+                    specName = item.specInfo.name;
+                } else {
+                    // Archived specs are usually hidden, so list them from disk
+                    const config = vscode.workspace.getConfiguration('ldf');
+                    const specsPath = config.get('specsDirectory', '.ldf/specs');
+                    const activeProject = getActiveProject();
+                    const roots = activeProject ? [activeProject.path] : specProvider.getWorkspacePaths();
+                    const isMultiRoot = roots.length > 1;
+
+                    const candidates = roots.flatMap(root =>
+                        listArchivedSpecs(path.join(root, specsPath)).map(entry => ({
+                            label: entry.name,
+                            description: isMultiRoot ? path.basename(root) : undefined,
+                            specsDir: path.join(root, specsPath),
+                        }))
+                    );
+                    if (candidates.length === 0) {
+                        vscode.window.showInformationMessage('LDF: No archived specs found');
+                        return;
+                    }
+
+                    const selected = await vscode.window.showQuickPick(candidates, {
+                        placeHolder: 'Select archived spec to restore',
+                    });
+                    if (!selected) return;
+                    specsDir = selected.specsDir;
+                    specName = selected.label;
+                }
+
+                try {
+                    restoreSpec(specsDir, specName);
+                } catch (err) {
+                    vscode.window.showErrorMessage(`LDF: Failed to restore spec: ${err instanceof Error ? err.message : err}`);
+                    return;
+                }
+                await specIndex.update([specsDir]);
+                specProvider.refresh();
+                guardrailProvider.refresh();
+                taskProvider.refresh();
+                vscode.window.showInformationMessage(`LDF: Restored spec '${specName}'`);
+            }
+        )
+    );
+
+    // Rename a spec, rewriting references to it
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.renameSpec',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo
+                    ?? await pickSpec(specProvider, 'Select spec to rename', s => !s.archived);
+                if (!spec || spec.archived || !spec.folderPath) return;
+
+                const newName = await promptSpecName(spec.folderPath, spec.name, spec.name);
+                if (!newName || newName === spec.name) return;
+
+                if (await renameSpecFolder(specProvider, spec, newName, spec.folderPath)) {
+                    await specIndex.update(specProvider.getWorkspacePaths().map(getSpecsDirectory));
+                    specProvider.refresh();
+                    guardrailProvider.refresh();
+                    taskProvider.refresh();
+                    vscode.window.showInformationMessage(`LDF: Renamed spec '${spec.name}' to '${newName}'`);
+                }
+            }
+        )
+    );
+
+    // Move a spec to another project, rewriting references to it
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.moveSpec',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo
+                    ?? await pickSpec(specProvider, 'Select spec to move', s => !s.archived);
+                if (!spec || spec.archived || !spec.folderPath) return;
+
+                const targets = specProvider.getWorkspacePaths().filter(p => p !== spec.folderPath);
+                if (targets.length === 0) {
+                    vscode.window.showInformationMessage('LDF: No other LDF project to move the spec to');
+                    return;
+                }
+                const target = await vscode.window.showQuickPick(
+                    targets.map(p => ({ label: specProvider.getProjectName(p), description: p, projectPath: p })),
+                    { placeHolder: `Move '${spec.name}' to project` }
+                );
+                if (!target) return;
+
+                const newName = await promptSpecName(target.projectPath, spec.name);
+                if (!newName) return;
+
+                if (await renameSpecFolder(specProvider, spec, newName, target.projectPath)) {
+                    await specIndex.update(specProvider.getWorkspacePaths().map(getSpecsDirectory));
+                    specProvider.refresh();
+                    guardrailProvider.refresh();
+                    taskProvider.refresh();
+                    vscode.window.showInformationMessage(`LDF: Moved spec '${spec.name}' to ${target.label}/${newName}`);
+                }
+            }
+        )
+    );
+
+    // Duplicate a spec (into any project) as the start of a new feature
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.duplicateSpec',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo ?? await pickSpec(specProvider, 'Select spec to duplicate');
+                if (!spec?.folderPath) return;
+
+                let targetProjectPath = spec.folderPath;
+                const projects = specProvider.getWorkspacePaths();
+                if (projects.length > 1) {
+                    const target = await vscode.window.showQuickPick(
+                        projects.map(p => ({
+                            label: specProvider.getProjectName(p),
+                            description: p === spec.folderPath ? 'current project' : p,
+                            projectPath: p,
+                        })),
+                        { placeHolder: `Duplicate '${spec.name}' into project` }
+                    );
+                    if (!target) return;
+                    targetProjectPath = target.projectPath;
+                }
+
+                const newName = await promptSpecName(targetProjectPath, `${spec.name}-copy`);
+                if (!newName) return;
+
+                if (duplicateSpecFolder(specProvider, spec, newName, targetProjectPath)) {
+                    const newPath = path.join(getSpecsDirectory(targetProjectPath), newName);
+                    await specIndex.update([newPath]);
+                    specProvider.refresh();
+                    guardrailProvider.refresh();
+                    taskProvider.refresh();
+                    await vscode.window.showTextDocument(vscode.Uri.file(path.join(newPath, 'requirements.md')));
+                    vscode.window.showInformationMessage(`LDF: Duplicated '${spec.name}' as '${newName}'`);
+                }
+            }
+        )
+    );
+
+    // Show / hide archived specs in the Specs and Tasks views
+    const setShowArchived = (show: boolean) => vscode.workspace
+        .getConfiguration('ldf')
+        .update('showArchivedSpecs', show, vscode.ConfigurationTarget.Workspace);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ldf.showArchivedSpecs', () => setShowArchived(true)),
+        vscode.commands.registerCommand('ldf.hideArchivedSpecs', () => setShowArchived(false))
+    );
+
+    // Spec dependency graph
+    context.subscriptions.push(
+        vscode.commands.registerCommand('ldf.showDependencyGraph', () => {
+            DependencyGraphPanel.createOrShow(specProvider);
+        })
+    );
+
+    // Spec history from git
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.showSpecHistory',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo ?? await pickSpec(specProvider, 'Select spec to show the history of');
+                if (!spec) return;
+                SpecHistoryPanel.createOrShow(spec, specProvider.getWorkflow(spec.folderPath));
+            }
+        )
+    );
+
+    // Semantic diff of a spec between two git revisions
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(
+            SpecRevisionContentProvider.scheme,
+            new SpecRevisionContentProvider()
+        ),
+        vscode.commands.registerCommand(
+            'ldf.compareSpecRevisions',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo ?? await pickSpec(specProvider, 'Select spec to compare');
+                if (!spec) return;
+
+                let commits: SpecCommit[];
+                try {
+                    commits = await listSpecCommits(spec.path, MAX_REVISION_CHOICES);
+                } catch (err) {
+                    vscode.window.showErrorMessage(
+                        `LDF: Could not read the git history of '${spec.name}': ${err instanceof Error ? err.message : err}`
+                    );
+                    return;
+                }
+
+                const base = await pickSpecRevision(spec.path, commits, `Compare '${spec.name}' from`, false);
+                if (!base) return;
+                const target = await pickSpecRevision(spec.path, commits, `Compare '${spec.name}' (${base.label}) to`, true);
+                if (!target) return;
+
+                const readVersion = async (revision: SpecRevisionRef): Promise<SpecVersion> => {
+                    const read = (file: string) => revision.ref
+                        ? readSpecFileAt(spec.path, revision.ref, file)
+                        : Promise.resolve(fs.existsSync(path.join(spec.path, file))
+                            ? fs.readFileSync(path.join(spec.path, file), 'utf-8')
+                            : undefined);
+                    return { requirements: await read('requirements.md'), tasks: await read('tasks.md') };
+                };
+                const diff = diffSpecVersions(await readVersion(base), await readVersion(target));
+                SpecDiffPanel.createOrShow(spec.name, spec.path, base, target, diff);
+            }
+        )
+    );
+
+    // Export a spec or a whole project for readers without VS Code
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'ldf.exportSpec',
+            async (item?: SpecTreeItem) => {
+                const spec = item?.specInfo ?? await pickSpec(specProvider, 'Select spec to export');
+                if (!spec?.folderPath) return;
+
+                await exportSpecs(spec.folderPath, {
+                    title: spec.name,
+                    generatedAt: new Date().toISOString(),
+                    specs: [toExportedSpec(specProvider, spec)],
+                });
+            }
+        ),
+        vscode.commands.registerCommand(
+            'ldf.exportProject',
+            async () => {
+                const projects = [...new Set(specProvider.getSpecs().map(s => s.folderPath!))];
+                if (projects.length === 0) {
+                    vscode.window.showInformationMessage('LDF: No specs to export');
+                    return;
+                }
+                let projectPath = projects[0];
+                if (projects.length > 1) {
+                    const selected = await vscode.window.showQuickPick(
+                        projects.map(p => ({ label: specProvider.getProjectName(p), description: p, projectPath: p })),
+                        { placeHolder: 'Select project to export' }
+                    );
+                    if (!selected) return;
+                    projectPath = selected.projectPath;
+                }
+
+                await exportSpecs(projectPath, {
+                    title: specProvider.getProjectName(projectPath),
+                    generatedAt: new Date().toISOString(),
+                    specs: specProvider.getSpecs()
+                        .filter(s => s.folderPath === projectPath)
+                        .map(s => toExportedSpec(specProvider, s)),
+                    guardrails: guardrailProvider.getCoverageForWorkspace(projectPath).map(cov => ({
+                        id: cov.guardrail.id,
+                        name: cov.guardrail.name,
+                        severity: cov.guardrail.severity,
+                        status: cov.status,
+                    })),
+                });
+            }
+        )
+    );
+
     // Workspace report command
     context.subscriptions.push(
         vscode.commands.registerCommand('ldf.workspaceReport', async () => {
@@ -643,6 +1315,7 @@ lint:
             outputChannel.appendLine('  Projects');
             outputChannel.appendLine('───────────────────────────────────────────────────');
 
+            const ownedSpecs: OwnedSpec[] = [];
             for (const project of projects) {
                 const projectPath = path.resolve(wsRoot, project.path);
                 const initialized = isLdfProject(projectPath);
@@ -659,10 +1332,31 @@ lint:
                     const specsDir = path.join(projectPath, '.ldf', 'specs');
                     if (fs.existsSync(specsDir)) {
                         try {
-                            const specFolders = fs.readdirSync(specsDir, { withFileTypes: true })
-                                .filter(d => d.isDirectory())
-                                .length;
-                            outputChannel.appendLine(`    Specs: ${specFolders}`);
+                            // Spec info is read from the spec index, which may not have this project yet
+                            await specIndex.load([specsDir]);
+                            const specFolders = listSpecDirs(specsDir).map(d => d.name);
+                            const archivedCount = listArchivedSpecs(specsDir).length;
+                            outputChannel.appendLine(
+                                `    Specs: ${specFolders.length}` + (archivedCount > 0 ? ` (${archivedCount} archived)` : '')
+                            );
+
+                            // Status breakdown using the project's own workflow
+                            const { workflow } = loadSpecWorkflow(projectPath);
+                            const statusCounts = new Map<string, number>();
+                            for (const specName of specFolders) {
+                                const spec = loadSpecInfo(specName, path.join(specsDir, specName), workflow);
+                                statusCounts.set(spec.status, (statusCounts.get(spec.status) ?? 0) + 1);
+                                ownedSpecs.push(readOwnedSpec(
+                                    projects.length > 1 ? `${project.alias}/${specName}` : specName,
+                                    spec.path
+                                ));
+                            }
+                            const breakdown = [...workflow.statuses.map(st => st.id), ...statusCounts.keys()]
+                                .filter((id, i, ids) => ids.indexOf(id) === i && statusCounts.has(id))
+                                .map(id => `${getStatusLabel(workflow, id)}: ${statusCounts.get(id)}`);
+                            if (breakdown.length > 0) {
+                                outputChannel.appendLine(`    Spec Status: ${breakdown.join(', ')}`);
+                            }
                         } catch {
                             outputChannel.appendLine(`    Specs: (unable to read)`);
                         }
@@ -672,6 +1366,36 @@ lint:
                 }
             }
 
+            outputChannel.appendLine('');
+            outputChannel.appendLine('───────────────────────────────────────────────────');
+            outputChannel.appendLine('  Owners');
+            outputChannel.appendLine('───────────────────────────────────────────────────');
+
+            const rollup = buildOwnerRollup(ownedSpecs);
+            if (rollup.length === 0) {
+                outputChannel.appendLine('');
+                outputChannel.appendLine('  No owners assigned (spec owner:, Owner line, matrix Owner column or @name in tasks)');
+            }
+            for (const owner of rollup) {
+                outputChannel.appendLine('');
+                outputChannel.appendLine(`  ${owner.owner}`);
+                if (owner.specs.length > 0) {
+                    outputChannel.appendLine(`    Specs: ${owner.specs.join(', ')}`);
+                }
+                if (owner.contributesTo.length > 0) {
+                    outputChannel.appendLine(`    Contributes to: ${owner.contributesTo.join(', ')}`);
+                }
+                if (owner.openTasks + owner.completedTasks > 0) {
+                    outputChannel.appendLine(`    Tasks: ${owner.openTasks} open, ${owner.completedTasks} complete`);
+                }
+                if (owner.coverageRows > 0) {
+                    outputChannel.appendLine(
+                        `    Guardrail Rows: ${owner.coverageRows}` +
+                        (owner.coverageGaps > 0 ? ` (${owner.coverageGaps} not DONE or N/A)` : '')
+                    );
+                }
+            }
+
             outputChannel.appendLine('');
             outputChannel.appendLine('───────────────────────────────────────────────────');
             outputChannel.appendLine('  Shared Resources');
@@ -722,120 +1446,439 @@ lint:
     );
 }
 
-async function openSpecFile(
-    workspacePath: string,
-    specName: string,
-    fileType: 'requirements' | 'design' | 'tasks'
-): Promise<void> {
-    const config = vscode.workspace.getConfiguration('ldf');
-    const specsDir = path.join(
-        workspacePath,
-        config.get('specsDirectory', '.ldf/specs')
+/**
+ * Prompt the user to pick a spec, showing the workspace folder in multi-root mode.
+ */
+async function pickSpec(
+    specProvider: SpecTreeProvider,
+    placeHolder: string,
+    filter: (spec: SpecInfo) => boolean = () => true
+): Promise<SpecInfo | undefined> {
+    const specs = specProvider.getSpecs().filter(filter);
+    const isMultiRoot = specs.some(s => s.folderName);
+
+    const selected = await vscode.window.showQuickPick(
+        specs.map((s) => ({
+            label: s.name,
+            description: isMultiRoot ? s.folderName : undefined,
+            spec: s
+        })),
+        { placeHolder }
     );
-    const filePath = path.join(specsDir, specName, `${fileType}.md`);
 
-    if (!fs.existsSync(filePath)) {
-        const create = await vscode.window.showQuickPick(['Create', 'Cancel'], {
-            placeHolder: `${fileType}.md doesn't exist. Create it?`,
-        });
+    return selected?.spec;
+}
 
-        if (create !== 'Create') return;
+/**
+ * The specs directory of a project (ldf.specsDirectory).
+ */
+function getSpecsDirectory(projectPath: string): string {
+    return path.join(projectPath, vscode.workspace.getConfiguration('ldf').get('specsDirectory', '.ldf/specs'));
+}
 
-        // Create with template
-        const templates: Record<string, string> = {
-            design: `# ${specName} - Design
+/**
+ * Collect what an export shows of a spec: status, progress, coverage matrix and documents.
+ */
+function toExportedSpec(specProvider: SpecTreeProvider, spec: SpecInfo): ExportedSpec {
+    const read = (file: string) => {
+        const filePath = path.join(spec.path, file);
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+    };
+    const requirements = read('requirements.md');
+    return {
+        name: spec.name,
+        project: specProvider.getProjectName(spec.folderPath!),
+        status: spec.status,
+        statusLabel: getStatusLabel(specProvider.getWorkflow(spec.folderPath), spec.status),
+        archived: !!spec.archived,
+        taskProgress: spec.taskProgress,
+        coverage: parseCoverageMatrix(requirements ?? ''),
+        documents: { requirements, design: read('design.md'), tasks: read('tasks.md') },
+    };
+}
 
-## Architecture Overview
+/**
+ * Ask for a format and file (defaulting to the project's reports directory) and write the export.
+ */
+async function exportSpecs(projectPath: string, bundle: ExportBundle): Promise<void> {
+    const formats: Array<vscode.QuickPickItem & { format: ExportFormat }> = [
+        { label: 'HTML', description: 'Single self-contained page', format: 'html' },
+        { label: 'Markdown', description: 'Documents concatenated into one file', format: 'markdown' },
+        { label: 'JSON', description: 'Machine-readable document', format: 'json' },
+    ];
+    const selected = await vscode.window.showQuickPick(formats, { placeHolder: `Export '${bundle.title}' as` });
+    if (!selected) return;
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(getReportsDir(projectPath), getExportFileName(bundle.title, selected.format))),
+        filters: { [selected.label]: [EXPORT_EXTENSIONS[selected.format].slice(1)] },
+        saveLabel: 'Export',
+    });
+    if (!uri) return;
 
-[High-level architecture description]
+    try {
+        fs.mkdirSync(path.dirname(uri.fsPath), { recursive: true });
+        fs.writeFileSync(uri.fsPath, renderExport(bundle, selected.format));
+    } catch (err) {
+        vscode.window.showErrorMessage(`LDF: Failed to export '${bundle.title}': ${err instanceof Error ? err.message : err}`);
+        return;
+    }
 
-## Components
+    const action = await vscode.window.showInformationMessage(
+        `LDF: Exported '${bundle.title}' to ${uri.fsPath}`,
+        'Open'
+    );
+    if (action === 'Open') {
+        if (selected.format === 'html') {
+            vscode.env.openExternal(uri);
+        } else {
+            vscode.window.showTextDocument(uri);
+        }
+    }
+}
 
-### Component 1
+// Commits offered when picking a revision to compare
+const MAX_REVISION_CHOICES = 50;
 
-**Purpose:** [What it does]
+/**
+ * Pick a revision of a spec: one of the commits touching it, the working
+ * tree (when allowed) or any branch, tag or commit typed in.
+ */
+async function pickSpecRevision(
+    specPath: string,
+    commits: SpecCommit[],
+    placeHolder: string,
+    includeWorkingTree: boolean
+): Promise<SpecRevisionRef | undefined> {
+    type RevisionItem = vscode.QuickPickItem & { revision?: SpecRevisionRef };
+    const items: RevisionItem[] = [];
+    if (includeWorkingTree) {
+        items.push({ label: '$(file) Working Tree', description: 'Current files', revision: { label: 'Working Tree' } });
+    }
+    items.push(...commits.map(commit => ({
+        label: `$(git-commit) ${commit.hash.slice(0, 7)}`,
+        description: commit.subject,
+        detail: `${commit.author}, ${new Date(commit.date).toLocaleString()}`,
+        revision: { ref: commit.hash, label: commit.hash.slice(0, 7) },
+    })));
+    items.push({ label: '$(edit) Branch, tag or commit...', alwaysShow: true });
+
+    const selected = await vscode.window.showQuickPick(items, { placeHolder, matchOnDescription: true });
+    if (!selected || selected.revision) {
+        return selected?.revision;
+    }
 
-**Interface:**
-\`\`\`typescript
-interface Component1 {
-  // Define interface
+    const ref = await vscode.window.showInputBox({
+        prompt: 'Branch, tag or commit',
+        placeHolder: 'main',
+        validateInput: value => value.trim() ? null : 'Enter a revision',
+    });
+    if (!ref) return undefined;
+    try {
+        return { ref: await resolveRevision(specPath, ref.trim()), label: ref.trim() };
+    } catch {
+        vscode.window.showErrorMessage(`LDF: '${ref.trim()}' is not a branch, tag or commit`);
+        return undefined;
+    }
 }
-\`\`\`
-
-## Data Model
 
-### Entity 1
-
-| Field | Type | Constraints |
-|-------|------|-------------|
-| id | UUID | PK |
+/**
+ * Owners of a spec, its tasks and its coverage matrix rows (see specOwners.ts).
+ */
+function readOwnedSpec(name: string, specPath: string): OwnedSpec {
+    const read = (file: string) => {
+        try {
+            return fs.readFileSync(path.join(specPath, file), 'utf-8');
+        } catch {
+            return '';
+        }
+    };
+    const requirements = read('requirements.md');
+    return {
+        name,
+        owners: [...new Set([...readSpecMetadata(specPath).owners ?? [], ...parseOwnerLine(requirements)])],
+        tasks: parseTasksContent(name, read('tasks.md')),
+        coverage: parseCoverageMatrix(requirements).map(row => ({ owners: row.owners, isGap: isCoverageGap(row.status) })),
+    };
+}
 
-## API Endpoints
+/**
+ * Validation message for the name of a new spec folder (create, import,
+ * duplicate, rename and move), or null when it's valid and free in the
+ * project's specs directory.
+ */
+function validateNewSpecName(projectPath: string, value: string): string | null {
+    if (!value) return 'Spec name is required';
+    if (!/^[a-z0-9-]+$/.test(value)) {
+        return 'Use lowercase letters, numbers, and hyphens only';
+    }
+    const specsDir = getSpecsDirectory(projectPath);
+    if (fs.existsSync(path.join(specsDir, value))) {
+        return `Spec '${value}' already exists`;
+    }
+    if (fs.existsSync(getSpecDir(specsDir, value, true))) {
+        return `An archived spec named '${value}' already exists`;
+    }
+    return null;
+}
 
-### POST /api/v1/resource
+/**
+ * A free spec name for an imported issue, derived from its title (or key),
+ * with a numeric suffix when taken.
+ * @param reserved Names already chosen for other issues of the same import
+ */
+function getImportedSpecName(projectPath: string, issue: ImportedIssue, reserved: string[]): string {
+    const base = toSpecName(issue.title) || toSpecName(`issue-${issue.key}`) || 'imported-spec';
+    let name = base;
+    for (let n = 2; reserved.includes(name) || validateNewSpecName(projectPath, name); n++) {
+        name = `${base}-${n}`;
+    }
+    return name;
+}
 
-**Request:**
-\`\`\`json
-{
-  "field": "value"
+/**
+ * Ask for a spec name that is free in a project's specs directory.
+ * @param currentName Name allowed to stay unchanged (when renaming in place)
+ */
+async function promptSpecName(
+    projectPath: string,
+    value: string,
+    currentName?: string
+): Promise<string | undefined> {
+    return vscode.window.showInputBox({
+        prompt: 'Enter spec name',
+        value,
+        validateInput: (input) => input === currentName ? null : validateNewSpecName(projectPath, input),
+    });
 }
-\`\`\`
 
-**Response:**
-\`\`\`json
-{
-  "id": "uuid"
+/**
+ * Copy a spec folder under a new name (optionally into another project),
+ * with tasks unchecked, coverage statuses reset and references rewritten
+ * (see specDuplicate.ts). The explicit status, if any, is cleared.
+ */
+function duplicateSpecFolder(
+    specProvider: SpecTreeProvider,
+    spec: SpecInfo,
+    newName: string,
+    targetProjectPath: string
+): boolean {
+    const newPath = path.join(getSpecsDirectory(targetProjectPath), newName);
+    try {
+        const files = listSpecFiles(spec.path);
+        const plan = planSpecDuplicate({
+            spec: { path: spec.path, name: spec.name, projectPath: spec.folderPath! },
+            newName,
+            targetProjectPath,
+            graph: specProvider.getDependencyGraph(),
+            files,
+            getProjectName: p => specProvider.getProjectName(p),
+            readFile: filePath => fs.readFileSync(filePath, 'utf-8'),
+        });
+
+        for (const file of files) {
+            const target = path.join(newPath, file);
+            fs.mkdirSync(path.dirname(target), { recursive: true });
+            const content = plan.get(file);
+            if (content !== undefined) {
+                fs.writeFileSync(target, content);
+            } else {
+                fs.copyFileSync(path.join(spec.path, file), target);
+            }
+        }
+        if (readSpecMetadata(spec.path).status) {
+            writeSpecStatus(newPath, undefined);
+        }
+    } catch (err) {
+        vscode.window.showErrorMessage(`LDF: Failed to duplicate '${spec.name}': ${err}`);
+        return false;
+    }
+    return true;
 }
-\`\`\`
 
-## Guardrail Mapping
+/**
+ * Rename a spec folder (optionally into another project) and rewrite
+ * references to it in the markdown of every spec in the workspace's projects
+ * (including sub-folders like adr/), as one undoable edit.
+ */
+async function renameSpecFolder(
+    specProvider: SpecTreeProvider,
+    spec: SpecInfo,
+    newName: string,
+    targetProjectPath: string
+): Promise<boolean> {
+    const specsPath = vscode.workspace.getConfiguration('ldf').get('specsDirectory', '.ldf/specs');
+    const targetSpecsDir = path.join(targetProjectPath, specsPath);
+    const newPath = getSpecDir(targetSpecsDir, newName);
+
+    // Other projects of an ldf-workspace.yaml workspace can reference the spec as project:spec
+    const projects = [...new Set([...specProvider.getWorkspacePaths(), spec.folderPath!, targetProjectPath])];
+    const markdownFiles = projects
+        .flatMap(projectPath => listSpecDirs(path.join(projectPath, specsPath), true))
+        .flatMap(dir => listSpecFiles(dir.path)
+            .filter(file => file.endsWith('.md'))
+            .map(file => path.join(dir.path, file)));
+
+    let plan: Map<string, TextReplacement[]>;
+    try {
+        plan = planSpecRename({
+            spec: { path: spec.path, name: spec.name, projectPath: spec.folderPath! },
+            newName,
+            targetProjectPath,
+            graph: specProvider.getDependencyGraph(),
+            markdownFiles,
+            getProjectName: projectPath => specProvider.getProjectName(projectPath),
+            // Prefer open editors so unsaved changes don't shift the edit ranges
+            readFile: filePath => vscode.workspace.textDocuments
+                .find(doc => doc.uri.fsPath === filePath)?.getText()
+                ?? fs.readFileSync(filePath, 'utf-8'),
+        });
+    } catch (err) {
+        vscode.window.showErrorMessage(`LDF: Failed to update spec references: ${err instanceof Error ? err.message : err}`);
+        return false;
+    }
 
-| Guardrail | Implementation | Section |
-|-----------|---------------|---------|
-| 1. Testing | Unit tests + Integration | [T-1] |
+    // Text edits use the current locations, so they come before the folder rename
+    const edit = new vscode.WorkspaceEdit();
+    for (const [filePath, replacements] of plan) {
+        for (const r of replacements) {
+            edit.replace(vscode.Uri.file(filePath), new vscode.Range(r.line, r.start, r.line, r.end), r.newText);
+        }
+    }
+    fs.mkdirSync(targetSpecsDir, { recursive: true });
+    edit.renameFile(vscode.Uri.file(spec.path), vscode.Uri.file(newPath));
 
-## Security Considerations
+    if (!await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+        vscode.window.showErrorMessage(`LDF: Failed to rename spec '${spec.name}'`);
+        return false;
+    }
 
-- [Security consideration 1]
-`,
-            tasks: `# ${specName} - Tasks
+    // Save the rewritten documents so the views (which read them from the spec index) pick them up
+    for (const filePath of plan.keys()) {
+        const relative = path.relative(spec.path, filePath);
+        const finalPath = relative.startsWith('..') ? filePath : path.join(newPath, relative);
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === finalPath);
+        await document?.save();
+    }
+    return true;
+}
 
-## Phase 1: Setup
+async function openSpecFile(
+    guardrailProvider: GuardrailTreeProvider,
+    spec: SpecInfo,
+    fileType: SpecTemplateName
+): Promise<void> {
+    const filePath = path.join(spec.path, `${fileType}.md`);
 
-- [ ] **Task 1.1:** Create initial structure
-- [ ] **Task 1.2:** Set up dependencies
+    if (!fs.existsSync(filePath)) {
+        const create = await vscode.window.showQuickPick(['Create', 'Cancel'], {
+            placeHolder: `${fileType}.md doesn't exist. Create it?`,
+        });
 
-## Phase 2: Implementation
+        if (create !== 'Create') return;
 
-- [ ] **Task 2.1:** Implement core functionality
-- [ ] **Task 2.2:** Add error handling
-- [ ] **Task 2.3:** Add validation
+        // Create from the project, shared or built-in template
+        const projectPath = spec.folderPath ?? path.dirname(path.dirname(spec.path));
+        const { templateDirs, variables } = await getTemplateContext(guardrailProvider, projectPath, spec.name);
+        try {
+            fs.writeFileSync(filePath, renderSpecTemplate(fileType, templateDirs, variables));
+        } catch (err) {
+            vscode.window.showErrorMessage(`LDF: Failed to create ${fileType}.md: ${err}`);
+            return;
+        }
+    }
 
-## Phase 3: Testing
+    const doc = await vscode.workspace.openTextDocument(filePath);
+    await vscode.window.showTextDocument(doc);
+}
 
-- [ ] **Task 3.1:** Write unit tests
-- [ ] **Task 3.2:** Write integration tests
+/**
+ * Create an additional spec document from its type's template and open it.
+ * Collections (e.g. adr/*.md) prompt for the new file's name.
+ */
+async function createSpecDocument(
+    guardrailProvider: GuardrailTreeProvider,
+    spec: SpecInfo,
+    type: SpecDocumentType
+): Promise<void> {
+    let name: string | undefined;
+    if (isCollection(type)) {
+        name = await vscode.window.showInputBox({
+            prompt: `Name of the new ${type.label} (${type.file})`,
+            placeHolder: 'e.g., 0001-use-postgres',
+            validateInput: (value) => {
+                if (!isValidSpecName(value)) {
+                    return 'Use only letters, numbers, hyphens, underscores, and dots.';
+                }
+                if (fs.existsSync(path.join(spec.path, getDocumentPath(type, value)))) {
+                    return `${getDocumentPath(type, value)} already exists`;
+                }
+                return null;
+            },
+        });
+        if (!name) return;
+    }
 
-## Phase 4: Documentation
+    const filePath = path.join(spec.path, getDocumentPath(type, name));
+    if (!fs.existsSync(filePath)) {
+        try {
+            const projectPath = spec.folderPath ?? path.dirname(path.dirname(spec.path));
+            const { templateDirs, variables } = await getTemplateContext(guardrailProvider, projectPath, spec.name);
+            const content = renderDocumentTemplate(projectPath, type, templateDirs, variables, name);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, content);
+        } catch (err) {
+            vscode.window.showErrorMessage(`LDF: Failed to create ${getDocumentPath(type, name)}: ${err}`);
+            return;
+        }
+    }
 
-- [ ] **Task 4.1:** Update API documentation
-- [ ] **Task 4.2:** Add inline comments
+    await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+}
 
-## Completion Checklist
+function showNoDocumentTypesMessage(): void {
+    vscode.window.showInformationMessage(
+        'LDF: No additional spec documents are declared. Add them under spec_documents in .ldf/config.yaml ' +
+        'or to the ldf.specDocuments setting.'
+    );
+}
 
-- [ ] All tasks completed
-- [ ] Tests passing
-- [ ] Documentation updated
-- [ ] Code reviewed
-`,
-        };
+/**
+ * Template directories and variables for a new document of a spec (see specTemplates.ts).
+ * Shared templates are included when the workspace manifest inherits them. The
+ * preset and the coverage matrix rows come from the guardrails loaded for the project.
+ */
+async function getTemplateContext(
+    guardrailProvider: GuardrailTreeProvider,
+    projectPath: string,
+    specName: string,
+    content: RequirementsContent & TasksContent = {}
+): Promise<{ templateDirs: string[]; variables: Record<string, string> }> {
+    const [author] = await getGitUserIdentities(projectPath, ['user.name']);
+    const { guardrails, preset } = guardrailProvider.getGuardrailsForWorkspace(projectPath);
+
+    return {
+        templateDirs: getTemplateDirs(projectPath, getSharedDir(projectPath, 'templates')),
+        variables: {
+            ...createTemplateVariables(specName, author ?? '', preset ?? ''),
+            ...createRequirementsVariables({ guardrails: guardrails.filter(g => g.enabled), ...content }),
+            ...createTasksVariables(content),
+        },
+    };
+}
 
-        const template = templates[fileType] || `# ${specName} - ${fileType}\n\n`;
-        fs.writeFileSync(filePath, template);
+/**
+ * A directory of the workspace's shared resources (.ldf-shared/<name>), when
+ * the workspace manifest inherits that kind of resource.
+ */
+function getSharedDir(projectPath: string, name: 'templates' | 'question-packs'): string | undefined {
+    const workspaceInfo = detectWorkspaceContext(projectPath);
+    if (!workspaceInfo) {
+        return undefined;
     }
-
-    const doc = await vscode.workspace.openTextDocument(filePath);
-    await vscode.window.showTextDocument(doc);
+    const { shared } = workspaceInfo.manifest;
+    const inherited = name === 'templates' ? shared.inheritTemplates : shared.inheritQuestionPacks;
+    return inherited ? path.join(workspaceInfo.root, shared.path, name) : undefined;
 }
 
 function getLdfCommand(): string {
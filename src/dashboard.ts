@@ -0,0 +1,282 @@
+/**
+ * LDF Dashboard Webview
+ *
+ * Project overview in a single panel:
+ * - Totals and per-spec task progress bars
+ * - Spec status distribution
+ * - Guardrails × specs coverage heatmap
+ * - Next open task of each spec
+ *
+ * The panel listens to the three tree providers, so it updates whenever
+ * refreshAll() runs (file watchers, refresh command, project switch).
+ * Data is posted to the webview rather than re-rendering the HTML, which
+ * keeps the scroll position across updates.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecTreeProvider } from './specView';
+import { GuardrailTreeProvider } from './guardrailView';
+import { TaskTreeProvider } from './taskView';
+import { buildDashboardData } from './dashboardData';
+import { getNonce } from './utils';
+import { getSpecDir } from './specArchive';
+
+interface DashboardProviders {
+    specProvider: SpecTreeProvider;
+    guardrailProvider: GuardrailTreeProvider;
+    taskProvider: TaskTreeProvider;
+}
+
+type DashboardMessage =
+    | { command: 'ready' }
+    | { command: 'openSpec'; path: string }
+    | { command: 'openTask'; folderPath: string; specName: string; archived?: boolean; line: number };
+
+// Providers fire one after another during refreshAll(); coalesce into one update
+const UPDATE_DELAY_MS = 150;
+
+export class DashboardPanel {
+    private static currentPanel: DashboardPanel | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+    private updateTimer: ReturnType<typeof setTimeout> | undefined;
+
+    /**
+     * Show the dashboard, creating it if needed.
+     */
+    static createOrShow(providers: DashboardProviders): void {
+        if (DashboardPanel.currentPanel) {
+            DashboardPanel.currentPanel.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'ldfDashboard',
+            'LDF Dashboard',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        DashboardPanel.currentPanel = new DashboardPanel(panel, providers);
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly providers: DashboardProviders
+    ) {
+        panel.webview.html = this.getHtml();
+
+        const scheduleUpdate = () => this.scheduleUpdate();
+        this.disposables.push(
+            providers.specProvider.onDidChangeTreeData(scheduleUpdate),
+            providers.guardrailProvider.onDidChangeTreeData(scheduleUpdate),
+            providers.taskProvider.onDidChangeTreeData(scheduleUpdate),
+            // Hidden webviews drop messages; resend the current data when shown again
+            panel.onDidChangeViewState(() => {
+                if (panel.visible) {
+                    this.postData();
+                }
+            }),
+            panel.webview.onDidReceiveMessage((message: DashboardMessage) => this.handleMessage(message)),
+            panel.onDidDispose(() => this.dispose())
+        );
+    }
+
+    private handleMessage(message: DashboardMessage): void {
+        switch (message.command) {
+            case 'ready':
+                this.postData();
+                break;
+            case 'openSpec':
+                vscode.window.showTextDocument(
+                    vscode.Uri.file(path.join(message.path, 'requirements.md'))
+                );
+                break;
+            case 'openTask': {
+                if (!message.folderPath) {
+                    break;
+                }
+                const specsDir = vscode.workspace.getConfiguration('ldf').get('specsDirectory', '.ldf/specs');
+                const tasksPath = path.join(
+                    getSpecDir(path.join(message.folderPath, specsDir), message.specName, message.archived),
+                    'tasks.md'
+                );
+                // Task lines are 1-based
+                const position = new vscode.Position(Math.max(message.line - 1, 0), 0);
+                vscode.window.showTextDocument(vscode.Uri.file(tasksPath), {
+                    selection: new vscode.Range(position, position),
+                });
+                break;
+            }
+        }
+    }
+
+    private scheduleUpdate(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.postData();
+        }, UPDATE_DELAY_MS);
+    }
+
+    private postData(): void {
+        const { specProvider, guardrailProvider, taskProvider } = this.providers;
+        const data = buildDashboardData(
+            specProvider.getSpecs(),
+            folderPath => specProvider.getWorkflow(folderPath),
+            guardrailProvider.getCoverage(),
+            taskProvider.getTasks()
+        );
+        this.panel.webview.postMessage({ command: 'update', data });
+    }
+
+    private dispose(): void {
+        DashboardPanel.currentPanel = undefined;
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private getHtml(): string {
+        const nonce = getNonce();
+        const csp = [
+            "default-src 'none'",
+            `style-src ${this.panel.webview.cspSource} 'unsafe-inline'`,
+            `script-src 'nonce-${nonce}'`,
+        ].join('; ');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+        h2 { margin-top: 24px; font-size: 1.1em; }
+        .muted { color: var(--vscode-descriptionForeground); }
+        .totals { display: flex; gap: 24px; flex-wrap: wrap; }
+        .total { padding: 8px 12px; border: 1px solid var(--vscode-panel-border); border-radius: 4px; min-width: 120px; }
+        .total .value { font-size: 1.6em; font-weight: 600; }
+        .link { cursor: pointer; color: var(--vscode-textLink-foreground); }
+        .link:hover { text-decoration: underline; }
+        table { border-collapse: collapse; }
+        td, th { padding: 3px 8px; text-align: left; vertical-align: middle; }
+        .bar { width: 220px; height: 10px; background: var(--vscode-editorWidget-background); border: 1px solid var(--vscode-panel-border); border-radius: 5px; overflow: hidden; }
+        .bar > div { height: 100%; background: var(--vscode-charts-green); }
+        .dot { display: inline-block; width: 10px; height: 10px; border-radius: 50%; margin-right: 6px; }
+        .distribution { display: flex; height: 18px; border-radius: 4px; overflow: hidden; max-width: 600px; }
+        .distribution > div { height: 100%; }
+        .legend { display: flex; gap: 16px; flex-wrap: wrap; margin-top: 8px; }
+        .heatmap th.spec { writing-mode: vertical-rl; transform: rotate(180deg); font-weight: normal; white-space: nowrap; }
+        .heatmap td.cell { width: 18px; height: 18px; padding: 0; border: 1px solid var(--vscode-editor-background); }
+        .cell.done { background: var(--vscode-charts-green); }
+        .cell.partial { background: var(--vscode-charts-yellow); }
+        .cell.todo { background: var(--vscode-charts-red); }
+        .cell.na { background: var(--vscode-descriptionForeground); opacity: 0.5; }
+        .cell.none { background: var(--vscode-editorWidget-background); }
+        .warning { color: var(--vscode-editorWarning-foreground); }
+    </style>
+</head>
+<body>
+    <div id="content"><p class="muted">Loading…</p></div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const content = document.getElementById('content');
+
+        function el(tag, attrs, ...children) {
+            const node = document.createElement(tag);
+            for (const [key, value] of Object.entries(attrs || {})) {
+                if (key === 'style') node.style.cssText = value;
+                else if (key === 'onclick') node.addEventListener('click', value);
+                else node.setAttribute(key, value);
+            }
+            for (const child of children.flat()) {
+                if (child !== null && child !== undefined) {
+                    node.append(child instanceof Node ? child : String(child));
+                }
+            }
+            return node;
+        }
+
+        function color(themeColor) {
+            return themeColor ? 'var(--vscode-' + themeColor.replace(/\\./g, '-') + ')' : 'var(--vscode-descriptionForeground)';
+        }
+
+        function percent(done, total) {
+            return total > 0 ? Math.round((done / total) * 100) : 0;
+        }
+
+        function renderTotals(totals) {
+            const box = (label, value) => el('div', { class: 'total' }, el('div', { class: 'value' }, value), el('div', { class: 'muted' }, label));
+            return el('div', { class: 'totals' },
+                box('Specs', totals.specs),
+                box('Tasks complete', totals.tasksCompleted + ' / ' + totals.tasksTotal + ' (' + percent(totals.tasksCompleted, totals.tasksTotal) + '%)'),
+                box('Guardrails covered', totals.guardrailsCovered + ' / ' + totals.guardrails));
+        }
+
+        function renderProgress(specs) {
+            if (specs.length === 0) return el('p', { class: 'muted' }, 'No specs found.');
+            return el('table', {}, specs.map(spec => el('tr', {},
+                el('td', {}, el('span', { class: 'link', onclick: () => vscode.postMessage({ command: 'openSpec', path: spec.path }) }, spec.label)),
+                el('td', {}, el('span', { class: 'dot', style: 'background:' + color(spec.color) }), spec.statusLabel),
+                el('td', {}, spec.total > 0
+                    ? el('div', { class: 'bar', title: spec.completed + '/' + spec.total + ' tasks' }, el('div', { style: 'width:' + percent(spec.completed, spec.total) + '%' }))
+                    : el('span', { class: 'muted' }, 'no tasks')),
+                el('td', { class: 'muted' }, spec.total > 0 ? percent(spec.completed, spec.total) + '%' : ''),
+                el('td', { class: 'warning', title: spec.warnings.join('\\n') }, spec.warnings.length ? '⚠ ' + spec.warnings[0] : ''))));
+        }
+
+        function renderDistribution(counts, total) {
+            if (total === 0) return el('p', { class: 'muted' }, 'No specs found.');
+            return el('div', {},
+                el('div', { class: 'distribution' }, counts.map(c =>
+                    el('div', { title: c.label + ': ' + c.count, style: 'width:' + (c.count / total * 100) + '%;background:' + color(c.color) }))),
+                el('div', { class: 'legend' }, counts.map(c =>
+                    el('span', {}, el('span', { class: 'dot', style: 'background:' + color(c.color) }), c.label + ' (' + c.count + ')'))));
+        }
+
+        function renderHeatmap(heatmap) {
+            if (heatmap.rows.length === 0) return el('p', { class: 'muted' }, 'No guardrails configured.');
+            if (heatmap.specs.length === 0) return el('p', { class: 'muted' }, 'No spec has a guardrail coverage matrix yet.');
+            const cellClass = { 'done': 'done', 'partial': 'partial', 'todo': 'todo', 'n/a': 'na' };
+            return el('table', { class: 'heatmap' },
+                el('tr', {}, el('th', {}), heatmap.specs.map(name => el('th', { class: 'spec' }, name))),
+                heatmap.rows.map(row => el('tr', {},
+                    el('td', { title: row.severity + ' • ' + row.status }, row.id + '. ' + row.name),
+                    row.cells.map((status, i) => el('td', {
+                        class: 'cell ' + (status ? cellClass[status] : 'none'),
+                        title: row.name + ' × ' + heatmap.specs[i] + ': ' + (status || 'not listed'),
+                    })))));
+        }
+
+        function renderNextTasks(tasks) {
+            if (tasks.length === 0) return el('p', { class: 'muted' }, 'No open tasks.');
+            return el('table', {}, tasks.map(task => el('tr', {},
+                el('td', { class: 'muted' }, (task.folderName ? task.folderName + ' • ' : '') + task.specName),
+                el('td', {}, el('span', { class: 'link', onclick: () => vscode.postMessage({
+                    command: 'openTask', folderPath: task.folderPath, specName: task.specName, archived: task.archived, line: task.line,
+                }) }, task.title)))));
+        }
+
+        function render(data) {
+            content.replaceChildren(
+                el('h2', {}, 'Overview'), renderTotals(data.totals),
+                el('h2', {}, 'Status Distribution'), renderDistribution(data.statusCounts, data.totals.specs),
+                el('h2', {}, 'Spec Progress'), renderProgress(data.specs),
+                el('h2', {}, 'Guardrail Coverage'), renderHeatmap(data.heatmap),
+                el('h2', {}, 'Next Tasks'), renderNextTasks(data.nextTasks));
+        }
+
+        window.addEventListener('message', event => {
+            if (event.data.command === 'update') {
+                render(event.data.data);
+            }
+        });
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
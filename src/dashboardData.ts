@@ -0,0 +1,187 @@
+/**
+ * Dashboard data model
+ *
+ * Collects what the LDF dashboard shows from the three tree providers:
+ * per-spec progress, status distribution, the guardrail × spec coverage
+ * heatmap and the next open task of each spec. Kept free of VS Code APIs
+ * so the webview (dashboard.ts) only has to render it.
+ */
+
+import type { SpecInfo } from './specView';
+import type { GuardrailCoverage } from './guardrailView';
+import type { TaskInfo } from './taskView';
+import { SpecWorkflow, getWorkflowStatus, getStatusLabel, getStatusOrder } from './specWorkflow';
+
+export interface DashboardSpec {
+    name: string;
+    /** Spec name, prefixed with the folder name in multi-root workspaces */
+    label: string;
+    path: string;
+    status: string;
+    statusLabel: string;
+    /** Theme color id of the status (e.g. 'charts.green') */
+    color?: string;
+    completed: number;
+    total: number;
+    warnings: string[];
+}
+
+export interface DashboardStatusCount {
+    id: string;
+    label: string;
+    color?: string;
+    count: number;
+}
+
+export interface DashboardHeatmap {
+    /** Column labels (spec display names from guardrail coverage) */
+    specs: string[];
+    rows: Array<{
+        id: number;
+        name: string;
+        severity: string;
+        status: GuardrailCoverage['status'];
+        /** Coverage status per column, or null when the spec doesn't mention the guardrail */
+        cells: Array<string | null>;
+    }>;
+}
+
+export interface DashboardTask {
+    id: string;
+    specName: string;
+    title: string;
+    line: number;
+    folderName?: string;
+    folderPath?: string;
+    archived?: boolean;
+}
+
+export interface DashboardData {
+    specs: DashboardSpec[];
+    statusCounts: DashboardStatusCount[];
+    heatmap: DashboardHeatmap;
+    nextTasks: DashboardTask[];
+    totals: {
+        specs: number;
+        tasksCompleted: number;
+        tasksTotal: number;
+        guardrailsCovered: number;
+        guardrails: number;
+    };
+}
+
+/**
+ * Build the dashboard model.
+ * @param getWorkflow Resolves the spec workflow for a spec's workspace folder
+ */
+export function buildDashboardData(
+    specs: SpecInfo[],
+    getWorkflow: (folderPath?: string) => SpecWorkflow,
+    coverage: GuardrailCoverage[],
+    tasks: TaskInfo[]
+): DashboardData {
+    const dashboardSpecs: DashboardSpec[] = specs.map(spec => {
+        const workflow = getWorkflow(spec.folderPath);
+        return {
+            name: spec.name,
+            label: spec.folderName ? `${spec.folderName}/${spec.name}` : spec.name,
+            path: spec.path,
+            status: spec.status,
+            statusLabel: getStatusLabel(workflow, spec.status),
+            color: getWorkflowStatus(workflow, spec.status)?.color,
+            completed: spec.taskProgress?.completed ?? 0,
+            total: spec.taskProgress?.total ?? 0,
+            warnings: spec.dependencyWarnings ?? [],
+        };
+    });
+
+    // Status distribution, labelled and ordered by the first workflow that defines each status
+    const counts = new Map<string, DashboardStatusCount>();
+    const orders = new Map<string, number>();
+    for (const spec of specs) {
+        const existing = counts.get(spec.status);
+        if (existing) {
+            existing.count++;
+            continue;
+        }
+        const workflow = getWorkflow(spec.folderPath);
+        counts.set(spec.status, {
+            id: spec.status,
+            label: getStatusLabel(workflow, spec.status),
+            color: getWorkflowStatus(workflow, spec.status)?.color,
+            count: 1,
+        });
+        orders.set(spec.status, getStatusOrder(workflow, spec.status));
+    }
+    const statusCounts = [...counts.values()].sort((a, b) => orders.get(a.id)! - orders.get(b.id)!);
+
+    return {
+        specs: dashboardSpecs,
+        statusCounts,
+        heatmap: buildHeatmap(coverage),
+        nextTasks: findNextTasks(tasks),
+        totals: {
+            specs: specs.length,
+            tasksCompleted: dashboardSpecs.reduce((sum, s) => sum + s.completed, 0),
+            tasksTotal: dashboardSpecs.reduce((sum, s) => sum + s.total, 0),
+            guardrailsCovered: coverage.filter(c => c.status === 'covered' || c.status === 'not-applicable').length,
+            guardrails: coverage.length,
+        },
+    };
+}
+
+function buildHeatmap(coverage: GuardrailCoverage[]): DashboardHeatmap {
+    const specNames: string[] = [];
+    for (const cov of coverage) {
+        for (const sc of cov.specCoverage) {
+            if (!specNames.includes(sc.specName)) {
+                specNames.push(sc.specName);
+            }
+        }
+    }
+    specNames.sort((a, b) => a.localeCompare(b));
+
+    return {
+        specs: specNames,
+        rows: coverage.map(cov => ({
+            id: cov.guardrail.id,
+            name: cov.guardrail.name,
+            severity: cov.guardrail.severity,
+            status: cov.status,
+            cells: specNames.map(name =>
+                cov.specCoverage.find(sc => sc.specName === name)?.status ?? null
+            ),
+        })),
+    };
+}
+
+/**
+ * The first incomplete task of each spec, in tasks.md order.
+ */
+function findNextTasks(tasks: TaskInfo[]): DashboardTask[] {
+    const bySpec = new Map<string, TaskInfo>();
+    for (const task of tasks) {
+        if (task.status === 'complete') {
+            continue;
+        }
+        const key = `${task.folderPath ?? ''}\n${task.specName}`;
+        const current = bySpec.get(key);
+        if (!current || task.line < current.line) {
+            bySpec.set(key, task);
+        }
+    }
+
+    return [...bySpec.values()]
+        .sort((a, b) =>
+            (a.folderName ?? '').localeCompare(b.folderName ?? '') || a.specName.localeCompare(b.specName)
+        )
+        .map(task => ({
+            id: task.id,
+            specName: task.specName,
+            title: task.title,
+            line: task.line,
+            folderName: task.folderName,
+            folderPath: task.folderPath,
+            archived: task.archived,
+        }));
+}
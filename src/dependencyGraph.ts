@@ -0,0 +1,268 @@
+/**
+ * Spec Dependency Graph Webview
+ *
+ * Draws the dependency graph built by SpecTreeProvider as an SVG: specs are
+ * laid out in layers (dependencies to the left of the specs that need them),
+ * colored by workflow status. Cycles and In Progress specs with Draft
+ * dependencies are highlighted and listed. Clicking a spec opens its
+ * requirements.md; the panel redraws whenever the Specs view refreshes.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecTreeProvider } from './specView';
+import { computeLayers, findStatusConflicts } from './specDependencies';
+import { getWorkflowStatus, getStatusLabel } from './specWorkflow';
+import { getNonce, escapeHtml } from './utils';
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 44;
+const LAYER_GAP = 90;
+const ROW_GAP = 24;
+const MARGIN = 20;
+
+export class DependencyGraphPanel {
+    private static currentPanel: DependencyGraphPanel | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /**
+     * Show the graph panel, creating it if needed.
+     */
+    static createOrShow(specProvider: SpecTreeProvider): void {
+        if (DependencyGraphPanel.currentPanel) {
+            DependencyGraphPanel.currentPanel.panel.reveal();
+            DependencyGraphPanel.currentPanel.update();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'ldfDependencyGraph',
+            'LDF: Spec Dependencies',
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        DependencyGraphPanel.currentPanel = new DependencyGraphPanel(panel, specProvider);
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly specProvider: SpecTreeProvider
+    ) {
+        this.update();
+
+        this.disposables.push(
+            // Redraw when specs change (the Specs view refreshes on file changes)
+            specProvider.onDidChangeTreeData(() => this.update()),
+            panel.webview.onDidReceiveMessage((message: { command: string; id?: string }) => {
+                if (message.command === 'openSpec' && message.id) {
+                    vscode.window.showTextDocument(
+                        vscode.Uri.file(path.join(message.id, 'requirements.md'))
+                    );
+                }
+            }),
+            panel.onDidDispose(() => this.dispose())
+        );
+    }
+
+    private update(): void {
+        this.panel.webview.html = this.getHtml();
+    }
+
+    private dispose(): void {
+        DependencyGraphPanel.currentPanel = undefined;
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private getHtml(): string {
+        const graph = this.specProvider.getDependencyGraph();
+        const nonce = getNonce();
+        const csp = [
+            "default-src 'none'",
+            `style-src ${this.panel.webview.cspSource} 'unsafe-inline'`,
+            `script-src 'nonce-${nonce}'`,
+        ].join('; ');
+
+        // Only draw specs that take part in at least one dependency
+        const connected = new Set<string>();
+        for (const edge of graph.edges) {
+            connected.add(edge.from);
+            connected.add(edge.to);
+        }
+
+        if (connected.size === 0) {
+            return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><meta http-equiv="Content-Security-Policy" content="${csp}"></head>
+<body style="font-family: var(--vscode-font-family); color: var(--vscode-foreground);">
+    <p>No spec dependencies found. List specs under <code>## Dependencies</code> in requirements.md
+    (e.g. <code>- user-auth</code> or <code>- billing:payment-api</code>).</p>
+</body>
+</html>`;
+        }
+
+        // Position nodes by layer (columns) and name (rows)
+        const layers = computeLayers(graph);
+        const columns = new Map<number, string[]>();
+        for (const id of connected) {
+            const layer = layers.get(id) ?? 0;
+            if (!columns.has(layer)) {
+                columns.set(layer, []);
+            }
+            columns.get(layer)!.push(id);
+        }
+        const positions = new Map<string, { x: number; y: number }>();
+        let maxRows = 0;
+        for (const [layer, ids] of columns) {
+            ids.sort((a, b) => this.specProvider.getNodeLabel(a).localeCompare(this.specProvider.getNodeLabel(b)));
+            ids.forEach((id, row) => positions.set(id, {
+                x: MARGIN + layer * (NODE_WIDTH + LAYER_GAP),
+                y: MARGIN + row * (NODE_HEIGHT + ROW_GAP),
+            }));
+            maxRows = Math.max(maxRows, ids.length);
+        }
+        const layerCount = Math.max(...columns.keys()) + 1;
+        const width = MARGIN * 2 + layerCount * (NODE_WIDTH + LAYER_GAP) - LAYER_GAP;
+        const height = MARGIN * 2 + maxRows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+        const cycleMembers = new Set(graph.cycles.flat());
+        const conflicts = findStatusConflicts(graph);
+        const conflictEdges = new Set(conflicts.map(c => `${c.spec}\n${c.dependency}`));
+
+        // Edges run from the dependent (right) to its dependency (left)
+        const edgeSvg = graph.edges.map(edge => {
+            const from = positions.get(edge.from)!;
+            const to = positions.get(edge.to)!;
+            const inCycle = graph.cycles.some(c => c.includes(edge.from) && c.includes(edge.to));
+            const classes = ['edge'];
+            if (inCycle) classes.push('cycle');
+            if (conflictEdges.has(`${edge.from}\n${edge.to}`)) classes.push('conflict');
+
+            const x1 = from.x;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x + NODE_WIDTH;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            // Same-layer edges (cycles) bow outward to stay visible
+            const bend = x1 <= x2 ? NODE_WIDTH / 2 + 40 : (x1 - x2) / 2;
+            const d = `M ${x1} ${y1} C ${x1 - bend} ${y1}, ${x2 + bend} ${y2}, ${x2} ${y2}`;
+            return `<path class="${classes.join(' ')}" data-from="${escapeHtml(edge.from)}" data-to="${escapeHtml(edge.to)}" d="${d}" marker-end="url(#arrow)"/>`;
+        }).join('\n');
+
+        const nodeSvg = [...connected].map(id => {
+            const node = graph.nodes.get(id)!;
+            const pos = positions.get(id)!;
+            const workflow = this.specProvider.getWorkflow(node.projectPath);
+            const status = getWorkflowStatus(workflow, node.status);
+            const color = status?.color
+                ? `var(--vscode-${status.color.replace(/\./g, '-')})`
+                : 'var(--vscode-foreground)';
+            const classes = ['node'];
+            if (cycleMembers.has(id)) classes.push('cycle');
+            if (conflicts.some(c => c.spec === id)) classes.push('conflict');
+
+            return `<g class="${classes.join(' ')}" data-id="${escapeHtml(id)}" transform="translate(${pos.x}, ${pos.y})">
+    <title>${escapeHtml(this.specProvider.getNodeLabel(id))}</title>
+    <rect width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="4" style="stroke: ${color}"/>
+    <rect width="5" height="${NODE_HEIGHT}" rx="2" style="fill: ${color}; stroke: none"/>
+    <text x="14" y="18" class="name">${escapeHtml(truncate(this.specProvider.getNodeLabel(id), 24))}</text>
+    <text x="14" y="34" class="status">${escapeHtml(getStatusLabel(workflow, node.status))}</text>
+</g>`;
+        }).join('\n');
+
+        const issues = [
+            ...graph.cycles.map(cycle => {
+                const names = cycle.map(id => this.specProvider.getNodeLabel(id));
+                return { ids: cycle, text: `Cycle: ${[...names, names[0]].join(' → ')}` };
+            }),
+            ...conflicts.map(c => ({
+                ids: [c.spec, c.dependency],
+                text: `${this.specProvider.getNodeLabel(c.spec)} is In Progress but depends on Draft spec ${this.specProvider.getNodeLabel(c.dependency)}`,
+            })),
+        ];
+        const issuesHtml = issues.length === 0
+            ? '<p class="ok">No dependency cycles or status conflicts.</p>'
+            : `<ul class="issues">${issues.map(issue =>
+                `<li data-ids="${escapeHtml(JSON.stringify(issue.ids))}">⚠ ${escapeHtml(issue.text)}</li>`
+            ).join('')}</ul>`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 12px; }
+        .issues { padding-left: 0; list-style: none; }
+        .issues li { cursor: pointer; color: var(--vscode-editorWarning-foreground); margin: 4px 0; }
+        .ok { color: var(--vscode-descriptionForeground); }
+        .graph { overflow: auto; }
+        .node { cursor: pointer; }
+        .node rect { fill: var(--vscode-editor-background); stroke-width: 1.5; }
+        .node.cycle > rect:first-of-type { stroke-dasharray: 4 2; }
+        .node .name { fill: var(--vscode-foreground); font-size: 12px; font-weight: 600; }
+        .node .status { fill: var(--vscode-descriptionForeground); font-size: 11px; }
+        .edge { fill: none; stroke: var(--vscode-descriptionForeground); stroke-width: 1.2; opacity: 0.7; }
+        .edge.conflict { stroke: var(--vscode-editorWarning-foreground); stroke-width: 2; opacity: 1; }
+        .edge.cycle { stroke: var(--vscode-errorForeground); stroke-width: 2; opacity: 1; }
+        .dimmed { opacity: 0.2; }
+        .highlight rect:first-of-type { stroke-width: 3; }
+        #arrow path { fill: var(--vscode-descriptionForeground); }
+    </style>
+</head>
+<body>
+    <h2>Spec Dependencies</h2>
+    ${issuesHtml}
+    <div class="graph">
+        <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+            <defs>
+                <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z"/>
+                </marker>
+            </defs>
+            ${edgeSvg}
+            ${nodeSvg}
+        </svg>
+    </div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const nodes = Array.from(document.querySelectorAll('.node'));
+        const edges = Array.from(document.querySelectorAll('.edge'));
+
+        function focus(ids) {
+            const related = new Set(ids);
+            if (ids.length === 1) {
+                edges.forEach(e => {
+                    if (e.dataset.from === ids[0]) related.add(e.dataset.to);
+                    if (e.dataset.to === ids[0]) related.add(e.dataset.from);
+                });
+            }
+            nodes.forEach(n => {
+                n.classList.toggle('dimmed', !related.has(n.dataset.id));
+                n.classList.toggle('highlight', ids.includes(n.dataset.id));
+            });
+            edges.forEach(e => e.classList.toggle('dimmed',
+                !(related.has(e.dataset.from) && related.has(e.dataset.to))));
+        }
+
+        function clearFocus() {
+            nodes.forEach(n => n.classList.remove('dimmed', 'highlight'));
+            edges.forEach(e => e.classList.remove('dimmed'));
+        }
+
+        nodes.forEach(n => {
+            n.addEventListener('mouseenter', () => focus([n.dataset.id]));
+            n.addEventListener('mouseleave', clearFocus);
+            n.addEventListener('click', () => vscode.postMessage({ command: 'openSpec', id: n.dataset.id }));
+        });
+        document.querySelectorAll('.issues li').forEach(li => {
+            li.addEventListener('mouseenter', () => focus(JSON.parse(li.dataset.ids)));
+            li.addEventListener('mouseleave', clearFocus);
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
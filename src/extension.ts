@@ -12,8 +12,8 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { SpecTreeProvider } from './specView';
-import { GuardrailTreeProvider } from './guardrailView';
-import { TaskTreeProvider } from './taskView';
+import { GuardrailTreeProvider, GUARDRAILS_ASSIGNED_TO_ME_STATE_KEY } from './guardrailView';
+import { TaskTreeProvider, TASKS_ASSIGNED_TO_ME_STATE_KEY } from './taskView';
 import { registerCommands } from './commands';
 import {
     findInPath,
@@ -22,8 +22,17 @@ import {
     getPipxLdfPath,
     getWorkspaceVenvCandidates,
     verifyLdfExecutable,
+    getGitUserIdentities,
     LdfDetectionResult,
 } from './utils';
+import { SPEC_FILTER_STATE_KEY, normalizeSpecFilter, isSpecFilterActive } from './specFilter';
+import { specIndex } from './specIndex';
+import { SpecDocumentSymbolProvider, SpecWorkspaceSymbolProvider, getSpecDocumentSelector } from './specSymbols';
+import { SpecReferenceProvider } from './specReferences';
+import { SpecHoverProvider } from './specHover';
+import { SpecCompletionProvider, SPEC_COMPLETION_TRIGGERS } from './specCompletions';
+import { SpecLintDiagnostics } from './specDiagnostics';
+import { SpecLintCodeActionProvider, INSERT_SNIPPET_COMMAND, insertSnippet } from './specLintActions';
 import {
     detectWorkspaceContext,
     resolveProjects,
@@ -63,6 +72,11 @@ let resolvedProjects: ResolvedProject[] = [];
 // Without this, watchers accumulate when ldf-workspace.yaml changes
 let subprojectWatchers: vscode.Disposable[] = [];
 
+// Spec file events are batched, then re-read by the spec index in the background
+const SPEC_INDEX_DELAY_MS = 100;
+const pendingSpecFiles = new Set<string>();
+let specIndexTimer: ReturnType<typeof setTimeout> | undefined;
+
 /**
  * Get the current active project.
  */
@@ -172,9 +186,9 @@ async function initializeWorkspaceContext(
             taskProvider.setWorkspacePaths(projectPaths);
             console.log(`LDF: Updated providers with ${projectPaths.length} project paths`);
 
-            // Refresh providers to load data from new paths
+            // Read the subprojects' specs, then refresh providers to load data from new paths
             // setWorkspacePaths() only updates internal state; refresh() loads actual data
-            refreshAll();
+            await loadSpecIndex(projectPaths);
         }
 
         // Create watchers for subproject paths (monorepo support)
@@ -198,13 +212,13 @@ async function initializeWorkspaceContext(
                 if (project.isSubproject) {
                     const projectUri = vscode.Uri.file(project.path);
 
-                    // Watch subproject spec files
+                    // Watch subproject spec files (markdown and spec.yaml metadata)
                     const subSpecsWatcher = vscode.workspace.createFileSystemWatcher(
-                        new vscode.RelativePattern(projectUri, `${specsDir}/**/*.md`)
+                        new vscode.RelativePattern(projectUri, `${specsDir}/**/*.{md,yaml}`)
                     );
-                    subSpecsWatcher.onDidChange(() => refreshAll());
-                    subSpecsWatcher.onDidCreate(() => refreshAll());
-                    subSpecsWatcher.onDidDelete(() => refreshAll());
+                    subSpecsWatcher.onDidChange(onSpecFileEvent);
+                    subSpecsWatcher.onDidCreate(onSpecFileEvent);
+                    subSpecsWatcher.onDidDelete(onSpecFileEvent);
                     subprojectWatchers.push(subSpecsWatcher);
                     context.subscriptions.push(subSpecsWatcher);
 
@@ -220,6 +234,16 @@ async function initializeWorkspaceContext(
                     subprojectWatchers.push(subGuardrailsWatcher);
                     context.subscriptions.push(subGuardrailsWatcher);
 
+                    // Watch subproject config.yaml (spec workflow)
+                    const subConfigWatcher = vscode.workspace.createFileSystemWatcher(
+                        new vscode.RelativePattern(projectUri, '.ldf/config.yaml')
+                    );
+                    subConfigWatcher.onDidChange(() => refreshAll());
+                    subConfigWatcher.onDidCreate(() => refreshAll());
+                    subConfigWatcher.onDidDelete(() => refreshAll());
+                    subprojectWatchers.push(subConfigWatcher);
+                    context.subscriptions.push(subConfigWatcher);
+
                     console.log(`LDF: Added watchers for subproject: ${project.alias}`);
                 }
             }
@@ -810,6 +834,31 @@ export function activate(context: vscode.ExtensionContext) {
             showCollapseAll: true,
         });
 
+        // Restore the Specs view filter and show a badge while it is active
+        specProvider.setFilter(normalizeSpecFilter(context.workspaceState.get(SPEC_FILTER_STATE_KEY)));
+        const updateSpecFilterBadge = () => {
+            const active = isSpecFilterActive(specProvider.getFilter());
+            vscode.commands.executeCommand('setContext', 'ldf.specFilterActive', active);
+            if (!active) {
+                specTreeView.badge = undefined;
+                specTreeView.description = undefined;
+                return;
+            }
+            const shown = specProvider.getFilteredSpecs().length;
+            const total = specProvider.getSpecs().length;
+            specTreeView.badge = { value: shown, tooltip: `Filtered: ${shown} of ${total} specs` };
+            specTreeView.description = specProvider.describeFilter();
+        };
+        context.subscriptions.push(specProvider.onDidChangeTreeData(updateSpecFilterBadge));
+        updateSpecFilterBadge();
+        getGitUserIdentities(primaryFolder)
+            .then(identities => {
+                specProvider.setUserIdentities(identities);
+                guardrailProvider.setUserIdentities(identities);
+                taskProvider.setUserIdentities(identities);
+            })
+            .catch(err => console.error('LDF: Failed to read git user:', err));
+
         const guardrailTreeView = vscode.window.createTreeView('ldf-guardrails', {
             treeDataProvider: guardrailProvider,
             showCollapseAll: true,
@@ -820,6 +869,23 @@ export function activate(context: vscode.ExtensionContext) {
             showCollapseAll: false,
         });
 
+        // Restore the "assigned to me" filters of the Guardrails and Tasks views
+        guardrailProvider.setAssignedToMe(context.workspaceState.get(GUARDRAILS_ASSIGNED_TO_ME_STATE_KEY) === true);
+        taskProvider.setAssignedToMe(context.workspaceState.get(TASKS_ASSIGNED_TO_ME_STATE_KEY) === true);
+        const updateAssignedToMe = () => {
+            const guardrailsFiltered = guardrailProvider.isAssignedToMe();
+            const tasksFiltered = taskProvider.isAssignedToMe();
+            vscode.commands.executeCommand('setContext', 'ldf.guardrailsAssignedToMe', guardrailsFiltered);
+            vscode.commands.executeCommand('setContext', 'ldf.tasksAssignedToMe', tasksFiltered);
+            guardrailTreeView.description = guardrailsFiltered ? 'assigned to me' : undefined;
+            taskTreeView.description = tasksFiltered ? 'assigned to me' : undefined;
+        };
+        context.subscriptions.push(
+            guardrailProvider.onDidChangeTreeData(updateAssignedToMe),
+            taskProvider.onDidChangeTreeData(updateAssignedToMe)
+        );
+        updateAssignedToMe();
+
         // Note: ldf.setupLdf already registered at the top of activate()
 
         // Register commands (use first LDF folder or first workspace as primary)
@@ -830,6 +896,37 @@ export function activate(context: vscode.ExtensionContext) {
             workspacePath: primaryFolder,
         });
 
+        // Language features of spec documents: outline, symbol search, cross-references, hovers,
+        // completions, lint diagnostics and their quick fixes
+        const specReferenceProvider = new SpecReferenceProvider(specProvider);
+        context.subscriptions.push(
+            vscode.languages.registerDocumentSymbolProvider(
+                getSpecDocumentSelector(),
+                new SpecDocumentSymbolProvider(),
+                { label: 'LDF' }
+            ),
+            vscode.languages.registerWorkspaceSymbolProvider(new SpecWorkspaceSymbolProvider(specProvider)),
+            vscode.languages.registerDefinitionProvider(getSpecDocumentSelector(), specReferenceProvider),
+            vscode.languages.registerReferenceProvider(getSpecDocumentSelector(), specReferenceProvider),
+            vscode.languages.registerRenameProvider(getSpecDocumentSelector(), specReferenceProvider),
+            vscode.languages.registerHoverProvider(
+                getSpecDocumentSelector(),
+                new SpecHoverProvider(specProvider, guardrailProvider)
+            ),
+            vscode.languages.registerCompletionItemProvider(
+                getSpecDocumentSelector(),
+                new SpecCompletionProvider(specProvider, guardrailProvider),
+                ...SPEC_COMPLETION_TRIGGERS
+            ),
+            new SpecLintDiagnostics(specProvider, guardrailProvider),
+            vscode.languages.registerCodeActionsProvider(
+                getSpecDocumentSelector(),
+                new SpecLintCodeActionProvider(specProvider, guardrailProvider),
+                SpecLintCodeActionProvider.metadata
+            ),
+            vscode.commands.registerCommand(INSERT_SNIPPET_COMMAND, insertSnippet)
+        );
+
         // Listen for workspace folder changes
         context.subscriptions.push(
             vscode.workspace.onDidChangeWorkspaceFolders((event) => {
@@ -841,6 +938,7 @@ export function activate(context: vscode.ExtensionContext) {
                         specProvider?.addWorkspaceFolder(added.uri.fsPath);
                         guardrailProvider?.addWorkspaceFolder(added.uri.fsPath);
                         taskProvider?.addWorkspaceFolder(added.uri.fsPath);
+                        loadSpecIndex([added.uri.fsPath]);
                     }
                 }
                 for (const removed of event.removed) {
@@ -853,19 +951,30 @@ export function activate(context: vscode.ExtensionContext) {
             })
         );
 
+        // Archive visibility settings change what the views load
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration('ldf.showArchivedSpecs') ||
+                    event.affectsConfiguration('ldf.includeArchivedInCoverage') ||
+                    event.affectsConfiguration('ldf.specDocuments')) {
+                    refreshAll();
+                }
+            })
+        );
+
         // Watch for file changes across all workspace folders
         if (config.get('autoRefresh', true)) {
             const specsDir = config.get('specsDirectory', '.ldf/specs');
             const guardrailsFile = config.get('guardrailsFile', '.ldf/guardrails.yaml');
 
             for (const folder of vscode.workspace.workspaceFolders || []) {
-                // Watch spec markdown files
+                // Watch spec markdown files and spec.yaml metadata
                 const specsWatcher = vscode.workspace.createFileSystemWatcher(
-                    new vscode.RelativePattern(folder, `${specsDir}/**/*.md`)
+                    new vscode.RelativePattern(folder, `${specsDir}/**/*.{md,yaml}`)
                 );
-                specsWatcher.onDidChange(() => refreshAll());
-                specsWatcher.onDidCreate(() => refreshAll());
-                specsWatcher.onDidDelete(() => refreshAll());
+                specsWatcher.onDidChange(onSpecFileEvent);
+                specsWatcher.onDidCreate(onSpecFileEvent);
+                specsWatcher.onDidDelete(onSpecFileEvent);
                 context.subscriptions.push(specsWatcher);
 
                 // Watch guardrails.yaml for config changes
@@ -877,6 +986,15 @@ export function activate(context: vscode.ExtensionContext) {
                 guardrailsWatcher.onDidDelete(() => guardrailProvider.refresh());
                 context.subscriptions.push(guardrailsWatcher);
 
+                // Watch config.yaml for spec workflow changes
+                const configWatcher = vscode.workspace.createFileSystemWatcher(
+                    new vscode.RelativePattern(folder, '.ldf/config.yaml')
+                );
+                configWatcher.onDidChange(() => refreshAll());
+                configWatcher.onDidCreate(() => refreshAll());
+                configWatcher.onDidDelete(() => refreshAll());
+                context.subscriptions.push(configWatcher);
+
                 // Watch ldf-workspace.yaml for workspace changes
                 const workspaceWatcher = vscode.workspace.createFileSystemWatcher(
                     new vscode.RelativePattern(folder, `**/${WORKSPACE_MANIFEST}`)
@@ -900,8 +1018,11 @@ export function activate(context: vscode.ExtensionContext) {
         context.subscriptions.push(guardrailTreeView);
         context.subscriptions.push(taskTreeView);
 
-        // Initial refresh
-        refreshAll();
+        // Refresh the views whenever the spec index picks up changed files
+        context.subscriptions.push(specIndex.onDidChange(() => refreshAll()));
+
+        // Initial refresh, once the spec index has read the spec files in the background
+        loadSpecIndex(workspacePaths);
 
         console.log('LDF extension activated successfully');
     } catch (error) {
@@ -912,6 +1033,37 @@ export function activate(context: vscode.ExtensionContext) {
     }
 }
 
+/**
+ * Queue a changed spec file. Queued files are re-read asynchronously by the
+ * spec index, which triggers refreshAll() only if their content changed.
+ */
+function onSpecFileEvent(uri: vscode.Uri): void {
+    pendingSpecFiles.add(uri.fsPath);
+    if (specIndexTimer) {
+        clearTimeout(specIndexTimer);
+    }
+    specIndexTimer = setTimeout(() => {
+        specIndexTimer = undefined;
+        const files = [...pendingSpecFiles];
+        pendingSpecFiles.clear();
+        specIndex.update(files).catch(err => console.error('LDF: Spec index update failed:', err));
+    }, SPEC_INDEX_DELAY_MS);
+}
+
+/**
+ * Read the specs directories of the given projects into the spec index, then
+ * refresh the views, so they never find the spec files uncached.
+ */
+async function loadSpecIndex(projectPaths: string[]): Promise<void> {
+    const specsDirectory = vscode.workspace.getConfiguration('ldf').get('specsDirectory', '.ldf/specs');
+    try {
+        await specIndex.load(projectPaths.map(p => path.join(p, specsDirectory)));
+    } catch (err) {
+        console.error('LDF: Failed to load spec index:', err);
+    }
+    refreshAll();
+}
+
 function refreshAll() {
     specProvider?.refresh();
     guardrailProvider?.refresh();
@@ -923,12 +1075,37 @@ function registerEmptyCommands(context: vscode.ExtensionContext) {
     const workspaceRequiredCommands = [
         'ldf.refreshSpecs',
         'ldf.createSpec',
+        'ldf.importSpec',
         'ldf.lintSpec',
         'ldf.lintAllSpecs',
         'ldf.openSpec',
         'ldf.openRequirements',
         'ldf.openDesign',
         'ldf.openTasks',
+        'ldf.openSpecDocument',
+        'ldf.newSpecDocument',
+        'ldf.setSpecStatus',
+        'ldf.advanceSpecStatus',
+        'ldf.showDependencyGraph',
+        'ldf.openDashboard',
+        'ldf.filterSpecs',
+        'ldf.searchSpecs',
+        'ldf.clearSpecFilter',
+        'ldf.showGuardrailsAssignedToMe',
+        'ldf.showAllGuardrails',
+        'ldf.showTasksAssignedToMe',
+        'ldf.showAllTasks',
+        'ldf.renameSpec',
+        'ldf.moveSpec',
+        'ldf.duplicateSpec',
+        'ldf.showSpecHistory',
+        'ldf.compareSpecRevisions',
+        'ldf.exportSpec',
+        'ldf.exportProject',
+        'ldf.archiveSpec',
+        'ldf.restoreSpec',
+        'ldf.showArchivedSpecs',
+        'ldf.hideArchivedSpecs',
         'ldf.runAudit',
         'ldf.showGuardrailDetails',
         'ldf.markTaskComplete',
@@ -5,6 +5,8 @@
  * - Shows each guardrail with coverage status
  * - Indicates which specs cover each guardrail
  * - Highlights gaps in coverage
+ * - Shows the owners of each spec's matrix row (Owner column), and can be
+ *   narrowed to the rows assigned to the current git user
  */
 
 import * as vscode from 'vscode';
@@ -12,8 +14,15 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as yaml from 'js-yaml';
 import { getActiveProject } from './extension';
+import { listSpecDirs } from './specArchive';
+import { specIndex } from './specIndex';
+import { parseCoverageMatrix } from './specDiffData';
+import { isOwnedBy } from './specFilter';
 
-interface Guardrail {
+// workspaceState key for the persisted "assigned to me" filter
+export const GUARDRAILS_ASSIGNED_TO_ME_STATE_KEY = 'ldf.guardrailsAssignedToMe';
+
+export interface Guardrail {
     id: number;
     name: string;
     description: string;
@@ -31,13 +40,14 @@ interface GuardrailConfig {
 
 type SpecStatus = 'done' | 'todo' | 'partial' | 'n/a';
 
-interface SpecCoverage {
+export interface SpecCoverage {
     specName: string;
     status: SpecStatus;
     justification?: string; // Reason for N/A status, if provided
+    owners?: string[]; // Names from the matrix Owner column
 }
 
-interface GuardrailCoverage {
+export interface GuardrailCoverage {
     guardrail: Guardrail;
     coveredBy: string[]; // spec names (for backward compatibility)
     specCoverage: SpecCoverage[]; // detailed per-spec status
@@ -45,6 +55,47 @@ interface GuardrailCoverage {
     justifications: string[]; // Collected justifications for N/A statuses
 }
 
+/** A guardrail row of a spec's coverage matrix */
+interface CoverageRow {
+    guardrailId: number;
+    status: SpecStatus;
+    justification?: string;
+    owners: string[];
+}
+
+/**
+ * Parse the guardrail coverage matrix of a spec's requirements.md
+ * (rows from parseCoverageMatrix(), see specDiffData.ts)
+ */
+function parseCoverageRows(content: string): CoverageRow[] {
+    // Accept status values: DONE, TODO, PARTIAL, N/A, N/A - <justification>
+    return parseCoverageMatrix(content).map(row => {
+        const rawStatusText = row.status.trim();
+        const statusText = rawStatusText.toUpperCase();
+
+        // Parse status from the matrix
+        let status: SpecStatus;
+        let justification: string | undefined;
+
+        if (statusText === 'DONE') {
+            status = 'done';
+        } else if (statusText.startsWith('N/A') || statusText === 'NA' || statusText === 'NOT APPLICABLE') {
+            status = 'n/a';
+            // Extract justification if present: "N/A - reason" -> "reason"
+            if (rawStatusText.includes('-')) {
+                justification = rawStatusText.split('-').slice(1).join('-').trim();
+            }
+        } else if (statusText === 'PARTIAL' || statusText === 'IN PROGRESS') {
+            status = 'partial';
+        } else {
+            // TODO, empty, or any other status
+            status = 'todo';
+        }
+
+        return { guardrailId: row.id, status, justification, owners: row.owners };
+    });
+}
+
 type TreeItem = GuardrailTreeItem | WorkspaceFolderItem;
 
 export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem> {
@@ -66,6 +117,10 @@ export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem>
     private lastParseError: string | null = null;
     private guardrailsFilePath: string | null = null;
 
+    // "Assigned to me": only matrix rows whose Owner matches the git user
+    private assignedToMe = false;
+    private userIdentities: string[] = [];
+
     constructor(workspacePath: string | string[]) {
         this.setWorkspacePaths(workspacePath);
         try {
@@ -582,6 +637,8 @@ export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem>
 
         const config = vscode.workspace.getConfiguration('ldf');
         const specsPath = config.get('specsDirectory', '.ldf/specs');
+        // Archived specs count towards coverage only when explicitly included
+        const includeArchived = config.get('includeArchivedInCoverage', false);
 
         // Filter to active project if one is selected
         const activeProject = getActiveProject();
@@ -604,17 +661,11 @@ export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem>
 
             // Scan specs for this workspace
             const specsDir = path.join(workspace.path, specsPath);
-            if (fs.existsSync(specsDir)) {
-                const specs = fs.readdirSync(specsDir, { withFileTypes: true })
-                    .filter((d) => d.isDirectory())
-                    .map((d) => d.name);
-
-                for (const specName of specs) {
-                    const reqPath = path.join(specsDir, specName, 'requirements.md');
-                    if (fs.existsSync(reqPath)) {
-                        const content = fs.readFileSync(reqPath, 'utf-8');
-                        this.parseGuardrailCoverageForWorkspace(specName, content, workspaceCoverage);
-                    }
+            for (const spec of listSpecDirs(specsDir, includeArchived, dir => specIndex.listDirectories(dir))) {
+                const reqPath = path.join(spec.path, 'requirements.md');
+                const rows = specIndex.parse(reqPath, 'coverage-matrix', parseCoverageRows);
+                if (rows) {
+                    this.parseGuardrailCoverageForWorkspace(spec.name, rows, workspaceCoverage);
                 }
             }
 
@@ -646,7 +697,7 @@ export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem>
                 if (flatCov) {
                     for (const sc of wsCov.specCoverage) {
                         const displayName = isMultiRoot ? `${workspaceDisplay}/${sc.specName}` : sc.specName;
-                        flatCov.specCoverage.push({ specName: displayName, status: sc.status });
+                        flatCov.specCoverage.push({ specName: displayName, status: sc.status, owners: sc.owners });
                         if (sc.status === 'done') {
                             flatCov.coveredBy.push(displayName);
                         }
@@ -695,45 +746,16 @@ export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem>
     }
 
     /**
-     * Parse guardrail coverage from a spec's requirements.md for a specific workspace
+     * Record a spec's coverage matrix rows in a workspace's guardrail coverage
      */
-    private parseGuardrailCoverageForWorkspace(specName: string, content: string, workspaceCoverage: GuardrailCoverage[]): void {
-        // Look for guardrail coverage matrix in requirements
-        // Format: | 1. Testing Coverage | [US-1] | [S3.2] | [T-1] | Alice | DONE |
-        // Accept status values: DONE, TODO, PARTIAL, N/A, N/A - <justification>
-        const matrixPattern = /\|\s*(\d+)\.\s*([^|]+)\s*\|[^|]+\|[^|]+\|[^|]+\|[^|]+\|\s*([^|]+?)\s*\|/gi;
-        let match;
-
-        while ((match = matrixPattern.exec(content)) !== null) {
-            const guardrailId = parseInt(match[1]);
-            const rawStatusText = match[3].trim();
-            const statusText = rawStatusText.toUpperCase();
-
-            // Parse status from the matrix
-            let status: SpecStatus;
-            let justification: string | undefined;
-
-            if (statusText === 'DONE') {
-                status = 'done';
-            } else if (statusText.startsWith('N/A') || statusText === 'NA' || statusText === 'NOT APPLICABLE') {
-                status = 'n/a';
-                // Extract justification if present: "N/A - reason" -> "reason"
-                if (rawStatusText.includes('-')) {
-                    justification = rawStatusText.split('-').slice(1).join('-').trim();
-                }
-            } else if (statusText === 'PARTIAL' || statusText === 'IN PROGRESS') {
-                status = 'partial';
-            } else {
-                // TODO, empty, or any other status
-                status = 'todo';
-            }
-
+    private parseGuardrailCoverageForWorkspace(specName: string, rows: CoverageRow[], workspaceCoverage: GuardrailCoverage[]): void {
+        for (const { guardrailId, status, justification, owners } of rows) {
             const coverage = workspaceCoverage.find((c) => c.guardrail.id === guardrailId);
             if (coverage) {
                 // Check if spec already tracked (avoid duplicates)
                 const existingSpec = coverage.specCoverage.find(sc => sc.specName === specName);
                 if (!existingSpec) {
-                    coverage.specCoverage.push({ specName, status, justification });
+                    coverage.specCoverage.push({ specName, status, justification, owners });
                     // Maintain coveredBy for display (only DONE specs)
                     if (status === 'done' && !coverage.coveredBy.includes(specName)) {
                         coverage.coveredBy.push(specName);
@@ -759,6 +781,7 @@ export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem>
         // Sort by guardrail ID (numeric order)
         const items = workspaceCoverage
             .filter((c) => c.guardrail.enabled)
+            .filter((c) => !this.assignedToMe || this.getVisibleSpecCoverage(c).length > 0)
             .sort((a, b) => a.guardrail.id - b.guardrail.id)
             .map((c) => new GuardrailTreeItem(c, workspacePath));
 
@@ -786,19 +809,7 @@ export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem>
                 ];
             }
             // Show all specs with their status indicator
-            return coverage.specCoverage.map((sc) => {
-                // Warn if N/A status lacks justification
-                const needsJustification = sc.status === 'n/a' && !sc.justification;
-                const label = needsJustification
-                    ? `${sc.specName} (n/a ⚠️ needs justification)`
-                    : `${sc.specName} (${sc.status})`;
-                return new GuardrailTreeItem(
-                    undefined,
-                    undefined,
-                    label,
-                    'spec-reference'
-                );
-            });
+            return this.getVisibleSpecCoverage(coverage).map(sc => this.createSpecReferenceItem(sc));
         }
 
         // Fall back to flat coverage (backward compatibility)
@@ -815,25 +826,76 @@ export class GuardrailTreeProvider implements vscode.TreeDataProvider<TreeItem>
         }
 
         // Show all specs with their status indicator
-        return coverage.specCoverage.map((sc) => {
-            // Warn if N/A status lacks justification
-            const needsJustification = sc.status === 'n/a' && !sc.justification;
-            const label = needsJustification
-                ? `${sc.specName} (n/a ⚠️ needs justification)`
-                : `${sc.specName} (${sc.status})`;
-            return new GuardrailTreeItem(
-                undefined,
-                undefined,
-                label,
-                'spec-reference'
-            );
-        });
+        return this.getVisibleSpecCoverage(coverage).map(sc => this.createSpecReferenceItem(sc));
+    }
+
+    /**
+     * The specs of a guardrail shown in the view: all of them, or only the rows
+     * assigned to the current user when the "assigned to me" filter is on.
+     */
+    private getVisibleSpecCoverage(coverage: GuardrailCoverage): SpecCoverage[] {
+        return this.assignedToMe
+            ? coverage.specCoverage.filter(sc => isOwnedBy(sc.owners ?? [], this.userIdentities))
+            : coverage.specCoverage;
+    }
+
+    private createSpecReferenceItem(sc: SpecCoverage): GuardrailTreeItem {
+        // Warn if N/A status lacks justification
+        const needsJustification = sc.status === 'n/a' && !sc.justification;
+        const label = needsJustification
+            ? `${sc.specName} (n/a ⚠️ needs justification)`
+            : `${sc.specName} (${sc.status})`;
+        const item = new GuardrailTreeItem(
+            undefined,
+            undefined,
+            label,
+            'spec-reference'
+        );
+        if (sc.owners?.length) {
+            item.description = sc.owners.join(', ');
+        }
+        return item;
+    }
+
+    /**
+     * Show only the guardrails and matrix rows assigned to the current user.
+     */
+    setAssignedToMe(assignedToMe: boolean): void {
+        this.assignedToMe = assignedToMe;
+        this._onDidChangeTreeData.fire();
+    }
+
+    isAssignedToMe(): boolean {
+        return this.assignedToMe;
+    }
+
+    /**
+     * Set the current user's identities (git user.name / user.email) for the "assigned to me" filter.
+     */
+    setUserIdentities(identities: string[]): void {
+        this.userIdentities = identities;
+        if (this.assignedToMe) {
+            this._onDidChangeTreeData.fire();
+        }
     }
 
     getCoverage(): GuardrailCoverage[] {
         return this.coverage;
     }
 
+    /**
+     * Get the guardrails and preset of a workspace, loading them if the view
+     * doesn't show that workspace (e.g. while another project is active).
+     */
+    getGuardrailsForWorkspace(workspacePath: string): { guardrails: Guardrail[]; preset: string | undefined } {
+        const guardrails = this.guardrailsPerWorkspace.get(workspacePath);
+        if (guardrails) {
+            return { guardrails, preset: this.presetsPerWorkspace.get(workspacePath) };
+        }
+        const guardrailsFileName = vscode.workspace.getConfiguration('ldf').get('guardrailsFile', '.ldf/guardrails.yaml');
+        return this.loadGuardrailsForWorkspace(workspacePath, guardrailsFileName);
+    }
+
     /**
      * Get coverage for a specific workspace path.
      * Used by showGuardrailDetails to show workspace-scoped coverage in multi-root workspaces.
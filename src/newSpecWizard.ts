@@ -0,0 +1,268 @@
+/**
+ * New Spec wizard
+ *
+ * Multi-step QuickInput flow behind `LDF: Create New Spec`:
+ * 1. Target project (only in workspaces with several projects)
+ * 2. Spec name
+ * 3. Overview
+ * 4. Initial user stories (one per entry; accept an empty entry to continue)
+ * 5. Question packs to answer (see questionPacks.ts; core packs preselected)
+ *
+ * Every step after the first has a Back button. The wizard only collects
+ * answers; commands.ts renders the requirements template from them.
+ */
+
+import * as vscode from 'vscode';
+import { QuestionPack } from './questionPacks';
+
+export interface NewSpecAnswers {
+    projectPath: string;
+    name: string;
+    overview: string;
+    userStories: string[];
+    questionPacks: QuestionPack[];
+}
+
+export interface NewSpecWizardOptions {
+    /** Projects to choose from; the step is skipped when there is only one */
+    projects: Array<{ path: string; name: string }>;
+    /** Project preselected in the project step */
+    defaultProjectPath: string;
+    /** Validate a spec name for a project; returns an error message or null */
+    validateName: (projectPath: string, name: string) => string | null;
+    /** Question packs of a project */
+    getQuestionPacks: (projectPath: string) => QuestionPack[];
+}
+
+// Result of a step: move on, go back, or cancel the wizard
+type StepResult = 'next' | 'back' | 'cancel';
+
+const TITLE = 'New Spec';
+
+/**
+ * Run the wizard. Returns undefined if it was cancelled.
+ */
+export async function runNewSpecWizard(options: NewSpecWizardOptions): Promise<NewSpecAnswers | undefined> {
+    const answers: NewSpecAnswers = {
+        projectPath: options.defaultProjectPath,
+        name: '',
+        overview: '',
+        userStories: [],
+        questionPacks: [],
+    };
+    let packsProjectPath: string | undefined;
+
+    const steps: Array<(step: number, totalSteps: number) => Promise<StepResult>> = [];
+    if (options.projects.length > 1) {
+        steps.push(async (step, totalSteps) => {
+            const items = options.projects.map(p => ({ label: p.name, description: p.path, path: p.path }));
+            const selected = await pick(items, {
+                step,
+                totalSteps,
+                placeholder: 'Project to create the spec in',
+                active: items.find(i => i.path === answers.projectPath),
+            });
+            if (typeof selected === 'string') return selected;
+            answers.projectPath = selected[0].path;
+            return 'next';
+        });
+    }
+    steps.push(async (step, totalSteps) => {
+        const value = await input({
+            step,
+            totalSteps,
+            value: answers.name,
+            prompt: 'Spec name (e.g., user-authentication)',
+            placeholder: 'feature-name',
+            validate: name => options.validateName(answers.projectPath, name),
+        });
+        if (!isValue(value)) return value.result;
+        answers.name = value.value;
+        return 'next';
+    });
+    steps.push(async (step, totalSteps) => {
+        const value = await input({
+            step,
+            totalSteps,
+            value: answers.overview,
+            prompt: 'Overview: what does this feature do? (optional)',
+            placeholder: 'Brief description of the feature',
+        });
+        if (!isValue(value)) return value.result;
+        answers.overview = value.value;
+        return 'next';
+    });
+    steps.push(async (step, totalSteps) => {
+        // Loops until an empty entry is accepted
+        for (;;) {
+            const count = answers.userStories.length;
+            const value = await input({
+                step,
+                totalSteps,
+                value: '',
+                prompt: count === 0
+                    ? 'First user story title (optional; press Enter on an empty entry to continue)'
+                    : `${count} user ${count === 1 ? 'story' : 'stories'} added: ` +
+                      `${answers.userStories.join(', ')}. Add another, or press Enter to continue`,
+                placeholder: `US-${count + 1}: e.g., Sign in with email`,
+            });
+            if (!isValue(value)) {
+                if (value.result === 'back' && count > 0) {
+                    // Back removes the last story before leaving the step
+                    answers.userStories.pop();
+                    continue;
+                }
+                return value.result;
+            }
+            if (!value.value) return 'next';
+            answers.userStories.push(value.value.replace(/^US-\d+:\s*/i, ''));
+        }
+    });
+    steps.push(async (step, totalSteps) => {
+        const packs = options.getQuestionPacks(answers.projectPath);
+        if (packsProjectPath !== answers.projectPath) {
+            // Default to the project's core packs
+            answers.questionPacks = packs.filter(p => p.core);
+            packsProjectPath = answers.projectPath;
+        }
+        const items = packs.map(pack => ({
+            label: pack.title,
+            description: pack.core ? `${pack.name} • core` : pack.name,
+            detail: pack.questions.length > 0 ? pack.questions.join(', ') : undefined,
+            pack,
+        }));
+        const selected = await pick(items, {
+            step,
+            totalSteps,
+            placeholder: items.length > 0
+                ? 'Question packs to answer'
+                : 'No question packs configured; press Enter to create the spec',
+            canPickMany: true,
+            selected: items.filter(i => answers.questionPacks.some(p => p.name === i.pack.name)),
+        });
+        if (typeof selected === 'string') return selected;
+        answers.questionPacks = selected.map(i => i.pack);
+        return 'next';
+    });
+
+    let index = 0;
+    while (index < steps.length) {
+        const result = await steps[index](index + 1, steps.length);
+        if (result === 'cancel') {
+            return undefined;
+        }
+        index = result === 'back' ? Math.max(0, index - 1) : index + 1;
+    }
+    return answers;
+}
+
+interface InputOptions {
+    step: number;
+    totalSteps: number;
+    value: string;
+    prompt: string;
+    placeholder: string;
+    validate?: (value: string) => string | null;
+}
+
+function isValue(result: { value: string } | { result: StepResult }): result is { value: string } {
+    return 'value' in result;
+}
+
+/**
+ * Show one InputBox step. Resolves with the trimmed value, or with 'back' / 'cancel'.
+ */
+function input(options: InputOptions): Promise<{ value: string } | { result: StepResult }> {
+    return new Promise(resolve => {
+        const box = vscode.window.createInputBox();
+        box.title = TITLE;
+        box.step = options.step;
+        box.totalSteps = options.totalSteps;
+        box.value = options.value;
+        box.prompt = options.prompt;
+        box.placeholder = options.placeholder;
+        box.buttons = options.step > 1 ? [vscode.QuickInputButtons.Back] : [];
+        box.ignoreFocusOut = true;
+
+        let done = false;
+        const finish = (result: { value: string } | { result: StepResult }) => {
+            if (done) return;
+            done = true;
+            resolve(result);
+            box.dispose();
+        };
+        const validate = () => {
+            box.validationMessage = options.validate?.(box.value.trim()) ?? undefined;
+        };
+        if (options.value) {
+            validate();
+        }
+        box.onDidChangeValue(validate);
+        box.onDidAccept(() => {
+            validate();
+            if (!box.validationMessage) {
+                finish({ value: box.value.trim() });
+            }
+        });
+        box.onDidTriggerButton(button => {
+            if (button === vscode.QuickInputButtons.Back) {
+                finish({ result: 'back' });
+            }
+        });
+        box.onDidHide(() => finish({ result: 'cancel' }));
+        box.show();
+    });
+}
+
+interface PickOptions<T> {
+    step: number;
+    totalSteps: number;
+    placeholder: string;
+    canPickMany?: boolean;
+    active?: T;
+    selected?: T[];
+}
+
+/**
+ * Show one QuickPick step. Resolves with the picked items, or with 'back' / 'cancel'.
+ */
+function pick<T extends vscode.QuickPickItem>(items: T[], options: PickOptions<T>): Promise<T[] | StepResult> {
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick<T>();
+        quickPick.title = TITLE;
+        quickPick.step = options.step;
+        quickPick.totalSteps = options.totalSteps;
+        quickPick.placeholder = options.placeholder;
+        quickPick.canSelectMany = options.canPickMany ?? false;
+        quickPick.items = items;
+        if (options.active) {
+            quickPick.activeItems = [options.active];
+        }
+        if (options.selected) {
+            quickPick.selectedItems = options.selected;
+        }
+        quickPick.buttons = options.step > 1 ? [vscode.QuickInputButtons.Back] : [];
+        quickPick.ignoreFocusOut = true;
+
+        let done = false;
+        const finish = (result: T[] | StepResult) => {
+            if (done) return;
+            done = true;
+            resolve(result);
+            quickPick.dispose();
+        };
+        quickPick.onDidAccept(() => {
+            const picked = quickPick.canSelectMany ? quickPick.selectedItems : quickPick.activeItems;
+            if (quickPick.canSelectMany || picked.length > 0) {
+                finish([...picked]);
+            }
+        });
+        quickPick.onDidTriggerButton(button => {
+            if (button === vscode.QuickInputButtons.Back) {
+                finish('back');
+            }
+        });
+        quickPick.onDidHide(() => finish('cancel'));
+        quickPick.show();
+    });
+}
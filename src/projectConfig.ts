@@ -0,0 +1,50 @@
+/**
+ * LDF project configuration (.ldf/config.yaml) access.
+ *
+ * Sections of config.yaml are interpreted by the modules that own them;
+ * this module only locates and parses the file.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+
+// Project config path relative to the project root
+export const PROJECT_CONFIG_FILE = path.join('.ldf', 'config.yaml');
+
+/**
+ * Result of reading a project's config.yaml.
+ */
+export interface ProjectConfigResult {
+    /** Parsed top-level mapping (empty if the file is missing or invalid) */
+    data: Record<string, unknown>;
+    /** Absolute path to config.yaml */
+    filePath: string;
+    /** Parse error message, if the file exists but could not be parsed */
+    error?: string;
+}
+
+/**
+ * Read and parse .ldf/config.yaml for a project.
+ */
+export function readProjectConfig(projectPath: string): ProjectConfigResult {
+    const filePath = path.join(projectPath, PROJECT_CONFIG_FILE);
+
+    if (!fs.existsSync(filePath)) {
+        return { data: {}, filePath };
+    }
+
+    try {
+        const data = yaml.load(fs.readFileSync(filePath, 'utf-8'));
+        if (data === null || data === undefined) {
+            return { data: {}, filePath };
+        }
+        if (typeof data !== 'object' || Array.isArray(data)) {
+            return { data: {}, filePath, error: 'config.yaml must be a mapping' };
+        }
+        return { data: data as Record<string, unknown>, filePath };
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return { data: {}, filePath, error: message };
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * Question packs
+ *
+ * Question packs are the topics a spec's "Question-Pack Answers" section
+ * covers (security, testing, data model, ...). A project's packs come from:
+ * - `question_packs.core` / `question_packs.optional` in .ldf/config.yaml
+ * - pack files in .ldf/question-packs/ and, when the workspace inherits them,
+ *   .ldf-shared/question-packs/ (`<name>.yaml`)
+ *
+ * Pack files may give a title and the questions to answer:
+ *
+ *   title: Security
+ *   questions:
+ *     - Authentication
+ *     - id: authorization
+ *       question: Authorization
+ *
+ * Packs without a file get a single placeholder answer.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { readProjectConfig } from './projectConfig';
+
+// Project question packs directory relative to the project root
+export const QUESTION_PACKS_DIR = path.join('.ldf', 'question-packs');
+
+export interface QuestionPack {
+    /** Pack name (e.g. 'api-design') */
+    name: string;
+    /** Display title (e.g. 'Api Design') */
+    title: string;
+    /** Questions to answer; empty when the pack has no file */
+    questions: string[];
+    /** Listed under question_packs.core in config.yaml */
+    core: boolean;
+}
+
+/**
+ * List a project's question packs: config.yaml's packs first (core, then
+ * optional), then packs that only exist as files. Project pack files
+ * override shared ones.
+ * @param sharedPacksDir The workspace's shared question packs directory, when inherited
+ */
+export function listQuestionPacks(projectPath: string, sharedPacksDir?: string | null): QuestionPack[] {
+    const packDirs = [path.join(projectPath, QUESTION_PACKS_DIR)];
+    if (sharedPacksDir) {
+        packDirs.push(sharedPacksDir);
+    }
+
+    const section = readProjectConfig(projectPath).data.question_packs;
+    const configured = typeof section === 'object' && section !== null && !Array.isArray(section)
+        ? section as Record<string, unknown>
+        : {};
+    const core = toNames(configured.core);
+    const names = [...core, ...toNames(configured.optional)];
+    for (const dir of packDirs) {
+        for (const name of listPackFiles(dir)) {
+            names.push(name);
+        }
+    }
+
+    return [...new Set(names)].map(name => ({
+        ...readPackFile(name, packDirs),
+        name,
+        core: core.includes(name),
+    }));
+}
+
+/**
+ * Title for a pack name: 'api-design' → 'Api Design'.
+ */
+export function formatPackTitle(name: string): string {
+    return name
+        .split(/[-_\s]+/)
+        .filter(Boolean)
+        .map(word => word[0].toUpperCase() + word.slice(1))
+        .join(' ');
+}
+
+function toNames(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()) : [];
+}
+
+function listPackFiles(dir: string): string[] {
+    try {
+        return fs.readdirSync(dir)
+            .filter(file => /\.ya?ml$/i.test(file))
+            .map(file => file.replace(/\.ya?ml$/i, ''))
+            .sort();
+    } catch {
+        return [];
+    }
+}
+
+function readPackFile(name: string, packDirs: string[]): { title: string; questions: string[] } {
+    const fallback = { title: formatPackTitle(name), questions: [] };
+    for (const dir of packDirs) {
+        for (const ext of ['.yaml', '.yml']) {
+            const filePath = path.join(dir, name + ext);
+            if (!fs.existsSync(filePath)) {
+                continue;
+            }
+            try {
+                const data = yaml.load(fs.readFileSync(filePath, 'utf-8')) as Record<string, unknown> | null;
+                if (!data || typeof data !== 'object') {
+                    return fallback;
+                }
+                const title = typeof data.title === 'string' ? data.title
+                    : typeof data.name === 'string' ? data.name
+                    : fallback.title;
+                const questions = Array.isArray(data.questions)
+                    ? data.questions.map(questionText).filter((q): q is string => !!q)
+                    : [];
+                return { title, questions };
+            } catch {
+                // Unreadable pack files still offer the pack by name
+                return fallback;
+            }
+        }
+    }
+    return fallback;
+}
+
+function questionText(entry: unknown): string | undefined {
+    if (typeof entry === 'string') {
+        return entry.trim() || undefined;
+    }
+    if (typeof entry === 'object' && entry !== null) {
+        const raw = entry as Record<string, unknown>;
+        for (const key of ['question', 'text', 'id']) {
+            if (typeof raw[key] === 'string' && raw[key]) {
+                return raw[key] as string;
+            }
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,103 @@
+/**
+ * Spec archive
+ *
+ * Finished specs can be moved into an `_archive` folder inside the specs
+ * directory (e.g. `.ldf/specs/_archive/user-auth`). Archived specs keep
+ * their files but are hidden from the views unless `ldf.showArchivedSpecs`
+ * is enabled, and are left out of guardrail coverage unless
+ * `ldf.includeArchivedInCoverage` is enabled.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Archive folder name inside the specs directory
+export const ARCHIVE_DIR = '_archive';
+
+/**
+ * A spec directory found in a specs directory.
+ */
+export interface SpecDirEntry {
+    name: string;
+    path: string;
+    archived: boolean;
+}
+
+/**
+ * Directory of a spec, inside the archive if `archived` is set.
+ */
+export function getSpecDir(specsDir: string, specName: string, archived?: boolean): string {
+    return archived
+        ? path.join(specsDir, ARCHIVE_DIR, specName)
+        : path.join(specsDir, specName);
+}
+
+/**
+ * List spec directories, skipping the archive folder itself.
+ * Archived specs are appended when `includeArchived` is set.
+ * @param listDirectories Reads subdirectory names (the tree providers pass the
+ * spec index's cached listings); reads the disk by default
+ */
+export function listSpecDirs(
+    specsDir: string,
+    includeArchived: boolean = false,
+    listDirectories: (dir: string) => string[] = readSubdirectories
+): SpecDirEntry[] {
+    const entries = listDirectories(specsDir)
+        .filter(name => name !== ARCHIVE_DIR)
+        .map(name => ({ name, path: path.join(specsDir, name), archived: false }));
+
+    if (includeArchived) {
+        entries.push(...listArchivedSpecs(specsDir, listDirectories));
+    }
+    return entries;
+}
+
+/**
+ * List archived spec directories.
+ */
+export function listArchivedSpecs(
+    specsDir: string,
+    listDirectories: (dir: string) => string[] = readSubdirectories
+): SpecDirEntry[] {
+    const archiveDir = path.join(specsDir, ARCHIVE_DIR);
+    return listDirectories(archiveDir)
+        .map(name => ({ name, path: path.join(archiveDir, name), archived: true }));
+}
+
+function readSubdirectories(dir: string): string[] {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir, { withFileTypes: true })
+        .filter(d => d.isDirectory())
+        .map(d => d.name);
+}
+
+/**
+ * Move a spec into the archive. Returns the archived spec's directory.
+ * Throws if the spec doesn't exist or an archived spec has the same name.
+ */
+export function archiveSpec(specsDir: string, specName: string): string {
+    return moveSpec(getSpecDir(specsDir, specName), getSpecDir(specsDir, specName, true), specName);
+}
+
+/**
+ * Move an archived spec back into the specs directory. Returns its new directory.
+ * Throws if the archived spec doesn't exist or an active spec has the same name.
+ */
+export function restoreSpec(specsDir: string, specName: string): string {
+    return moveSpec(getSpecDir(specsDir, specName, true), getSpecDir(specsDir, specName), specName);
+}
+
+function moveSpec(from: string, to: string, specName: string): string {
+    if (!fs.existsSync(from)) {
+        throw new Error(`Spec '${specName}' not found at ${from}`);
+    }
+    if (fs.existsSync(to)) {
+        throw new Error(`A spec named '${specName}' already exists at ${to}`);
+    }
+    fs.mkdirSync(path.dirname(to), { recursive: true });
+    fs.renameSync(from, to);
+    return to;
+}
@@ -0,0 +1,280 @@
+/**
+ * Spec completions
+ *
+ * Context-aware suggestions while editing spec documents (see
+ * specCompletions.ts):
+ * - the next free ID when starting a user story heading (`### US-4: `), an
+ *   acceptance criterion (`- [ ] AC-2.3: `), a phase (`## Phase 3: `) or a
+ *   task (`- [ ] **Task 2.4:** `)
+ * - guardrail names in the first cell of a guardrail table row, completing
+ *   the rest of the row when it is empty
+ * - coverage statuses in the Status column
+ * - IDs defined in the spec inside `[...]` reference brackets, limited to
+ *   stories, sections or tasks in the matrix's Requirements, Design and
+ *   Tasks columns
+ */
+
+import type { Guardrail } from './guardrailView';
+import { SpecFileKind } from './specSymbolData';
+import { SpecIdFamily, SpecIdOccurrence, findSpecIds } from './specReferenceData';
+
+export interface SpecCompletion {
+    label: string;
+    kind: 'id' | 'guardrail' | 'status' | 'reference';
+    /** Replaces the line from replaceStart up to the cursor */
+    insertText: string;
+    replaceStart: number;
+    /** insertText is a snippet (with tab stops) */
+    isSnippet?: boolean;
+    /** Text matched against what was typed, when it differs from the label */
+    filterText?: string;
+    detail?: string;
+    sortText?: string;
+}
+
+export interface SpecCompletionContext {
+    /** Kind of the document being edited (undefined for other spec documents) */
+    kind: SpecFileKind | undefined;
+    content: string;
+    /** 0-based cursor position */
+    line: number;
+    character: number;
+    /** Guardrails of the spec's project */
+    guardrails: Guardrail[];
+    /** Content of the spec's requirements.md, design.md and tasks.md */
+    documents: Partial<Record<SpecFileKind, string>>;
+}
+
+export const COVERAGE_STATUSES = ['DONE', 'TODO', 'PARTIAL', 'N/A'];
+
+// Matrix columns whose references are of one family
+const COLUMN_FAMILIES: Array<{ pattern: RegExp; family: SpecIdFamily }> = [
+    { pattern: /requirement|stor/i, family: 'story' },
+    { pattern: /design|section/i, family: 'section' },
+    { pattern: /task|test/i, family: 'task' },
+];
+
+/**
+ * Completions at the cursor, or none when the cursor isn't in one of the
+ * supported contexts.
+ */
+export function getSpecCompletions(context: SpecCompletionContext): SpecCompletion[] {
+    const lines = context.content.split(/\r?\n/);
+    const text = lines[context.line] ?? '';
+    const before = text.slice(0, context.character);
+
+    const bracket = before.match(/\[([^[\]]*)$/);
+    // `- [` starts a checkbox, not a reference
+    if (bracket && !/^\s*[-*]\s+\[[ xX]?$/.test(before)) {
+        return getReferenceCompletions(context, lines, before, bracket[1]);
+    }
+    if (/^\s*\|/.test(text)) {
+        return getTableCompletions(context, lines, text, before);
+    }
+    return getNextIdCompletions(context, lines, before);
+}
+
+function getReferenceCompletions(
+    context: SpecCompletionContext,
+    lines: string[],
+    before: string,
+    inBracket: string
+): SpecCompletion[] {
+    const typed = inBracket.match(/[^,\s]*$/)![0];
+    const header = getTableHeader(lines, context.line);
+    const column = header?.cells[cellIndex(before)] ?? '';
+    const family = COLUMN_FAMILIES.find(c => c.pattern.test(column))?.family;
+
+    const completions: SpecCompletion[] = [];
+    for (const [kind, content] of Object.entries(context.documents) as Array<[SpecFileKind, string | undefined]>) {
+        const contentLines = content?.split(/\r?\n/) ?? [];
+        for (const definition of findSpecIds(kind, content ?? '').filter(o => o.definition)) {
+            if (family && definition.family !== family) {
+                continue;
+            }
+            completions.push({
+                label: definition.id,
+                kind: 'reference',
+                insertText: definition.id,
+                replaceStart: context.character - typed.length,
+                detail: describeDefinition(definition, contentLines[definition.line] ?? ''),
+                sortText: sortKey(definition),
+            });
+        }
+    }
+    return completions;
+}
+
+function getTableCompletions(context: SpecCompletionContext, lines: string[], text: string, before: string): SpecCompletion[] {
+    const header = getTableHeader(lines, context.line);
+    if (!header || context.line === header.line || !/guardrail/i.test(header.cells[0] ?? '')) {
+        return [];
+    }
+    const cell = cellIndex(before);
+    const typed = before.match(/[^|]*$/)![0];
+    const replaceStart = context.character - typed.trimStart().length;
+
+    if (cell === 0) {
+        const isEmptyRow = text.slice(context.character).trim() === '';
+        const used = new Set(tableLines(lines, context.line)
+            .filter(line => line !== context.line)
+            .map(line => lines[line].match(/^\s*\|\s*(\d+)\./)?.[1])
+            .filter((id): id is string => id !== undefined)
+            .map(Number));
+        return context.guardrails.map(guardrail => {
+            const name = `${guardrail.id}. ${guardrail.name}`;
+            return {
+                label: name,
+                kind: 'guardrail',
+                insertText: isEmptyRow ? rowSnippet(name, header.cells) : name,
+                isSnippet: isEmptyRow,
+                replaceStart,
+                detail: [guardrail.severity, guardrail.enabled ? undefined : 'disabled', used.has(guardrail.id) ? 'in table' : undefined]
+                    .filter(Boolean).join(' · '),
+                // Guardrails missing from the table first, then by ID
+                sortText: `${used.has(guardrail.id) || !guardrail.enabled ? 1 : 0}${String(guardrail.id).padStart(4, '0')}`,
+            };
+        });
+    }
+
+    if (/status/i.test(header.cells[cell] ?? '')) {
+        return COVERAGE_STATUSES.map((status, i) => ({
+            label: status === 'N/A' ? 'N/A - …' : status,
+            kind: 'status',
+            insertText: status === 'N/A' ? 'N/A - ${1:justification}' : status,
+            isSnippet: status === 'N/A',
+            filterText: status,
+            replaceStart,
+            sortText: String(i),
+        }));
+    }
+    return [];
+}
+
+function getNextIdCompletions(context: SpecCompletionContext, lines: string[], before: string): SpecCompletion[] {
+    if (context.kind !== 'requirements' && context.kind !== 'tasks') {
+        return [];
+    }
+    const definitions = findSpecIds(context.kind, context.content).filter(o => o.definition && o.line !== context.line);
+    const heading = before.match(/^(#{2,4}\s+)[\w-]*$/);
+    const listItem = before.match(/^(\s*[-*]\s+(?:\[[ xX]\]\s+)?)[\w*-]*$/);
+
+    if (context.kind === 'requirements') {
+        if (heading) {
+            const id = `US-${nextNumber(definitions, 'story', '')}`;
+            return [nextId(`${id}: `, id, heading[1].length, 'Next user story')];
+        }
+        const story = [...definitions].reverse()
+            .find(o => o.line < context.line && !o.number.includes('.'));
+        if (listItem && story && !hasSectionBetween(lines, story.line, context.line)) {
+            const id = `AC-${story.number}.${nextNumber(definitions, 'story', story.number)}`;
+            return [nextId(`${id}: `, id, listItem[1].length, `Next criterion of ${story.id}`)];
+        }
+        return [];
+    }
+
+    if (heading) {
+        const number = nextNumber(definitions, 'task', '');
+        return [nextId(`Phase ${number}: `, `Phase ${number}`, heading[1].length, 'Next phase')];
+    }
+    if (listItem && /\[[ xX]\]/.test(listItem[1])) {
+        const phase = [...definitions].reverse().find(o => o.line < context.line && !o.number.includes('.'));
+        const major = phase?.number ?? '1';
+        const id = `Task ${major}.${nextNumber(definitions, 'task', major)}`;
+        return [nextId(`**${id}:** `, id, listItem[1].length, phase ? `Next task of phase ${major}` : 'Next task')];
+    }
+    return [];
+}
+
+function nextId(insertText: string, label: string, replaceStart: number, detail: string): SpecCompletion {
+    return { label, kind: 'id', insertText, replaceStart, filterText: insertText, detail };
+}
+
+/**
+ * One more than the highest number of the family directly under `parent`
+ * ('' for top-level numbers).
+ */
+function nextNumber(definitions: SpecIdOccurrence[], family: SpecIdFamily, parent: string): number {
+    const numbers = definitions
+        .filter(o => o.family === family)
+        .map(o => o.number.split('.'))
+        .filter(parts => parts.length === (parent ? 2 : 1) && (!parent || parts[0] === parent))
+        .map(parts => Number(parts[parts.length - 1]));
+    return Math.max(0, ...numbers) + 1;
+}
+
+function hasSectionBetween(lines: string[], from: number, to: number): boolean {
+    return lines.slice(from + 1, to).some(line => /^#{1,2}\s/.test(line));
+}
+
+/**
+ * Line numbers of the table around a line.
+ */
+function tableLines(lines: string[], line: number): number[] {
+    const isRow = (i: number) => /^\s*\|/.test(lines[i] ?? '');
+    let first = line;
+    while (first > 0 && isRow(first - 1)) {
+        first--;
+    }
+    let last = line;
+    while (isRow(last + 1)) {
+        last++;
+    }
+    return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+}
+
+/**
+ * Header cells and line of the table a line belongs to.
+ */
+function getTableHeader(lines: string[], line: number): { cells: string[]; line: number } | undefined {
+    if (!/^\s*\|/.test(lines[line] ?? '')) {
+        return undefined;
+    }
+    const headerLine = tableLines(lines, line)[0];
+    const cells = lines[headerLine].trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+    return { cells, line: headerLine };
+}
+
+/**
+ * Index of the table cell at the end of `before` (0 for the first cell).
+ */
+function cellIndex(before: string): number {
+    return (before.match(/\|/g)?.length ?? 1) - 1;
+}
+
+/**
+ * A guardrail row as a snippet: reference brackets, the owner and a status
+ * choice, following the table's header.
+ */
+function rowSnippet(name: string, header: string[]): string {
+    const cells = header.map((column, i) => {
+        if (i === 0) {
+            return escapeSnippet(name);
+        }
+        if (/status/i.test(column)) {
+            return `\${${i}|${COVERAGE_STATUSES.join(',')}|}`;
+        }
+        return /owner/i.test(column) ? `\${${i}}` : `[\${${i}}]`;
+    });
+    return `${cells.join(' | ')} |`;
+}
+
+/**
+ * Escape text so a snippet inserts it literally.
+ */
+function escapeSnippet(text: string): string {
+    return text.replace(/[\\$}]/g, '\\$&');
+}
+
+function describeDefinition(definition: SpecIdOccurrence, text: string): string {
+    if (definition.numberStart === undefined) {
+        // Section numbered by position: the whole heading
+        return text.slice(definition.start, definition.end);
+    }
+    return text.slice(definition.end).replace(/^[\s:.*-]+/, '').replace(/\**$/, '').trim();
+}
+
+function sortKey(definition: SpecIdOccurrence): string {
+    const family = ['story', 'section', 'task'].indexOf(definition.family);
+    return `${family}${definition.number.split('.').map(n => n.padStart(4, '0')).join('.')}`;
+}
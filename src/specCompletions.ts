@@ -0,0 +1,65 @@
+/**
+ * Spec Completion Provider
+ *
+ * Context-aware completions in spec documents (see specCompletionData.ts):
+ * next free US/AC/Task numbers, guardrail names and statuses in the coverage
+ * matrix, and IDs defined in the spec inside `[...]` references.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecTreeProvider } from './specView';
+import { GuardrailTreeProvider } from './guardrailView';
+import { SpecFileKind, getSpecFileKind } from './specSymbolData';
+import { SpecCompletion, getSpecCompletions } from './specCompletionData';
+import { getDocumentSpec, readSpecDocument } from './specReferences';
+
+/** Characters that open a completion context: references, table cells and reference lists */
+export const SPEC_COMPLETION_TRIGGERS = ['[', '|', ','];
+
+const COMPLETION_KINDS: Record<SpecCompletion['kind'], vscode.CompletionItemKind> = {
+    id: vscode.CompletionItemKind.Snippet,
+    guardrail: vscode.CompletionItemKind.Constant,
+    status: vscode.CompletionItemKind.EnumMember,
+    reference: vscode.CompletionItemKind.Reference,
+};
+
+export class SpecCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(
+        private readonly specProvider: SpecTreeProvider,
+        private readonly guardrailProvider: GuardrailTreeProvider
+    ) {}
+
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+        const spec = getDocumentSpec(this.specProvider, document);
+        if (!spec) {
+            return [];
+        }
+
+        const documents: Partial<Record<SpecFileKind, string>> = {};
+        for (const kind of ['requirements', 'design', 'tasks'] as const) {
+            const filePath = path.join(spec.path, `${kind}.md`);
+            documents[kind] = filePath === document.uri.fsPath ? document.getText() : readSpecDocument(filePath);
+        }
+        const workspacePath = spec.folderPath ?? this.specProvider.getWorkspacePaths()[0];
+
+        const completions = getSpecCompletions({
+            kind: getSpecFileKind(document.fileName),
+            content: document.getText(),
+            line: position.line,
+            character: position.character,
+            guardrails: this.guardrailProvider.getGuardrailsForWorkspace(workspacePath).guardrails,
+            documents,
+        });
+
+        return completions.map(completion => {
+            const item = new vscode.CompletionItem(completion.label, COMPLETION_KINDS[completion.kind]);
+            item.insertText = completion.isSnippet ? new vscode.SnippetString(completion.insertText) : completion.insertText;
+            item.range = new vscode.Range(position.line, completion.replaceStart, position.line, position.character);
+            item.filterText = completion.filterText;
+            item.detail = completion.detail;
+            item.sortText = completion.sortText;
+            return item;
+        });
+    }
+}
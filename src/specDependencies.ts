@@ -0,0 +1,324 @@
+/**
+ * Spec-to-spec dependencies
+ *
+ * Dependencies are read from the `## Dependencies` section of requirements.md.
+ * Each bullet whose first word names a spec is a dependency; other bullets
+ * (libraries, services, placeholders) are ignored:
+ *
+ *   ## Dependencies
+ *
+ *   - user-auth - sessions must exist first
+ *   - billing:payment-api (spec in the "billing" project)
+ *   - [user-profile](../user-profile/requirements.md)
+ *   - PostgreSQL 14
+ *
+ * Cross-project references use `project:spec` or `project/spec`, where
+ * project is a workspace folder name or an ldf-workspace.yaml alias.
+ */
+
+/**
+ * A dependency reference as written in requirements.md.
+ */
+export interface SpecDependencyRef {
+    /** Project qualifier for cross-project references */
+    project?: string;
+    /** Referenced spec name */
+    spec: string;
+    /** 0-based line in requirements.md */
+    line: number;
+    /** 0-based column of the reference text (`project:spec` or `spec`), or -1 if markup splits it */
+    column: number;
+    /** Length of the reference text */
+    length: number;
+}
+
+/**
+ * A spec as seen by the dependency graph.
+ */
+export interface DependencyNode {
+    /** Unique id (the spec directory path) */
+    id: string;
+    name: string;
+    /** Project (workspace folder) the spec belongs to */
+    projectPath: string;
+    status: string;
+    dependencies: SpecDependencyRef[];
+}
+
+/**
+ * A project that specs can be resolved in.
+ */
+export interface DependencyProject {
+    path: string;
+    /** Names the project can be referenced by (folder name, alias) */
+    names: string[];
+}
+
+/**
+ * A resolved dependency: `from` depends on `to`.
+ */
+export interface DependencyEdge {
+    from: string;
+    to: string;
+    /** The reference in the dependent's requirements.md */
+    ref: SpecDependencyRef;
+}
+
+export interface DependencyGraph {
+    nodes: Map<string, DependencyNode>;
+    edges: DependencyEdge[];
+    /** Strongly connected components that form cycles (including self-dependencies) */
+    cycles: string[][];
+}
+
+/**
+ * A spec that is In Progress while one of its dependencies is still Draft.
+ */
+export interface StatusConflict {
+    spec: string;
+    dependency: string;
+}
+
+// Built-in status ids compared by findStatusConflicts (see SpecStatus in specView.ts)
+const IN_PROGRESS_STATUS = 'in-progress';
+const DRAFT_STATUS = 'draft';
+
+const DEPENDENCIES_HEADING = /^(#{2,3})\s+Dependencies\s*$/i;
+const BULLET = /^\s*[-*+]\s+(?:\[[ xX]\]\s+)?(.*)$/;
+const LINK = /^\[([^\]]+)\]\(([^)]*)\)/;
+const REFERENCE = /^([A-Za-z0-9][\w.-]*)(?:[:/]([A-Za-z0-9][\w.-]*))?/;
+
+/**
+ * Parse dependency references from the Dependencies section of requirements.md.
+ */
+export function parseDependencies(content: string): SpecDependencyRef[] {
+    const refs: SpecDependencyRef[] = [];
+    const lines = content.split(/\r?\n/);
+    let sectionLevel = 0;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const heading = line.match(/^(#{1,6})\s/);
+
+        if (sectionLevel === 0) {
+            const match = line.match(DEPENDENCIES_HEADING);
+            if (match) {
+                sectionLevel = match[1].length;
+            }
+            continue;
+        }
+        if (heading && heading[1].length <= sectionLevel) {
+            break;
+        }
+
+        const bullet = line.match(BULLET);
+        if (!bullet) {
+            continue;
+        }
+        const ref = parseReference(bullet[1]);
+        if (ref) {
+            const { text, ...target } = ref;
+            const column = line.indexOf(text, line.length - bullet[1].length);
+            refs.push({ ...target, line: i, column, length: text.length });
+        }
+    }
+
+    return refs;
+}
+
+function parseReference(text: string): { project?: string; spec: string; text: string } | undefined {
+    let candidate = text.trim();
+
+    // [user-auth](../user-auth/requirements.md) - use the link text
+    const link = candidate.match(LINK);
+    if (link) {
+        candidate = link[1];
+    }
+    candidate = candidate.replace(/\*\*|__|`/g, '').replace(/^\[\[/, '');
+
+    const match = candidate.match(REFERENCE);
+    if (!match) {
+        return undefined;
+    }
+    return match[2]
+        ? { project: match[1], spec: match[2], text: match[0] }
+        : { spec: match[1], text: match[0] };
+}
+
+/**
+ * Resolve dependency references between specs and detect cycles.
+ * References that don't name a known spec are treated as external
+ * dependencies and left out of the graph.
+ */
+export function buildDependencyGraph(specs: DependencyNode[], projects: DependencyProject[]): DependencyGraph {
+    const nodes = new Map(specs.map(s => [s.id, s]));
+    const byProject = new Map<string, Map<string, DependencyNode>>();
+    for (const spec of specs) {
+        if (!byProject.has(spec.projectPath)) {
+            byProject.set(spec.projectPath, new Map());
+        }
+        byProject.get(spec.projectPath)!.set(spec.name, spec);
+    }
+
+    const edges: DependencyEdge[] = [];
+    for (const spec of specs) {
+        const seen = new Set<string>();
+        for (const ref of spec.dependencies) {
+            const projectPath = ref.project
+                ? findProject(projects, ref.project)?.path
+                : spec.projectPath;
+            const target = projectPath ? byProject.get(projectPath)?.get(ref.spec) : undefined;
+            if (target && !seen.has(target.id)) {
+                seen.add(target.id);
+                edges.push({ from: spec.id, to: target.id, ref });
+            }
+        }
+    }
+
+    return { nodes, edges, cycles: findCycles(nodes, edges) };
+}
+
+function findProject(projects: DependencyProject[], name: string): DependencyProject | undefined {
+    const lower = name.toLowerCase();
+    return projects.find(p => p.names.some(n => n.toLowerCase() === lower));
+}
+
+/**
+ * Find cycles using Tarjan's strongly connected components algorithm.
+ */
+function findCycles(nodes: Map<string, DependencyNode>, edges: DependencyEdge[]): string[][] {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+        if (!adjacency.has(edge.from)) {
+            adjacency.set(edge.from, []);
+        }
+        adjacency.get(edge.from)!.push(edge.to);
+    }
+
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+    let counter = 0;
+
+    const visit = (id: string): void => {
+        index.set(id, counter);
+        lowLink.set(id, counter);
+        counter++;
+        stack.push(id);
+        onStack.add(id);
+
+        for (const next of adjacency.get(id) ?? []) {
+            if (!index.has(next)) {
+                visit(next);
+                lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+            } else if (onStack.has(next)) {
+                lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+            }
+        }
+
+        if (lowLink.get(id) === index.get(id)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.push(member);
+            } while (member !== id);
+
+            const selfLoop = (adjacency.get(id) ?? []).includes(id);
+            if (component.length > 1 || selfLoop) {
+                cycles.push(component.reverse());
+            }
+        }
+    };
+
+    for (const id of nodes.keys()) {
+        if (!index.has(id)) {
+            visit(id);
+        }
+    }
+
+    return cycles;
+}
+
+/**
+ * Specs that `id` depends on.
+ */
+export function getDependencies(graph: DependencyGraph, id: string): DependencyNode[] {
+    return graph.edges
+        .filter(e => e.from === id)
+        .map(e => graph.nodes.get(e.to)!);
+}
+
+/**
+ * Specs that depend on `id`.
+ */
+export function getDependents(graph: DependencyGraph, id: string): DependencyNode[] {
+    return graph.edges
+        .filter(e => e.to === id)
+        .map(e => graph.nodes.get(e.from)!);
+}
+
+/**
+ * The cycle a spec is part of, if any.
+ */
+export function getCycle(graph: DependencyGraph, id: string): string[] | undefined {
+    return graph.cycles.find(c => c.includes(id));
+}
+
+/**
+ * Specs that are In Progress while a dependency is still Draft.
+ */
+export function findStatusConflicts(graph: DependencyGraph): StatusConflict[] {
+    return graph.edges
+        .filter(e =>
+            graph.nodes.get(e.from)!.status === IN_PROGRESS_STATUS &&
+            graph.nodes.get(e.to)!.status === DRAFT_STATUS
+        )
+        .map(e => ({ spec: e.from, dependency: e.to }));
+}
+
+/**
+ * Assign each spec a layer for drawing: specs with no dependencies are in
+ * layer 0, and every spec sits one layer after its deepest dependency.
+ * Edges inside a cycle are ignored so cyclic specs share a layer.
+ */
+export function computeLayers(graph: DependencyGraph): Map<string, number> {
+    // Collapse each cycle onto its first member so the remaining graph is acyclic
+    const representative = new Map<string, string>();
+    graph.cycles.forEach(cycle => cycle.forEach(id => representative.set(id, cycle[0])));
+    const rep = (id: string): string => representative.get(id) ?? id;
+
+    const dependencies = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+        const from = rep(edge.from);
+        const to = rep(edge.to);
+        if (from === to) {
+            continue;
+        }
+        if (!dependencies.has(from)) {
+            dependencies.set(from, []);
+        }
+        dependencies.get(from)!.push(to);
+    }
+
+    const repLayers = new Map<string, number>();
+    const resolve = (id: string): number => {
+        const known = repLayers.get(id);
+        if (known !== undefined) {
+            return known;
+        }
+        const deps = dependencies.get(id) ?? [];
+        const layer = deps.length === 0 ? 0 : Math.max(...deps.map(resolve)) + 1;
+        repLayers.set(id, layer);
+        return layer;
+    };
+
+    const layers = new Map<string, number>();
+    for (const id of graph.nodes.keys()) {
+        layers.set(id, resolve(rep(id)));
+    }
+    return layers;
+}
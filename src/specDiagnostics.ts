@@ -0,0 +1,213 @@
+/**
+ * Spec Lint Diagnostics
+ *
+ * Publishes the findings of the built-in spec linter (see specLint.ts) to the
+ * Problems panel and as squiggles. Specs are linted when they are first
+ * loaded and again when the spec index reports changes to their files; a spec
+ * being edited is linted again as you type, using the unsaved text of its open
+ * documents. Lint configs are cached until their project's config.yaml or
+ * guardrails.yaml changes, which re-lints the project's specs. Invalid `lint:`
+ * settings are reported on config.yaml.
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SpecInfo, SpecTreeProvider } from './specView';
+import { GuardrailTreeProvider } from './guardrailView';
+import { PROJECT_CONFIG_FILE } from './projectConfig';
+import { LintConfig, LintFinding, lintSpec, loadLintConfig } from './specLint';
+import { SpecFileKind } from './specSymbolData';
+import { getDocumentSpec, readSpecDocument } from './specReferences';
+import { specIndex } from './specIndex';
+
+// Delay before linting after a change, so typing isn't slowed down
+const LINT_DELAY_MS = 300;
+
+const SPEC_FILE_KINDS: SpecFileKind[] = ['requirements', 'design', 'tasks'];
+
+const DIAGNOSTIC_SEVERITIES: Record<LintFinding['severity'], vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+};
+
+export class SpecLintDiagnostics implements vscode.Disposable {
+    private readonly collection = vscode.languages.createDiagnosticCollection('ldf');
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+    /** Lint configs by project path, dropped when config.yaml changes */
+    private readonly configs = new Map<string, LintConfig>();
+    /** Specs with published diagnostics */
+    private readonly linted = new Set<string>();
+    /** Files, spec folders or projects changed since the last lint */
+    private readonly changed = new Set<string>();
+
+    constructor(
+        private readonly specProvider: SpecTreeProvider,
+        private readonly guardrailProvider: GuardrailTreeProvider
+    ) {
+        const projectWatcher = vscode.workspace.createFileSystemWatcher('**/.ldf/{config,guardrails}.yaml');
+        this.disposables.push(
+            this.collection,
+            projectWatcher,
+            projectWatcher.onDidChange(uri => this.onProjectFileChanged(uri)),
+            projectWatcher.onDidCreate(uri => this.onProjectFileChanged(uri)),
+            projectWatcher.onDidDelete(uri => this.onProjectFileChanged(uri)),
+            // Picks up specs that appeared or went away (new projects, archive visibility)
+            specProvider.onDidChangeTreeData(() => this.schedule('*', () => this.lintChanged())),
+            specIndex.onDidChange(paths => this.onFilesChanged(paths)),
+            vscode.workspace.onDidChangeTextDocument(event => this.onDocumentChanged(event.document)),
+            // Unsaved changes are dropped when a document is closed
+            vscode.workspace.onDidCloseTextDocument(document => this.onDocumentChanged(document))
+        );
+    }
+
+    dispose(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+    }
+
+    /**
+     * Lint the specs not linted yet and those with changed files, and drop
+     * the diagnostics of specs that are gone.
+     */
+    private lintChanged(): void {
+        const specs = this.specProvider.getSpecs();
+        const current = new Set(specs.map(spec => spec.path));
+        for (const specPath of [...this.linted].filter(p => !current.has(p))) {
+            this.clearSpec(specPath);
+        }
+
+        const changed = [...this.changed];
+        this.changed.clear();
+        // A changed path is a file in the spec, the spec folder or a folder above it
+        const isChanged = (spec: SpecInfo) => changed.some(p =>
+            p === spec.path || p.startsWith(spec.path + path.sep) || spec.path.startsWith(p + path.sep));
+        for (const spec of specs) {
+            if (!this.linted.has(spec.path) || isChanged(spec)) {
+                this.lintSpec(spec);
+            }
+        }
+    }
+
+    private onFilesChanged(paths: string[]): void {
+        for (const changedPath of paths) {
+            this.changed.add(changedPath);
+        }
+        this.schedule('*', () => this.lintChanged());
+    }
+
+    /**
+     * config.yaml or guardrails.yaml changed: reload the project's lint config
+     * and re-lint its specs.
+     */
+    private onProjectFileChanged(uri: vscode.Uri): void {
+        const projectPath = path.dirname(path.dirname(uri.fsPath));
+        this.configs.delete(projectPath);
+        this.onFilesChanged([projectPath]);
+    }
+
+    private onDocumentChanged(document: vscode.TextDocument): void {
+        if (document.uri.scheme !== 'file') {
+            return;
+        }
+        const spec = getDocumentSpec(this.specProvider, document);
+        if (spec) {
+            this.schedule(spec.path, () => this.lintSpec(spec));
+        }
+    }
+
+    private lintSpec(spec: SpecInfo): void {
+        const config = this.getConfig(this.getWorkspacePath(spec));
+        const documents: Partial<Record<SpecFileKind, string>> = {};
+        for (const kind of SPEC_FILE_KINDS) {
+            documents[kind] = readSpecDocument(path.join(spec.path, `${kind}.md`));
+        }
+        const guardrails = this.guardrailProvider.getGuardrailsForWorkspace(this.getWorkspacePath(spec)).guardrails;
+        const findings = lintSpec({ documents, guardrails }, config);
+
+        for (const kind of SPEC_FILE_KINDS) {
+            const file = `${kind}.md`;
+            this.collection.set(
+                vscode.Uri.file(path.join(spec.path, file)),
+                findings.filter(finding => finding.file === file).map(toDiagnostic)
+            );
+        }
+        this.linted.add(spec.path);
+    }
+
+    private clearSpec(specPath: string): void {
+        for (const kind of SPEC_FILE_KINDS) {
+            this.collection.delete(vscode.Uri.file(path.join(specPath, `${kind}.md`)));
+        }
+        this.linted.delete(specPath);
+    }
+
+    /**
+     * A project's lint config, loaded once until config.yaml changes. Invalid
+     * settings are reported on config.yaml.
+     */
+    private getConfig(workspacePath: string): LintConfig {
+        const cached = this.configs.get(workspacePath);
+        if (cached) {
+            return cached;
+        }
+        const { config, errors } = loadLintConfig(workspacePath);
+        const configFile = path.join(workspacePath, PROJECT_CONFIG_FILE);
+        const lintLine = errors.length > 0 ? findLintLine(configFile) : 0;
+        this.collection.set(vscode.Uri.file(configFile), errors.map(error => {
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(lintLine, 0, lintLine, Number.MAX_SAFE_INTEGER),
+                `Invalid lint settings: ${error}`,
+                vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'LDF';
+            return diagnostic;
+        }));
+        this.configs.set(workspacePath, config);
+        return config;
+    }
+
+    private getWorkspacePath(spec: SpecInfo): string {
+        return spec.folderPath ?? this.specProvider.getWorkspacePaths()[0];
+    }
+
+    private schedule(key: string, lint: () => void): void {
+        clearTimeout(this.timers.get(key));
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            lint();
+        }, LINT_DELAY_MS));
+    }
+}
+
+function toDiagnostic(finding: LintFinding): vscode.Diagnostic {
+    const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(finding.line, finding.start, finding.line, finding.end),
+        finding.message,
+        DIAGNOSTIC_SEVERITIES[finding.severity]
+    );
+    diagnostic.source = 'LDF';
+    diagnostic.code = finding.rule;
+    return diagnostic;
+}
+
+/**
+ * Line of the `lint:` block in config.yaml, or 0. config.yaml isn't a spec
+ * file, so like loadLintConfig() this reads it from disk.
+ */
+function findLintLine(configFile: string): number {
+    try {
+        const lines = fs.readFileSync(configFile, 'utf-8').split(/\r?\n/);
+        return Math.max(0, lines.findIndex(line => /^lint\s*:/.test(line)));
+    } catch {
+        return 0;
+    }
+}
@@ -0,0 +1,226 @@
+/**
+ * Spec Revision Diff Webview
+ *
+ * Shows the semantic diff between two revisions of a spec (see
+ * specDiffData.ts): user stories, acceptance criteria, guardrail matrix
+ * statuses and tasks. Each file has links to open either version and a
+ * text diff of the two.
+ *
+ * Versions from git are served by SpecRevisionContentProvider under the
+ * `ldf-revision` scheme (read-only documents built with `git show`); the
+ * working tree version is the file on disk.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecDiff, StoryChange, isEmptySpecDiff } from './specDiffData';
+import { readSpecFileAt } from './specHistoryData';
+import { getNonce, escapeHtml } from './utils';
+
+/**
+ * One side of a comparison.
+ */
+export interface SpecRevisionRef {
+    /** Commit hash; undefined for the working tree */
+    ref?: string;
+    /** Display label (short hash and subject, branch name, "Working Tree") */
+    label: string;
+}
+
+type SpecDiffMessage =
+    | { command: 'open'; side: 'base' | 'target'; file: string }
+    | { command: 'diff'; file: string };
+
+// Files the diff is computed from, linked in the panel
+const DIFF_FILES = ['requirements.md', 'tasks.md'];
+
+/**
+ * Read-only documents with a spec file's content at a git revision.
+ */
+export class SpecRevisionContentProvider implements vscode.TextDocumentContentProvider {
+    static readonly scheme = 'ldf-revision';
+
+    /**
+     * URI of a spec file at a revision (the working tree file when ref is undefined).
+     */
+    static uri(specPath: string, ref: string | undefined, file: string): vscode.Uri {
+        if (!ref) {
+            return vscode.Uri.file(path.join(specPath, file));
+        }
+        // The path gives the editor tab its title; the query locates the content
+        return vscode.Uri.from({
+            scheme: SpecRevisionContentProvider.scheme,
+            path: `/${path.basename(specPath)}/${file}`,
+            query: JSON.stringify({ specPath, ref, file }),
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const { specPath, ref, file } = JSON.parse(uri.query) as { specPath: string; ref: string; file: string };
+        return await readSpecFileAt(specPath, ref, file) ?? '';
+    }
+}
+
+export class SpecDiffPanel {
+    private static currentPanel: SpecDiffPanel | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    /**
+     * Show a comparison, reusing the open panel.
+     */
+    static createOrShow(
+        specName: string,
+        specPath: string,
+        base: SpecRevisionRef,
+        target: SpecRevisionRef,
+        diff: SpecDiff
+    ): void {
+        if (!SpecDiffPanel.currentPanel) {
+            const panel = vscode.window.createWebviewPanel(
+                'ldfSpecDiff',
+                'LDF: Spec Diff',
+                vscode.ViewColumn.Active,
+                { enableScripts: true }
+            );
+            SpecDiffPanel.currentPanel = new SpecDiffPanel(panel);
+        }
+        SpecDiffPanel.currentPanel.show(specName, specPath, base, target, diff);
+    }
+
+    private specName = '';
+    private specPath = '';
+    private base: SpecRevisionRef = { label: '' };
+    private target: SpecRevisionRef = { label: '' };
+
+    private constructor(private readonly panel: vscode.WebviewPanel) {
+        this.disposables.push(
+            panel.webview.onDidReceiveMessage((message: SpecDiffMessage) => this.handleMessage(message)),
+            panel.onDidDispose(() => this.dispose())
+        );
+    }
+
+    private show(specName: string, specPath: string, base: SpecRevisionRef, target: SpecRevisionRef, diff: SpecDiff): void {
+        this.specName = specName;
+        this.specPath = specPath;
+        this.base = base;
+        this.target = target;
+        this.panel.title = `LDF: ${specName} Diff`;
+        this.panel.webview.html = this.getHtml(diff);
+        this.panel.reveal();
+    }
+
+    private handleMessage(message: SpecDiffMessage): void {
+        if (!DIFF_FILES.includes(message.file)) {
+            return;
+        }
+        const baseUri = SpecRevisionContentProvider.uri(this.specPath, this.base.ref, message.file);
+        const targetUri = SpecRevisionContentProvider.uri(this.specPath, this.target.ref, message.file);
+        switch (message.command) {
+            case 'open':
+                vscode.window.showTextDocument(message.side === 'base' ? baseUri : targetUri);
+                break;
+            case 'diff':
+                vscode.commands.executeCommand(
+                    'vscode.diff',
+                    baseUri,
+                    targetUri,
+                    `${this.specName}/${message.file} (${this.base.label} ↔ ${this.target.label})`
+                );
+                break;
+        }
+    }
+
+    private dispose(): void {
+        SpecDiffPanel.currentPanel = undefined;
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private getHtml(diff: SpecDiff): string {
+        const nonce = getNonce();
+        const csp = [
+            "default-src 'none'",
+            `style-src ${this.panel.webview.cspSource} 'unsafe-inline'`,
+            `script-src 'nonce-${nonce}'`,
+        ].join('; ');
+
+        const links = DIFF_FILES.map(file => `<li><code>${file}</code>:
+            <span class="link" data-command="open" data-side="base" data-file="${file}">${escapeHtml(this.base.label)}</span> ·
+            <span class="link" data-command="open" data-side="target" data-file="${file}">${escapeHtml(this.target.label)}</span> ·
+            <span class="link" data-command="diff" data-file="${file}">text diff</span></li>`).join('');
+
+        const sections = isEmptySpecDiff(diff)
+            ? '<p class="muted">No changes to user stories, the guardrail coverage matrix or tasks.</p>'
+            : [
+                renderSection('User Stories', diff.stories.map(renderStory)),
+                renderSection('Guardrail Coverage Matrix', diff.matrix.map(row => change(
+                    row.kind,
+                    row.kind === 'changed'
+                        ? `${escapeHtml(row.guardrail)}: ${escapeHtml(row.previousStatus || '(empty)')} → <strong>${escapeHtml(row.status || '(empty)')}</strong>`
+                        : `${escapeHtml(row.guardrail)} (${escapeHtml(row.status || 'no status')})`
+                ))),
+                renderSection('Tasks', diff.tasks.map(task => change(
+                    task.kind,
+                    task.previousTitle !== undefined
+                        ? `Task ${escapeHtml(task.taskNumber)}: <del>${escapeHtml(task.previousTitle)}</del> ${escapeHtml(task.title)}`
+                        : `Task ${escapeHtml(task.taskNumber)}: ${escapeHtml(task.title)}`
+                ))),
+            ].join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+        h2 { margin-top: 24px; font-size: 1.1em; }
+        .muted { color: var(--vscode-descriptionForeground); }
+        .link { cursor: pointer; color: var(--vscode-textLink-foreground); }
+        .link:hover { text-decoration: underline; }
+        ul { padding-left: 18px; }
+        li { margin: 3px 0; }
+        .kind { display: inline-block; min-width: 76px; font-size: 0.85em; text-transform: uppercase; }
+        .added, .completed, .checked { color: var(--vscode-charts-green); }
+        .removed, .reopened, .unchecked { color: var(--vscode-charts-red); }
+        .changed { color: var(--vscode-charts-yellow); }
+        del { color: var(--vscode-descriptionForeground); }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(this.specName)}: ${escapeHtml(this.base.label)} → ${escapeHtml(this.target.label)}</h2>
+    <ul class="muted">${links}</ul>
+    ${sections}
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.querySelectorAll('.link').forEach(link => link.addEventListener('click', () =>
+            vscode.postMessage({ command: link.dataset.command, side: link.dataset.side, file: link.dataset.file })));
+    </script>
+</body>
+</html>`;
+    }
+}
+
+function renderSection(title: string, items: string[]): string {
+    return `<h2>${title}</h2>` + (items.length > 0
+        ? `<ul>${items.join('')}</ul>`
+        : '<p class="muted">No changes.</p>');
+}
+
+function change(kind: string, html: string, children = ''): string {
+    return `<li><span class="kind ${kind}">${kind}</span> ${html}${children}</li>`;
+}
+
+function renderStory(story: StoryChange): string {
+    const title = story.previousTitle !== undefined
+        ? `<del>${escapeHtml(story.previousTitle)}</del> ${escapeHtml(story.title)}`
+        : escapeHtml(story.title);
+    const criteria = story.criteria.length > 0
+        ? `<ul>${story.criteria.map(c => change(
+            c.kind,
+            c.previousText !== undefined
+                ? `${escapeHtml(c.id)}: <del>${escapeHtml(c.previousText)}</del> ${escapeHtml(c.text)}`
+                : `${escapeHtml(c.id)}: ${escapeHtml(c.text)}`
+        )).join('')}</ul>`
+        : '';
+    return change(story.kind, `<strong>${escapeHtml(story.id)}</strong>: ${title}`, criteria);
+}
@@ -0,0 +1,224 @@
+/**
+ * Semantic spec diff
+ *
+ * Compares two versions of a spec by structure rather than by text:
+ * - requirements.md user stories (US-n) and their acceptance criteria (AC-n.m),
+ *   matched by id (see parseRequirementsOutline)
+ * - guardrail coverage matrix rows, matched by guardrail number
+ * - tasks.md tasks, matched by task number (see parseTasksContent)
+ *
+ * Kept free of VS Code APIs so the webview (specDiff.ts) only has to render it.
+ */
+
+import { OutlineNode, parseRequirementsOutline, contentLines } from './specOutline';
+import { parseTasksContent } from './utils';
+import { splitOwners } from './specOwners';
+
+/**
+ * The files of one spec version; undefined when the file doesn't exist in it.
+ */
+export interface SpecVersion {
+    requirements?: string;
+    tasks?: string;
+}
+
+export interface CriterionChange {
+    id: string;
+    kind: 'added' | 'removed' | 'changed' | 'checked' | 'unchecked';
+    text: string;
+    previousText?: string;
+}
+
+export interface StoryChange {
+    id: string;
+    kind: 'added' | 'removed' | 'changed';
+    title: string;
+    previousTitle?: string;
+    criteria: CriterionChange[];
+}
+
+export interface MatrixChange {
+    id: number;
+    guardrail: string;
+    kind: 'added' | 'removed' | 'changed';
+    status: string;
+    previousStatus?: string;
+}
+
+export interface TaskChange {
+    taskNumber: string;
+    kind: 'added' | 'removed' | 'completed' | 'reopened' | 'changed';
+    title: string;
+    previousTitle?: string;
+}
+
+export interface SpecDiff {
+    stories: StoryChange[];
+    matrix: MatrixChange[];
+    tasks: TaskChange[];
+}
+
+/**
+ * A row of the guardrail coverage matrix.
+ */
+export interface MatrixRow {
+    id: number;
+    guardrail: string;
+    /** Names from the Owner column */
+    owners: string[];
+    status: string;
+    /** 0-based line of the row */
+    line: number;
+}
+
+/**
+ * Parse the guardrail coverage matrix rows of requirements.md.
+ * Rows look like: | 1. Testing Coverage | [US-1] | [S3.2] | [T-1] | Alice | DONE |
+ */
+export function parseCoverageMatrix(content: string): MatrixRow[] {
+    const rowPattern = /^\|\s*(\d+)\.\s*([^|]+?)\s*\|[^|]*\|[^|]*\|[^|]*\|([^|]*)\|\s*([^|]*?)\s*(?:\||$)/;
+    const rows: MatrixRow[] = [];
+    for (const { text, line } of contentLines(content)) {
+        const match = text.trim().match(rowPattern);
+        if (match) {
+            rows.push({
+                id: parseInt(match[1]),
+                guardrail: `${match[1]}. ${match[2]}`,
+                owners: splitOwners(match[3]),
+                status: match[4],
+                line,
+            });
+        }
+    }
+    return rows;
+}
+
+/**
+ * Compare two versions of a spec.
+ */
+export function diffSpecVersions(before: SpecVersion, after: SpecVersion): SpecDiff {
+    return {
+        stories: diffStories(
+            parseRequirementsOutline(before.requirements ?? ''),
+            parseRequirementsOutline(after.requirements ?? '')
+        ),
+        matrix: diffMatrix(
+            parseCoverageMatrix(before.requirements ?? ''),
+            parseCoverageMatrix(after.requirements ?? '')
+        ),
+        tasks: diffTasks(before.tasks ?? '', after.tasks ?? ''),
+    };
+}
+
+/**
+ * Whether a diff has no changes.
+ */
+export function isEmptySpecDiff(diff: SpecDiff): boolean {
+    return diff.stories.length === 0 && diff.matrix.length === 0 && diff.tasks.length === 0;
+}
+
+function diffStories(before: OutlineNode[], after: OutlineNode[]): StoryChange[] {
+    const changes: StoryChange[] = [];
+    for (const story of after) {
+        const previous = before.find(s => s.label === story.label);
+        if (!previous) {
+            changes.push({
+                id: story.label,
+                kind: 'added',
+                title: story.description ?? '',
+                criteria: story.children.map(c => ({ id: c.label, kind: 'added', text: c.description ?? '' })),
+            });
+            continue;
+        }
+        const criteria = diffCriteria(previous.children, story.children);
+        const title = story.description ?? '';
+        const previousTitle = previous.description ?? '';
+        if (title !== previousTitle || criteria.length > 0) {
+            changes.push({
+                id: story.label,
+                kind: 'changed',
+                title,
+                previousTitle: title !== previousTitle ? previousTitle : undefined,
+                criteria,
+            });
+        }
+    }
+    for (const story of before) {
+        if (!after.some(s => s.label === story.label)) {
+            changes.push({
+                id: story.label,
+                kind: 'removed',
+                title: story.description ?? '',
+                criteria: story.children.map(c => ({ id: c.label, kind: 'removed', text: c.description ?? '' })),
+            });
+        }
+    }
+    return changes;
+}
+
+function diffCriteria(before: OutlineNode[], after: OutlineNode[]): CriterionChange[] {
+    const changes: CriterionChange[] = [];
+    for (const criterion of after) {
+        const text = criterion.description ?? '';
+        const previous = before.find(c => c.label === criterion.label);
+        if (!previous) {
+            changes.push({ id: criterion.label, kind: 'added', text });
+        } else if ((previous.description ?? '') !== text) {
+            changes.push({ id: criterion.label, kind: 'changed', text, previousText: previous.description ?? '' });
+        } else if (!!previous.checked !== !!criterion.checked) {
+            changes.push({ id: criterion.label, kind: criterion.checked ? 'checked' : 'unchecked', text });
+        }
+    }
+    for (const criterion of before) {
+        if (!after.some(c => c.label === criterion.label)) {
+            changes.push({ id: criterion.label, kind: 'removed', text: criterion.description ?? '' });
+        }
+    }
+    return changes;
+}
+
+function diffMatrix(before: MatrixRow[], after: MatrixRow[]): MatrixChange[] {
+    const changes: MatrixChange[] = [];
+    for (const row of after) {
+        const previous = before.find(r => r.id === row.id);
+        if (!previous) {
+            changes.push({ id: row.id, guardrail: row.guardrail, kind: 'added', status: row.status });
+        } else if (previous.status.toUpperCase() !== row.status.toUpperCase()) {
+            changes.push({
+                id: row.id,
+                guardrail: row.guardrail,
+                kind: 'changed',
+                status: row.status,
+                previousStatus: previous.status,
+            });
+        }
+    }
+    for (const row of before) {
+        if (!after.some(r => r.id === row.id)) {
+            changes.push({ id: row.id, guardrail: row.guardrail, kind: 'removed', status: row.status });
+        }
+    }
+    return changes.sort((a, b) => a.id - b.id);
+}
+
+function diffTasks(before: string, after: string): TaskChange[] {
+    const previousTasks = parseTasksContent('', before);
+    const tasks = parseTasksContent('', after);
+    const changes: TaskChange[] = [];
+    for (const task of tasks) {
+        const previous = previousTasks.find(t => t.taskNumber === task.taskNumber);
+        if (!previous) {
+            changes.push({ taskNumber: task.taskNumber, kind: task.isComplete ? 'completed' : 'added', title: task.title });
+        } else if (previous.isComplete !== task.isComplete) {
+            changes.push({ taskNumber: task.taskNumber, kind: task.isComplete ? 'completed' : 'reopened', title: task.title });
+        } else if (previous.title !== task.title) {
+            changes.push({ taskNumber: task.taskNumber, kind: 'changed', title: task.title, previousTitle: previous.title });
+        }
+    }
+    for (const task of previousTasks) {
+        if (!tasks.some(t => t.taskNumber === task.taskNumber)) {
+            changes.push({ taskNumber: task.taskNumber, kind: 'removed', title: task.title });
+        }
+    }
+    return changes;
+}
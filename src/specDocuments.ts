@@ -0,0 +1,292 @@
+/**
+ * Additional spec documents
+ *
+ * Besides requirements.md, design.md and tasks.md, projects can declare
+ * their own spec documents in .ldf/config.yaml (or the ldf.specDocuments
+ * setting, which config.yaml entries override by id):
+ *
+ *   spec_documents:
+ *     - id: test-plan
+ *       file: test-plan.md
+ *       label: Test Plan
+ *       icon: beaker
+ *       template: .ldf/templates/test-plan.md
+ *       required_from: in-progress
+ *     - id: adr
+ *       file: adr/*.md
+ *       label: ADRs
+ *
+ * `file` is relative to the spec folder; a `*` in the file name makes the
+ * document a collection (one node per matching file). `template` is relative
+ * to the project root; without it, `<id>.md` is looked up in the template
+ * directories (see specTemplates.ts). Besides the usual template variables,
+ * `{{name}}` is the new file's name without extension. Documents with `required_from` must
+ * exist once a spec reaches that status in the workflow's lifecycle order;
+ * missing ones are validation problems (see specValidation.ts).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { readProjectConfig } from './projectConfig';
+import { SpecWorkflow } from './specWorkflow';
+import { normalizeStatusId } from './specMetadata';
+import { SpecProblem } from './specValidation';
+import { readTemplate, renderTemplate } from './specTemplates';
+
+/**
+ * A document type declared by the project.
+ */
+export interface SpecDocumentType {
+    id: string;
+    /** Path relative to the spec folder; may contain `*` in the file name */
+    file: string;
+    /** Display label */
+    label: string;
+    /** Codicon name (without $()) */
+    icon: string;
+    /** Template path relative to the project root */
+    template?: string;
+    /** Status id from which the document must exist */
+    requiredFrom?: string;
+}
+
+/**
+ * Files of one document type found in a spec.
+ */
+export interface SpecDocumentFiles {
+    type: SpecDocumentType;
+    /** Paths relative to the spec folder, sorted */
+    files: string[];
+}
+
+// Documents every spec already has
+const BUILTIN_FILES = ['requirements.md', 'design.md', 'tasks.md', 'spec.yaml'];
+
+/**
+ * Parse a list of document declarations (the spec_documents section of
+ * config.yaml or the ldf.specDocuments setting). Invalid entries are skipped
+ * and reported in `errors`.
+ * @param source Name used in error messages
+ */
+export function parseSpecDocumentsConfig(
+    data: unknown,
+    source = 'spec_documents'
+): { documents: SpecDocumentType[]; errors: string[] } {
+    const documents: SpecDocumentType[] = [];
+    const errors: string[] = [];
+
+    if (data === undefined || data === null) {
+        return { documents, errors };
+    }
+    if (!Array.isArray(data)) {
+        return { documents, errors: [`${source} must be an array`] };
+    }
+
+    data.forEach((entry: unknown, i) => {
+        // Shorthand: "- test-plan.md"
+        if (typeof entry === 'string') {
+            entry = { file: entry };
+        }
+        if (typeof entry !== 'object' || entry === null) {
+            errors.push(`${source}[${i}] must be an object or string`);
+            return;
+        }
+        const raw = entry as Record<string, unknown>;
+        const file = typeof raw.file === 'string' ? raw.file.trim().replace(/\\/g, '/') : '';
+        if (!file) {
+            errors.push(`${source}[${i}].file must be a string`);
+            return;
+        }
+        if (path.isAbsolute(file) || file.split('/').includes('..') || path.dirname(file).includes('*')) {
+            errors.push(`${source}[${i}]: '${file}' must be inside the spec folder, with '*' only in the file name`);
+            return;
+        }
+        if (BUILTIN_FILES.includes(file)) {
+            errors.push(`${source}[${i}]: '${file}' is a built-in spec file`);
+            return;
+        }
+
+        const id = typeof raw.id === 'string' && raw.id.trim()
+            ? raw.id.trim()
+            : path.basename(file).replace(/\*/g, '').replace(/\.[^.]*$/, '') || path.dirname(file);
+        if (documents.some(d => d.id === id)) {
+            errors.push(`${source}[${i}]: duplicate document '${id}'`);
+            return;
+        }
+
+        const document: SpecDocumentType = {
+            id,
+            file,
+            label: typeof raw.label === 'string' ? raw.label : id,
+            icon: typeof raw.icon === 'string' ? raw.icon : (isCollection({ file }) ? 'files' : 'file'),
+        };
+        if (typeof raw.template === 'string') {
+            document.template = raw.template;
+        }
+        const requiredFrom = raw.required_from ?? raw.requiredFrom;
+        if (typeof requiredFrom === 'string') {
+            document.requiredFrom = normalizeStatusId(requiredFrom);
+        }
+        documents.push(document);
+    });
+
+    return { documents, errors };
+}
+
+/**
+ * Load a project's document types: the setting's declarations, overridden
+ * by id and extended by config.yaml's spec_documents.
+ */
+export function loadSpecDocuments(
+    projectPath: string,
+    settingValue?: unknown
+): { documents: SpecDocumentType[]; errors: string[] } {
+    const fromSetting = parseSpecDocumentsConfig(settingValue, 'ldf.specDocuments');
+    const config = readProjectConfig(projectPath);
+    if (config.error) {
+        // Reported by loadSpecWorkflow
+        return fromSetting;
+    }
+    const fromConfig = parseSpecDocumentsConfig(config.data.spec_documents);
+
+    const documents = fromSetting.documents.filter(d => !fromConfig.documents.some(c => c.id === d.id));
+    return {
+        documents: [...documents, ...fromConfig.documents],
+        errors: [...fromSetting.errors, ...fromConfig.errors],
+    };
+}
+
+/**
+ * Whether a document type matches several files (e.g. adr/*.md).
+ */
+export function isCollection(type: Pick<SpecDocumentType, 'file'>): boolean {
+    return type.file.includes('*');
+}
+
+/**
+ * Find the files of a document type in a spec folder.
+ * @param listFiles Reads the file names of a directory (the Specs view passes
+ * the spec index's cached listings); reads the disk by default
+ * @returns Paths relative to the spec folder, sorted
+ */
+export function findDocumentFiles(
+    specPath: string,
+    type: SpecDocumentType,
+    listFiles: (dir: string) => string[] = readFileNames
+): string[] {
+    const dir = path.posix.dirname(type.file);
+    const pattern = isCollection(type)
+        ? new RegExp('^' + path.posix.basename(type.file).split('*').map(escapeRegExp).join('.*') + '$')
+        : new RegExp('^' + escapeRegExp(path.posix.basename(type.file)) + '$');
+    return listFiles(path.join(specPath, dir))
+        .filter(name => pattern.test(name))
+        .map(name => (dir === '.' ? name : `${dir}/${name}`))
+        .sort();
+}
+
+function readFileNames(dir: string): string[] {
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true })
+            .filter(entry => entry.isFile())
+            .map(entry => entry.name);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Find the files of each document type in a spec folder (types without files are omitted).
+ */
+export function findSpecDocuments(
+    specPath: string,
+    types: SpecDocumentType[],
+    listFiles?: (dir: string) => string[]
+): SpecDocumentFiles[] {
+    return types
+        .map(type => ({ type, files: findDocumentFiles(specPath, type, listFiles) }))
+        .filter(found => found.files.length > 0);
+}
+
+/**
+ * Relative path for a new document of a type.
+ * @param name File name (without extension) replacing `*` in collections
+ */
+export function getDocumentPath(type: SpecDocumentType, name?: string): string {
+    return isCollection(type) ? type.file.replace('*', name ?? '') : type.file;
+}
+
+/**
+ * Initial content for a new document: the type's template (or `<id>.md` from
+ * the template directories, see specTemplates.ts) with variables substituted,
+ * or a title heading when there is no template.
+ * @param variables Template variables (see createTemplateVariables); `name` is added
+ * @throws If the declared template file can't be read
+ */
+export function renderDocumentTemplate(
+    projectPath: string,
+    type: SpecDocumentType,
+    templateDirs: string[],
+    variables: Record<string, string>,
+    name?: string
+): string {
+    const fileName = name ?? path.basename(type.file).replace(/\.[^.]*$/, '');
+    const template = type.template
+        ? fs.readFileSync(path.join(projectPath, type.template), 'utf-8')
+        : readTemplate(`${type.id}.md`, templateDirs);
+    if (template === undefined) {
+        return `# ${variables.spec_name} - ${isCollection(type) ? fileName : type.label}\n\n`;
+    }
+    return renderTemplate(template, { ...variables, name: fileName });
+}
+
+/**
+ * Document types required at a status (required_from at or before it in lifecycle order).
+ */
+export function getRequiredDocuments(
+    types: SpecDocumentType[],
+    workflow: SpecWorkflow,
+    status: string
+): SpecDocumentType[] {
+    const index = workflow.statuses.findIndex(s => s.id === status);
+    if (index < 0) {
+        return [];
+    }
+    return types.filter(type => {
+        const requiredIndex = type.requiredFrom
+            ? workflow.statuses.findIndex(s => s.id === type.requiredFrom)
+            : -1;
+        return requiredIndex >= 0 && requiredIndex <= index;
+    });
+}
+
+/**
+ * Check a spec's documents: required documents that are missing at the
+ * spec's status, and empty document files.
+ * @param readFile Reads a document's content (relative path)
+ */
+export function validateSpecDocuments(
+    types: SpecDocumentType[],
+    found: SpecDocumentFiles[],
+    workflow: SpecWorkflow,
+    status: string,
+    readFile: (file: string) => string | undefined
+): SpecProblem[] {
+    const problems: SpecProblem[] = [];
+    const statusLabel = workflow.statuses.find(s => s.id === status)?.label ?? status;
+
+    for (const type of getRequiredDocuments(types, workflow, status)) {
+        if (!found.some(f => f.type.id === type.id)) {
+            problems.push({ file: type.file, message: `${type.label} (${type.file}) is required at ${statusLabel}` });
+        }
+    }
+    for (const file of found.flatMap(f => f.files)) {
+        if (!readFile(file)?.trim()) {
+            problems.push({ file, message: `${file} is empty` });
+        }
+    }
+    return problems;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,150 @@
+/**
+ * Spec duplication
+ *
+ * Works out the contents of a copy of a spec, ready to start a new feature:
+ * - Task checkboxes in tasks.md are unchecked
+ * - Guardrail coverage matrix statuses are reset to TODO; the requirement,
+ *   design and task references (the evidence) are kept
+ * - Titles (`# old-name - Requirements`), task IDs and links into the spec
+ *   folder use the new name
+ * - Dependency references switch between local and `project:spec` form when
+ *   the copy lands in another project (same rules as a move, see specRename.ts)
+ *
+ * The command in commands.ts writes the planned files and clears any
+ * explicit status so the copy starts from the inferred status.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DependencyGraph } from './specDependencies';
+import { TextReplacement, planSpecRename } from './specRename';
+import { contentLines } from './specOutline';
+
+export interface DuplicatePlanInput {
+    /** Spec being copied */
+    spec: { path: string; name: string; projectPath: string };
+    newName: string;
+    /** Project the copy is created in */
+    targetProjectPath: string;
+    graph: DependencyGraph;
+    /** Files of the spec, relative to its folder */
+    files: string[];
+    /** Name used to qualify cross-project references */
+    getProjectName: (projectPath: string) => string;
+    readFile: (filePath: string) => string;
+}
+
+/**
+ * Uncheck every checkbox (`- [x]`) outside code blocks.
+ */
+export function resetCheckboxes(content: string): string {
+    const lines = content.split('\n');
+    for (const { line } of contentLines(content)) {
+        lines[line] = lines[line].replace(/^(\s*[-*]\s+)\[[xX]\]/, '$1[ ]');
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Reset the status cell of every guardrail coverage matrix row to TODO,
+ * keeping the other cells. The matrix is the table whose header starts with "Guardrail".
+ */
+export function resetCoverageStatuses(content: string): string {
+    const lines = content.split('\n');
+    let inMatrix = false;
+
+    for (const { text, line } of contentLines(content)) {
+        if (!text.trim().startsWith('|')) {
+            inMatrix = false;
+            continue;
+        }
+        if (/^\|\s*guardrail\b/i.test(text.trim())) {
+            inMatrix = true;
+            continue;
+        }
+        if (!inMatrix || /^\|[\s|:-]+$/.test(text.trim())) {
+            // Other tables, and the header separator row
+            continue;
+        }
+        // The status is the last cell, after the last pipe once the closing pipe is dropped
+        const body = lines[line].replace(/\|\s*$/, '');
+        const closing = lines[line].slice(body.length);
+        const lastPipe = body.lastIndexOf('|');
+        if (lastPipe <= body.indexOf('|')) {
+            continue;
+        }
+        const cell = body.slice(lastPipe + 1);
+        const status = cell.trim()
+            ? cell.replace(cell.trim(), 'TODO')
+            : ` TODO${closing ? ' ' : ''}`;
+        lines[line] = body.slice(0, lastPipe + 1) + status + closing;
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Apply line/column replacements to a document's content.
+ */
+export function applyTextReplacements(content: string, replacements: TextReplacement[]): string {
+    const lines = content.split('\n');
+    // Right to left so earlier columns stay valid
+    const sorted = [...replacements].sort((a, b) => b.line - a.line || b.start - a.start);
+    for (const { line, start, end, newText } of sorted) {
+        const text = lines[line] ?? '';
+        lines[line] = text.slice(0, start) + newText + text.slice(end);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Plan the copy: new contents for the spec's markdown files, keyed by path
+ * relative to the spec folder. Files not in the plan are copied unchanged.
+ */
+export function planSpecDuplicate(input: DuplicatePlanInput): Map<string, string> {
+    const { spec, newName, targetProjectPath, files, readFile } = input;
+    const markdownFiles = files.filter(file => file.endsWith('.md')).map(file => path.join(spec.path, file));
+
+    // Only the copy's own references change; specs depending on the original keep pointing to it
+    const graph: DependencyGraph = {
+        ...input.graph,
+        edges: input.graph.edges.filter(edge => edge.from === spec.path && edge.to !== spec.path),
+    };
+    const renamePlan = planSpecRename({
+        spec,
+        newName,
+        targetProjectPath,
+        graph,
+        markdownFiles,
+        getProjectName: input.getProjectName,
+        readFile,
+    });
+
+    const plan = new Map<string, string>();
+    for (const filePath of markdownFiles) {
+        const relative = path.relative(spec.path, filePath);
+        let content = applyTextReplacements(readFile(filePath), renamePlan.get(filePath) ?? []);
+        if (relative === 'tasks.md') {
+            content = resetCheckboxes(content);
+        } else if (relative === 'requirements.md') {
+            content = resetCoverageStatuses(content);
+        }
+        plan.set(relative, content);
+    }
+    return plan;
+}
+
+/**
+ * All files in a spec folder, relative to it (with `/` separators), sorted.
+ */
+export function listSpecFiles(specPath: string, prefix = ''): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(path.join(specPath, prefix), { withFileTypes: true })) {
+        const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+            files.push(...listSpecFiles(specPath, relative));
+        } else if (entry.isFile()) {
+            files.push(relative);
+        }
+    }
+    return files.sort();
+}
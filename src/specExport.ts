@@ -0,0 +1,354 @@
+/**
+ * Spec export
+ *
+ * Renders specs for readers without VS Code, in one of three formats:
+ * - html: a single self-contained page (inline styles, no scripts or external assets)
+ * - markdown: the spec documents concatenated, each under a spec heading
+ * - json: the same data as a machine-readable document
+ *
+ * Every exported spec carries its computed status, task progress and
+ * guardrail coverage matrix rows alongside requirements.md, design.md and
+ * tasks.md. Kept free of VS Code APIs; the export commands in commands.ts
+ * collect the data and write the file.
+ */
+
+import { MatrixRow } from './specDiffData';
+import { shiftHeadings } from './specOutline';
+import { escapeHtml } from './utils';
+
+export type ExportFormat = 'html' | 'markdown' | 'json';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+    html: '.html',
+    markdown: '.md',
+    json: '.json',
+};
+
+export interface ExportedSpec {
+    name: string;
+    /** Project the spec belongs to */
+    project: string;
+    status: string;
+    statusLabel: string;
+    archived: boolean;
+    taskProgress?: { completed: number; total: number };
+    /** Guardrail coverage matrix rows of requirements.md */
+    coverage: MatrixRow[];
+    /** Document contents; missing documents are left out */
+    documents: {
+        requirements?: string;
+        design?: string;
+        tasks?: string;
+    };
+}
+
+/**
+ * Project-level coverage of one guardrail across the exported specs.
+ */
+export interface ExportedGuardrail {
+    id: number;
+    name: string;
+    severity: string;
+    status: string;
+}
+
+export interface ExportBundle {
+    /** Spec or project name */
+    title: string;
+    /** ISO 8601 timestamp */
+    generatedAt: string;
+    specs: ExportedSpec[];
+    /** Guardrail coverage of the project (project exports only) */
+    guardrails?: ExportedGuardrail[];
+}
+
+const DOCUMENT_TITLES: Array<[keyof ExportedSpec['documents'], string]> = [
+    ['requirements', 'Requirements'],
+    ['design', 'Design'],
+    ['tasks', 'Tasks'],
+];
+
+/**
+ * Render an export bundle in the given format.
+ */
+export function renderExport(bundle: ExportBundle, format: ExportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(bundle, null, 2) + '\n';
+        case 'markdown':
+            return renderMarkdown(bundle);
+        case 'html':
+            return renderHtml(bundle);
+    }
+}
+
+/**
+ * File name for an export: the title made file-system safe, plus the format's extension.
+ */
+export function getExportFileName(title: string, format: ExportFormat): string {
+    const base = title.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'specs';
+    return base + EXPORT_EXTENSIONS[format];
+}
+
+function formatProgress(spec: ExportedSpec): string {
+    if (!spec.taskProgress) {
+        return 'no tasks.md';
+    }
+    const { completed, total } = spec.taskProgress;
+    const percent = total > 0 ? Math.round((completed / total) * 100) : 0;
+    return `${completed}/${total} tasks (${percent}%)`;
+}
+
+function renderMarkdown(bundle: ExportBundle): string {
+    const parts: string[] = [`# ${bundle.title}`, '', `_Exported ${bundle.generatedAt}_`, ''];
+
+    if (bundle.guardrails && bundle.guardrails.length > 0) {
+        parts.push('## Guardrail Coverage', '', '| Guardrail | Severity | Status |', '|-----------|----------|--------|');
+        for (const g of bundle.guardrails) {
+            parts.push(`| ${g.id}. ${g.name} | ${g.severity} | ${g.status} |`);
+        }
+        parts.push('');
+    }
+
+    if (bundle.specs.length > 1) {
+        parts.push('## Specs', '', '| Spec | Status | Progress |', '|------|--------|----------|');
+        for (const spec of bundle.specs) {
+            parts.push(`| ${spec.name} | ${spec.statusLabel} | ${formatProgress(spec)} |`);
+        }
+        parts.push('');
+    }
+
+    for (const spec of bundle.specs) {
+        parts.push(
+            '---',
+            '',
+            `## ${spec.name}`,
+            '',
+            `- **Project:** ${spec.project}`,
+            `- **Status:** ${spec.statusLabel}${spec.archived ? ' (archived)' : ''}`,
+            `- **Progress:** ${formatProgress(spec)}`,
+            ''
+        );
+        for (const [key, title] of DOCUMENT_TITLES) {
+            const content = spec.documents[key];
+            if (content === undefined) {
+                continue;
+            }
+            // Shift the document's headings below the spec heading
+            parts.push(`### ${title}`, '', shiftHeadings(content.trim(), 3), '');
+        }
+    }
+
+    return parts.join('\n');
+}
+
+function renderHtml(bundle: ExportBundle): string {
+    const statusClass = (status: string) => status.toLowerCase().startsWith('done') ? 'done'
+        : status.toLowerCase().startsWith('n/a') ? 'na'
+        : status.toLowerCase().startsWith('partial') ? 'partial'
+        : 'todo';
+
+    const summary = bundle.specs.length > 1
+        ? `<h2>Specs</h2>
+<table>
+<tr><th>Spec</th><th>Status</th><th>Progress</th></tr>
+${bundle.specs.map(spec => `<tr><td><a href="#spec-${escapeHtml(spec.name)}">${escapeHtml(spec.name)}</a></td><td>${escapeHtml(spec.statusLabel)}</td><td>${progressBar(spec)}</td></tr>`).join('\n')}
+</table>`
+        : '';
+
+    const guardrails = bundle.guardrails && bundle.guardrails.length > 0
+        ? `<h2>Guardrail Coverage</h2>
+<table>
+<tr><th>Guardrail</th><th>Severity</th><th>Status</th></tr>
+${bundle.guardrails.map(g => `<tr><td>${g.id}. ${escapeHtml(g.name)}</td><td>${escapeHtml(g.severity)}</td><td>${escapeHtml(g.status)}</td></tr>`).join('\n')}
+</table>`
+        : '';
+
+    const specs = bundle.specs.map(spec => {
+        const coverage = spec.coverage.length > 0
+            ? `<table>
+<tr><th>Guardrail</th><th>Status</th></tr>
+${spec.coverage.map(row => `<tr><td>${escapeHtml(row.guardrail)}</td><td><span class="badge ${statusClass(row.status)}">${escapeHtml(row.status || 'TODO')}</span></td></tr>`).join('\n')}
+</table>`
+            : '<p class="muted">No guardrail coverage matrix.</p>';
+        const documents = DOCUMENT_TITLES
+            .filter(([key]) => spec.documents[key] !== undefined)
+            .map(([key, title]) => `<details open>
+<summary>${title}</summary>
+<div class="document">${markdownToHtml(spec.documents[key]!)}</div>
+</details>`)
+            .join('\n');
+        return `<section id="spec-${escapeHtml(spec.name)}">
+<h2>${escapeHtml(spec.name)}</h2>
+<p class="meta">${escapeHtml(spec.project)} · <strong>${escapeHtml(spec.statusLabel)}</strong>${spec.archived ? ' · archived' : ''}</p>
+${progressBar(spec)}
+<h3>Guardrail Coverage</h3>
+${coverage}
+${documents}
+</section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(bundle.title)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; max-width: 960px; margin: 0 auto; padding: 24px; line-height: 1.5; }
+h1, h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 4px; }
+section { margin-top: 40px; }
+.meta, .muted { color: #656d76; }
+table { border-collapse: collapse; margin: 12px 0; }
+th, td { border: 1px solid #d0d7de; padding: 4px 10px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+code { background: #f6f8fa; padding: 1px 4px; border-radius: 4px; }
+pre { background: #f6f8fa; padding: 12px; overflow: auto; border-radius: 6px; }
+pre code { padding: 0; }
+.progress { display: inline-flex; align-items: center; gap: 8px; }
+.bar { width: 160px; height: 8px; background: #eaeef2; border-radius: 4px; overflow: hidden; }
+.bar > div { height: 100%; background: #1f883d; }
+.badge { padding: 0 6px; border-radius: 8px; font-size: 0.85em; color: #fff; }
+.badge.done { background: #1f883d; }
+.badge.partial { background: #9a6700; }
+.badge.todo { background: #cf222e; }
+.badge.na { background: #6e7781; }
+details { margin: 12px 0; }
+summary { cursor: pointer; font-size: 1.1em; font-weight: 600; }
+.document { border-left: 3px solid #d0d7de; padding-left: 16px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(bundle.title)}</h1>
+<p class="muted">Exported ${escapeHtml(bundle.generatedAt)}</p>
+${summary}
+${guardrails}
+${specs}
+</body>
+</html>
+`;
+}
+
+function progressBar(spec: ExportedSpec): string {
+    if (!spec.taskProgress || spec.taskProgress.total === 0) {
+        return `<span class="muted">${escapeHtml(formatProgress(spec))}</span>`;
+    }
+    const percent = Math.round((spec.taskProgress.completed / spec.taskProgress.total) * 100);
+    return `<span class="progress"><span class="bar"><div style="width:${percent}%"></div></span>${escapeHtml(formatProgress(spec))}</span>`;
+}
+
+/**
+ * Minimal Markdown to HTML for spec documents: headings, paragraphs, lists
+ * (with task checkboxes), tables, fenced code, block quotes and inline
+ * code, bold, italics and links. Raw HTML is escaped.
+ */
+export function markdownToHtml(markdown: string): string {
+    const lines = markdown.split(/\r?\n/);
+    const html: string[] = [];
+    let paragraph: string[] = [];
+    let list: 'ul' | 'ol' | undefined;
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            html.push(`<p>${paragraph.map(inline).join('<br>\n')}</p>`);
+            paragraph = [];
+        }
+    };
+    const closeList = () => {
+        if (list) {
+            html.push(`</${list}>`);
+            list = undefined;
+        }
+    };
+    const closeBlocks = () => {
+        flushParagraph();
+        closeList();
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        const fence = line.match(/^\s*(```|~~~)/);
+        if (fence) {
+            closeBlocks();
+            const code: string[] = [];
+            for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) {
+                code.push(lines[i]);
+            }
+            html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        if (!line.trim()) {
+            closeBlocks();
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+        if (heading) {
+            closeBlocks();
+            html.push(`<h${heading[1].length}>${inline(heading[2])}</h${heading[1].length}>`);
+            continue;
+        }
+
+        if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+            closeBlocks();
+            html.push('<hr>');
+            continue;
+        }
+
+        // Tables: a header row followed by a separator row
+        if (line.trim().startsWith('|') && /^\s*\|?[\s|:-]+\|?\s*$/.test(lines[i + 1] ?? '') && lines[i + 1].includes('-')) {
+            closeBlocks();
+            const cells = (row: string) => row.trim().replace(/^\||\|$/g, '').split('|').map(c => inline(c.trim()));
+            const rows = [`<tr>${cells(line).map(c => `<th>${c}</th>`).join('')}</tr>`];
+            for (i += 2; i < lines.length && lines[i].trim().startsWith('|'); i++) {
+                rows.push(`<tr>${cells(lines[i]).map(c => `<td>${c}</td>`).join('')}</tr>`);
+            }
+            i--;
+            html.push(`<table>\n${rows.join('\n')}\n</table>`);
+            continue;
+        }
+
+        const quote = line.match(/^\s*>\s?(.*)$/);
+        if (quote) {
+            closeBlocks();
+            html.push(`<blockquote>${inline(quote[1])}</blockquote>`);
+            continue;
+        }
+
+        const item = line.match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+        if (item) {
+            flushParagraph();
+            const type = /\d/.test(item[1]) ? 'ol' : 'ul';
+            if (list !== type) {
+                closeList();
+                html.push(`<${type}>`);
+                list = type;
+            }
+            const checkbox = item[2].match(/^\[([ xX])\]\s+(.*)$/);
+            html.push(checkbox
+                ? `<li>${checkbox[1] === ' ' ? '☐' : '☑'} ${inline(checkbox[2])}</li>`
+                : `<li>${inline(item[2])}</li>`);
+            continue;
+        }
+
+        closeList();
+        paragraph.push(line.trim());
+    }
+    closeBlocks();
+    return html.join('\n');
+}
+
+function inline(text: string): string {
+    // Code spans first, so their content isn't formatted
+    return text.split(/(`[^`]+`)/).map(part => {
+        if (/^`[^`]+`$/.test(part)) {
+            return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+        }
+        return escapeHtml(part)
+            .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+            .replace(/(^|[^*])\*(?!\s)(.+?)\*/g, '$1<em>$2</em>')
+            .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+|#[^)\s]*)\)/g, '<a href="$2">$1</a>');
+    }).join('');
+}
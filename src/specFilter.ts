@@ -0,0 +1,163 @@
+/**
+ * Specs view filters
+ *
+ * The Specs view can be narrowed by workflow status, by text (spec name or
+ * the Overview section of requirements.md), to specs with guardrail coverage
+ * gaps, and to specs assigned to the current git user: specs they own (see
+ * specOwners.ts) or with tasks mentioning them.
+ *
+ * The filter is stored in workspaceState by the filter commands, so it is
+ * kept per workspace across reloads.
+ */
+
+import type { SpecInfo } from './specView';
+import { parseOwnerLine } from './specOwners';
+import { parseCoverageMatrix } from './specDiffData';
+
+// workspaceState key for the persisted filter
+export const SPEC_FILTER_STATE_KEY = 'ldf.specFilter';
+
+export interface SpecFilter {
+    /** Status ids to show (all statuses when empty) */
+    statuses: string[];
+    /** Case-insensitive text matched against the spec name and overview */
+    text: string;
+    /** Only specs with coverage matrix rows that aren't DONE or N/A */
+    hasGaps: boolean;
+    /** Only specs owned by the current git user or with tasks assigned to them */
+    ownedByMe: boolean;
+}
+
+export const EMPTY_SPEC_FILTER: SpecFilter = {
+    statuses: [],
+    text: '',
+    hasGaps: false,
+    ownedByMe: false,
+};
+
+/**
+ * Details of requirements.md used by the filters.
+ */
+export interface RequirementsSummary {
+    /** Text of the Overview section */
+    overview: string;
+    /** Names from the Owner line and the coverage matrix Owner column */
+    owners: string[];
+    /** Coverage matrix rows that are not DONE or N/A */
+    coverageGaps: number;
+}
+
+/**
+ * Read the overview, owners and coverage gaps from requirements.md.
+ * Matrix rows are read by parseCoverageMatrix() (see specDiffData.ts).
+ */
+export function summarizeRequirements(content: string): RequirementsSummary {
+    const overviewMatch = content.match(/^##\s+Overview[ \t]*\r?\n([\s\S]*?)(?=^##\s|(?![\s\S]))/m);
+
+    const owners = parseOwnerLine(content);
+    let coverageGaps = 0;
+    for (const row of parseCoverageMatrix(content)) {
+        for (const owner of row.owners) {
+            if (!owners.includes(owner)) {
+                owners.push(owner);
+            }
+        }
+        if (isCoverageGap(row.status)) {
+            coverageGaps++;
+        }
+    }
+
+    return {
+        overview: overviewMatch ? overviewMatch[1].trim() : '',
+        owners,
+        coverageGaps,
+    };
+}
+
+/**
+ * Whether a coverage matrix status leaves a gap (anything but DONE or N/A).
+ */
+export function isCoverageGap(status: string): boolean {
+    const normalized = status.trim().toUpperCase();
+    return normalized !== 'DONE' && !normalized.startsWith('N/A') && normalized !== 'NA' && normalized !== 'NOT APPLICABLE';
+}
+
+/**
+ * Check whether any owner matches one of the user's identities
+ * (git user.name / user.email). Matching ignores case and a leading `@`,
+ * and also accepts the local part of an email address.
+ */
+export function isOwnedBy(owners: string[], identities: string[]): boolean {
+    const normalize = (value: string) => value.trim().replace(/^@/, '').toLowerCase();
+    const names = new Set<string>();
+    for (const identity of identities.map(normalize).filter(Boolean)) {
+        names.add(identity);
+        if (identity.includes('@')) {
+            names.add(identity.split('@')[0]);
+        }
+    }
+    return owners.some(owner => names.has(normalize(owner)));
+}
+
+/**
+ * Check whether a spec passes the filter.
+ * @param identities The current user's git identities, for the "assigned to me" filter
+ */
+export function matchesSpecFilter(spec: SpecInfo, filter: SpecFilter, identities: string[]): boolean {
+    if (filter.statuses.length > 0 && !filter.statuses.includes(spec.status)) {
+        return false;
+    }
+    if (filter.hasGaps && !spec.coverageGaps) {
+        return false;
+    }
+    if (filter.ownedByMe && !isOwnedBy([...spec.owners ?? [], ...spec.taskOwners ?? []], identities)) {
+        return false;
+    }
+    const text = filter.text.trim().toLowerCase();
+    if (text && !spec.name.toLowerCase().includes(text) && !(spec.overview ?? '').toLowerCase().includes(text)) {
+        return false;
+    }
+    return true;
+}
+
+export function isSpecFilterActive(filter: SpecFilter): boolean {
+    return filter.statuses.length > 0 || filter.text.trim() !== '' || filter.hasGaps || filter.ownedByMe;
+}
+
+/**
+ * Short summary of the active filters, e.g. `Draft, In Review • "auth" • has gaps`.
+ */
+export function describeSpecFilter(filter: SpecFilter, getStatusLabel: (status: string) => string): string {
+    const parts: string[] = [];
+    if (filter.statuses.length > 0) {
+        parts.push(filter.statuses.map(getStatusLabel).join(', '));
+    }
+    if (filter.text.trim()) {
+        parts.push(`"${filter.text.trim()}"`);
+    }
+    if (filter.hasGaps) {
+        parts.push('has gaps');
+    }
+    if (filter.ownedByMe) {
+        parts.push('assigned to me');
+    }
+    return parts.join(' • ');
+}
+
+/**
+ * Read a filter from workspaceState, ignoring malformed values.
+ */
+export function normalizeSpecFilter(value: unknown): SpecFilter {
+    if (!value || typeof value !== 'object') {
+        return { ...EMPTY_SPEC_FILTER };
+    }
+    const data = value as Record<string, unknown>;
+    return {
+        statuses: Array.isArray(data.statuses)
+            ? data.statuses.filter((s): s is string => typeof s === 'string')
+            : [],
+        text: typeof data.text === 'string' ? data.text : '',
+        hasGaps: data.hasGaps === true,
+        ownedByMe: data.ownedByMe === true,
+    };
+}
@@ -0,0 +1,210 @@
+/**
+ * Spec History Webview
+ *
+ * Timeline of one spec, newest commit first: the status after each commit,
+ * task progress, and the files, tasks and status changes the commit made
+ * (see specHistoryData.ts). One panel per spec; the history is re-read from
+ * git when the panel is shown again or refreshed, so new commits appear.
+ *
+ * VS Code's Timeline API (TimelineProvider) is still a proposed API that
+ * published extensions can't use, so the history lives in this panel instead
+ * of the Explorer's Timeline view.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { SpecInfo } from './specView';
+import { SpecWorkflow } from './specWorkflow';
+import { buildSpecHistory, loadSpecRevisions } from './specHistoryData';
+import { getNonce, escapeHtml } from './utils';
+
+type SpecHistoryMessage =
+    | { command: 'ready' }
+    | { command: 'refresh' }
+    | { command: 'openFile'; file: string };
+
+export class SpecHistoryPanel {
+    private static readonly panels = new Map<string, SpecHistoryPanel>();
+    private readonly disposables: vscode.Disposable[] = [];
+    // Incremented per load so a slow, outdated load doesn't overwrite a newer one
+    private loadId = 0;
+
+    /**
+     * Show the history of a spec, creating its panel if needed.
+     */
+    static createOrShow(spec: SpecInfo, workflow: SpecWorkflow): void {
+        const existing = SpecHistoryPanel.panels.get(spec.path);
+        if (existing) {
+            existing.panel.reveal();
+            existing.load();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'ldfSpecHistory',
+            `LDF: ${spec.name} History`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true }
+        );
+        SpecHistoryPanel.panels.set(spec.path, new SpecHistoryPanel(panel, spec, workflow));
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private readonly spec: SpecInfo,
+        private readonly workflow: SpecWorkflow
+    ) {
+        panel.webview.html = this.getHtml();
+
+        this.disposables.push(
+            // Hidden webviews drop messages; reload when shown again (picks up new commits)
+            panel.onDidChangeViewState(() => {
+                if (panel.visible) {
+                    this.load();
+                }
+            }),
+            panel.webview.onDidReceiveMessage((message: SpecHistoryMessage) => this.handleMessage(message)),
+            panel.onDidDispose(() => this.dispose())
+        );
+    }
+
+    private handleMessage(message: SpecHistoryMessage): void {
+        switch (message.command) {
+            case 'ready':
+            case 'refresh':
+                this.load();
+                break;
+            case 'openFile': {
+                const filePath = path.join(this.spec.path, message.file);
+                if (fs.existsSync(filePath)) {
+                    vscode.window.showTextDocument(vscode.Uri.file(filePath));
+                } else {
+                    vscode.window.showInformationMessage(`LDF: ${message.file} no longer exists in ${this.spec.name}`);
+                }
+                break;
+            }
+        }
+    }
+
+    private async load(): Promise<void> {
+        const loadId = ++this.loadId;
+        let message: { command: 'update'; entries: unknown } | { command: 'error'; message: string };
+        try {
+            const revisions = await loadSpecRevisions(this.spec.path);
+            message = { command: 'update', entries: buildSpecHistory(revisions, this.workflow) };
+        } catch (err) {
+            const detail = err instanceof Error ? err.message : String(err);
+            message = {
+                command: 'error',
+                message: `Could not read the git history of ${this.spec.name}. ` +
+                    `The spec must be in a git repository and git must be on the PATH.\n${detail}`,
+            };
+        }
+        if (loadId === this.loadId) {
+            this.panel.webview.postMessage(message);
+        }
+    }
+
+    private dispose(): void {
+        SpecHistoryPanel.panels.delete(this.spec.path);
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    private getHtml(): string {
+        const nonce = getNonce();
+        const csp = [
+            "default-src 'none'",
+            `style-src ${this.panel.webview.cspSource} 'unsafe-inline'`,
+            `script-src 'nonce-${nonce}'`,
+        ].join('; ');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+        .muted { color: var(--vscode-descriptionForeground); }
+        .link { cursor: pointer; color: var(--vscode-textLink-foreground); }
+        .link:hover { text-decoration: underline; }
+        .toolbar { display: flex; justify-content: space-between; align-items: baseline; }
+        .error { color: var(--vscode-errorForeground); white-space: pre-wrap; }
+        .entry { border-left: 2px solid var(--vscode-panel-border); padding: 4px 0 12px 14px; position: relative; }
+        .entry::before { content: ''; position: absolute; left: -6px; top: 8px; width: 10px; height: 10px; border-radius: 50%; background: var(--status-color); }
+        .subject { font-weight: 600; }
+        .status { display: inline-block; padding: 0 6px; border-radius: 8px; border: 1px solid var(--status-color); font-size: 0.9em; }
+        ul { margin: 4px 0 0; padding-left: 18px; }
+        li.task-completed { color: var(--vscode-charts-green); }
+        li.task-reopened { color: var(--vscode-charts-orange); }
+        li.status { font-weight: 600; }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <h2>${escapeHtml(this.spec.name)} History</h2>
+        <span class="link" id="refresh">Refresh</span>
+    </div>
+    <div id="content"><p class="muted">Loading…</p></div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const content = document.getElementById('content');
+        document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ command: 'refresh' }));
+
+        function el(tag, attrs, ...children) {
+            const node = document.createElement(tag);
+            for (const [key, value] of Object.entries(attrs || {})) {
+                if (key === 'style') node.style.cssText = value;
+                else if (key === 'onclick') node.addEventListener('click', value);
+                else node.setAttribute(key, value);
+            }
+            for (const child of children.flat()) {
+                if (child !== null && child !== undefined) {
+                    node.append(child instanceof Node ? child : String(child));
+                }
+            }
+            return node;
+        }
+
+        function color(themeColor) {
+            return themeColor ? 'var(--vscode-' + themeColor.replace(/\\./g, '-') + ')' : 'var(--vscode-descriptionForeground)';
+        }
+
+        function renderEvent(event) {
+            // Added files link to their current version
+            return el('li', { class: event.kind }, event.kind === 'file-added'
+                ? ['Added ', el('span', { class: 'link', onclick: () => vscode.postMessage({ command: 'openFile', file: event.file }) }, event.file)]
+                : event.message);
+        }
+
+        function renderEntry(entry) {
+            const progress = entry.taskProgress
+                ? entry.taskProgress.completed + '/' + entry.taskProgress.total + ' tasks'
+                : null;
+            return el('div', { class: 'entry', style: '--status-color:' + color(entry.color) },
+                el('div', {}, el('span', { class: 'subject' }, entry.subject)),
+                el('div', { class: 'muted' },
+                    new Date(entry.date).toLocaleString() + ' • ' + entry.author + ' • ' + entry.shortHash),
+                el('div', {},
+                    el('span', { class: 'status', title: entry.declared ? 'Declared status' : 'Inferred status' }, entry.statusLabel),
+                    progress ? el('span', { class: 'muted' }, ' ' + progress) : null),
+                entry.events.length > 0 ? el('ul', {}, entry.events.map(renderEvent)) : null);
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'update') {
+                content.replaceChildren(message.entries.length > 0
+                    ? el('div', {}, message.entries.map(renderEntry))
+                    : el('p', { class: 'muted' }, 'No commits touch this spec yet.'));
+            } else if (message.command === 'error') {
+                content.replaceChildren(el('p', { class: 'error' }, message.message));
+            }
+        });
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,277 @@
+/**
+ * Spec history data model
+ *
+ * Reconstructs how a spec evolved from the git history of its folder (using
+ * the local git binary): files added and removed, tasks checked off or
+ * reopened (parsed with parseTasksContent) and the status after each commit.
+ * The status is derived the same way as in the Specs view: a status declared
+ * in spec.yaml or requirements.md frontmatter when the workflow defines it,
+ * otherwise the file-existence heuristic. Validation errors are not replayed.
+ * The git helpers also serve `LDF: Compare Spec Revisions` (see specDiff.ts).
+ *
+ * Kept free of VS Code APIs so the webview (specHistory.ts) only has to render it.
+ */
+
+import * as yaml from 'js-yaml';
+import { execFileAsync, parseTasksContent } from './utils';
+import { parseFrontmatter, normalizeStatusId } from './specMetadata';
+import { SpecWorkflow, getStatusLabel, getWorkflowStatus, inferSpecStatus } from './specWorkflow';
+
+// Files whose contents drive the derived status
+const TRACKED_FILES = ['requirements.md', 'design.md', 'tasks.md', 'spec.yaml'] as const;
+type TrackedFile = typeof TRACKED_FILES[number];
+
+// Separators for git log --format (record and field)
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * A file changed by a commit, relative to the spec folder.
+ */
+export interface SpecFileChange {
+    status: 'added' | 'modified' | 'deleted';
+    file: string;
+}
+
+/**
+ * One commit touching the spec folder.
+ */
+export interface SpecRevision {
+    hash: string;
+    author: string;
+    /** ISO 8601 author date */
+    date: string;
+    subject: string;
+    changes: SpecFileChange[];
+    /** Contents after the commit of the tracked files it changed (undefined when deleted) */
+    contents: Partial<Record<TrackedFile, string | undefined>>;
+}
+
+/**
+ * A commit touching the spec folder, without file contents.
+ */
+export type SpecCommit = Omit<SpecRevision, 'contents'>;
+
+export interface SpecHistoryEvent {
+    kind: 'file-added' | 'file-removed' | 'tasks-added' | 'task-completed' | 'task-reopened' | 'status';
+    message: string;
+    /** File added or removed, relative to the spec folder */
+    file?: string;
+}
+
+/**
+ * The spec's state after one commit, and what changed in it.
+ */
+export interface SpecHistoryEntry {
+    hash: string;
+    shortHash: string;
+    author: string;
+    date: string;
+    subject: string;
+    status: string;
+    statusLabel: string;
+    /** Theme color id of the status */
+    color?: string;
+    /** Whether the status was declared rather than inferred */
+    declared: boolean;
+    /** Task counts, when the spec had a tasks.md */
+    taskProgress?: { completed: number; total: number };
+    events: SpecHistoryEvent[];
+}
+
+/**
+ * Parse `git log --format=<RS>%H<US>%an<US>%aI<US>%s --name-status --no-renames` output.
+ * @param prefix Path of the spec folder relative to the repository root (with trailing `/`)
+ */
+export function parseGitLog(output: string, prefix: string): SpecCommit[] {
+    const revisions: SpecCommit[] = [];
+    for (const record of output.split(RECORD_SEPARATOR)) {
+        const [header, ...lines] = record.split('\n');
+        const [hash, author, date, subject] = header.split(FIELD_SEPARATOR);
+        if (!hash?.trim() || date === undefined) {
+            continue;
+        }
+
+        const changes: SpecFileChange[] = [];
+        for (const line of lines) {
+            const [code, file] = line.split('\t');
+            if (!file?.startsWith(prefix)) {
+                continue;
+            }
+            const status = code === 'A' ? 'added' : code === 'D' ? 'deleted' : 'modified';
+            changes.push({ status, file: file.slice(prefix.length) });
+        }
+        revisions.push({ hash: hash.trim(), author, date, subject: subject ?? '', changes });
+    }
+    return revisions;
+}
+
+/**
+ * List the commits touching a spec folder, newest first.
+ * @param maxCount Limit on the number of commits
+ * @throws If git is not available or the folder is not in a git repository
+ */
+export async function listSpecCommits(
+    specPath: string,
+    maxCount?: number
+): Promise<SpecCommit[]> {
+    const prefix = (await git(specPath, ['rev-parse', '--show-prefix'])).trim();
+    const log = await git(specPath, [
+        '-c', 'core.quotePath=false',
+        'log',
+        ...(maxCount ? [`--max-count=${maxCount}`] : []),
+        '--no-renames',
+        '--name-status',
+        `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s`,
+        '--',
+        '.',
+    ]);
+    return parseGitLog(log, prefix);
+}
+
+/**
+ * Resolve a branch, tag or commit to a commit hash.
+ * @throws If the revision doesn't name a commit
+ */
+export async function resolveRevision(specPath: string, ref: string): Promise<string> {
+    return (await git(specPath, ['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`])).trim();
+}
+
+/**
+ * Read a spec file at a revision. Returns undefined if the file doesn't exist there.
+ * @param file Path relative to the spec folder
+ */
+export async function readSpecFileAt(specPath: string, ref: string, file: string): Promise<string | undefined> {
+    try {
+        return await git(specPath, ['show', `${ref}:./${file}`]);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Read the git history of a spec folder, oldest commit first.
+ * @throws If git is not available or the folder is not in a git repository
+ */
+export async function loadSpecRevisions(specPath: string): Promise<SpecRevision[]> {
+    const revisions: SpecRevision[] = [];
+    for (const revision of (await listSpecCommits(specPath)).reverse()) {
+        const contents: SpecRevision['contents'] = {};
+        for (const change of revision.changes) {
+            if (!isTrackedFile(change.file)) {
+                continue;
+            }
+            contents[change.file] = change.status === 'deleted'
+                ? undefined
+                : await git(specPath, ['show', `${revision.hash}:./${change.file}`]);
+        }
+        revisions.push({ ...revision, contents });
+    }
+    return revisions;
+}
+
+/**
+ * Replay a spec's revisions (oldest first) into history entries, newest first.
+ */
+export function buildSpecHistory(revisions: SpecRevision[], workflow: SpecWorkflow): SpecHistoryEntry[] {
+    const snapshot: Partial<Record<TrackedFile, string>> = {};
+    let previousStatus: string | undefined;
+    let previousTasks = new Map<string, boolean>();
+    const entries: SpecHistoryEntry[] = [];
+
+    for (const revision of revisions) {
+        const events: SpecHistoryEvent[] = [];
+        for (const change of revision.changes) {
+            if (change.status === 'added') {
+                events.push({ kind: 'file-added', message: `Added ${change.file}`, file: change.file });
+            } else if (change.status === 'deleted') {
+                events.push({ kind: 'file-removed', message: `Removed ${change.file}`, file: change.file });
+            }
+        }
+        for (const file of TRACKED_FILES) {
+            if (file in revision.contents) {
+                snapshot[file] = revision.contents[file];
+            }
+        }
+
+        // Task events, matched by task number
+        const tasks = snapshot['tasks.md'] !== undefined ? parseTasksContent('', snapshot['tasks.md']) : [];
+        const added = tasks.filter(task => !previousTasks.has(task.taskNumber));
+        if (added.length > 0) {
+            events.push({ kind: 'tasks-added', message: `Added ${added.length} task${added.length === 1 ? '' : 's'}` });
+        }
+        for (const task of tasks) {
+            const wasComplete = previousTasks.get(task.taskNumber);
+            if (task.isComplete && wasComplete !== true) {
+                events.push({ kind: 'task-completed', message: `Completed Task ${task.taskNumber}: ${task.title}` });
+            } else if (!task.isComplete && wasComplete === true) {
+                events.push({ kind: 'task-reopened', message: `Reopened Task ${task.taskNumber}: ${task.title}` });
+            }
+        }
+        previousTasks = new Map(tasks.map(task => [task.taskNumber, task.isComplete]));
+
+        const taskProgress = snapshot['tasks.md'] !== undefined
+            ? { completed: tasks.filter(task => task.isComplete).length, total: tasks.length }
+            : undefined;
+        const declaredStatus = getDeclaredStatus(snapshot);
+        const declared = !!declaredStatus && workflow.statuses.some(s => s.id === declaredStatus);
+        const status = declared
+            ? declaredStatus!
+            : inferSpecStatus(snapshot['design.md'] !== undefined, taskProgress, workflow);
+        const statusLabel = getStatusLabel(workflow, status);
+        if (status !== previousStatus) {
+            events.push({
+                kind: 'status',
+                message: previousStatus === undefined
+                    ? `Status: ${statusLabel}`
+                    : `Status: ${getStatusLabel(workflow, previousStatus)} → ${statusLabel}`,
+            });
+            previousStatus = status;
+        }
+
+        entries.push({
+            hash: revision.hash,
+            shortHash: revision.hash.slice(0, 7),
+            author: revision.author,
+            date: revision.date,
+            subject: revision.subject,
+            status,
+            statusLabel,
+            color: getWorkflowStatus(workflow, status)?.color,
+            declared,
+            taskProgress,
+            events,
+        });
+    }
+    return entries.reverse();
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, timeout: 30000, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+}
+
+function isTrackedFile(file: string): file is TrackedFile {
+    return (TRACKED_FILES as readonly string[]).includes(file);
+}
+
+/**
+ * Status declared in spec.yaml or requirements.md frontmatter (spec.yaml wins), as in readSpecMetadata.
+ */
+function getDeclaredStatus(snapshot: Partial<Record<TrackedFile, string>>): string | undefined {
+    let data: unknown;
+    if (snapshot['spec.yaml'] !== undefined) {
+        try {
+            data = yaml.load(snapshot['spec.yaml']);
+        } catch {
+            // Invalid spec.yaml; fall back to frontmatter
+        }
+    }
+    if (!data || typeof data !== 'object') {
+        data = snapshot['requirements.md'] !== undefined
+            ? parseFrontmatter(snapshot['requirements.md'])?.data
+            : undefined;
+    }
+    const status = (data as Record<string, unknown> | undefined)?.status;
+    return typeof status === 'string' && status.trim() ? normalizeStatusId(status) : undefined;
+}
@@ -0,0 +1,66 @@
+/**
+ * Spec Hover Provider
+ *
+ * Hover cards in spec documents (see specHoverData.ts): guardrail rows and
+ * mentions show the guardrail from guardrails.yaml with its coverage, and
+ * US/AC/Task references show their text and completion state.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecTreeProvider } from './specView';
+import { GuardrailTreeProvider } from './guardrailView';
+import { getSpecFileKind } from './specSymbolData';
+import { findSpecIds, getSpecIdAt } from './specReferenceData';
+import { findGuardrailReference, formatGuardrailHover, formatSpecIdHover } from './specHoverData';
+import { getDocumentSpec, readSpecDocument } from './specReferences';
+
+export class SpecHoverProvider implements vscode.HoverProvider {
+    constructor(
+        private readonly specProvider: SpecTreeProvider,
+        private readonly guardrailProvider: GuardrailTreeProvider
+    ) {}
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const spec = getDocumentSpec(this.specProvider, document);
+        if (!spec) {
+            return undefined;
+        }
+
+        const line = document.lineAt(position.line).text;
+        const reference = findGuardrailReference(line, position.character);
+        if (reference) {
+            const workspacePath = spec.folderPath ?? this.specProvider.getWorkspacePaths()[0];
+            const coverage = this.guardrailProvider.getCoverageForWorkspace(workspacePath)
+                .find(c => c.guardrail.id === reference.guardrailId);
+            const guardrail = coverage?.guardrail ?? this.guardrailProvider.getGuardrailsForWorkspace(workspacePath)
+                .guardrails.find(g => g.id === reference.guardrailId);
+            if (!guardrail) {
+                return undefined;
+            }
+            return toHover(
+                formatGuardrailHover(guardrail, coverage),
+                new vscode.Range(position.line, reference.start, position.line, reference.end)
+            );
+        }
+
+        const occurrences = findSpecIds(getSpecFileKind(document.fileName), document.getText());
+        const target = getSpecIdAt(occurrences, position.line, position.character);
+        if (!target) {
+            return undefined;
+        }
+        const markdown = formatSpecIdHover(target.id, {
+            requirements: readSpecDocument(path.join(spec.path, 'requirements.md')),
+            tasks: readSpecDocument(path.join(spec.path, 'tasks.md')),
+        });
+        return markdown
+            ? toHover(markdown, new vscode.Range(target.line, target.start, target.line, target.end))
+            : undefined;
+    }
+}
+
+function toHover(markdown: string, range: vscode.Range): vscode.Hover {
+    const content = new vscode.MarkdownString(markdown);
+    content.supportThemeIcons = true;
+    return new vscode.Hover(content, range);
+}
@@ -0,0 +1,161 @@
+/**
+ * Spec hover cards
+ *
+ * Markdown for the hover cards of spec documents (see specHover.ts):
+ * - guardrails, in coverage matrix / guardrail mapping rows
+ *   (`| 6. Data Validation | ...`) and prose (`Guardrail 6`): name,
+ *   description, severity, enabled state and coverage across specs
+ * - user stories, acceptance criteria, tasks and phases referenced by ID
+ *   (`US-1`, `AC-1.2`, `[T-1.2]`, `[T-1]`): their text and completion state
+ *
+ * Theme icons (`$(name)`) are used for states, so the hover's MarkdownString
+ * needs supportThemeIcons.
+ */
+
+import type { Guardrail, GuardrailCoverage } from './guardrailView';
+import { OutlineNode, parseRequirementsOutline, parseTasksOutline } from './specOutline';
+import { parseSpecId } from './specReferenceData';
+
+/**
+ * A guardrail referenced in a line of a spec document.
+ */
+export interface GuardrailReference {
+    guardrailId: number;
+    /** Columns of the reference */
+    start: number;
+    end: number;
+}
+
+const COVERAGE_LABELS: Record<GuardrailCoverage['status'], string> = {
+    'covered': '$(check) Covered',
+    'partial': '$(warning) Partial',
+    'not-covered': '$(circle-slash) Not covered',
+    'not-applicable': '$(circle-large-outline) Not applicable',
+};
+
+const DONE = '$(pass-filled) Done';
+const OPEN = '$(circle-large-outline) Open';
+
+/**
+ * The guardrail referenced at a column of a line: the first cell of a table
+ * row (`| 6. Data Validation |`) or a `Guardrail 6` / `guardrail #6` mention.
+ */
+export function findGuardrailReference(text: string, character: number): GuardrailReference | undefined {
+    const row = text.match(/^(\s*\|\s*)(\d+)\.\s*[^|]*?\s*\|/);
+    if (row) {
+        const start = row[1].length;
+        const end = start + row[0].slice(start, -1).trimEnd().length;
+        if (character >= start && character <= end) {
+            return { guardrailId: Number(row[2]), start, end };
+        }
+    }
+    for (const mention of text.matchAll(/\bguardrail\s+#?(\d+)\b/gi)) {
+        const start = mention.index!;
+        const end = start + mention[0].length;
+        if (character >= start && character <= end) {
+            return { guardrailId: Number(mention[1]), start, end };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Hover card of a guardrail, with its coverage when the workspace's coverage
+ * is known.
+ */
+export function formatGuardrailHover(guardrail: Guardrail, coverage?: GuardrailCoverage): string {
+    const lines = [
+        `**${guardrail.id}. ${guardrail.name}**`,
+        '',
+        guardrail.description,
+        '',
+        `Severity: ${guardrail.severity} · ${guardrail.enabled ? 'Enabled' : '$(circle-slash) Disabled'}`,
+    ];
+    if (coverage) {
+        const done = coverage.specCoverage.filter(sc => sc.status === 'done').length;
+        lines.push('', `Coverage: ${COVERAGE_LABELS[coverage.status]} (${done}/${coverage.specCoverage.length} specs done)`);
+        if (coverage.specCoverage.length > 0) {
+            lines.push('');
+            for (const sc of coverage.specCoverage) {
+                const owners = sc.owners?.length ? ` (${sc.owners.join(', ')})` : '';
+                lines.push(`- ${sc.specName}: ${sc.status.toUpperCase()}${owners}`);
+            }
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Hover card of a user story, acceptance criterion, task or phase, looked up
+ * in the spec's requirements.md / tasks.md content. Undefined when the ID
+ * isn't defined (or is a design section).
+ */
+export function formatSpecIdHover(id: string, documents: { requirements?: string; tasks?: string }): string | undefined {
+    const parsed = parseSpecId(id);
+    if (!parsed || parsed.family === 'section') {
+        return undefined;
+    }
+
+    if (parsed.family === 'story') {
+        const stories = parseRequirementsOutline(documents.requirements ?? '');
+        const [storyNumber] = parsed.number.split('.');
+        const story = stories.find(s => s.label === `US-${storyNumber}`);
+        if (!story) {
+            return undefined;
+        }
+        if (!parsed.number.includes('.')) {
+            return formatGroup(story, 'criteria');
+        }
+        const criterion = story.children.find(c => c.label === `AC-${parsed.number}`);
+        if (!criterion) {
+            return undefined;
+        }
+        return [
+            `**${criterion.label}** · ${criterion.checked ? DONE : OPEN}`,
+            '',
+            criterion.description ?? '',
+            '',
+            `_${title(story)}_`,
+        ].join('\n');
+    }
+
+    const outline = parseTasksOutline(documents.tasks ?? '');
+    if (!parsed.number.includes('.')) {
+        const phase = outline.find(node => node.kind === 'phase' && new RegExp(`^Phase\\s+${parsed.number}\\b`, 'i').test(node.label));
+        if (phase) {
+            return formatGroup(phase, 'tasks');
+        }
+    }
+    for (const node of outline) {
+        const task = [node, ...node.children].find(t => t.kind === 'task' && t.label === `Task ${parsed.number}`);
+        if (task) {
+            const lines = [`**${title(task)}** · ${task.checked ? DONE : OPEN}`];
+            if (node !== task) {
+                lines.push('', `_${node.label}_`);
+            }
+            return lines.join('\n');
+        }
+    }
+    return undefined;
+}
+
+/**
+ * A story with its criteria or a phase with its tasks, and their progress.
+ */
+function formatGroup(node: OutlineNode, itemsLabel: string): string {
+    const items = node.children;
+    const done = items.filter(item => item.checked).length;
+    const state = items.length > 0 && done === items.length ? DONE : OPEN;
+    const lines = [`**${node.kind === 'story' ? title(node) : node.label}** · ${state}`];
+    if (items.length > 0) {
+        lines.push('', `${done}/${items.length} ${itemsLabel} done`, '');
+        for (const item of items) {
+            lines.push(`- ${item.checked ? '$(pass-filled)' : '$(circle-large-outline)'} ${title(item)}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+function title(node: OutlineNode): string {
+    return node.description ? `${node.label}: ${node.description}` : node.label;
+}
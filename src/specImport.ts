@@ -0,0 +1,366 @@
+/**
+ * Spec import from issue-tracker exports
+ *
+ * Reads local export files and maps each issue to the content of a new spec:
+ * - GitHub: a JSON array of issues (`gh issue list --json ...` or the REST API),
+ *   optionally wrapped as `{ "issues": [...] }`
+ * - Jira: the REST search result (`{ "issues": [{ "key", "fields": {...} }] }`),
+ *   with v2 (wiki text) or v3 (Atlassian Document Format) descriptions
+ * - CSV: a header row with a title column (Title / Summary) and optionally
+ *   Body / Description, an id (Number / Issue key / Issue id / Key / ID),
+ *   Parent and State / Status columns, as GitHub and Jira CSV exports have
+ *
+ * The issue's title and body become the Overview, its checklist items
+ * (`- [ ] ...`) the acceptance criteria of a user story, and its sub-issues
+ * (`sub_issues`, Jira subtasks, or issues naming it as parent) the tasks.
+ * Sub-issues are not imported as specs of their own.
+ */
+
+import { contentLines, shiftHeadings } from './specOutline';
+import { RequirementsContent, TasksContent } from './specTemplates';
+
+export type ImportSource = 'GitHub' | 'Jira' | 'CSV';
+
+export interface ImportedIssue {
+    /** Issue number or key (e.g. '42', 'PROJ-7') */
+    key: string;
+    title: string;
+    /** Description without the checklist items */
+    body: string;
+    url?: string;
+    /** Checklist items of the description */
+    criteria: string[];
+    /** Sub-issues */
+    tasks: Array<{ title: string; done: boolean }>;
+}
+
+// Issue states that count as done
+const DONE_STATES = ['closed', 'done', 'resolved', 'completed', 'fixed'];
+
+/**
+ * Parse an issue-tracker export. The format is chosen by the file extension
+ * (.csv) or, for JSON, by its shape.
+ * @throws If the file can't be parsed or contains no issues
+ */
+export function parseIssueExport(content: string, fileName: string): { source: ImportSource; issues: ImportedIssue[] } {
+    content = content.replace(/^\uFEFF/, '');
+    if (/\.csv$/i.test(fileName)) {
+        return { source: 'CSV', issues: parseCsvIssues(parseCsv(content)) };
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch (err) {
+        throw new Error(`Not a JSON or CSV export: ${err instanceof Error ? err.message : err}`);
+    }
+    const list = Array.isArray(data) ? data : asRecord(data)?.issues;
+    if (!Array.isArray(list)) {
+        throw new Error('Expected an array of issues or an object with an "issues" array');
+    }
+    const records = list.map(asRecord).filter((r): r is Record<string, unknown> => !!r);
+    return records.some(r => asRecord(r.fields))
+        ? { source: 'Jira', issues: parseJiraIssues(records) }
+        : { source: 'GitHub', issues: parseGitHubIssues(records) };
+}
+
+/**
+ * Parse CSV (RFC 4180: quoted fields may contain commas, quotes and newlines).
+ */
+export function parseCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/**
+ * Split a description's checklist items (outside code blocks) from the rest.
+ */
+export function splitChecklist(body: string): { body: string; criteria: string[] } {
+    const lines = body.replace(/\r\n/g, '\n').split('\n');
+    const criteria: string[] = [];
+    const checklistLines = new Set<number>();
+    for (const { text, line } of contentLines(body)) {
+        const item = text.match(/^\s*[-*+]\s+\[[ xX]\]\s+(.+)$/);
+        if (item) {
+            criteria.push(item[1].trim());
+            checklistLines.add(line);
+        }
+    }
+    return {
+        body: lines.filter((_, i) => !checklistLines.has(i)).join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+        criteria,
+    };
+}
+
+/**
+ * Spec name for an issue title: lowercase words joined with hyphens, at most 50 characters.
+ */
+export function toSpecName(title: string): string {
+    return title
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .slice(0, 50)
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Requirements and tasks content of the spec for an issue (see createRequirementsVariables).
+ */
+export function toSpecContent(issue: ImportedIssue, source: ImportSource): RequirementsContent & TasksContent {
+    const reference = source === 'Jira' || !/^\d+$/.test(issue.key) ? issue.key : `#${issue.key}`;
+    const origin = issue.url
+        ? `_Imported from ${source} issue [${reference}](${issue.url})._`
+        : `_Imported from ${source} issue ${reference}._`;
+    // Headings of the description stay inside the Overview section
+    const body = issue.body ? shiftHeadings(issue.body, 2) : '';
+    return {
+        overview: [`**${issue.title}**`, body, origin].filter(Boolean).join('\n\n'),
+        userStories: [{ title: issue.title, criteria: issue.criteria }],
+        tasks: issue.tasks.length > 0 ? issue.tasks : undefined,
+    };
+}
+
+function parseGitHubIssues(records: Array<Record<string, unknown>>): ImportedIssue[] {
+    const issues = records.map(record => ({
+        record,
+        key: String(record.number ?? record.id ?? ''),
+        parent: keyOf(record.parent) ?? keyOf(record.parent_issue),
+    }));
+    const childKeys = new Set<string>();
+    for (const { record } of issues) {
+        for (const sub of asArray(record.sub_issues ?? record.subIssues)) {
+            const key = keyOf(sub);
+            if (key) childKeys.add(key);
+        }
+    }
+    for (const issue of issues) {
+        if (issue.parent && issues.some(i => i.key === issue.parent)) {
+            childKeys.add(issue.key);
+        }
+    }
+
+    return issues
+        .filter(issue => !childKeys.has(issue.key) && text(issue.record.title))
+        .map(({ record, key }) => {
+            const { body, criteria } = splitChecklist(text(record.body));
+            const tasks = asArray(record.sub_issues ?? record.subIssues).map(sub => {
+                // Sub-issues given by number refer to other issues of the export
+                const subRecord = asRecord(sub) ?? issues.find(i => i.key === keyOf(sub))?.record;
+                return subRecord ? { title: text(subRecord.title), done: isDone(subRecord.state) } : undefined;
+            });
+            const children = issues
+                .filter(i => i.parent === key && !asArray(record.sub_issues ?? record.subIssues).some(s => keyOf(s) === i.key))
+                .map(i => ({ title: text(i.record.title), done: isDone(i.record.state) }));
+            return {
+                key,
+                title: text(record.title),
+                body,
+                url: text(record.html_url ?? record.url) || undefined,
+                criteria,
+                tasks: [...tasks, ...children].filter((t): t is { title: string; done: boolean } => !!t?.title),
+            };
+        });
+}
+
+function parseJiraIssues(records: Array<Record<string, unknown>>): ImportedIssue[] {
+    const issues = records.map(record => {
+        const fields = asRecord(record.fields) ?? {};
+        return { record, fields, key: text(record.key) || String(record.id ?? ''), parent: keyOf(fields.parent) };
+    });
+    const keys = new Set(issues.map(i => i.key));
+
+    return issues
+        .filter(issue => !(issue.parent && keys.has(issue.parent)) && text(issue.fields.summary))
+        .map(({ record, fields, key }) => {
+            const description = asRecord(fields.description)
+                ? adfToMarkdown(fields.description)
+                : jiraWikiToMarkdown(text(fields.description));
+            const { body, criteria } = splitChecklist(description);
+            const subtasks = asArray(fields.subtasks).map(asRecord).filter((s): s is Record<string, unknown> => !!s);
+            const subtaskKeys = subtasks.map(s => text(s.key));
+            const children = issues.filter(i => i.parent === key && !subtaskKeys.includes(i.key));
+            const base = text(record.self).match(/^(https?:\/\/[^/]+)/)?.[1];
+            return {
+                key,
+                title: text(fields.summary),
+                body,
+                url: base ? `${base}/browse/${key}` : undefined,
+                criteria,
+                tasks: [
+                    ...subtasks.map(s => asRecord(s.fields) ?? {}),
+                    ...children.map(c => c.fields),
+                ].map(f => ({ title: text(f.summary), done: isDone(asRecord(f.status)) }))
+                    .filter(t => t.title),
+            };
+        });
+}
+
+function parseCsvIssues(rows: string[][]): ImportedIssue[] {
+    if (rows.length === 0) {
+        return [];
+    }
+    const header = rows[0].map(h => h.trim().toLowerCase());
+    const column = (...names: string[]) => {
+        for (const name of names) {
+            const index = header.indexOf(name);
+            if (index >= 0) return index;
+        }
+        return -1;
+    };
+    const titleColumn = column('title', 'summary', 'name');
+    if (titleColumn < 0) {
+        throw new Error('The CSV file needs a Title or Summary column');
+    }
+    const bodyColumn = column('body', 'description');
+    const keyColumns = [column('number'), column('issue key'), column('key'), column('issue id'), column('id')]
+        .filter(i => i >= 0);
+    const parentColumn = column('parent', 'parent id', 'parent key', 'parent issue');
+    const stateColumn = column('state', 'status');
+    const urlColumn = column('url', 'html_url', 'link');
+
+    const issues = rows.slice(1).map((row, i) => {
+        const cell = (index: number) => (index >= 0 ? row[index] ?? '' : '').trim();
+        return {
+            title: cell(titleColumn),
+            body: cell(bodyColumn),
+            // Any id column may be referenced by Parent (Jira uses the numeric id)
+            keys: keyColumns.map(cell).filter(Boolean),
+            parent: cell(parentColumn).replace(/^#/, ''),
+            done: isDone(cell(stateColumn)),
+            url: cell(urlColumn) || undefined,
+            row: i + 2,
+        };
+    }).filter(issue => issue.title);
+
+    const isChild = (issue: typeof issues[number]) =>
+        !!issue.parent && issues.some(other => other !== issue && other.keys.includes(issue.parent));
+
+    return issues
+        .filter(issue => !isChild(issue))
+        .map(issue => {
+            const { body, criteria } = splitChecklist(issue.body);
+            return {
+                key: issue.keys[0] ?? `row ${issue.row}`,
+                title: issue.title,
+                body,
+                url: issue.url,
+                criteria,
+                tasks: issues
+                    .filter(child => child.parent && issue.keys.includes(child.parent))
+                    .map(child => ({ title: child.title, done: child.done })),
+            };
+        });
+}
+
+/**
+ * Plain Markdown from an Atlassian Document Format description (Jira REST v3).
+ */
+function adfToMarkdown(node: unknown): string {
+    const record = asRecord(node);
+    if (!record) {
+        return '';
+    }
+    const children = asArray(record.content);
+    const inline = () => children.map(adfToMarkdown).join('');
+    const attrs = asRecord(record.attrs) ?? {};
+
+    switch (record.type) {
+        case 'text':
+            return text(record.text);
+        case 'hardBreak':
+            return '\n';
+        case 'paragraph':
+            return inline();
+        case 'heading':
+            return `${'#'.repeat(Number(attrs.level) || 1)} ${inline()}`;
+        case 'bulletList':
+            return children.map(item => `- ${adfToMarkdown(item)}`).join('\n');
+        case 'orderedList':
+            return children.map((item, i) => `${i + 1}. ${adfToMarkdown(item)}`).join('\n');
+        case 'listItem':
+            return children.map(adfToMarkdown).join(' ');
+        case 'taskList':
+            return children.map(adfToMarkdown).join('\n');
+        case 'taskItem':
+            return `- [${attrs.state === 'DONE' ? 'x' : ' '}] ${inline()}`;
+        case 'codeBlock':
+            return '```\n' + inline() + '\n```';
+        default:
+            // doc, blockquote, panel, ...: blocks separated by blank lines
+            return children.map(adfToMarkdown).filter(Boolean).join('\n\n');
+    }
+}
+
+/**
+ * Convert the Jira wiki markup that matters for specs: headings (`h2. Title`).
+ */
+function jiraWikiToMarkdown(content: string): string {
+    return content.replace(/^h([1-6])\.\s+/gm, (_, level: string) => '#'.repeat(Number(level)) + ' ');
+}
+
+function isDone(state: unknown): boolean {
+    const record = asRecord(state);
+    if (record) {
+        // Jira status object: statusCategory.key is 'done' for any done status
+        return text(asRecord(record.statusCategory)?.key) === 'done' || isDone(record.name);
+    }
+    return DONE_STATES.includes(text(state).toLowerCase());
+}
+
+function keyOf(value: unknown): string | undefined {
+    const record = asRecord(value);
+    const key = record ? record.number ?? record.key ?? record.id : value;
+    return typeof key === 'string' || typeof key === 'number' ? String(key).replace(/^#/, '') : undefined;
+}
+
+function text(value: unknown): string {
+    return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+}
+
+function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? value as Record<string, unknown>
+        : undefined;
+}
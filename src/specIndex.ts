@@ -0,0 +1,353 @@
+/**
+ * Spec file index
+ *
+ * One cache of spec documents and spec folder listings shared by the Specs,
+ * Guardrails and Tasks views. Files are read and parsed once and kept until
+ * they change, and reads never touch the disk synchronously:
+ * - load() reads the specs directories (archive and spec sub-folders
+ *   included) in the background, before the first refresh
+ * - Reads (readFile(), parse(), exists(), listDirectories(), listFiles())
+ *   only look at the cache; a path that hasn't been read yet is queued for
+ *   an asynchronous read, and listeners are notified once it is cached
+ * - Parsers run through parse(), which memoizes their result per file content
+ * - File watcher events and commands that change spec files go through
+ *   update(), which re-reads only the changed files (or directories)
+ *   asynchronously and notifies listeners when content actually changed
+ *   (content hashes filter out saves that didn't change anything)
+ *
+ * extension.ts feeds watcher events into the shared `specIndex` and refreshes
+ * the three providers when it reports changes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+
+interface CachedFile {
+    mtimeMs: number;
+    size: number;
+    hash: string;
+    content: string;
+    /** Parser results by parser id, dropped when the content changes */
+    parsed: Map<string, unknown>;
+}
+
+interface DirectoryListing {
+    directories: Set<string>;
+    files: Set<string>;
+}
+
+// Spec documents and metadata; other files are listed but not read
+const SPEC_FILE_PATTERN = /\.(md|ya?ml)$/i;
+
+// Levels read below a directory: specs dir / _archive / spec / adr / file
+const MAX_DEPTH = 4;
+
+export class SpecIndex {
+    private readonly files = new Map<string, CachedFile>();
+    private readonly directories = new Map<string, DirectoryListing>();
+    /** Read errors, reported by the reads of the file */
+    private readonly failed = new Map<string, unknown>();
+    /** Paths found not to exist, so reads of them aren't queued again */
+    private readonly missing = new Set<string>();
+    private readonly queued = new Set<string>();
+    private queueTimer: ReturnType<typeof setTimeout> | undefined;
+    private readonly listeners = new Set<(changed: string[]) => void>();
+
+    /**
+     * Cached content of a file. Returns undefined if the file doesn't exist
+     * or hasn't been read yet; throws if it couldn't be read.
+     */
+    readFile(filePath: string): string | undefined {
+        return this.getEntry(filePath)?.content;
+    }
+
+    /**
+     * Run a parser on a file's cached content, reusing the previous result
+     * while the content is unchanged. Results are shared, so callers must not
+     * modify them.
+     * @param parser Id of the parser (one cached result per file and parser)
+     */
+    parse<T>(filePath: string, parser: string, parse: (content: string) => T): T | undefined {
+        const entry = this.getEntry(filePath);
+        if (!entry) {
+            return undefined;
+        }
+        if (!entry.parsed.has(parser)) {
+            entry.parsed.set(parser, parse(entry.content));
+        }
+        return entry.parsed.get(parser) as T;
+    }
+
+    /**
+     * Whether a file is in the cache.
+     */
+    exists(filePath: string): boolean {
+        try {
+            return this.getEntry(filePath) !== undefined;
+        } catch {
+            // Exists, but can't be read
+            return true;
+        }
+    }
+
+    /**
+     * Names of the subdirectories of a cached directory, sorted.
+     */
+    listDirectories(dir: string): string[] {
+        return [...this.getListing(dir)?.directories ?? []].sort();
+    }
+
+    /**
+     * Names of the files in a cached directory, sorted.
+     */
+    listFiles(dir: string): string[] {
+        return [...this.getListing(dir)?.files ?? []].sort();
+    }
+
+    /**
+     * Re-read changed or deleted files or directories asynchronously.
+     * Listeners are notified when anything a read could have returned changed.
+     * @returns The paths that changed
+     */
+    async update(paths: string[]): Promise<string[]> {
+        const targets = [...new Set(paths)];
+        const results = await Promise.all(targets.map(target => this.read(target, MAX_DEPTH)));
+        const changed = targets.filter((_, i) => results[i]);
+
+        if (changed.length > 0) {
+            for (const listener of this.listeners) {
+                listener(changed);
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Read the given specs directories (including the archive and the specs'
+     * sub-folders) into the cache without notifying listeners.
+     */
+    async load(specsDirs: string[]): Promise<void> {
+        await Promise.all([...new Set(specsDirs)].map(dir => this.read(dir, MAX_DEPTH)));
+    }
+
+    /**
+     * Listen for content changes found by update() and by queued reads.
+     */
+    onDidChange(listener: (changed: string[]) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Drop everything cached.
+     */
+    clear(): void {
+        this.files.clear();
+        this.directories.clear();
+        this.failed.clear();
+        this.missing.clear();
+        this.queued.clear();
+        clearTimeout(this.queueTimer);
+        this.queueTimer = undefined;
+    }
+
+    private getEntry(filePath: string): CachedFile | undefined {
+        const error = this.failed.get(filePath);
+        if (error !== undefined) {
+            throw error;
+        }
+        const cached = this.files.get(filePath);
+        // Files missing from their cached folder listing don't exist
+        const listing = this.directories.get(path.dirname(filePath));
+        if (!cached && !this.missing.has(filePath) && (!listing || listing.files.has(path.basename(filePath)))) {
+            this.queue(filePath);
+        }
+        return cached;
+    }
+
+    private getListing(dir: string): DirectoryListing | undefined {
+        const listing = this.directories.get(dir);
+        if (!listing && !this.missing.has(dir)) {
+            this.queue(dir);
+        }
+        return listing;
+    }
+
+    /**
+     * Read a path on the next tick, notifying listeners if it was found.
+     */
+    private queue(target: string): void {
+        this.queued.add(target);
+        if (!this.queueTimer) {
+            this.queueTimer = setTimeout(() => {
+                this.queueTimer = undefined;
+                const targets = [...this.queued];
+                this.queued.clear();
+                this.update(targets).catch(err => console.error('LDF: Spec index update failed:', err));
+            }, 0);
+        }
+    }
+
+    /**
+     * Read a file, or a directory with the files below it, into the cache.
+     * @returns Whether anything a read could have returned changed
+     */
+    private async read(target: string, depth: number): Promise<boolean> {
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(target);
+        } catch {
+            // Deleted: forget the file, or everything under a deleted directory
+            this.missing.add(target);
+            return this.forget(target);
+        }
+        this.missing.delete(target);
+        if (stat.isDirectory()) {
+            return this.readDirectory(target, depth);
+        }
+        if (!stat.isFile()) {
+            this.missing.add(target);
+            return this.forget(target);
+        }
+
+        const listed = this.addToParents(target, false);
+        const cached = this.files.get(target);
+        if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+            return listed;
+        }
+        try {
+            const content = await fs.promises.readFile(target, 'utf-8');
+            const hadError = this.failed.delete(target);
+            return this.store(target, stat, content) !== cached?.hash || hadError || listed;
+        } catch (err) {
+            this.files.delete(target);
+            this.failed.set(target, err);
+            return true;
+        }
+    }
+
+    private async readDirectory(dir: string, depth: number): Promise<boolean> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch {
+            this.missing.add(dir);
+            return this.forget(dir);
+        }
+
+        const listing: DirectoryListing = {
+            directories: new Set(entries.filter(e => e.isDirectory()).map(e => e.name)),
+            files: new Set(entries.filter(e => e.isFile()).map(e => e.name)),
+        };
+        const previous = this.directories.get(dir);
+        let changed = this.addToParents(dir, true);
+        if (previous) {
+            // Forget what was removed since the directory was last read
+            for (const name of [...previous.directories, ...previous.files]) {
+                if (!listing.directories.has(name) && !listing.files.has(name)) {
+                    changed = this.forget(path.join(dir, name)) || changed;
+                }
+            }
+            changed = changed
+                || [...listing.directories].some(name => !previous.directories.has(name))
+                || [...listing.files].some(name => !previous.files.has(name));
+        } else {
+            changed = changed || listing.directories.size > 0 || listing.files.size > 0;
+        }
+        this.directories.set(dir, listing);
+
+        const results = await Promise.all([
+            ...(depth > 1 ? [...listing.directories].map(name => this.read(path.join(dir, name), depth - 1)) : []),
+            ...[...listing.files]
+                .filter(name => SPEC_FILE_PATTERN.test(name))
+                .map(name => this.read(path.join(dir, name), depth - 1)),
+        ]);
+        return results.some(Boolean) || changed;
+    }
+
+    /**
+     * Cache file content, keeping parser results if the content is unchanged.
+     * Returns the content hash.
+     */
+    private store(filePath: string, stat: fs.Stats, content: string): string {
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        const cached = this.files.get(filePath);
+        if (cached && cached.hash === hash) {
+            cached.mtimeMs = stat.mtimeMs;
+            cached.size = stat.size;
+        } else {
+            this.files.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, hash, content, parsed: new Map() });
+        }
+        return hash;
+    }
+
+    /**
+     * Add a path to the listing of its directory, along with directories
+     * created between it and the closest directory read so far. Paths outside
+     * the directories read so far are left alone.
+     * @returns Whether a listing changed
+     */
+    private addToParents(target: string, isDirectory: boolean): boolean {
+        const created: string[] = [];
+        let dir = path.dirname(target);
+        while (!this.directories.has(dir) && !this.missing.has(dir)) {
+            const parent = path.dirname(dir);
+            if (parent === dir) {
+                return false;
+            }
+            created.push(dir);
+            dir = parent;
+        }
+
+        let changed = false;
+        if (this.missing.delete(dir)) {
+            this.directories.set(dir, { directories: new Set(), files: new Set() });
+            changed = true;
+        }
+        for (const createdDir of created.reverse()) {
+            changed = addEntry(this.directories.get(dir)!, path.basename(createdDir), true) || changed;
+            if (!this.directories.has(createdDir)) {
+                this.directories.set(createdDir, { directories: new Set(), files: new Set() });
+            }
+            dir = createdDir;
+        }
+        return addEntry(this.directories.get(dir)!, path.basename(target), isDirectory) || changed;
+    }
+
+    /**
+     * Forget a file, or everything under a directory.
+     * @returns Whether anything was cached
+     */
+    private forget(target: string): boolean {
+        const prefix = target + path.sep;
+        const isUnder = (key: string) => key === target || key.startsWith(prefix);
+        let changed = false;
+        for (const map of [this.files, this.directories, this.failed]) {
+            for (const key of [...map.keys()].filter(isUnder)) {
+                map.delete(key);
+                changed = true;
+            }
+        }
+        const parent = this.directories.get(path.dirname(target));
+        if (parent) {
+            const name = path.basename(target);
+            const wasFile = parent.files.delete(name);
+            const wasDirectory = parent.directories.delete(name);
+            changed = changed || wasFile || wasDirectory;
+        }
+        return changed;
+    }
+}
+
+function addEntry(listing: DirectoryListing, name: string, isDirectory: boolean): boolean {
+    const entries = isDirectory ? listing.directories : listing.files;
+    if (entries.has(name)) {
+        return false;
+    }
+    entries.add(name);
+    return true;
+}
+
+/** Index shared by the tree providers */
+export const specIndex = new SpecIndex();
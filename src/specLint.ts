@@ -0,0 +1,274 @@
+/**
+ * Spec linter
+ *
+ * Checks a spec's requirements.md, design.md and tasks.md in the extension,
+ * without the ldf CLI, for live diagnostics (see specDiagnostics.ts):
+ * - duplicate-id: a US/AC/Task/Phase/section ID defined twice
+ * - numbering-gap: acceptance criteria or tasks not numbered 1, 2, 3, ...
+ * - dangling-reference: a reference to an ID the spec doesn't define
+ * - placeholder: template text left in (`[TBD]`, `[answer]`, `[Story Title]`)
+ * - na-without-justification: an N/A matrix status without `N/A - <reason>`
+ * - missing-guardrail: enabled guardrails without a coverage matrix row
+ * - disabled-guardrail: a coverage matrix row of a disabled guardrail
+ *
+ * Quick fixes for the findings are in specLintFixes.ts.
+ *
+ * Rule severities can be changed in the `lint:` block of .ldf/config.yaml
+ * (`strict: true` turns warnings into errors):
+ *
+ *   lint:
+ *     strict: false
+ *     rules:
+ *       placeholder: off
+ *       dangling-reference: error
+ */
+
+import type { Guardrail } from './guardrailView';
+import { contentLines } from './specOutline';
+import { parseCoverageMatrix } from './specDiffData';
+import { readProjectConfig } from './projectConfig';
+import { SpecFileKind } from './specSymbolData';
+import { SpecIdOccurrence, findSpecIds, formatSpecId, parseSpecId } from './specReferenceData';
+
+export type LintRuleId =
+    | 'duplicate-id'
+    | 'numbering-gap'
+    | 'dangling-reference'
+    | 'placeholder'
+    | 'na-without-justification'
+    | 'missing-guardrail'
+    | 'disabled-guardrail';
+
+export type LintSeverity = 'error' | 'warning' | 'info' | 'hint' | 'off';
+
+/** Rules with their default severity */
+export const LINT_RULES: Record<LintRuleId, LintSeverity> = {
+    'duplicate-id': 'error',
+    'numbering-gap': 'warning',
+    'dangling-reference': 'warning',
+    'placeholder': 'warning',
+    'na-without-justification': 'warning',
+    'missing-guardrail': 'warning',
+    'disabled-guardrail': 'info',
+};
+
+const SEVERITIES: LintSeverity[] = ['error', 'warning', 'info', 'hint', 'off'];
+
+export type LintConfig = Record<LintRuleId, LintSeverity>;
+
+/**
+ * A lint finding in one of the spec's documents.
+ */
+export interface LintFinding {
+    rule: LintRuleId;
+    severity: Exclude<LintSeverity, 'off'>;
+    /** Spec document (e.g. 'requirements.md') */
+    file: string;
+    /** 0-based line and columns */
+    line: number;
+    start: number;
+    end: number;
+    message: string;
+}
+
+export interface SpecLintInput {
+    /** Content of the spec's documents; missing documents are undefined */
+    documents: Partial<Record<SpecFileKind, string>>;
+    /** Guardrails of the spec's project */
+    guardrails: Guardrail[];
+}
+
+// Template placeholders other than IDs, checkboxes and links
+const PLACEHOLDER_PATTERN = /\[([A-Za-z][^[\]\n]*)\](?![([:])/g;
+const ID_LIKE_PATTERN = /^[A-Z]{1,3}-?\d+(?:\.\d+)*$/;
+
+/**
+ * Parse the `lint:` block of config.yaml.
+ */
+export function parseLintConfig(data: unknown): { config: LintConfig; errors: string[] } {
+    const config = { ...LINT_RULES };
+    const errors: string[] = [];
+    if (data === undefined || data === null) {
+        return { config, errors };
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+        return { config, errors: ['lint must be an object'] };
+    }
+
+    const section = data as Record<string, unknown>;
+    if (section.strict === true) {
+        for (const rule of Object.keys(config) as LintRuleId[]) {
+            if (config[rule] === 'warning') {
+                config[rule] = 'error';
+            }
+        }
+    }
+    if (section.rules === undefined || section.rules === null) {
+        return { config, errors };
+    }
+    if (typeof section.rules !== 'object' || Array.isArray(section.rules)) {
+        return { config, errors: ['lint.rules must be an object'] };
+    }
+    for (const [rule, value] of Object.entries(section.rules as Record<string, unknown>)) {
+        if (!(rule in LINT_RULES)) {
+            errors.push(`lint.rules: unknown rule '${rule}'`);
+            continue;
+        }
+        // `false` turns a rule off, `true` keeps its default
+        const severity = value === false ? 'off' : value === true ? LINT_RULES[rule as LintRuleId] : value;
+        if (typeof severity !== 'string' || !SEVERITIES.includes(severity as LintSeverity)) {
+            errors.push(`lint.rules.${rule} must be one of: ${SEVERITIES.join(', ')}`);
+            continue;
+        }
+        config[rule as LintRuleId] = severity as LintSeverity;
+    }
+    return { config, errors };
+}
+
+/**
+ * Load the lint configuration of a project from its config.yaml.
+ */
+export function loadLintConfig(projectPath: string): { config: LintConfig; errors: string[] } {
+    const projectConfig = readProjectConfig(projectPath);
+    if (projectConfig.error) {
+        return { config: { ...LINT_RULES }, errors: [`config.yaml: ${projectConfig.error}`] };
+    }
+    return parseLintConfig(projectConfig.data.lint);
+}
+
+/**
+ * Lint a spec. Findings of rules turned off are left out.
+ */
+export function lintSpec(input: SpecLintInput, config: LintConfig = LINT_RULES): LintFinding[] {
+    const findings: LintFinding[] = [];
+    const report = (rule: LintRuleId, file: string, line: number, start: number, end: number, message: string) => {
+        const severity = config[rule];
+        if (severity !== 'off') {
+            findings.push({ rule, severity, file, line, start, end, message });
+        }
+    };
+
+    const ids = (Object.entries(input.documents) as Array<[SpecFileKind, string | undefined]>)
+        .filter(([, content]) => content !== undefined)
+        .map(([kind, content]) => ({ kind, file: `${kind}.md`, occurrences: findSpecIds(kind, content!) }));
+    const defined = new Set(ids.flatMap(({ occurrences }) => occurrences.filter(o => o.definition).map(o => o.id)));
+
+    for (const { kind, file, occurrences } of ids) {
+        const definitions = occurrences.filter(o => o.definition);
+        const first = new Map<string, SpecIdOccurrence>();
+        for (const definition of definitions) {
+            const previous = first.get(definition.id);
+            if (previous) {
+                report('duplicate-id', file, definition.line, definition.start, definition.end,
+                    `Duplicate ID ${definition.id} (first on line ${previous.line + 1})`);
+            } else {
+                first.set(definition.id, definition);
+            }
+        }
+
+        if (kind !== 'design') {
+            for (const gap of findNumberingGaps(definitions)) {
+                report('numbering-gap', file, gap.occurrence.line, gap.occurrence.start, gap.occurrence.end,
+                    `Numbering gap: expected ${gap.expected}, found ${label(gap.occurrence)}`);
+            }
+        }
+
+        for (const reference of occurrences.filter(o => !o.definition && !defined.has(o.id))) {
+            report('dangling-reference', file, reference.line, reference.start, reference.end,
+                `${reference.id} is not defined in this spec's ${definingFile(reference)}`);
+        }
+    }
+
+    for (const [kind, content] of Object.entries(input.documents) as Array<[SpecFileKind, string | undefined]>) {
+        for (const { text, line } of contentLines(content ?? '')) {
+            for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+                const isIdList = match[1].split(',').every(part => parseSpecId(part) || ID_LIKE_PATTERN.test(part.trim()));
+                if (!isIdList && !/^[xX]$/.test(match[1])) {
+                    report('placeholder', `${kind}.md`, line, match.index!, match.index! + match[0].length,
+                        `Placeholder text ${match[0]}`);
+                }
+            }
+        }
+    }
+
+    const requirements = input.documents.requirements;
+    if (requirements !== undefined) {
+        const lines = requirements.split(/\r?\n/);
+        const rows = parseCoverageMatrix(requirements);
+        for (const row of rows) {
+            if (/^(N\/A|NA|NOT APPLICABLE)$/i.test(row.status.trim())) {
+                const start = lines[row.line].lastIndexOf(row.status);
+                report('na-without-justification', 'requirements.md', row.line, start, start + row.status.length,
+                    `${row.guardrail} is N/A without a justification (use "N/A - <reason>")`);
+            }
+        }
+
+        for (const row of rows) {
+            const guardrail = input.guardrails.find(g => g.id === row.id);
+            if (guardrail && !guardrail.enabled) {
+                const start = lines[row.line].indexOf('|');
+                report('disabled-guardrail', 'requirements.md', row.line, start, lines[row.line].trimEnd().length,
+                    `${guardrail.id}. ${guardrail.name} is disabled; its coverage matrix row can be removed`);
+            }
+        }
+
+        const header = findMatrixHeader(requirements);
+        const missing = input.guardrails.filter(g => g.enabled && !rows.some(row => row.id === g.id));
+        if (header !== undefined && missing.length > 0) {
+            report('missing-guardrail', 'requirements.md', header, 0, lines[header].length,
+                `Enabled guardrails missing from the coverage matrix: ${missing.map(g => `${g.id}. ${g.name}`).join(', ')}`);
+        }
+    }
+
+    return findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.start - b.start);
+}
+
+/**
+ * Line of the coverage matrix's header row (the table whose first header
+ * cell is "Guardrail"), if requirements.md has one.
+ */
+export function findMatrixHeader(requirements: string): number | undefined {
+    return contentLines(requirements).find(({ text }) => /^\s*\|\s*guardrail\b/i.test(text))?.line;
+}
+
+/**
+ * Acceptance criteria and tasks whose number doesn't follow the previous
+ * one under the same story or phase (duplicates are left to duplicate-id).
+ */
+export function findNumberingGaps(definitions: SpecIdOccurrence[]): Array<{ occurrence: SpecIdOccurrence; expected: string }> {
+    const gaps: Array<{ occurrence: SpecIdOccurrence; expected: string }> = [];
+    const last = new Map<string, number>();
+    for (const definition of definitions) {
+        const parts = definition.number.split('.');
+        if (parts.length !== 2 || definition.family === 'section') {
+            continue;
+        }
+        const [parent, child] = parts;
+        const key = `${definition.family}:${parent}`;
+        const previous = last.get(key) ?? 0;
+        const number = Number(child);
+        if (number === previous) {
+            continue;
+        }
+        if (number !== previous + 1) {
+            gaps.push({ occurrence: definition, expected: label({ ...definition, number: `${parent}.${previous + 1}` }) });
+        }
+        last.set(key, number);
+    }
+    return gaps;
+}
+
+function label(occurrence: Pick<SpecIdOccurrence, 'family' | 'number'>): string {
+    return occurrence.family === 'task' ? `Task ${occurrence.number}` : formatSpecId(occurrence.family, occurrence.number);
+}
+
+function definingFile(occurrence: SpecIdOccurrence): string {
+    switch (occurrence.family) {
+        case 'story':
+            return 'requirements.md';
+        case 'section':
+            return 'design.md';
+        case 'task':
+            return 'tasks.md';
+    }
+}
@@ -0,0 +1,96 @@
+/**
+ * Spec Lint Code Actions
+ *
+ * Quick fixes for the diagnostics of the built-in spec linter
+ * (specDiagnostics.ts); the fixes themselves are in specLintFixes.ts. Fixes
+ * with a snippet are applied through INSERT_SNIPPET_COMMAND, so their
+ * placeholders can be filled in right away.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecTreeProvider } from './specView';
+import { GuardrailTreeProvider } from './guardrailView';
+import { LINT_RULES, LintRuleId } from './specLint';
+import { LintFix, getLintFixes } from './specLintFixes';
+import { SpecFileKind } from './specSymbolData';
+import { getDocumentSpec, readSpecDocument } from './specReferences';
+
+/** Internal command inserting a snippet: (uri, range, snippet) */
+export const INSERT_SNIPPET_COMMAND = 'ldf.insertSpecSnippet';
+
+export class SpecLintCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly metadata: vscode.CodeActionProviderMetadata = {
+        providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+    };
+
+    constructor(
+        private readonly specProvider: SpecTreeProvider,
+        private readonly guardrailProvider: GuardrailTreeProvider
+    ) {}
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const spec = getDocumentSpec(this.specProvider, document);
+        const diagnostics = context.diagnostics.filter(d => d.source === 'LDF' && typeof d.code === 'string' && d.code in LINT_RULES);
+        if (!spec || diagnostics.length === 0) {
+            return [];
+        }
+
+        const documents: Partial<Record<SpecFileKind, string>> = {};
+        for (const kind of ['requirements', 'design', 'tasks'] as const) {
+            const filePath = path.join(spec.path, `${kind}.md`);
+            documents[kind] = filePath === document.uri.fsPath ? document.getText() : readSpecDocument(filePath);
+        }
+        const workspacePath = spec.folderPath ?? this.specProvider.getWorkspacePaths()[0];
+        const guardrails = this.guardrailProvider.getGuardrailsForWorkspace(workspacePath).guardrails;
+
+        return diagnostics.flatMap(diagnostic => getLintFixes({
+            rule: diagnostic.code as LintRuleId,
+            file: path.basename(document.fileName),
+            line: diagnostic.range.start.line,
+            start: diagnostic.range.start.character,
+            end: diagnostic.range.end.character,
+        }, { documents, guardrails }).map(fix => toCodeAction(fix, spec.path, diagnostic)));
+    }
+}
+
+/**
+ * Insert a snippet into a document, opening it in an editor.
+ */
+export async function insertSnippet(uri: vscode.Uri, range: vscode.Range, snippet: string): Promise<void> {
+    const editor = await vscode.window.showTextDocument(uri);
+    await editor.insertSnippet(new vscode.SnippetString(snippet), range);
+}
+
+function toCodeAction(fix: LintFix, specPath: string, diagnostic: vscode.Diagnostic): vscode.CodeAction {
+    const action = new vscode.CodeAction(fix.title, vscode.CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    action.isPreferred = fix.isPreferred;
+
+    const toRange = (edit: LintFix['edits'][number]) =>
+        new vscode.Range(edit.line, edit.start, edit.endLine ?? edit.line, edit.end);
+    if (fix.isSnippet) {
+        const [edit] = fix.edits;
+        action.command = {
+            title: fix.title,
+            command: INSERT_SNIPPET_COMMAND,
+            arguments: [vscode.Uri.file(path.join(specPath, edit.file)), toRange(edit), edit.text],
+        };
+    } else {
+        action.edit = new vscode.WorkspaceEdit();
+        for (const edit of fix.edits) {
+            const uri = vscode.Uri.file(path.join(specPath, edit.file));
+            if (edit.create) {
+                action.edit.createFile(uri, { ignoreIfExists: true });
+                action.edit.insert(uri, new vscode.Position(0, 0), edit.text);
+            } else {
+                action.edit.replace(uri, toRange(edit), edit.text);
+            }
+        }
+    }
+    return action;
+}
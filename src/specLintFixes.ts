@@ -0,0 +1,212 @@
+/**
+ * Spec lint quick fixes
+ *
+ * Fixes for findings of the spec linter (specLint.ts), offered as code
+ * actions by specLintActions.ts:
+ * - missing-guardrail: add TODO coverage matrix rows for the missing guardrails,
+ *   with the other cells left empty
+ * - numbering-gap: renumber a story's acceptance criteria or a phase's tasks
+ *   1, 2, 3, ..., updating references to them
+ * - na-without-justification: turn `N/A` into `N/A - <justification>`
+ * - disabled-guardrail: remove the guardrail's coverage matrix row
+ * - dangling-reference: add a stub design.md section for a missing `[S...]`,
+ *   creating design.md if needed
+ */
+
+import { parseCoverageMatrix } from './specDiffData';
+import { SpecFileKind } from './specSymbolData';
+import { SpecIdOccurrence, findSpecIds, getSpecIdAt } from './specReferenceData';
+import { LintFinding, SpecLintInput, findMatrixHeader } from './specLint';
+
+/**
+ * A text replacement in a spec document. The range ends on `endLine`, or on
+ * `line` when it is not set.
+ */
+export interface LintFixEdit {
+    file: string;
+    /** The document doesn't exist yet and is created with the text */
+    create?: boolean;
+    line: number;
+    start: number;
+    endLine?: number;
+    end: number;
+    text: string;
+}
+
+export interface LintFix {
+    title: string;
+    edits: LintFixEdit[];
+    /** The (single) edit's text is a snippet with placeholders */
+    isSnippet?: boolean;
+    /** The fix that resolves the finding as expected */
+    isPreferred?: boolean;
+}
+
+const SPEC_FILE_KINDS: SpecFileKind[] = ['requirements', 'design', 'tasks'];
+
+/**
+ * Quick fixes for a finding; empty if the finding no longer applies to the
+ * documents or has no fix.
+ */
+export function getLintFixes(finding: Pick<LintFinding, 'rule' | 'file' | 'line' | 'start' | 'end'>, input: SpecLintInput): LintFix[] {
+    switch (finding.rule) {
+        case 'missing-guardrail':
+            return fixMissingGuardrails(input);
+        case 'numbering-gap':
+            return fixNumberingGap(finding, input);
+        case 'na-without-justification':
+            return [{
+                title: 'Add a justification to N/A',
+                edits: [{ file: finding.file, line: finding.line, start: finding.start, end: finding.end, text: 'N/A - ${1:justification}' }],
+                isSnippet: true,
+                isPreferred: true,
+            }];
+        case 'disabled-guardrail':
+            return fixDisabledGuardrail(finding, input);
+        case 'dangling-reference':
+            return fixDanglingSection(finding, input);
+        default:
+            return [];
+    }
+}
+
+function fixMissingGuardrails(input: SpecLintInput): LintFix[] {
+    const requirements = input.documents.requirements;
+    const header = requirements !== undefined ? findMatrixHeader(requirements) : undefined;
+    if (requirements === undefined || header === undefined) {
+        return [];
+    }
+    const rows = parseCoverageMatrix(requirements);
+    const missing = input.guardrails.filter(g => g.enabled && !rows.some(row => row.id === g.id));
+    if (missing.length === 0) {
+        return [];
+    }
+
+    // Append to the end of the table with the columns of its header; the
+    // cells are left empty rather than `[TBD]`, which would be a placeholder finding
+    const lines = requirements.split(/\r?\n/);
+    const columns = lines[header].trim().replace(/^\||\|$/g, '').split('|');
+    let last = header;
+    while (last + 1 < lines.length && lines[last + 1].trim().startsWith('|')) {
+        last++;
+    }
+    const text = missing.map(g => {
+        const cells = columns.map((column, i) => i === 0 ? `${g.id}. ${g.name}` : /status/i.test(column) ? 'TODO' : '');
+        return `\n| ${cells.join(' | ')} |`;
+    }).join('');
+    return [{
+        title: missing.length === 1
+            ? `Add a coverage matrix row for ${missing[0].id}. ${missing[0].name}`
+            : `Add coverage matrix rows for ${missing.length} missing guardrails`,
+        edits: [{ file: 'requirements.md', line: last, start: lines[last].length, end: lines[last].length, text }],
+        isPreferred: true,
+    }];
+}
+
+function fixNumberingGap(finding: Pick<LintFinding, 'file' | 'line' | 'start'>, input: SpecLintInput): LintFix[] {
+    const files = readSpecIds(input);
+    const occurrences = files.find(({ file }) => file === finding.file)?.occurrences ?? [];
+    const target = getSpecIdAt(occurrences, finding.line, finding.start);
+    if (!target?.definition || target.family === 'section') {
+        return [];
+    }
+
+    // Number the definitions under the same story or phase in order; a
+    // duplicate keeps the number given to the first definition of its ID
+    const [parent] = target.number.split('.');
+    const isSibling = (o: SpecIdOccurrence) => o.family === target.family && o.number.split('.').length === 2
+        && o.number.startsWith(`${parent}.`);
+    const numbers = new Map<string, string>();
+    for (const definition of occurrences.filter(o => o.definition && isSibling(o))) {
+        if (!numbers.has(definition.number)) {
+            numbers.set(definition.number, `${parent}.${numbers.size + 1}`);
+        }
+    }
+
+    const edits: LintFixEdit[] = [];
+    for (const { file, occurrences: fileOccurrences } of files) {
+        for (const occurrence of fileOccurrences.filter(isSibling)) {
+            const number = numbers.get(occurrence.number);
+            if (number && number !== occurrence.number && occurrence.numberStart !== undefined) {
+                edits.push({
+                    file,
+                    line: occurrence.line,
+                    start: occurrence.numberStart,
+                    end: occurrence.numberStart + occurrence.number.length,
+                    text: number,
+                });
+            }
+        }
+    }
+    const children = target.family === 'story' ? `acceptance criteria of US-${parent}` : `tasks of Phase ${parent}`;
+    return edits.length > 0 ? [{ title: `Renumber the ${children} sequentially`, edits, isPreferred: true }] : [];
+}
+
+function fixDisabledGuardrail(finding: Pick<LintFinding, 'line'>, input: SpecLintInput): LintFix[] {
+    const requirements = input.documents.requirements ?? '';
+    const row = parseCoverageMatrix(requirements).find(r => r.line === finding.line);
+    if (!row) {
+        return [];
+    }
+    // Delete the whole line, with the line break after it (or before it on the last line)
+    const lines = requirements.split(/\r?\n/);
+    const edit: LintFixEdit = row.line + 1 < lines.length
+        ? { file: 'requirements.md', line: row.line, start: 0, endLine: row.line + 1, end: 0, text: '' }
+        : { file: 'requirements.md', line: row.line - 1, start: lines[row.line - 1].length, endLine: row.line, end: lines[row.line].length, text: '' };
+    return [{ title: `Remove the coverage matrix row of disabled guardrail ${row.guardrail}`, edits: [edit], isPreferred: true }];
+}
+
+function fixDanglingSection(finding: Pick<LintFinding, 'file' | 'line' | 'start'>, input: SpecLintInput): LintFix[] {
+    const design = input.documents.design;
+    const content = input.documents[finding.file.replace(/\.md$/, '') as SpecFileKind];
+    if (content === undefined) {
+        return [];
+    }
+    const reference = getSpecIdAt(findSpecIds(undefined, content), finding.line, finding.start);
+    if (reference?.family !== 'section') {
+        return [];
+    }
+
+    // Name the section after the guardrail when referenced from its matrix row
+    const row = finding.file === 'requirements.md'
+        ? parseCoverageMatrix(content).find(r => r.line === finding.line)
+        : undefined;
+    const title = row ? row.guardrail.replace(/^\d+\.\s*/, '') : 'New Section';
+    const depth = reference.number.split('.').length;
+    const heading = depth === 1
+        ? `## ${reference.number}. ${title}`
+        : `${'#'.repeat(depth + 1)} ${reference.number} ${title}`;
+
+    if (design === undefined) {
+        return [{
+            title: `Create design.md with section ${reference.id}`,
+            edits: [{ file: 'design.md', create: true, line: 0, start: 0, end: 0, text: `# Design\n\n${heading}\n\nTBD\n` }],
+            isPreferred: true,
+        }];
+    }
+
+    // A subsection goes at the end of its parent section, a section at the end of the document
+    const lines = design.split(/\r?\n/);
+    const sections = findSpecIds('design', design).filter(o => o.definition && o.family === 'section');
+    const parentNumber = reference.number.split('.').slice(0, -1).join('.');
+    const parentIndex = parentNumber ? sections.findIndex(s => s.number === parentNumber) : -1;
+    const next = parentIndex >= 0
+        ? sections.slice(parentIndex + 1).find(s => !s.number.startsWith(`${parentNumber}.`))
+        : undefined;
+    const edit: LintFixEdit = next
+        ? { file: 'design.md', line: next.line, start: 0, end: 0, text: `${heading}\n\nTBD\n\n` }
+        : {
+            file: 'design.md',
+            line: lines.length - 1,
+            start: lines[lines.length - 1].length,
+            end: lines[lines.length - 1].length,
+            text: `${lines[lines.length - 1] ? '\n\n' : '\n'}${heading}\n\nTBD\n`,
+        };
+    return [{ title: `Add design section ${reference.id} to design.md`, edits: [edit], isPreferred: true }];
+}
+
+function readSpecIds(input: SpecLintInput): Array<{ file: string; occurrences: SpecIdOccurrence[] }> {
+    return SPEC_FILE_KINDS
+        .filter(kind => input.documents[kind] !== undefined)
+        .map(kind => ({ file: `${kind}.md`, occurrences: findSpecIds(kind, input.documents[kind]!) }));
+}
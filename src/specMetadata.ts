@@ -0,0 +1,194 @@
+/**
+ * Spec metadata reading and writing
+ *
+ * A spec can declare metadata explicitly instead of relying on file-existence
+ * heuristics. Two sources are supported (spec.yaml wins when both exist):
+ * - A per-spec `spec.yaml` file next to requirements.md
+ * - YAML frontmatter at the top of requirements.md
+ *
+ * Reads go through the shared spec index (specIndex.ts); writes go to disk directly.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { specIndex } from './specIndex';
+
+// Per-spec metadata filename
+export const SPEC_METADATA_FILE = 'spec.yaml';
+
+/**
+ * Explicit metadata declared by a spec.
+ */
+export interface SpecMetadata {
+    /** Lifecycle status id (normalized, e.g. 'in-review') */
+    status?: string;
+    /** People responsible for the spec (`owner:` or `owners:`) */
+    owners?: string[];
+    /** Where the metadata was read from */
+    source?: 'spec.yaml' | 'frontmatter';
+}
+
+/**
+ * Result of splitting YAML frontmatter from markdown content.
+ */
+export interface Frontmatter {
+    data: Record<string, unknown>;
+    /** Raw YAML text between the --- delimiters */
+    raw: string;
+    /** Number of lines occupied by the frontmatter block, including delimiters */
+    lineCount: number;
+}
+
+/**
+ * Parse YAML frontmatter from the start of a markdown document.
+ * Returns null if the document has no frontmatter or it is not valid YAML.
+ */
+export function parseFrontmatter(content: string): Frontmatter | null {
+    const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+    if (!match) {
+        return null;
+    }
+
+    try {
+        const data = yaml.load(match[1]);
+        if (data !== null && data !== undefined && typeof data !== 'object') {
+            return null;
+        }
+        return {
+            data: (data as Record<string, unknown>) || {},
+            raw: match[1],
+            lineCount: match[0].split('\n').length - (match[0].endsWith('\n') ? 1 : 0),
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Normalize a status value to its id form.
+ * Accepts labels and variants: "In Review", "in_review", "IN-REVIEW" -> "in-review"
+ */
+export function normalizeStatusId(value: string): string {
+    return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+/**
+ * Read explicit metadata for a spec directory.
+ * spec.yaml takes precedence over requirements.md frontmatter.
+ */
+export function readSpecMetadata(specPath: string): SpecMetadata {
+    const metadataPath = path.join(specPath, SPEC_METADATA_FILE);
+    try {
+        const data = specIndex.parse(metadataPath, 'spec-metadata', content => yaml.load(content));
+        if (data && typeof data === 'object') {
+            return toSpecMetadata(data as Record<string, unknown>, 'spec.yaml');
+        }
+    } catch (err) {
+        console.error(`LDF: Failed to parse ${metadataPath}:`, err);
+    }
+
+    const reqPath = path.join(specPath, 'requirements.md');
+    try {
+        const frontmatter = specIndex.parse(reqPath, 'frontmatter', parseFrontmatter);
+        if (frontmatter) {
+            return toSpecMetadata(frontmatter.data, 'frontmatter');
+        }
+    } catch (err) {
+        // Unreadable requirements.md: reported as a problem of the spec (see loadSpecInfo)
+        console.error(`LDF: Failed to read ${reqPath}:`, err);
+    }
+
+    return {};
+}
+
+function toSpecMetadata(
+    data: Record<string, unknown>,
+    source: SpecMetadata['source']
+): SpecMetadata {
+    const metadata: SpecMetadata = { source };
+    if (typeof data.status === 'string' && data.status.trim()) {
+        metadata.status = normalizeStatusId(data.status);
+    }
+    const owners = ([] as unknown[]).concat(data.owners ?? data.owner ?? [])
+        .filter((owner): owner is string => typeof owner === 'string' && owner.trim() !== '')
+        .map(owner => owner.trim());
+    if (owners.length > 0) {
+        metadata.owners = owners;
+    }
+    return metadata;
+}
+
+/**
+ * Set (or clear, when status is undefined) the explicit status of a spec.
+ *
+ * Writes to spec.yaml when it exists, otherwise updates requirements.md
+ * frontmatter when present, otherwise creates spec.yaml.
+ *
+ * @returns Path of the file that was written
+ */
+export function writeSpecStatus(specPath: string, status: string | undefined): string {
+    const metadataPath = path.join(specPath, SPEC_METADATA_FILE);
+    const reqPath = path.join(specPath, 'requirements.md');
+
+    if (!fs.existsSync(metadataPath) && fs.existsSync(reqPath)) {
+        const content = fs.readFileSync(reqPath, 'utf-8');
+        const updated = setFrontmatterField(content, 'status', status);
+        if (updated !== null) {
+            fs.writeFileSync(reqPath, updated, 'utf-8');
+            return reqPath;
+        }
+    }
+
+    let data: Record<string, unknown> = {};
+    if (fs.existsSync(metadataPath)) {
+        const loaded = yaml.load(fs.readFileSync(metadataPath, 'utf-8'));
+        if (loaded && typeof loaded === 'object') {
+            data = loaded as Record<string, unknown>;
+        }
+    }
+
+    if (status === undefined) {
+        delete data.status;
+    } else {
+        data.status = status;
+    }
+
+    fs.writeFileSync(metadataPath, yaml.dump(data), 'utf-8');
+    return metadataPath;
+}
+
+/**
+ * Set or remove a top-level scalar field in a document's frontmatter,
+ * preserving the rest of the block as written.
+ * Returns null if the document has no frontmatter.
+ */
+export function setFrontmatterField(
+    content: string,
+    key: string,
+    value: string | undefined
+): string | null {
+    const frontmatter = parseFrontmatter(content);
+    if (!frontmatter) {
+        return null;
+    }
+
+    const lines = content.split('\n');
+    // Frontmatter body lines sit between the opening and closing delimiters
+    const start = 1;
+    const end = frontmatter.lineCount - 1;
+    const keyPattern = new RegExp(`^${key}\\s*:`);
+    const index = lines.slice(start, end).findIndex(l => keyPattern.test(l));
+
+    if (index !== -1) {
+        if (value === undefined) {
+            lines.splice(start + index, 1);
+        } else {
+            lines[start + index] = `${key}: ${value}`;
+        }
+    } else if (value !== undefined) {
+        lines.splice(end, 0, `${key}: ${value}`);
+    }
+
+    return lines.join('\n');
+}
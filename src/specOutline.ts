@@ -0,0 +1,167 @@
+/**
+ * Spec document outlines
+ *
+ * Parses the structure shown under the Requirements / Design / Tasks nodes
+ * of the Specs view:
+ * - requirements.md: user stories (US-n) with their AC-n.m criteria
+ * - design.md: section headings (components, APIs, data model, ...)
+ * - tasks.md: phases with their tasks
+ *
+ * Lines inside fenced code blocks are ignored.
+ */
+
+import { parseTasksContent } from './utils';
+
+export interface OutlineNode {
+    kind: 'story' | 'criterion' | 'section' | 'phase' | 'task';
+    label: string;
+    /** Secondary text, e.g. the task progress of a phase */
+    description?: string;
+    /** 0-based line of the item */
+    line: number;
+    /** Checked state of checkbox items (criteria and tasks) */
+    checked?: boolean;
+    children: OutlineNode[];
+}
+
+export interface MarkdownLine {
+    text: string;
+    line: number;
+}
+
+/**
+ * Split markdown into lines, dropping fenced code blocks.
+ */
+export function contentLines(content: string): MarkdownLine[] {
+    const lines: MarkdownLine[] = [];
+    let inFence = false;
+    content.split(/\r?\n/).forEach((text, line) => {
+        if (/^\s*(```|~~~)/.test(text)) {
+            inFence = !inFence;
+            return;
+        }
+        if (!inFence) {
+            lines.push({ text, line });
+        }
+    });
+    return lines;
+}
+
+/**
+ * Demote the headings of a markdown document (outside code blocks) by a
+ * number of levels, e.g. to nest it under another heading. Levels stop at 6.
+ */
+export function shiftHeadings(content: string, levels: number): string {
+    let inFence = false;
+    return content.split('\n').map(text => {
+        if (/^\s*(```|~~~)/.test(text)) {
+            inFence = !inFence;
+            return text;
+        }
+        return inFence
+            ? text
+            : text.replace(/^(#{1,6})(\s)/, (_, hashes: string, space: string) =>
+                '#'.repeat(Math.min(hashes.length + levels, 6)) + space);
+    }).join('\n');
+}
+
+/**
+ * User stories (`### US-1: Title`) with their acceptance criteria (`- [x] AC-1.1: Text`).
+ */
+export function parseRequirementsOutline(content: string): OutlineNode[] {
+    const storyPattern = /^#{2,4}\s+(US-\d+)\s*[:.-]?\s*(.*)$/;
+    const criterionPattern = /^\s*[-*]\s+(?:\[([ xX])\]\s+)?\**(AC-\d+(?:\.\d+)?)\**\s*[:.-]?\**\s*(.*)$/;
+    const stories: OutlineNode[] = [];
+    let current: OutlineNode | undefined;
+
+    for (const { text, line } of contentLines(content)) {
+        const story = text.match(storyPattern);
+        if (story) {
+            current = { kind: 'story', label: story[1], description: story[2].trim() || undefined, line, children: [] };
+            stories.push(current);
+            continue;
+        }
+        if (/^#{1,2}\s/.test(text)) {
+            // A new top-level section ends the user stories
+            current = undefined;
+            continue;
+        }
+        const criterion = current && text.match(criterionPattern);
+        if (current && criterion) {
+            current.children.push({
+                kind: 'criterion',
+                label: criterion[2],
+                description: criterion[3].trim() || undefined,
+                line,
+                checked: criterion[1] === undefined ? undefined : criterion[1].toLowerCase() === 'x',
+                children: [],
+            });
+        }
+    }
+
+    return stories;
+}
+
+/**
+ * `##` sections with their `###` subsections. The `#` title is skipped.
+ */
+export function parseDesignOutline(content: string): OutlineNode[] {
+    const sections: OutlineNode[] = [];
+    let current: OutlineNode | undefined;
+
+    for (const { text, line } of contentLines(content)) {
+        const heading = text.match(/^(#{2,3})\s+(.+?)\s*#*$/);
+        if (!heading) {
+            continue;
+        }
+        const node: OutlineNode = { kind: 'section', label: heading[2], line, children: [] };
+        if (heading[1].length === 2 || !current) {
+            current = node;
+            sections.push(node);
+        } else {
+            current.children.push(node);
+        }
+    }
+
+    return sections;
+}
+
+/**
+ * Phases (`## Phase 1: Setup`) with their tasks and progress.
+ * Tasks before the first phase heading are listed at the top level.
+ */
+export function parseTasksOutline(content: string): OutlineNode[] {
+    const phasePattern = /^#{2,3}\s+(Phase\b.*?)\s*#*$/i;
+    const phases: OutlineNode[] = [];
+    for (const { text, line } of contentLines(content)) {
+        const phase = text.match(phasePattern);
+        if (phase) {
+            phases.push({ kind: 'phase', label: phase[1], line, children: [] });
+        }
+    }
+
+    const topLevel: OutlineNode[] = [];
+    for (const task of parseTasksContent('', content)) {
+        // parseTasksContent lines are 1-based
+        const line = task.line - 1;
+        const node: OutlineNode = {
+            kind: 'task',
+            label: `Task ${task.taskNumber}`,
+            description: task.title,
+            line,
+            checked: task.isComplete,
+            children: [],
+        };
+        const phase = [...phases].reverse().find(p => p.line < line);
+        (phase ? phase.children : topLevel).push(node);
+    }
+
+    for (const phase of phases) {
+        if (phase.children.length > 0) {
+            const done = phase.children.filter(t => t.checked).length;
+            phase.description = `${done}/${phase.children.length}`;
+        }
+    }
+
+    return [...topLevel, ...phases];
+}
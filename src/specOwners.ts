@@ -0,0 +1,144 @@
+/**
+ * Spec, task and guardrail owners
+ *
+ * Owners are named in:
+ * - spec metadata (`owner:` / `owners:` in spec.yaml or frontmatter)
+ * - an Owner line of requirements.md, e.g. `**Owner:** @alice, @bob`
+ * - the Owner column of the guardrail coverage matrix
+ * - `@name` mentions in task lines: `- [ ] **Task 1.1:** Add login form @alice`
+ *
+ * Owners are matched against the current git user with isOwnedBy (specFilter.ts).
+ * The per-owner rollup of the workspace report is built here.
+ */
+
+// Owner cells that don't name anyone
+const PLACEHOLDER_OWNERS = ['', '-', 'tbd', '[tbd]', 'n/a', 'none'];
+
+/**
+ * Split an owner list (`Alice, @bob`), leaving out placeholders like TBD or -.
+ */
+export function splitOwners(cell: string): string[] {
+    return cell
+        .split(',')
+        .map(owner => owner.trim())
+        .filter(owner => !PLACEHOLDER_OWNERS.includes(owner.toLowerCase()));
+}
+
+/**
+ * Owners from an `Owner:` / `Owners:` line (optionally bold or a list item)
+ * before the first `##` section of requirements.md.
+ */
+export function parseOwnerLine(content: string): string[] {
+    for (const line of content.split(/\r?\n/)) {
+        if (/^##\s/.test(line)) {
+            break;
+        }
+        const match = line.match(/^\s*(?:[-*]\s+)?(?:\*\*)?Owners?(?:\*\*)?\s*:\s*(?:\*\*)?\s*(.*)$/i);
+        if (match) {
+            return splitOwners(match[1]);
+        }
+    }
+    return [];
+}
+
+/**
+ * `@name` mentions in a line of text (not email addresses), e.g. ['@alice'].
+ */
+export function parseMentions(text: string): string[] {
+    const mentions: string[] = [];
+    for (const match of text.matchAll(/(?:^|[\s(,])@([A-Za-z0-9][\w.-]*[\w]|[A-Za-z0-9])/g)) {
+        const mention = `@${match[1]}`;
+        if (!mentions.includes(mention)) {
+            mentions.push(mention);
+        }
+    }
+    return mentions;
+}
+
+/**
+ * Owners of one spec and its work, as input for buildOwnerRollup.
+ */
+export interface OwnedSpec {
+    name: string;
+    /** Spec-level owners (metadata and the Owner line) */
+    owners: string[];
+    tasks: Array<{ owners: string[]; isComplete: boolean }>;
+    /** Coverage matrix rows; gaps are rows not DONE or N/A */
+    coverage: Array<{ owners: string[]; isGap: boolean }>;
+}
+
+export interface OwnerRollup {
+    /** Owner name as first written, without a leading `@` */
+    owner: string;
+    /** Specs the owner owns */
+    specs: string[];
+    /** Specs with tasks or coverage rows assigned to the owner but not owned by them */
+    contributesTo: string[];
+    openTasks: number;
+    completedTasks: number;
+    coverageRows: number;
+    coverageGaps: number;
+}
+
+/**
+ * Group specs, tasks and coverage rows by owner. Names that differ only in
+ * case or a leading `@` are the same owner. Sorted by owner name.
+ */
+export function buildOwnerRollup(specs: OwnedSpec[]): OwnerRollup[] {
+    const rollups = new Map<string, OwnerRollup>();
+    const get = (owner: string): OwnerRollup => {
+        const name = owner.trim().replace(/^@/, '');
+        const key = name.toLowerCase();
+        let rollup = rollups.get(key);
+        if (!rollup) {
+            rollup = {
+                owner: name,
+                specs: [],
+                contributesTo: [],
+                openTasks: 0,
+                completedTasks: 0,
+                coverageRows: 0,
+                coverageGaps: 0,
+            };
+            rollups.set(key, rollup);
+        }
+        return rollup;
+    };
+    const addSpec = (list: string[], name: string) => {
+        if (!list.includes(name)) {
+            list.push(name);
+        }
+    };
+
+    for (const spec of specs) {
+        for (const owner of spec.owners) {
+            addSpec(get(owner).specs, spec.name);
+        }
+        for (const task of spec.tasks) {
+            for (const owner of task.owners) {
+                const rollup = get(owner);
+                if (task.isComplete) {
+                    rollup.completedTasks++;
+                } else {
+                    rollup.openTasks++;
+                }
+                addSpec(rollup.contributesTo, spec.name);
+            }
+        }
+        for (const row of spec.coverage) {
+            for (const owner of row.owners) {
+                const rollup = get(owner);
+                rollup.coverageRows++;
+                if (row.isGap) {
+                    rollup.coverageGaps++;
+                }
+                addSpec(rollup.contributesTo, spec.name);
+            }
+        }
+    }
+
+    for (const rollup of rollups.values()) {
+        rollup.contributesTo = rollup.contributesTo.filter(name => !rollup.specs.includes(name));
+    }
+    return [...rollups.values()].sort((a, b) => a.owner.localeCompare(b.owner));
+}
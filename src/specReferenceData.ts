@@ -0,0 +1,300 @@
+/**
+ * Spec cross-reference IDs
+ *
+ * IDs used in the coverage matrix, the design's guardrail mapping and prose:
+ * - `US-1` user stories and `AC-1.2` acceptance criteria, defined in
+ *   requirements.md (`### US-1: ...`, `- [ ] AC-1.2: ...`)
+ * - `[S3.2]` design sections, defined by design.md headings: explicitly
+ *   numbered (`## 3. Components`, `### 3.2 Session Store`) or, without a
+ *   number, by position (the second `###` under the third `##`)
+ * - `[T-1.2]` tasks and `[T-1]` phases, defined in tasks.md
+ *   (`- [ ] **Task 1.2:** ...`, `## Phase 1: ...`)
+ *
+ * US and AC IDs are recognized anywhere; S and T IDs only in brackets, as
+ * they are too short to tell apart from ordinary words. IDs share a number
+ * space per family (US-1 owns AC-1.m, S3 owns S3.2, T-1 owns T-1.2), so
+ * renumbering an ID renumbers the IDs under it too.
+ *
+ * Used by the definition, reference and rename providers (specReferences.ts).
+ */
+
+import { contentLines } from './specOutline';
+import { SpecFileKind } from './specSymbolData';
+
+export type SpecIdFamily = 'story' | 'section' | 'task';
+
+/**
+ * An ID as written in a spec document.
+ */
+export interface SpecIdOccurrence {
+    /** Canonical ID: `US-1`, `AC-1.2`, `S3.2`, `T-1.2` */
+    id: string;
+    family: SpecIdFamily;
+    /** Number path, e.g. `1.2` */
+    number: string;
+    /** 0-based line */
+    line: number;
+    /** Columns of the ID as written (`US-1`, `Task 1.2`, or a heading's text) */
+    start: number;
+    end: number;
+    /** Column of the number; undefined for sections numbered by position */
+    numberStart?: number;
+    definition: boolean;
+}
+
+/**
+ * A text replacement produced by planSpecIdRename.
+ */
+export interface SpecIdEdit {
+    file: string;
+    line: number;
+    start: number;
+    end: number;
+    text: string;
+}
+
+const FAMILY_LABELS: Record<SpecIdFamily, string> = {
+    story: 'user story or acceptance criterion',
+    section: 'design section',
+    task: 'task or phase',
+};
+
+const NUMBER = '\\d+(?:\\.\\d+)*';
+
+/**
+ * Parse an ID (`US-1`, `AC-1.2`, `S3.2`, `T-1`); a leading `#` or surrounding
+ * brackets are ignored.
+ */
+export function parseSpecId(text: string): { family: SpecIdFamily; number: string } | undefined {
+    const match = text.trim().replace(/^#/, '').replace(/^\[(.*)\]$/, '$1')
+        .match(new RegExp(`^(US-|AC-|S|T-)(${NUMBER})$`, 'i'));
+    if (!match) {
+        return undefined;
+    }
+    const prefix = match[1].toUpperCase();
+    const depth = match[2].split('.').length;
+    if (prefix === 'US-') {
+        return depth === 1 ? { family: 'story', number: match[2] } : undefined;
+    }
+    if (prefix === 'AC-') {
+        return depth === 2 ? { family: 'story', number: match[2] } : undefined;
+    }
+    return { family: prefix === 'S' ? 'section' : 'task', number: match[2] };
+}
+
+/**
+ * Canonical ID of a number in a family.
+ */
+export function formatSpecId(family: SpecIdFamily, number: string): string {
+    switch (family) {
+        case 'story':
+            return number.includes('.') ? `AC-${number}` : `US-${number}`;
+        case 'section':
+            return `S${number}`;
+        case 'task':
+            return `T-${number}`;
+    }
+}
+
+/**
+ * IDs defined and referenced in a spec document, by line and column.
+ * @param kind The document kind; definitions are only found in requirements,
+ * design and tasks files, references in any file
+ */
+export function findSpecIds(kind: SpecFileKind | undefined, content: string): SpecIdOccurrence[] {
+    const occurrences: SpecIdOccurrence[] = [];
+    const sectionCounters = { section: 0, subsection: 0 };
+
+    for (const { text, line } of contentLines(content)) {
+        const definition = kind && findDefinition(kind, text, line, sectionCounters);
+        if (definition) {
+            occurrences.push(definition);
+        }
+        for (const reference of findReferences(text, line)) {
+            if (!definition || reference.end <= definition.start || reference.start >= definition.end) {
+                occurrences.push(reference);
+            }
+        }
+    }
+
+    return occurrences.sort((a, b) => a.line - b.line || a.start - b.start);
+}
+
+/**
+ * The ID at a position, if any.
+ */
+export function getSpecIdAt(occurrences: SpecIdOccurrence[], line: number, character: number): SpecIdOccurrence | undefined {
+    return occurrences.find(o => o.line === line && o.start <= character && character <= o.end);
+}
+
+/**
+ * Edits that renumber an ID, and the IDs under it, everywhere it is defined
+ * or referenced. `newName` is an ID of the same kind (`US-4` for `US-1`) or
+ * just its number.
+ * @throws Error if the new name is invalid or taken, or a section to
+ * renumber is numbered by position
+ */
+export function planSpecIdRename(
+    files: Array<{ file: string; occurrences: SpecIdOccurrence[] }>,
+    oldId: string,
+    newName: string
+): SpecIdEdit[] {
+    const old = parseSpecId(oldId);
+    if (!old) {
+        throw new Error(`${oldId} is not a spec ID`);
+    }
+    const renamed = /^\d+(?:\.\d+)*$/.test(newName.trim())
+        ? { family: old.family, number: newName.trim() }
+        : parseSpecId(newName);
+    const depth = old.number.split('.').length;
+    if (!renamed || renamed.family !== old.family || renamed.number.split('.').length !== depth) {
+        throw new Error(`${newName.trim() || 'An empty name'} is not a ${FAMILY_LABELS[old.family]} ID like ${oldId}`);
+    }
+    const newId = formatSpecId(old.family, renamed.number);
+    if (newId === formatSpecId(old.family, old.number)) {
+        return [];
+    }
+
+    const isUnder = (occurrence: SpecIdOccurrence, number: string) =>
+        occurrence.family === old.family &&
+        (occurrence.number === number || occurrence.number.startsWith(`${number}.`));
+    const all = files.flatMap(({ occurrences }) => occurrences);
+    if (all.some(o => o.definition && isUnder(o, renamed.number))) {
+        throw new Error(`${newId} already exists`);
+    }
+
+    const edits: SpecIdEdit[] = [];
+    for (const { file, occurrences } of files) {
+        for (const occurrence of occurrences.filter(o => isUnder(o, old.number))) {
+            if (occurrence.numberStart === undefined) {
+                throw new Error(`${occurrence.id} is numbered by its position in design.md; number its heading to renumber it`);
+            }
+            edits.push({
+                file,
+                line: occurrence.line,
+                start: occurrence.numberStart,
+                end: occurrence.numberStart + occurrence.number.length,
+                text: renamed.number + occurrence.number.slice(old.number.length),
+            });
+        }
+    }
+    return edits;
+}
+
+function findDefinition(
+    kind: SpecFileKind,
+    text: string,
+    line: number,
+    counters: { section: number; subsection: number }
+): SpecIdOccurrence | undefined {
+    switch (kind) {
+        case 'requirements': {
+            const match = text.match(/^(#{2,4}\s+)(US-(\d+))\b/) ??
+                text.match(/^(\s*[-*]\s+(?:\[[ xX]\]\s+)?\**)(AC-(\d+\.\d+))\b/);
+            return match ? numbered('story', match[1].length, match[2], match[3], line) : undefined;
+        }
+        case 'design':
+            return findSectionDefinition(text, line, counters);
+        case 'tasks': {
+            const match = text.match(/^(#{2,3}\s+)Phase\s+(\d+)\b/i) ??
+                text.match(/^(\s*[-*]\s+\[[ xX]\]\s+\**)Task\s+(\d+(?:\.\d+)*)\b/);
+            if (!match) {
+                return undefined;
+            }
+            const start = match[1].length;
+            const numberStart = match[0].length - match[2].length;
+            return {
+                id: formatSpecId('task', match[2]),
+                family: 'task',
+                number: match[2],
+                line,
+                start,
+                end: numberStart + match[2].length,
+                numberStart,
+                definition: true,
+            };
+        }
+    }
+}
+
+function findSectionDefinition(
+    text: string,
+    line: number,
+    counters: { section: number; subsection: number }
+): SpecIdOccurrence | undefined {
+    const heading = text.match(/^(#{2,3})(\s+)(.*?)\s*#*$/);
+    if (!heading) {
+        return undefined;
+    }
+    const isSection = heading[1].length === 2;
+    if (isSection) {
+        counters.section++;
+        counters.subsection = 0;
+    } else if (counters.section === 0) {
+        // A subsection before any section has no number
+        return undefined;
+    } else {
+        counters.subsection++;
+    }
+
+    const start = heading[1].length + heading[2].length;
+    const explicit = heading[3].match(new RegExp(`^(S?(${NUMBER}))\\.?(?=\\s|$)`));
+    if (explicit) {
+        return numbered('section', start, explicit[1], explicit[2], line);
+    }
+    const number = isSection ? `${counters.section}` : `${counters.section}.${counters.subsection}`;
+    return {
+        id: formatSpecId('section', number),
+        family: 'section',
+        number,
+        line,
+        start,
+        end: start + heading[3].length,
+        definition: true,
+    };
+}
+
+/**
+ * A definition whose ID is written out at `start`, e.g. `US-1` or `3.2`.
+ */
+function numbered(family: SpecIdFamily, start: number, written: string, number: string, line: number): SpecIdOccurrence {
+    const end = start + written.length;
+    return {
+        id: formatSpecId(family, number),
+        family,
+        number,
+        line,
+        start,
+        end,
+        numberStart: end - number.length,
+        definition: true,
+    };
+}
+
+function findReferences(text: string, line: number): SpecIdOccurrence[] {
+    const references: SpecIdOccurrence[] = [];
+    const add = (family: SpecIdFamily, start: number, written: string, number: string) => {
+        const end = start + written.length;
+        references.push({
+            id: formatSpecId(family, number),
+            family,
+            number,
+            line,
+            start,
+            end,
+            numberStart: end - number.length,
+            definition: false,
+        });
+    };
+
+    for (const match of text.matchAll(/\b(?:US-(\d+)|AC-(\d+\.\d+))\b(?!\.\d)/g)) {
+        add('story', match.index!, match[0], match[1] ?? match[2]);
+    }
+    for (const group of text.matchAll(/\[([^\]\n]*)\]/g)) {
+        const groupStart = group.index! + 1;
+        for (const match of group[1].matchAll(new RegExp(`\\b(?:S(${NUMBER})|T-(${NUMBER}))\\b`, 'g'))) {
+            add(match[1] ? 'section' : 'task', groupStart + match.index!, match[0], match[1] ?? match[2]);
+        }
+    }
+    return references;
+}
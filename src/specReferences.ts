@@ -0,0 +1,163 @@
+/**
+ * Spec Reference Providers
+ *
+ * Go to Definition, Find All References and Rename for the cross-reference
+ * IDs of a spec (`US-1`, `AC-1.2`, `[S3.2]`, `[T-1]`; see
+ * specReferenceData.ts). IDs resolve within the spec's requirements.md,
+ * design.md and tasks.md, plus the document the request comes from.
+ * Unsaved changes of open documents are taken into account.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecInfo, SpecTreeProvider } from './specView';
+import { specIndex } from './specIndex';
+import { getSpecFileKind } from './specSymbolData';
+import { SpecIdOccurrence, findSpecIds, getSpecIdAt, planSpecIdRename } from './specReferenceData';
+
+// Files IDs are defined in
+const DEFINITION_FILES = ['requirements.md', 'design.md', 'tasks.md'];
+
+interface SpecIdFile {
+    file: string;
+    occurrences: SpecIdOccurrence[];
+}
+
+export class SpecReferenceProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.RenameProvider {
+    constructor(private readonly specProvider: SpecTreeProvider) {}
+
+    provideDefinition(document: vscode.TextDocument, position: vscode.Position): vscode.Location[] {
+        const target = this.getIdAt(document, position);
+        if (!target) {
+            return [];
+        }
+        return this.getOccurrences(document, target.id, true).filter(({ occurrence }) => occurrence.definition)
+            .map(({ file, occurrence }) => toLocation(file, occurrence));
+    }
+
+    provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): vscode.Location[] {
+        const target = this.getIdAt(document, position);
+        if (!target) {
+            return [];
+        }
+        return this.getOccurrences(document, target.id, context.includeDeclaration)
+            .map(({ file, occurrence }) => toLocation(file, occurrence));
+    }
+
+    prepareRename(document: vscode.TextDocument, position: vscode.Position): { range: vscode.Range; placeholder: string } {
+        const target = this.getIdAt(document, position);
+        if (!target) {
+            throw new Error('Place the cursor on a spec ID like US-1, AC-1.2, [S3.2] or [T-1] to rename it');
+        }
+        return {
+            range: new vscode.Range(target.line, target.start, target.line, target.end),
+            placeholder: target.id,
+        };
+    }
+
+    provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string): vscode.WorkspaceEdit | undefined {
+        const target = this.getIdAt(document, position);
+        const spec = this.getSpec(document);
+        if (!target || !spec) {
+            return undefined;
+        }
+        const edit = new vscode.WorkspaceEdit();
+        for (const change of planSpecIdRename(this.readSpecIds(spec, document), target.id, newName)) {
+            edit.replace(
+                vscode.Uri.file(change.file),
+                new vscode.Range(change.line, change.start, change.line, change.end),
+                change.text
+            );
+        }
+        return edit;
+    }
+
+    private getIdAt(document: vscode.TextDocument, position: vscode.Position): SpecIdOccurrence | undefined {
+        if (!this.getSpec(document)) {
+            return undefined;
+        }
+        const occurrences = findSpecIds(getSpecFileKind(document.fileName), document.getText());
+        return getSpecIdAt(occurrences, position.line, position.character);
+    }
+
+    private getOccurrences(
+        document: vscode.TextDocument,
+        id: string,
+        includeDefinitions: boolean
+    ): Array<{ file: string; occurrence: SpecIdOccurrence }> {
+        const spec = this.getSpec(document);
+        if (!spec) {
+            return [];
+        }
+        return this.readSpecIds(spec, document).flatMap(({ file, occurrences }) => occurrences
+            .filter(occurrence => occurrence.id === id && (includeDefinitions || !occurrence.definition))
+            .map(occurrence => ({ file, occurrence })));
+    }
+
+    private getSpec(document: vscode.TextDocument): SpecInfo | undefined {
+        return getDocumentSpec(this.specProvider, document);
+    }
+
+    /**
+     * IDs of the spec's definition files and the given document.
+     */
+    private readSpecIds(spec: SpecInfo, document: vscode.TextDocument): SpecIdFile[] {
+        const files = DEFINITION_FILES.map(file => path.join(spec.path, file));
+        if (!files.includes(document.uri.fsPath)) {
+            files.push(document.uri.fsPath);
+        }
+        return files.map(file => {
+            const kind = getSpecFileKind(file);
+            const open = getOpenDocument(file);
+            let occurrences: SpecIdOccurrence[] | undefined;
+            try {
+                occurrences = open
+                    ? findSpecIds(kind, open.getText())
+                    : specIndex.parse(file, 'spec-ids', content => findSpecIds(kind, content));
+            } catch {
+                // Unreadable files have no IDs; the Specs view reports them
+            }
+            return { file, occurrences: occurrences ?? [] };
+        });
+    }
+}
+
+/**
+ * The spec a document belongs to (including additional spec documents in subfolders).
+ */
+export function getDocumentSpec(specProvider: SpecTreeProvider, document: vscode.TextDocument): SpecInfo | undefined {
+    const filePath = document.uri.fsPath;
+    return specProvider.getSpecs().find(spec => filePath.startsWith(spec.path + path.sep));
+}
+
+/**
+ * Content of a spec file: the open document's text, with unsaved changes, or
+ * the spec index's cached content. Undefined if the file doesn't exist, isn't
+ * cached yet or can't be read.
+ */
+export function readSpecDocument(filePath: string): string | undefined {
+    const open = getOpenDocument(filePath);
+    if (open) {
+        return open.getText();
+    }
+    try {
+        return specIndex.readFile(filePath);
+    } catch {
+        return undefined;
+    }
+}
+
+function getOpenDocument(filePath: string): vscode.TextDocument | undefined {
+    return vscode.workspace.textDocuments.find(doc => doc.uri.fsPath === filePath);
+}
+
+function toLocation(file: string, occurrence: SpecIdOccurrence): vscode.Location {
+    return new vscode.Location(
+        vscode.Uri.file(file),
+        new vscode.Range(occurrence.line, occurrence.start, occurrence.line, occurrence.end)
+    );
+}
@@ -0,0 +1,166 @@
+/**
+ * Spec rename / move planning
+ *
+ * Works out the text changes needed when a spec folder is renamed or moved
+ * to another project:
+ * - Dependency references to the spec (`- old-name`, `project:old-name`)
+ * - The moved spec's own dependency references, which change between local
+ *   and `project:spec` form when it changes project
+ * - Task IDs (`old-name:1.2`) and links into the spec folder (`../old-name/tasks.md`)
+ * - The `# old-name` title of the spec's own documents
+ *
+ * The command in commands.ts turns the plan into a single WorkspaceEdit.
+ */
+
+import * as path from 'path';
+import { DependencyGraph } from './specDependencies';
+
+/**
+ * Replace `[start, end)` on a 0-based line with `newText`.
+ */
+export interface TextReplacement {
+    line: number;
+    start: number;
+    end: number;
+    newText: string;
+}
+
+export interface RenamePlanInput {
+    /** Spec being renamed or moved */
+    spec: { path: string; name: string; projectPath: string };
+    newName: string;
+    /** Project the spec ends up in (same as spec.projectPath for a rename) */
+    targetProjectPath: string;
+    graph: DependencyGraph;
+    /** Markdown files to scan for task IDs and links (including the spec's own files) */
+    markdownFiles: string[];
+    /** Name used to qualify cross-project references */
+    getProjectName: (projectPath: string) => string;
+    readFile: (filePath: string) => string;
+}
+
+const SPEC_DOCUMENTS = ['requirements.md', 'design.md', 'tasks.md'];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find task IDs (`old-name:1.2`) and markdown link path segments (`](../old-name/…)`)
+ * that refer to a spec by folder name.
+ */
+export function findReferenceReplacements(content: string, oldName: string, newName: string): TextReplacement[] {
+    const name = escapeRegExp(oldName);
+    const taskIdPattern = new RegExp(`(?<![\\w-])${name}(?=:\\d)`, 'g');
+    const linkSegmentPattern = new RegExp(`(?<=^|/)${name}(?=/)`, 'g');
+    const linkPattern = /\]\(([^)\s]*)/g;
+    const replacements: TextReplacement[] = [];
+
+    content.split(/\r?\n/).forEach((line, lineNumber) => {
+        for (const match of line.matchAll(taskIdPattern)) {
+            replacements.push({ line: lineNumber, start: match.index!, end: match.index! + oldName.length, newText: newName });
+        }
+        for (const link of line.matchAll(linkPattern)) {
+            if (link[1].includes('://')) {
+                continue;
+            }
+            // Offset of the link target within the line ("](" is two characters)
+            const targetStart = link.index! + 2;
+            for (const match of link[1].matchAll(linkSegmentPattern)) {
+                const start = targetStart + match.index!;
+                replacements.push({ line: lineNumber, start, end: start + oldName.length, newText: newName });
+            }
+        }
+    });
+
+    return replacements;
+}
+
+/**
+ * Find the `# old-name` title of a spec document.
+ */
+export function findTitleReplacement(content: string, oldName: string, newName: string): TextReplacement | undefined {
+    const titlePattern = new RegExp(`^(#\\s+)${escapeRegExp(oldName)}(?![\\w-])`);
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const match = lines[i].match(titlePattern);
+        if (match) {
+            return { line: i, start: match[1].length, end: match[1].length + oldName.length, newText: newName };
+        }
+        if (/^#\s/.test(lines[i])) {
+            // Only the first heading is the title
+            return undefined;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Plan the text edits for renaming/moving a spec, keyed by file path
+ * (paths inside the spec folder are its current location).
+ */
+export function planSpecRename(input: RenamePlanInput): Map<string, TextReplacement[]> {
+    const { spec, newName, targetProjectPath, graph, getProjectName, readFile } = input;
+    const plan = new Map<string, TextReplacement[]>();
+    const lineCache = new Map<string, string[]>();
+
+    const getLine = (filePath: string, line: number): string => {
+        if (!lineCache.has(filePath)) {
+            lineCache.set(filePath, readFile(filePath).split(/\r?\n/));
+        }
+        return lineCache.get(filePath)![line] ?? '';
+    };
+    const add = (filePath: string, replacement: TextReplacement) => {
+        const existing = plan.get(filePath) ?? [];
+        if (!existing.some(r => r.line === replacement.line && r.start === replacement.start)) {
+            existing.push(replacement);
+        }
+        plan.set(filePath, existing);
+    };
+    // Reference text for a spec as seen from a project
+    const referenceFrom = (fromProject: string, toProject: string, name: string): string =>
+        fromProject === toProject ? name : `${getProjectName(toProject)}:${name}`;
+
+    for (const edge of graph.edges) {
+        if (edge.ref.column < 0) {
+            continue;
+        }
+        let newText: string;
+        if (edge.to === spec.path) {
+            // Someone (possibly the spec itself) depends on the renamed spec
+            const fromProject = edge.from === spec.path ? targetProjectPath : graph.nodes.get(edge.from)!.projectPath;
+            newText = referenceFrom(fromProject, targetProjectPath, newName);
+        } else if (edge.from === spec.path) {
+            // The moved spec's own dependencies
+            const target = graph.nodes.get(edge.to)!;
+            newText = referenceFrom(targetProjectPath, target.projectPath, target.name);
+        } else {
+            continue;
+        }
+
+        const filePath = path.join(edge.from, 'requirements.md');
+        const { line, column, length } = edge.ref;
+        if (getLine(filePath, line).slice(column, column + length) !== newText) {
+            add(filePath, { line, start: column, end: column + length, newText });
+        }
+    }
+
+    if (newName !== spec.name) {
+        for (const filePath of input.markdownFiles) {
+            for (const replacement of findReferenceReplacements(readFile(filePath), spec.name, newName)) {
+                add(filePath, replacement);
+            }
+        }
+        for (const document of SPEC_DOCUMENTS) {
+            const filePath = path.join(spec.path, document);
+            if (input.markdownFiles.includes(filePath)) {
+                const title = findTitleReplacement(readFile(filePath), spec.name, newName);
+                if (title) {
+                    add(filePath, title);
+                }
+            }
+        }
+    }
+
+    return plan;
+}
@@ -0,0 +1,186 @@
+/**
+ * Spec document symbols
+ *
+ * Typed symbols of the spec documents, for the outline, Go to Symbol and
+ * workspace symbol search (see specSymbols.ts):
+ * - requirements.md: user stories (US-n) with their acceptance criteria
+ *   (AC-n.m), and guardrail coverage matrix rows
+ * - design.md: sections, with the subsections of component, data model and
+ *   API sections typed as components, entities and endpoints
+ * - tasks.md: phases with their tasks (Task x.y)
+ *
+ * Built on the outlines of specOutline.ts; kept free of VS Code APIs.
+ */
+
+import * as path from 'path';
+import { OutlineNode, contentLines, parseRequirementsOutline, parseDesignOutline, parseTasksOutline } from './specOutline';
+import { parseCoverageMatrix } from './specDiffData';
+
+export type SpecFileKind = 'requirements' | 'design' | 'tasks';
+
+export type SpecSymbolKind =
+    | 'story'
+    | 'criterion'
+    | 'guardrail'
+    | 'section'
+    | 'component'
+    | 'entity'
+    | 'endpoint'
+    | 'phase'
+    | 'task';
+
+export interface SpecSymbol {
+    kind: SpecSymbolKind;
+    /** e.g. `US-1: Sign in`, `Task 1.2: Add login form`, `POST /api/v1/sessions` */
+    name: string;
+    /** Secondary text: criterion or task state, matrix status, phase progress */
+    detail?: string;
+    /** 0-based first line */
+    line: number;
+    /** 0-based last line (the symbol's own line for single-line symbols) */
+    endLine: number;
+    children: SpecSymbol[];
+}
+
+const SPEC_FILE_KINDS: Record<string, SpecFileKind> = {
+    'requirements.md': 'requirements',
+    'design.md': 'design',
+    'tasks.md': 'tasks',
+};
+
+// Design sections whose subsections are of one kind
+const DESIGN_SECTION_KINDS: Array<{ pattern: RegExp; kind: SpecSymbolKind }> = [
+    { pattern: /\b(components?|modules?|services?)\b/i, kind: 'component' },
+    { pattern: /\b(data\s*model|entit(y|ies)|schema|models?|database)\b/i, kind: 'entity' },
+    { pattern: /\b(api|endpoints?|routes?)\b/i, kind: 'endpoint' },
+];
+
+const HTTP_ENDPOINT_PATTERN = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+\S/;
+
+/**
+ * The kind of spec document a file is, by its name.
+ */
+export function getSpecFileKind(filePath: string): SpecFileKind | undefined {
+    return SPEC_FILE_KINDS[path.basename(filePath).toLowerCase()];
+}
+
+/**
+ * Parse the symbols of a spec document.
+ */
+export function parseSpecSymbols(kind: SpecFileKind, content: string): SpecSymbol[] {
+    const lastLine = lastContentLine(content);
+    switch (kind) {
+        case 'requirements':
+            return parseRequirementsSymbols(content, lastLine);
+        case 'design':
+            return parseDesignSymbols(content, lastLine);
+        case 'tasks':
+            return parseTasksSymbols(content, lastLine);
+    }
+}
+
+/**
+ * Flatten symbols and their children, depth first.
+ */
+export function flattenSpecSymbols(symbols: SpecSymbol[]): SpecSymbol[] {
+    return symbols.flatMap(symbol => [symbol, ...flattenSpecSymbols(symbol.children)]);
+}
+
+function parseRequirementsSymbols(content: string, lastLine: number): SpecSymbol[] {
+    const headings = headingLines(content, 2);
+    const stories = parseRequirementsOutline(content).map((story, i, all) => {
+        // A story runs to the next story or top-level section
+        const next = Math.min(all[i + 1]?.line ?? Infinity, headings.find(h => h > story.line) ?? Infinity);
+        return {
+            ...toSymbol(story, 'story', `${story.label}${story.description ? `: ${story.description}` : ''}`),
+            endLine: endBefore(next, lastLine, content, story.line),
+            children: story.children.map(criterion => toSymbol(
+                criterion,
+                'criterion',
+                `${criterion.label}${criterion.description ? `: ${criterion.description}` : ''}`,
+                criterion.checked === undefined ? undefined : criterion.checked ? 'done' : 'open'
+            )),
+        };
+    });
+    const rows: SpecSymbol[] = parseCoverageMatrix(content).map(row => ({
+        kind: 'guardrail',
+        name: row.guardrail,
+        detail: row.status || undefined,
+        line: row.line,
+        endLine: row.line,
+        children: [],
+    }));
+    return [...stories, ...rows].sort((a, b) => a.line - b.line);
+}
+
+function parseDesignSymbols(content: string, lastLine: number): SpecSymbol[] {
+    const sections = parseDesignOutline(content);
+    const headings = headingLines(content, 3);
+    const topHeadings = headingLines(content, 2);
+    const end = (line: number, boundaries: number[]) =>
+        endBefore(boundaries.find(h => h > line) ?? Infinity, lastLine, content, line);
+
+    return sections.map(section => {
+        const sectionKind = DESIGN_SECTION_KINDS.find(k => k.pattern.test(section.label))?.kind;
+        return {
+            kind: HTTP_ENDPOINT_PATTERN.test(section.label) ? 'endpoint' : 'section',
+            name: section.label,
+            line: section.line,
+            endLine: end(section.line, topHeadings),
+            children: section.children.map(sub => ({
+                kind: HTTP_ENDPOINT_PATTERN.test(sub.label) ? 'endpoint' : sectionKind ?? 'section',
+                name: sub.label,
+                line: sub.line,
+                endLine: end(sub.line, headings),
+                children: [],
+            })),
+        };
+    });
+}
+
+function parseTasksSymbols(content: string, lastLine: number): SpecSymbol[] {
+    const outline = parseTasksOutline(content);
+    const headings = headingLines(content, 2);
+    return outline.map(node => {
+        if (node.kind === 'task') {
+            return toTaskSymbol(node);
+        }
+        return {
+            ...toSymbol(node, 'phase', node.label, node.description),
+            endLine: endBefore(headings.find(h => h > node.line) ?? Infinity, lastLine, content, node.line),
+            children: node.children.map(toTaskSymbol),
+        };
+    });
+}
+
+function toTaskSymbol(task: OutlineNode): SpecSymbol {
+    return toSymbol(task, 'task', `${task.label}: ${task.description ?? ''}`.trim(), task.checked ? 'done' : 'open');
+}
+
+function toSymbol(node: OutlineNode, kind: SpecSymbolKind, name: string, detail?: string): SpecSymbol {
+    return { kind, name, detail, line: node.line, endLine: node.line, children: [] };
+}
+
+/**
+ * Lines of headings up to a level (outside code blocks).
+ */
+function headingLines(content: string, maxLevel: number): number[] {
+    const pattern = new RegExp(`^#{1,${maxLevel}}\\s`);
+    return contentLines(content).filter(({ text }) => pattern.test(text)).map(({ line }) => line);
+}
+
+/**
+ * Last line of a block that ends before `next`, without trailing blank lines.
+ */
+function endBefore(next: number, lastLine: number, content: string, start: number): number {
+    const lines = content.split(/\r?\n/);
+    let end = Math.min(next - 1, lastLine);
+    while (end > start && !lines[end]?.trim()) {
+        end--;
+    }
+    return end;
+}
+
+function lastContentLine(content: string): number {
+    return endBefore(Infinity, content.split(/\r?\n/).length - 1, content, 0);
+}
@@ -0,0 +1,109 @@
+/**
+ * Spec Symbol Providers
+ *
+ * Document symbols of requirements.md, design.md and tasks.md (see
+ * specSymbolData.ts) for the Outline view, breadcrumbs and Go to Symbol in
+ * Editor, and a workspace symbol provider so `#US-3` (Go to Symbol in
+ * Workspace) finds stories, criteria, tasks and design entries across all specs.
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SpecTreeProvider } from './specView';
+import { specIndex } from './specIndex';
+import {
+    SpecSymbol,
+    SpecSymbolKind,
+    flattenSpecSymbols,
+    getSpecFileKind,
+    parseSpecSymbols,
+} from './specSymbolData';
+
+const SYMBOL_KINDS: Record<SpecSymbolKind, vscode.SymbolKind> = {
+    story: vscode.SymbolKind.Interface,
+    criterion: vscode.SymbolKind.EnumMember,
+    guardrail: vscode.SymbolKind.Constant,
+    section: vscode.SymbolKind.Namespace,
+    component: vscode.SymbolKind.Class,
+    entity: vscode.SymbolKind.Struct,
+    endpoint: vscode.SymbolKind.Method,
+    phase: vscode.SymbolKind.Package,
+    task: vscode.SymbolKind.Event,
+};
+
+// Spec files searched by the workspace symbol provider
+const SYMBOL_FILES = ['requirements.md', 'design.md', 'tasks.md'];
+
+/**
+ * Markdown files under the configured specs directory.
+ */
+export function getSpecDocumentSelector(): vscode.DocumentSelector {
+    const specsDir = vscode.workspace.getConfiguration('ldf').get('specsDirectory', '.ldf/specs');
+    return { language: 'markdown', pattern: `**/${specsDir}/**/*.md` };
+}
+
+/**
+ * Symbols of an open spec document.
+ */
+export class SpecDocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+    provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+        const kind = getSpecFileKind(document.fileName);
+        if (!kind) {
+            return [];
+        }
+        return parseSpecSymbols(kind, document.getText()).map(symbol => toDocumentSymbol(document, symbol));
+    }
+}
+
+/**
+ * Symbols of all loaded specs, matched by name. A leading `#` in the query is
+ * ignored, so `#US-3` and `US-3` find the same stories.
+ */
+export class SpecWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+    constructor(private readonly specProvider: SpecTreeProvider) {}
+
+    provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): vscode.SymbolInformation[] {
+        const needle = query.trim().replace(/^#/, '').toLowerCase();
+        const results: vscode.SymbolInformation[] = [];
+
+        for (const spec of this.specProvider.getSpecs()) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            for (const file of SYMBOL_FILES) {
+                const filePath = path.join(spec.path, file);
+                const symbols = specIndex.parse(filePath, 'spec-symbols', content =>
+                    flattenSpecSymbols(parseSpecSymbols(getSpecFileKind(file)!, content))
+                );
+                for (const symbol of symbols ?? []) {
+                    if (!symbol.name.toLowerCase().includes(needle)) {
+                        continue;
+                    }
+                    results.push(new vscode.SymbolInformation(
+                        symbol.name,
+                        SYMBOL_KINDS[symbol.kind],
+                        spec.name,
+                        new vscode.Location(
+                            vscode.Uri.file(filePath),
+                            new vscode.Range(symbol.line, 0, symbol.endLine, Number.MAX_SAFE_INTEGER)
+                        )
+                    ));
+                }
+            }
+        }
+        return results;
+    }
+}
+
+function toDocumentSymbol(document: vscode.TextDocument, symbol: SpecSymbol): vscode.DocumentSymbol {
+    const endLine = Math.min(symbol.endLine, document.lineCount - 1);
+    const documentSymbol = new vscode.DocumentSymbol(
+        symbol.name,
+        symbol.detail ?? '',
+        SYMBOL_KINDS[symbol.kind],
+        new vscode.Range(symbol.line, 0, endLine, document.lineAt(endLine).text.length),
+        document.lineAt(symbol.line).range
+    );
+    documentSymbol.children = symbol.children.map(child => toDocumentSymbol(document, child));
+    return documentSymbol;
+}
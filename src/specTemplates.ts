@@ -0,0 +1,292 @@
+/**
+ * Spec templates
+ *
+ * New spec documents are created from templates, looked up by file name
+ * (requirements.md, design.md, tasks.md, or a spec document's template) in:
+ * 1. the project's .ldf/templates/
+ * 2. the workspace's shared templates (.ldf-shared/templates/) when the
+ *    workspace manifest sets `shared.inherit.templates`
+ * 3. the built-in templates below
+ *
+ * Templates can use `{{spec_name}}`, `{{date}}` (YYYY-MM-DD), `{{author}}`
+ * (git user.name) and `{{preset}}` (the project's guardrail preset).
+ * Requirements templates can also use the sections collected by the New Spec
+ * wizard (see createRequirementsVariables): `{{overview}}`, `{{user_stories}}`,
+ * `{{question_pack_answers}}` and `{{guardrail_matrix}}` (coverage matrix rows
+ * for the project's enabled guardrails). Tasks templates can use
+ * `{{task_phases}}` (see createTasksVariables). Unknown variables are left as they are.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Project templates directory relative to the project root
+export const TEMPLATES_DIR = path.join('.ldf', 'templates');
+
+export type SpecTemplateName = 'requirements' | 'design' | 'tasks';
+
+/** Built-in templates, used when neither the project nor the workspace provides one */
+export const BUILTIN_TEMPLATES: Record<SpecTemplateName, string> = {
+    requirements: `# {{spec_name}} - Requirements
+
+## Overview
+
+{{overview}}
+
+## User Stories
+
+{{user_stories}}
+
+## Question-Pack Answers
+
+{{question_pack_answers}}
+
+## Guardrail Coverage Matrix
+
+| Guardrail | Requirements | Design | Tasks/Tests | Owner | Status |
+|-----------|--------------|--------|-------------|-------|--------|
+{{guardrail_matrix}}
+
+## Dependencies
+
+- [List any dependencies; name other specs (e.g. user-auth or project:spec-name) to link them]
+
+## Out of Scope
+
+- [What's explicitly not included]
+`,
+    design: `# {{spec_name}} - Design
+
+## Architecture Overview
+
+[High-level architecture description]
+
+## Components
+
+### Component 1
+
+**Purpose:** [What it does]
+
+**Interface:**
+\`\`\`typescript
+interface Component1 {
+  // Define interface
+}
+\`\`\`
+
+## Data Model
+
+### Entity 1
+
+| Field | Type | Constraints |
+|-------|------|-------------|
+| id | UUID | PK |
+
+## API Endpoints
+
+### POST /api/v1/resource
+
+**Request:**
+\`\`\`json
+{
+  "field": "value"
+}
+\`\`\`
+
+**Response:**
+\`\`\`json
+{
+  "id": "uuid"
+}
+\`\`\`
+
+## Guardrail Mapping
+
+| Guardrail | Implementation | Section |
+|-----------|---------------|---------|
+| 1. Testing | Unit tests + Integration | [T-1] |
+
+## Security Considerations
+
+- [Security consideration 1]
+`,
+    tasks: `# {{spec_name}} - Tasks
+
+{{task_phases}}
+
+## Completion Checklist
+
+- [ ] All tasks completed
+- [ ] Tests passing
+- [ ] Documentation updated
+- [ ] Code reviewed
+`,
+};
+
+/**
+ * Template variables for a new spec document.
+ * @param author git user.name ('' if unknown)
+ * @param preset Guardrail preset from config.yaml ('' if none)
+ */
+export function createTemplateVariables(
+    specName: string,
+    author: string,
+    preset: string,
+    date: Date = new Date()
+): Record<string, string> {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return {
+        spec_name: specName,
+        date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+        author,
+        preset,
+    };
+}
+
+/**
+ * Content for the requirements sections of a new spec. Sections left
+ * undefined get placeholders.
+ */
+export interface RequirementsContent {
+    overview?: string;
+    /** User story titles, optionally with acceptance criteria */
+    userStories?: Array<string | { title: string; criteria: string[] }>;
+    /** Question packs to answer, with their questions */
+    questionPacks?: Array<{ title: string; questions: string[] }>;
+    /** Guardrails for the coverage matrix, in order */
+    guardrails?: Array<{ id: number; name: string }>;
+}
+
+/**
+ * Requirements template variables for the sections of a new spec.
+ */
+export function createRequirementsVariables(content: RequirementsContent): Record<string, string> {
+    const stories = content.userStories?.length ? content.userStories : ['[Story Title]'];
+    const storyRef = content.userStories?.length
+        ? content.userStories.map((_, i) => `[US-${i + 1}]`).join(', ')
+        : '[US-1]';
+
+    const packs = content.questionPacks ?? [
+        { title: 'Security', questions: ['Authentication', 'Authorization'] },
+        { title: 'Data Model', questions: ['Tables', 'Relationships'] },
+    ];
+    const guardrails = content.guardrails ?? [];
+
+    return {
+        overview: content.overview?.trim() || '[Brief description of the feature]',
+        user_stories: stories.map((story, i) => {
+            const { title, criteria } = typeof story === 'string' ? { title: story, criteria: [] } : story;
+            return [
+                `### US-${i + 1}: ${title}`,
+                '',
+                '**As a** [user type]',
+                '**I want to** [action]',
+                '**So that** [benefit]',
+                '',
+                '**Acceptance Criteria:**',
+                ...(criteria.length > 0 ? criteria : ['[Criterion]', '[Criterion]'])
+                    .map((criterion, j) => `- [ ] AC-${i + 1}.${j + 1}: ${criterion}`),
+            ].join('\n');
+        }).join('\n\n'),
+        question_pack_answers: packs.map(pack => [
+            `### ${pack.title}`,
+            ...(pack.questions.length > 0 ? pack.questions.map(q => `- ${q}: [answer]`) : ['- [answer]']),
+        ].join('\n')).join('\n\n'),
+        guardrail_matrix: guardrails.length > 0
+            ? guardrails.map(g => `| ${g.id}. ${g.name} | ${storyRef} | [TBD] | [TBD] | [TBD] | TODO |`).join('\n')
+            : `| [Guardrail] | ${storyRef} | [TBD] | [TBD] | [TBD] | TODO |`,
+    };
+}
+
+/**
+ * Content for the tasks of a new spec.
+ */
+export interface TasksContent {
+    /** Tasks to start with; without them the tasks template gets placeholder phases */
+    tasks?: Array<{ title: string; done: boolean }>;
+}
+
+/**
+ * Tasks template variables: `{{task_phases}}` lists the given tasks in one
+ * Implementation phase, or placeholder Setup / Implementation / Testing /
+ * Documentation phases when there are none.
+ */
+export function createTasksVariables(content: TasksContent): Record<string, string> {
+    if (content.tasks?.length) {
+        return {
+            task_phases: [
+                '## Phase 1: Implementation',
+                '',
+                ...content.tasks.map((task, i) => `- [${task.done ? 'x' : ' '}] **Task 1.${i + 1}:** ${task.title}`),
+            ].join('\n'),
+        };
+    }
+    return {
+        task_phases: `## Phase 1: Setup
+
+- [ ] **Task 1.1:** Create initial structure
+- [ ] **Task 1.2:** Set up dependencies
+
+## Phase 2: Implementation
+
+- [ ] **Task 2.1:** Implement core functionality
+- [ ] **Task 2.2:** Add error handling
+- [ ] **Task 2.3:** Add validation
+
+## Phase 3: Testing
+
+- [ ] **Task 3.1:** Write unit tests
+- [ ] **Task 3.2:** Write integration tests
+
+## Phase 4: Documentation
+
+- [ ] **Task 4.1:** Update API documentation
+- [ ] **Task 4.2:** Add inline comments`,
+    };
+}
+
+/**
+ * Substitute `{{name}}` variables (whitespace inside the braces is allowed).
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+    return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+    );
+}
+
+/**
+ * Template directories for a project, in lookup order.
+ * @param sharedTemplatesDir The workspace's shared templates directory, when inherited
+ */
+export function getTemplateDirs(projectPath: string, sharedTemplatesDir?: string | null): string[] {
+    const dirs = [path.join(projectPath, TEMPLATES_DIR)];
+    if (sharedTemplatesDir) {
+        dirs.push(sharedTemplatesDir);
+    }
+    return dirs;
+}
+
+/**
+ * Read the first template with the given file name from the template directories.
+ * Returns undefined if none has it.
+ */
+export function readTemplate(fileName: string, templateDirs: string[]): string | undefined {
+    for (const dir of templateDirs) {
+        const templatePath = path.join(dir, fileName);
+        if (fs.existsSync(templatePath)) {
+            return fs.readFileSync(templatePath, 'utf-8');
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Render a requirements, design or tasks template, falling back to the built-in one.
+ */
+export function renderSpecTemplate(
+    name: SpecTemplateName,
+    templateDirs: string[],
+    variables: Record<string, string>
+): string {
+    return renderTemplate(readTemplate(`${name}.md`, templateDirs) ?? BUILTIN_TEMPLATES[name], variables);
+}
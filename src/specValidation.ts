@@ -0,0 +1,103 @@
+/**
+ * Spec validation
+ *
+ * Checks run while a spec is loaded. Specs with problems get the reserved
+ * Error status (see ERROR_STATUS in specWorkflow.ts), and the Specs view
+ * lists each problem under the spec:
+ * - requirements.md missing or unreadable
+ * - Guardrail coverage matrix rows with the wrong number of cells, no status,
+ *   or no guardrail number
+ * - Duplicate task numbers in tasks.md
+ * - Lines that look like tasks but don't match `- [ ] **Task 1.1:** Description`
+ * - Missing required or empty additional documents (checked in specDocuments.ts)
+ */
+
+import { contentLines } from './specOutline';
+
+export interface SpecProblem {
+    /** Spec document the problem is in (e.g. 'tasks.md') */
+    file: string;
+    /** 0-based line, when the problem has a location */
+    line?: number;
+    message: string;
+}
+
+// Same format as parseTasksContent in utils.ts
+const TASK_PATTERN = /^\s*[-*]\s+\[[ xX]\]\s+\*\*Task\s+(\d+(?:\.\d+)?(?:\.\d+)?):\*\*\s*\S/;
+// Checkbox or list lines that mention a task number
+const TASK_LIKE_PATTERN = /^\s*[-*]\s*\[[^\]]?\].*\bTask\s*\d|^\s*[-*]\s+\**Task\s+\d+(?:\.\d+)*:/i;
+
+/**
+ * Check tasks.md for duplicate task numbers and malformed task lines.
+ */
+export function validateTasks(content: string): SpecProblem[] {
+    const problems: SpecProblem[] = [];
+    const seen = new Map<string, number>();
+
+    for (const { text, line } of contentLines(content)) {
+        const match = text.match(TASK_PATTERN);
+        if (match) {
+            const previous = seen.get(match[1]);
+            if (previous !== undefined) {
+                problems.push({
+                    file: 'tasks.md',
+                    line,
+                    message: `Duplicate task number ${match[1]} (first on line ${previous + 1})`,
+                });
+            } else {
+                seen.set(match[1], line);
+            }
+        } else if (TASK_LIKE_PATTERN.test(text)) {
+            problems.push({
+                file: 'tasks.md',
+                line,
+                message: 'Malformed task line (expected "- [ ] **Task 1.1:** Description")',
+            });
+        }
+    }
+
+    return problems;
+}
+
+/**
+ * Check the guardrail coverage matrix in requirements.md.
+ * The matrix is the table whose header starts with "Guardrail".
+ */
+export function validateRequirements(content: string): SpecProblem[] {
+    const problems: SpecProblem[] = [];
+    let columns = 0;  // Header cell count while inside the matrix
+
+    for (const { text, line } of contentLines(content)) {
+        if (!text.trim().startsWith('|')) {
+            columns = 0;
+            continue;
+        }
+        const cells = splitTableRow(text);
+        if (/^guardrail\b/i.test(cells[0] ?? '')) {
+            columns = cells.length;
+            continue;
+        }
+        if (columns === 0 || cells.every(cell => /^:?-+:?$/.test(cell))) {
+            // Other tables, and the header separator row
+            continue;
+        }
+
+        const problem = (message: string) => problems.push({ file: 'requirements.md', line, message });
+        if (!/^\d+\./.test(cells[0])) {
+            problem('Coverage matrix row should start with a guardrail number (e.g. "1. Testing Coverage")');
+        } else if (cells.length !== columns) {
+            problem(`Coverage matrix row has ${cells.length} cells, expected ${columns}`);
+        } else if (!cells[cells.length - 1]) {
+            problem('Coverage matrix row has no status');
+        }
+    }
+
+    return problems;
+}
+
+function splitTableRow(text: string): string[] {
+    let row = text.trim();
+    row = row.startsWith('|') ? row.slice(1) : row;
+    row = row.endsWith('|') ? row.slice(0, -1) : row;
+    return row.split('|').map(cell => cell.trim());
+}
@@ -7,26 +7,105 @@
  * - Approved: ready for implementation
  * - In Progress: implementation started
  * - Complete: all tasks done
+ * - Error: the spec failed validation (see specValidation.ts); its problems
+ *   are listed under the spec node
+ *
+ * Status comes from explicit spec metadata (spec.yaml or requirements.md
+ * frontmatter) when declared, falling back to file-existence heuristics.
+ * The set of statuses, their icons and sort order come from the project's
+ * spec workflow (see specWorkflow.ts).
+ *
+ * Archived specs (see specArchive.ts) are hidden unless ldf.showArchivedSpecs is set.
+ *
+ * The view can be filtered by status, text, coverage gaps and ownership
+ * (see specFilter.ts); workspace folder groups only list matching specs.
+ *
+ * Requirements / Design / Tasks nodes expand into the document outline
+ * (user stories and acceptance criteria, design sections, task phases; see
+ * specOutline.ts); clicking an outline item opens the file at that line.
+ *
+ * Additional documents declared by the project (test plans, ADRs, ...; see
+ * specDocuments.ts) are listed after the Tasks node.
+ *
+ * Each spec node also lists the specs it depends on and the specs that
+ * require it (see specDependencies.ts), and flags dependency problems.
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
 import { detectWorkspaceContext, resolveProjects, getProjectDisplayName } from './workspace';
 import { getActiveProject } from './extension';
+import { readSpecMetadata } from './specMetadata';
+import {
+    SpecWorkflow,
+    DEFAULT_WORKFLOW,
+    loadSpecWorkflow,
+    getWorkflowStatus,
+    getStatusLabel,
+    getStatusOrder,
+    inferSpecStatus
+} from './specWorkflow';
+import { PROJECT_CONFIG_FILE } from './projectConfig';
+import { listSpecDirs } from './specArchive';
+import {
+    SpecFilter,
+    EMPTY_SPEC_FILTER,
+    summarizeRequirements,
+    matchesSpecFilter,
+    describeSpecFilter
+} from './specFilter';
+import { SpecProblem, validateRequirements, validateTasks } from './specValidation';
+import { specIndex } from './specIndex';
+import { parseTasksContent } from './utils';
+import {
+    SpecDocumentType,
+    SpecDocumentFiles,
+    loadSpecDocuments,
+    findSpecDocuments,
+    validateSpecDocuments,
+    isCollection
+} from './specDocuments';
+import {
+    OutlineNode,
+    parseRequirementsOutline,
+    parseDesignOutline,
+    parseTasksOutline
+} from './specOutline';
+import {
+    SpecDependencyRef,
+    DependencyGraph,
+    DependencyNode,
+    buildDependencyGraph,
+    parseDependencies,
+    getDependencies,
+    getDependents,
+    getCycle,
+    findStatusConflicts
+} from './specDependencies';
 
 export interface SpecInfo {
     name: string;
     path: string;
-    status: SpecStatus;
+    status: string;       // Status id from the project's workflow (see SpecStatus for built-ins)
+    statusSource: 'metadata' | 'inferred';  // Explicit status vs file-existence heuristic
     hasRequirements: boolean;
     hasDesign: boolean;
     hasTasks: boolean;
     taskProgress?: { completed: number; total: number };
+    documents?: SpecDocumentFiles[];  // Additional documents declared by the project
+    dependencies?: SpecDependencyRef[];  // From the Dependencies section of requirements.md
+    overview?: string;    // Overview section of requirements.md
+    owners?: string[];    // From spec metadata, the Owner line and the coverage matrix Owner column
+    taskOwners?: string[];  // `@name` mentions in tasks.md
+    coverageGaps?: number;  // Coverage matrix rows not DONE or N/A
+    problems?: SpecProblem[];  // Validation problems; the spec's status is Error when set
+    dependencyWarnings?: string[];       // Cycles and status conflicts (set by SpecTreeProvider)
+    archived?: boolean;   // Spec lives in the specs archive folder
     folderName?: string;  // For multi-root workspace display
     folderPath?: string;  // Workspace folder this spec belongs to
 }
 
+/** Built-in status ids assigned by the file-existence heuristic */
 export enum SpecStatus {
     Draft = 'draft',
     InReview = 'in-review',
@@ -36,8 +115,161 @@ export enum SpecStatus {
     Error = 'error',
 }
 
+/**
+ * Load a spec's files, task progress and status.
+ * A declared status is honored only if the workflow defines it.
+ * Specs that fail validation (see specValidation.ts) get the Error status,
+ * as do specs missing a document their status requires (see specDocuments.ts).
+ * Files are read from the spec index's cache only (see specIndex.ts).
+ */
+export function loadSpecInfo(
+    name: string,
+    specPath: string,
+    workflow: SpecWorkflow = DEFAULT_WORKFLOW,
+    documentTypes: SpecDocumentType[] = []
+): SpecInfo {
+    const reqPath = path.join(specPath, 'requirements.md');
+    const designPath = path.join(specPath, 'design.md');
+    const tasksPath = path.join(specPath, 'tasks.md');
+
+    const hasRequirements = specIndex.exists(reqPath);
+    const hasDesign = specIndex.exists(designPath);
+    const hasTasks = specIndex.exists(tasksPath);
+
+    const problems: SpecProblem[] = [];
+    // Parse through the shared index; read errors become problems
+    const parseDocument = <T>(filePath: string, parser: string, parse: (content: string) => T): T | undefined => {
+        try {
+            return specIndex.parse(filePath, parser, parse);
+        } catch (err) {
+            problems.push({
+                file: path.basename(filePath),
+                message: `Could not read ${path.basename(filePath)}: ${err instanceof Error ? err.message : err}`,
+            });
+            return undefined;
+        }
+    };
+
+    let taskProgress: { completed: number; total: number } | undefined;
+    let taskOwners: string[] = [];
+    if (hasTasks) {
+        const tasks = parseDocument(tasksPath, 'spec-tasks', content => ({
+            progress: parseTaskProgress(content),
+            owners: [...new Set(parseTasksContent(name, content).flatMap(task => task.owners))],
+            problems: validateTasks(content),
+        }));
+        if (tasks) {
+            taskProgress = tasks.progress;
+            taskOwners = tasks.owners;
+            problems.push(...tasks.problems);
+        }
+    }
+
+    const requirements = hasRequirements
+        ? parseDocument(reqPath, 'spec-requirements', content => ({
+            dependencies: parseDependencies(content),
+            summary: summarizeRequirements(content),
+            problems: validateRequirements(content),
+        }))
+        : undefined;
+    if (!hasRequirements) {
+        problems.unshift({ file: 'requirements.md', message: 'requirements.md is missing' });
+    }
+    problems.push(...requirements?.problems ?? []);
+    const dependencies = requirements?.dependencies ?? [];
+    const { overview, owners: matrixOwners, coverageGaps } = requirements?.summary ?? summarizeRequirements('');
+
+    const metadata = readSpecMetadata(specPath);
+    const owners = [...new Set([...(metadata.owners ?? []), ...matrixOwners])];
+
+    // Explicit status from spec metadata takes precedence over heuristics
+    let status: string;
+    let statusSource: SpecInfo['statusSource'] = 'inferred';
+    const declaredStatus = metadata.status;
+    if (declaredStatus && workflow.statuses.some(s => s.id === declaredStatus)) {
+        status = declaredStatus;
+        statusSource = 'metadata';
+    } else {
+        // Fallback: determine status based on files and content
+        status = inferSpecStatus(hasDesign, taskProgress, workflow);
+    }
+
+    const documents = findSpecDocuments(specPath, documentTypes, dir => specIndex.listFiles(dir));
+    problems.push(...validateSpecDocuments(documentTypes, documents, workflow, status, file => {
+        try {
+            return specIndex.readFile(path.join(specPath, file));
+        } catch {
+            return undefined;
+        }
+    }));
+
+    return {
+        name,
+        path: specPath,
+        status: problems.length > 0 ? SpecStatus.Error : status,
+        statusSource,
+        hasRequirements,
+        hasDesign,
+        hasTasks,
+        taskProgress,
+        documents,
+        dependencies,
+        overview,
+        owners,
+        taskOwners,
+        coverageGaps,
+        problems: problems.length > 0 ? problems : undefined,
+    };
+}
+
+function parseTaskProgress(content: string): { completed: number; total: number } {
+    // Count only actual task checkboxes (with task IDs), not completion checklists
+    // Matches: - [ ] **Task 1.1:** Description or - [x] **Task 1.2:** Description
+    const taskPattern = /- \[([xX ])\]\s+\*\*Task\s+\d+(?:\.\d+)?(?:\.\d+)?:\*\*/g;
+    const matches = content.matchAll(taskPattern);
+
+    let completed = 0;
+    let total = 0;
+
+    for (const match of matches) {
+        total++;
+        if (match[1].toLowerCase() === 'x') {
+            completed++;
+        }
+    }
+
+    return { completed, total };
+}
+
 /** Tree item types for hierarchical display */
-type SpecTreeItemType = SpecTreeItem | WorkspaceFolderItem;
+type SpecTreeItemType =
+    | SpecTreeItem
+    | WorkspaceFolderItem
+    | SpecDependencyGroupItem
+    | SpecDependencyItem
+    | SpecOutlineItem
+    | SpecProblemItem
+    | SpecDocumentItem;
+
+type SpecFileType = 'requirements' | 'design' | 'tasks';
+
+const OUTLINE_PARSERS: Record<SpecFileType, (content: string) => OutlineNode[]> = {
+    requirements: parseRequirementsOutline,
+    design: parseDesignOutline,
+    tasks: parseTasksOutline,
+};
+
+/**
+ * Outline of a spec document (empty if the file can't be read).
+ */
+function readOutline(spec: SpecInfo, fileType: SpecFileType): OutlineNode[] {
+    const filePath = path.join(spec.path, `${fileType}.md`);
+    try {
+        return specIndex.parse(filePath, `outline-${fileType}`, OUTLINE_PARSERS[fileType]) ?? [];
+    } catch {
+        return [];
+    }
+}
 
 /**
  * Tree item for workspace/project folder in multi-root mode
@@ -66,6 +298,18 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
 
     private workspacePaths: Array<{ path: string; name: string; projectAlias?: string }> = [];
     private specs: SpecInfo[] = [];
+    // Dependency graph across all workspaces (not just the active project)
+    private dependencyGraph: DependencyGraph = { nodes: new Map(), edges: [], cycles: [] };
+    private allSpecs: SpecInfo[] = [];
+    // Spec workflow per workspace path (from .ldf/config.yaml)
+    private workflowsPerWorkspace: Map<string, SpecWorkflow> = new Map();
+    // Document types per workspace path (from .ldf/config.yaml and ldf.specDocuments)
+    private documentTypesPerWorkspace: Map<string, SpecDocumentType[]> = new Map();
+    // Last reported config error per workspace and section, to avoid repeating warnings on every refresh
+    private configErrors: Map<string, string> = new Map();
+    private filter: SpecFilter = EMPTY_SPEC_FILTER;
+    // git user.name / user.email, for the "owned by me" filter
+    private userIdentities: string[] = [];
 
     constructor(workspacePath: string | string[]) {
         this.setWorkspacePaths(workspacePath);
@@ -145,7 +389,7 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
             if (showFolderGrouping) {
                 // Filter out workspaces with no specs
                 const workspacesWithSpecs = this.workspacePaths.filter(ws =>
-                    this.specs.some(spec => spec.folderPath === ws.path)
+                    this.getFilteredSpecs().some(spec => spec.folderPath === ws.path)
                 );
                 return Promise.resolve(workspacesWithSpecs.map(ws =>
                     new WorkspaceFolderItem(ws.name, ws.path, ws.projectAlias)
@@ -160,9 +404,39 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
             return Promise.resolve(this.getSpecItemsForWorkspace(element.workspacePath));
         }
 
-        if (element instanceof SpecTreeItem && element.contextValue === 'spec') {
-            // Spec level - show files
-            return Promise.resolve(this.getSpecFileItems(element.specInfo!));
+        if (element instanceof SpecTreeItem && element.specInfo && !element.fileType) {
+            // Spec level - show problems, files and dependencies
+            return Promise.resolve([
+                ...(element.specInfo.problems ?? []).map(problem => new SpecProblemItem(problem, element.specInfo!)),
+                ...this.getSpecFileItems(element.specInfo!),
+                ...(element.specInfo.documents ?? []).map(found => new SpecDocumentItem(element.specInfo!, found)),
+                ...this.getDependencyGroupItems(element.specInfo!),
+            ]);
+        }
+
+        if (element instanceof SpecTreeItem && element.specInfo && element.fileType) {
+            // File level - show the document outline
+            const filePath = path.join(element.specInfo.path, `${element.fileType}.md`);
+            return Promise.resolve(
+                readOutline(element.specInfo, element.fileType).map(node => new SpecOutlineItem(node, filePath))
+            );
+        }
+
+        if (element instanceof SpecOutlineItem) {
+            return Promise.resolve(
+                element.node.children.map(node => new SpecOutlineItem(node, element.filePath))
+            );
+        }
+
+        if (element instanceof SpecDocumentItem && !element.filePath) {
+            // Document collection - one node per file
+            return Promise.resolve(
+                element.documentFiles.files.map(file => new SpecDocumentItem(element.specInfo, element.documentFiles, file))
+            );
+        }
+
+        if (element instanceof SpecDependencyGroupItem) {
+            return Promise.resolve(this.getDependencyItems(element));
         }
 
         return Promise.resolve([]);
@@ -181,7 +455,7 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
      * Get spec items for a specific workspace
      */
     private getSpecItemsForWorkspace(workspacePath: string): SpecTreeItem[] {
-        return this.specs
+        return this.getFilteredSpecs()
             .filter(spec => spec.folderPath === workspacePath)
             .map(spec => {
                 // Don't show folder name in hierarchical mode (already shown in parent)
@@ -189,15 +463,19 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
                 return new SpecTreeItem(
                     spec.name,
                     specForDisplay,
-                    vscode.TreeItemCollapsibleState.Collapsed
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    undefined,
+                    this.getWorkflow(spec.folderPath)
                 );
             });
     }
 
     private loadSpecs(): void {
         this.specs = [];
+        this.allSpecs = [];
         const config = vscode.workspace.getConfiguration('ldf');
         const specsPath = config.get('specsDirectory', '.ldf/specs');
+        const showArchived = config.get('showArchivedSpecs', false);
 
         // Filter to active project if one is selected
         const activeProject = getActiveProject();
@@ -207,41 +485,41 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
 
         const isMultiRoot = workspacesToLoad.length > 1;
 
-        for (const workspace of workspacesToLoad) {
-            const specsDir = path.join(workspace.path, specsPath);
-
-            if (!fs.existsSync(specsDir)) {
-                continue;
-            }
+        this.workflowsPerWorkspace.clear();
+        this.documentTypesPerWorkspace.clear();
 
-            const entries = fs.readdirSync(specsDir, { withFileTypes: true });
+        // Load every workspace so cross-project dependencies resolve even when
+        // the view is filtered to the active project
+        for (const workspace of this.workspacePaths) {
+            const isShown = workspacesToLoad.includes(workspace);
+            const workflow = this.loadWorkflow(workspace.path);
+            const documentTypes = this.loadDocumentTypes(workspace.path);
+            const specsDir = path.join(workspace.path, specsPath);
 
-            for (const entry of entries) {
-                if (entry.isDirectory()) {
-                    const specPath = path.join(specsDir, entry.name);
-                    const specInfo = this.parseSpec(entry.name, specPath);
-                    // Add folder context for multi-root workspaces
-                    if (isMultiRoot) {
-                        specInfo.folderName = workspace.name;
-                    }
-                    specInfo.folderPath = workspace.path;
+            for (const entry of listSpecDirs(specsDir, showArchived, dir => specIndex.listDirectories(dir))) {
+                const specInfo = loadSpecInfo(entry.name, entry.path, workflow, documentTypes);
+                if (entry.archived) {
+                    specInfo.archived = true;
+                }
+                // Add folder context for multi-root workspaces
+                if (isMultiRoot) {
+                    specInfo.folderName = workspace.name;
+                }
+                specInfo.folderPath = workspace.path;
+                this.allSpecs.push(specInfo);
+                if (isShown) {
                     this.specs.push(specInfo);
                 }
             }
         }
 
-        // Sort by status priority, then folder (if multi-root), then name
+        this.buildDependencyGraph();
+
+        // Sort active before archived, then by workflow status priority, folder (if multi-root) and name
         this.specs.sort((a, b) => {
-            const statusOrder = {
-                [SpecStatus.InProgress]: 0,
-                [SpecStatus.InReview]: 1,
-                [SpecStatus.Approved]: 2,
-                [SpecStatus.Draft]: 3,
-                [SpecStatus.Complete]: 4,
-                [SpecStatus.Error]: 5,
-            };
-            const orderA = statusOrder[a.status] ?? 99;
-            const orderB = statusOrder[b.status] ?? 99;
+            if (!!a.archived !== !!b.archived) return a.archived ? 1 : -1;
+            const orderA = getStatusOrder(this.getWorkflow(a.folderPath), a.status);
+            const orderB = getStatusOrder(this.getWorkflow(b.folderPath), b.status);
             if (orderA !== orderB) return orderA - orderB;
             // Group by folder in multi-root
             if (a.folderName && b.folderName && a.folderName !== b.folderName) {
@@ -251,88 +529,193 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
         });
     }
 
-    private parseSpec(name: string, specPath: string): SpecInfo {
-        const reqPath = path.join(specPath, 'requirements.md');
-        const designPath = path.join(specPath, 'design.md');
-        const tasksPath = path.join(specPath, 'tasks.md');
+    /**
+     * Resolve dependencies between all loaded specs and flag cycles and
+     * In Progress specs that depend on Draft specs.
+     */
+    private buildDependencyGraph(): void {
+        const nodes: DependencyNode[] = this.allSpecs.map(spec => ({
+            id: spec.path,
+            name: spec.name,
+            projectPath: spec.folderPath!,
+            status: spec.status,
+            dependencies: spec.dependencies ?? [],
+        }));
+        const projects = this.workspacePaths.map(ws => ({
+            path: ws.path,
+            names: ws.projectAlias ? [ws.name, ws.projectAlias] : [ws.name],
+        }));
+        this.dependencyGraph = buildDependencyGraph(nodes, projects);
+
+        const warnings = new Map<string, string[]>();
+        const addWarning = (id: string, message: string) => {
+            warnings.set(id, [...(warnings.get(id) ?? []), message]);
+        };
+        for (const cycle of this.dependencyGraph.cycles) {
+            const names = cycle.map(id => this.getNodeLabel(id));
+            const message = `Dependency cycle: ${[...names, names[0]].join(' → ')}`;
+            cycle.forEach(id => addWarning(id, message));
+        }
+        for (const conflict of findStatusConflicts(this.dependencyGraph)) {
+            addWarning(
+                conflict.spec,
+                `In Progress while dependency ${this.getNodeLabel(conflict.dependency)} is still Draft`
+            );
+        }
 
-        const hasRequirements = fs.existsSync(reqPath);
-        const hasDesign = fs.existsSync(designPath);
-        const hasTasks = fs.existsSync(tasksPath);
+        for (const spec of this.allSpecs) {
+            spec.dependencyWarnings = warnings.get(spec.path);
+        }
+    }
 
-        let status = SpecStatus.Draft;
-        let taskProgress: { completed: number; total: number } | undefined;
+    /**
+     * Display name for a graph node, qualified with its project in multi-project workspaces.
+     */
+    getNodeLabel(id: string): string {
+        const node = this.dependencyGraph.nodes.get(id);
+        if (!node) {
+            return path.basename(id);
+        }
+        if (this.workspacePaths.length <= 1) {
+            return node.name;
+        }
+        return `${this.getProjectName(node.projectPath)}:${node.name}`;
+    }
 
-        // Determine status based on files and content
-        if (hasTasks) {
-            const tasksContent = fs.readFileSync(tasksPath, 'utf-8');
-            taskProgress = this.parseTaskProgress(tasksContent);
+    /**
+     * Display name (alias or folder name) for a workspace path.
+     */
+    getProjectName(workspacePath: string): string {
+        const ws = this.workspacePaths.find(w => w.path === workspacePath);
+        return ws?.projectAlias || ws?.name || path.basename(workspacePath);
+    }
 
-            if (taskProgress.total > 0) {
-                if (taskProgress.completed === taskProgress.total) {
-                    status = SpecStatus.Complete;
-                } else if (taskProgress.completed > 0) {
-                    status = SpecStatus.InProgress;
-                } else {
-                    status = SpecStatus.Approved;
-                }
-            }
-        } else if (hasDesign) {
-            status = SpecStatus.InReview;
-        } else if (hasRequirements) {
-            status = SpecStatus.Draft;
-        }
-
-        return {
-            name,
-            path: specPath,
-            status,
-            hasRequirements,
-            hasDesign,
-            hasTasks,
-            taskProgress,
-        };
+    /**
+     * Get the dependency graph across all workspaces.
+     */
+    getDependencyGraph(): DependencyGraph {
+        return this.dependencyGraph;
     }
 
-    private parseTaskProgress(content: string): { completed: number; total: number } {
-        // Count only actual task checkboxes (with task IDs), not completion checklists
-        // Matches: - [ ] **Task 1.1:** Description or - [x] **Task 1.2:** Description
-        const taskPattern = /- \[([xX ])\]\s+\*\*Task\s+\d+(?:\.\d+)?(?:\.\d+)?:\*\*/g;
-        const matches = content.matchAll(taskPattern);
+    private getDependencyGroupItems(spec: SpecInfo): SpecDependencyGroupItem[] {
+        const items: SpecDependencyGroupItem[] = [];
+        const dependsOn = getDependencies(this.dependencyGraph, spec.path);
+        const requiredBy = getDependents(this.dependencyGraph, spec.path);
 
-        let completed = 0;
-        let total = 0;
+        if (dependsOn.length > 0) {
+            items.push(new SpecDependencyGroupItem(spec, 'dependsOn', dependsOn.length));
+        }
+        if (requiredBy.length > 0) {
+            items.push(new SpecDependencyGroupItem(spec, 'requiredBy', requiredBy.length));
+        }
+        return items;
+    }
 
-        for (const match of matches) {
-            total++;
-            if (match[1].toLowerCase() === 'x') {
-                completed++;
-            }
+    private getDependencyItems(group: SpecDependencyGroupItem): SpecDependencyItem[] {
+        const graph = this.dependencyGraph;
+        const related = group.direction === 'dependsOn'
+            ? getDependencies(graph, group.specInfo.path)
+            : getDependents(graph, group.specInfo.path);
+
+        return related.map(node => {
+            // Dependents open at the line that references this spec
+            const edge = group.direction === 'requiredBy'
+                ? graph.edges.find(e => e.from === node.id && e.to === group.specInfo.path)
+                : undefined;
+            const inCycle = getCycle(graph, node.id)?.includes(group.specInfo.path) ?? false;
+
+            return new SpecDependencyItem(
+                node,
+                node.projectPath !== group.specInfo.folderPath ? this.getProjectName(node.projectPath) : undefined,
+                this.getWorkflow(node.projectPath),
+                inCycle,
+                edge?.ref.line ?? 0
+            );
+        });
+    }
+
+    /**
+     * Load the spec workflow for a workspace, warning once per distinct config error.
+     */
+    private loadWorkflow(workspacePath: string): SpecWorkflow {
+        const { workflow, errors } = loadSpecWorkflow(workspacePath);
+        this.workflowsPerWorkspace.set(workspacePath, workflow);
+        this.reportConfigErrors(workspacePath, 'spec_workflow', errors);
+        return workflow;
+    }
+
+    /**
+     * Load the additional document types for a workspace, warning once per distinct config error.
+     */
+    private loadDocumentTypes(workspacePath: string): SpecDocumentType[] {
+        const setting = vscode.workspace.getConfiguration('ldf').get<unknown[]>('specDocuments', []);
+        const { documents, errors } = loadSpecDocuments(workspacePath, setting);
+        this.documentTypesPerWorkspace.set(workspacePath, documents);
+        this.reportConfigErrors(workspacePath, 'spec_documents', errors);
+        return documents;
+    }
+
+    private reportConfigErrors(workspacePath: string, section: string, errors: string[]): void {
+        const key = `${section}:${workspacePath}`;
+        const errorMessage = errors.join('; ');
+        if (errorMessage && this.configErrors.get(key) !== errorMessage) {
+            const wsDisplay = path.basename(workspacePath);
+            vscode.window
+                .showWarningMessage(`LDF: Invalid ${section} in ${wsDisplay}: ${errorMessage}`, 'Open config.yaml')
+                .then((action) => {
+                    if (action === 'Open config.yaml') {
+                        vscode.window.showTextDocument(
+                            vscode.Uri.file(path.join(workspacePath, PROJECT_CONFIG_FILE))
+                        );
+                    }
+                });
         }
+        this.configErrors.set(key, errorMessage);
+    }
 
-        return { completed, total };
+    /**
+     * Get the spec workflow for a workspace (default workflow if not loaded).
+     */
+    getWorkflow(workspacePath?: string): SpecWorkflow {
+        if (!workspacePath) {
+            return DEFAULT_WORKFLOW;
+        }
+        return this.workflowsPerWorkspace.get(workspacePath) ?? DEFAULT_WORKFLOW;
+    }
+
+    /**
+     * Get the additional document types declared for a workspace.
+     */
+    getDocumentTypes(workspacePath?: string): SpecDocumentType[] {
+        return (workspacePath && this.documentTypesPerWorkspace.get(workspacePath)) || [];
     }
 
     private getSpecItems(): SpecTreeItem[] {
-        return this.specs.map(
+        return this.getFilteredSpecs().map(
             (spec) =>
                 new SpecTreeItem(
                     spec.name,
                     spec,
-                    vscode.TreeItemCollapsibleState.Collapsed
+                    vscode.TreeItemCollapsibleState.Collapsed,
+                    undefined,
+                    this.getWorkflow(spec.folderPath)
                 )
         );
     }
 
     private getSpecFileItems(spec: SpecInfo): SpecTreeItem[] {
         const items: SpecTreeItem[] = [];
+        // File nodes expand into their outline when there is one
+        const collapsibleState = (fileType: SpecFileType) => readOutline(spec, fileType).length > 0
+            ? vscode.TreeItemCollapsibleState.Collapsed
+            : vscode.TreeItemCollapsibleState.None;
 
         if (spec.hasRequirements) {
             items.push(
                 new SpecTreeItem(
                     'Requirements',
                     spec,
-                    vscode.TreeItemCollapsibleState.None,
+                    collapsibleState('requirements'),
                     'requirements'
                 )
             );
@@ -343,7 +726,7 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
                 new SpecTreeItem(
                     'Design',
                     spec,
-                    vscode.TreeItemCollapsibleState.None,
+                    collapsibleState('design'),
                     'design'
                 )
             );
@@ -357,7 +740,7 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
                 new SpecTreeItem(
                     label,
                     spec,
-                    vscode.TreeItemCollapsibleState.None,
+                    collapsibleState('tasks'),
                     'tasks'
                 )
             );
@@ -366,10 +749,53 @@ export class SpecTreeProvider implements vscode.TreeDataProvider<SpecTreeItemTyp
         return items;
     }
 
+    /**
+     * Get the workspace (project) paths this provider loads specs from.
+     */
+    getWorkspacePaths(): string[] {
+        return this.workspacePaths.map(w => w.path);
+    }
+
     getSpecs(): SpecInfo[] {
         return this.specs;
     }
 
+    /**
+     * Specs shown in the view after applying the filter.
+     */
+    getFilteredSpecs(): SpecInfo[] {
+        return this.specs.filter(spec => matchesSpecFilter(spec, this.filter, this.userIdentities));
+    }
+
+    getFilter(): SpecFilter {
+        return this.filter;
+    }
+
+    setFilter(filter: SpecFilter): void {
+        this.filter = filter;
+        this._onDidChangeTreeData.fire();
+    }
+
+    /**
+     * Summary of the active filter, with status labels from the loaded workflows.
+     */
+    describeFilter(): string {
+        return describeSpecFilter(this.filter, status => {
+            const workflow = [...this.workflowsPerWorkspace.values()].find(w => getWorkflowStatus(w, status));
+            return getStatusLabel(workflow ?? DEFAULT_WORKFLOW, status);
+        });
+    }
+
+    /**
+     * Set the current user's identities (git user.name / user.email) for the "assigned to me" filter.
+     */
+    setUserIdentities(identities: string[]): void {
+        this.userIdentities = identities;
+        if (this.filter.ownedByMe) {
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
     getSpec(name: string): SpecInfo | undefined {
         return this.specs.find((s) => s.name === name);
     }
@@ -380,17 +806,26 @@ export class SpecTreeItem extends vscode.TreeItem {
         public readonly label: string,
         public readonly specInfo: SpecInfo | undefined,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly fileType?: 'requirements' | 'design' | 'tasks'
+        public readonly fileType?: SpecFileType,
+        workflow: SpecWorkflow = DEFAULT_WORKFLOW
     ) {
         super(label, collapsibleState);
 
         if (specInfo && !fileType) {
             // This is a spec node
-            this.contextValue = 'spec';
-            this.tooltip = this.getSpecTooltip(specInfo);
-            this.iconPath = this.getStatusIcon(specInfo.status);
+            this.contextValue = specInfo.archived ? 'spec-archived' : 'spec';
+            this.tooltip = this.getSpecTooltip(specInfo, workflow);
+            this.iconPath = specInfo.archived
+                ? new vscode.ThemeIcon('archive')
+                : this.getStatusIcon(specInfo.status, workflow);
             // Show folder prefix in multi-root workspaces
-            const statusDesc = this.getStatusDescription(specInfo);
+            let statusDesc = this.getStatusDescription(specInfo, workflow);
+            if (specInfo.dependencyWarnings?.length) {
+                statusDesc = `⚠ ${statusDesc}`;
+            }
+            if (specInfo.archived) {
+                statusDesc = `archived • ${statusDesc}`;
+            }
             if (specInfo.folderName) {
                 this.description = `${specInfo.folderName} • ${statusDesc}`;
             } else {
@@ -412,60 +847,227 @@ export class SpecTreeItem extends vscode.TreeItem {
         }
     }
 
-    private getSpecTooltip(spec: SpecInfo): string {
-        const parts = [`Status: ${spec.status}`];
+    private getSpecTooltip(spec: SpecInfo, workflow: SpecWorkflow): string {
+        const source = spec.statusSource === 'metadata' ? 'declared' : 'inferred from files';
+        const parts = [`Status: ${getStatusLabel(workflow, spec.status)} (${source})`];
+        if (spec.archived) {
+            parts.push('Archived');
+        }
         if (spec.taskProgress) {
             parts.push(
                 `Tasks: ${spec.taskProgress.completed}/${spec.taskProgress.total} complete`
             );
         }
+        if (spec.owners?.length) {
+            parts.push(`Owners: ${spec.owners.join(', ')}`);
+        }
+        for (const problem of spec.problems ?? []) {
+            const location = problem.line !== undefined ? `${problem.file}:${problem.line + 1}` : problem.file;
+            parts.push(`✖ ${location}: ${problem.message}`);
+        }
+        for (const warning of spec.dependencyWarnings ?? []) {
+            parts.push(`⚠ ${warning}`);
+        }
         return parts.join('\n');
     }
 
-    private getStatusIcon(status: SpecStatus): vscode.ThemeIcon {
-        switch (status) {
-            case SpecStatus.Complete:
-                return new vscode.ThemeIcon(
-                    'check-all',
-                    new vscode.ThemeColor('charts.green')
-                );
-            case SpecStatus.InProgress:
-                return new vscode.ThemeIcon(
-                    'sync~spin',
-                    new vscode.ThemeColor('charts.blue')
-                );
-            case SpecStatus.Approved:
-                return new vscode.ThemeIcon(
-                    'pass',
-                    new vscode.ThemeColor('charts.green')
-                );
-            case SpecStatus.InReview:
-                return new vscode.ThemeIcon(
-                    'eye',
-                    new vscode.ThemeColor('charts.yellow')
-                );
-            case SpecStatus.Draft:
-                return new vscode.ThemeIcon(
-                    'edit',
-                    new vscode.ThemeColor('charts.orange')
-                );
-            case SpecStatus.Error:
-                return new vscode.ThemeIcon(
-                    'error',
-                    new vscode.ThemeColor('charts.red')
-                );
-            default:
-                return new vscode.ThemeIcon('circle-outline');
+    private getStatusIcon(status: string, workflow: SpecWorkflow): vscode.ThemeIcon {
+        const workflowStatus = getWorkflowStatus(workflow, status);
+        if (!workflowStatus) {
+            return new vscode.ThemeIcon('circle-outline');
         }
+        return new vscode.ThemeIcon(
+            workflowStatus.icon,
+            workflowStatus.color ? new vscode.ThemeColor(workflowStatus.color) : undefined
+        );
     }
 
-    private getStatusDescription(spec: SpecInfo): string {
+    private getStatusDescription(spec: SpecInfo, workflow: SpecWorkflow): string {
+        if (spec.problems?.length) {
+            const count = spec.problems.length;
+            return `${getStatusLabel(workflow, spec.status)} (${count} problem${count === 1 ? '' : 's'})`;
+        }
         if (spec.taskProgress && spec.taskProgress.total > 0) {
             const pct = Math.round(
                 (spec.taskProgress.completed / spec.taskProgress.total) * 100
             );
             return `${pct}%`;
         }
-        return spec.status;
+        return getStatusLabel(workflow, spec.status);
+    }
+}
+
+/**
+ * "Depends on" / "Required by" group under a spec node
+ */
+export class SpecDependencyGroupItem extends vscode.TreeItem {
+    constructor(
+        public readonly specInfo: SpecInfo,
+        public readonly direction: 'dependsOn' | 'requiredBy',
+        count: number
+    ) {
+        super(direction === 'dependsOn' ? 'Depends on' : 'Required by', vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = 'spec-dependency-group';
+        this.description = String(count);
+        this.iconPath = new vscode.ThemeIcon(direction === 'dependsOn' ? 'arrow-small-right' : 'arrow-small-left');
+    }
+}
+
+/**
+ * A related spec in a dependency group; opens its requirements.md
+ */
+export class SpecDependencyItem extends vscode.TreeItem {
+    constructor(
+        public readonly node: DependencyNode,
+        projectName: string | undefined,
+        workflow: SpecWorkflow,
+        inCycle: boolean,
+        line: number
+    ) {
+        super(node.name, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'spec-dependency';
+
+        const statusLabel = getStatusLabel(workflow, node.status);
+        this.description = projectName ? `${projectName} • ${statusLabel}` : statusLabel;
+
+        const workflowStatus = getWorkflowStatus(workflow, node.status);
+        if (inCycle) {
+            this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+            this.tooltip = 'Part of a dependency cycle';
+        } else if (workflowStatus) {
+            this.iconPath = new vscode.ThemeIcon(
+                workflowStatus.icon,
+                workflowStatus.color ? new vscode.ThemeColor(workflowStatus.color) : undefined
+            );
+        }
+
+        const position = new vscode.Position(line, 0);
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open Requirements',
+            arguments: [
+                vscode.Uri.file(path.join(node.id, 'requirements.md')),
+                { selection: new vscode.Range(position, position) },
+            ],
+        };
+    }
+}
+
+/**
+ * A user story, acceptance criterion, design section, phase or task under a
+ * spec file node; opens the file at its line
+ */
+export class SpecOutlineItem extends vscode.TreeItem {
+    constructor(
+        public readonly node: OutlineNode,
+        public readonly filePath: string
+    ) {
+        super(
+            node.label,
+            node.children.length > 0
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+        this.contextValue = `spec-outline-${node.kind}`;
+        this.description = node.description;
+        this.tooltip = node.description ? `${node.label}: ${node.description}` : node.label;
+        this.iconPath = SpecOutlineItem.getIcon(node);
+
+        const position = new vscode.Position(node.line, 0);
+        this.command = {
+            command: 'vscode.open',
+            title: 'Go to Line',
+            arguments: [
+                vscode.Uri.file(filePath),
+                { selection: new vscode.Range(position, position) },
+            ],
+        };
+    }
+
+    private static getIcon(node: OutlineNode): vscode.ThemeIcon {
+        if (node.checked !== undefined) {
+            return node.checked
+                ? new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed'))
+                : new vscode.ThemeIcon('circle-large-outline');
+        }
+        switch (node.kind) {
+            case 'story':
+                return new vscode.ThemeIcon('account');
+            case 'phase':
+                return new vscode.ThemeIcon('list-ordered');
+            case 'criterion':
+                return new vscode.ThemeIcon('checklist');
+            default:
+                return new vscode.ThemeIcon('symbol-structure');
+        }
+    }
+}
+
+/**
+ * A validation problem under a spec in the Error state; opens the file at the problem
+ */
+export class SpecProblemItem extends vscode.TreeItem {
+    constructor(
+        public readonly problem: SpecProblem,
+        specInfo: SpecInfo
+    ) {
+        super(problem.message, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'spec-problem';
+        this.description = problem.line !== undefined ? `${problem.file}:${problem.line + 1}` : problem.file;
+        this.tooltip = `${this.description}: ${problem.message}`;
+        this.iconPath = new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+
+        const filePath = path.join(specInfo.path, problem.file);
+        if (specIndex.exists(filePath)) {
+            const position = new vscode.Position(problem.line ?? 0, 0);
+            this.command = {
+                command: 'vscode.open',
+                title: 'Go to Problem',
+                arguments: [
+                    vscode.Uri.file(filePath),
+                    { selection: new vscode.Range(position, position) },
+                ],
+            };
+        }
+    }
+}
+
+/**
+ * An additional spec document (see specDocuments.ts). Collections (e.g.
+ * adr/*.md) are a group node listing one node per file.
+ */
+export class SpecDocumentItem extends vscode.TreeItem {
+    /** Absolute path of the document; undefined for a collection group */
+    public readonly filePath?: string;
+
+    constructor(
+        public readonly specInfo: SpecInfo,
+        public readonly documentFiles: SpecDocumentFiles,
+        file?: string
+    ) {
+        const { type, files } = documentFiles;
+        const isGroup = isCollection(type) && file === undefined;
+        super(
+            isGroup ? type.label : file && isCollection(type) ? path.basename(file, '.md') : type.label,
+            isGroup ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        this.iconPath = new vscode.ThemeIcon(isGroup || !isCollection(type) ? type.icon : 'file');
+
+        if (isGroup) {
+            this.contextValue = 'spec-document-group';
+            this.description = String(files.length);
+            this.tooltip = type.file;
+            return;
+        }
+
+        const relative = file ?? files[0];
+        this.filePath = path.join(specInfo.path, relative);
+        this.contextValue = 'spec-document';
+        this.tooltip = relative;
+        this.command = {
+            command: 'vscode.open',
+            title: 'Open File',
+            arguments: [vscode.Uri.file(this.filePath)],
+        };
     }
 }
@@ -0,0 +1,275 @@
+/**
+ * Spec status workflow
+ *
+ * Projects can declare their own spec lifecycle in .ldf/config.yaml:
+ *
+ *   spec_workflow:
+ *     statuses:
+ *       - id: draft
+ *         label: Draft
+ *         icon: edit
+ *         color: charts.orange
+ *         order: 3
+ *       - id: blocked
+ *         label: Blocked
+ *         icon: circle-slash
+ *         color: charts.red
+ *         order: 0
+ *     transitions:
+ *       draft: [in-review, blocked]
+ *       blocked: [draft]
+ *
+ * Statuses are listed in lifecycle order; `order` controls sort priority in
+ * the tree. Without `transitions`, any status may move to any other.
+ * Projects without a spec_workflow section use DEFAULT_WORKFLOW.
+ */
+
+import { readProjectConfig } from './projectConfig';
+import { normalizeStatusId } from './specMetadata';
+
+/**
+ * A status declared by the workflow.
+ */
+export interface WorkflowStatus {
+    /** Normalized id stored in spec metadata (e.g. 'in-review') */
+    id: string;
+    /** Display label */
+    label: string;
+    /** Codicon name (without $()) */
+    icon: string;
+    /** Theme color id (e.g. 'charts.green') */
+    color?: string;
+    /** Sort priority in the Specs view (lower sorts first) */
+    order: number;
+}
+
+/**
+ * A project's spec lifecycle.
+ */
+export interface SpecWorkflow {
+    /** Statuses in lifecycle order */
+    statuses: WorkflowStatus[];
+    /** Allowed transitions by source status id; null allows any transition */
+    transitions: Record<string, string[]> | null;
+}
+
+/** Reserved status for specs that fail validation; never declared by a workflow */
+export const ERROR_STATUS: WorkflowStatus = {
+    id: 'error',
+    label: 'Error',
+    icon: 'error',
+    color: 'charts.red',
+    order: Number.MAX_SAFE_INTEGER - 1,
+};
+
+/** Built-in lifecycle used when config.yaml declares no spec_workflow */
+export const DEFAULT_WORKFLOW: SpecWorkflow = {
+    statuses: [
+        { id: 'draft', label: 'Draft', icon: 'edit', color: 'charts.orange', order: 3 },
+        { id: 'in-review', label: 'In Review', icon: 'eye', color: 'charts.yellow', order: 1 },
+        { id: 'approved', label: 'Approved', icon: 'pass', color: 'charts.green', order: 2 },
+        { id: 'in-progress', label: 'In Progress', icon: 'sync~spin', color: 'charts.blue', order: 0 },
+        { id: 'complete', label: 'Complete', icon: 'check-all', color: 'charts.green', order: 4 },
+    ],
+    transitions: null,
+};
+
+/**
+ * Parse the spec_workflow section of config.yaml.
+ * Invalid entries are skipped and reported in `errors`; if no valid statuses
+ * remain, the default workflow is returned.
+ */
+export function parseWorkflowConfig(data: unknown): { workflow: SpecWorkflow; errors: string[] } {
+    const errors: string[] = [];
+
+    if (data === undefined || data === null) {
+        return { workflow: DEFAULT_WORKFLOW, errors };
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+        return { workflow: DEFAULT_WORKFLOW, errors: ['spec_workflow must be an object'] };
+    }
+
+    const section = data as Record<string, unknown>;
+    if (!Array.isArray(section.statuses)) {
+        return { workflow: DEFAULT_WORKFLOW, errors: ['spec_workflow.statuses must be an array'] };
+    }
+
+    const statuses: WorkflowStatus[] = [];
+    section.statuses.forEach((entry: unknown, i) => {
+        // Shorthand: "- Blocked"
+        if (typeof entry === 'string') {
+            entry = { id: entry, label: entry };
+        }
+        if (typeof entry !== 'object' || entry === null) {
+            errors.push(`spec_workflow.statuses[${i}] must be an object or string`);
+            return;
+        }
+        const raw = entry as Record<string, unknown>;
+        if (typeof raw.id !== 'string' || !raw.id.trim()) {
+            errors.push(`spec_workflow.statuses[${i}].id must be a string`);
+            return;
+        }
+        const id = normalizeStatusId(raw.id);
+        if (id === ERROR_STATUS.id) {
+            errors.push(`spec_workflow.statuses[${i}]: '${ERROR_STATUS.id}' is reserved`);
+            return;
+        }
+        if (statuses.some(s => s.id === id)) {
+            errors.push(`spec_workflow.statuses[${i}]: duplicate status '${id}'`);
+            return;
+        }
+        const status = createStatus(id, typeof raw.label === 'string' ? raw.label : raw.id, i);
+        if (typeof raw.icon === 'string') status.icon = raw.icon;
+        if (typeof raw.color === 'string') status.color = raw.color;
+        if (typeof raw.order === 'number') status.order = raw.order;
+        statuses.push(status);
+    });
+
+    if (statuses.length === 0) {
+        errors.push('spec_workflow declares no valid statuses');
+        return { workflow: DEFAULT_WORKFLOW, errors };
+    }
+
+    let transitions: Record<string, string[]> | null = null;
+    if (section.transitions !== undefined) {
+        if (typeof section.transitions !== 'object' || section.transitions === null || Array.isArray(section.transitions)) {
+            errors.push('spec_workflow.transitions must be an object');
+        } else {
+            transitions = {};
+            const known = new Set(statuses.map(s => s.id));
+            for (const [from, targets] of Object.entries(section.transitions as Record<string, unknown>)) {
+                const fromId = normalizeStatusId(from);
+                if (!known.has(fromId)) {
+                    errors.push(`spec_workflow.transitions: unknown status '${from}'`);
+                    continue;
+                }
+                if (!Array.isArray(targets)) {
+                    errors.push(`spec_workflow.transitions.${from} must be an array`);
+                    continue;
+                }
+                transitions[fromId] = [];
+                for (const target of targets) {
+                    const toId = typeof target === 'string' ? normalizeStatusId(target) : '';
+                    if (!known.has(toId)) {
+                        errors.push(`spec_workflow.transitions.${from}: unknown status '${target}'`);
+                        continue;
+                    }
+                    transitions[fromId].push(toId);
+                }
+            }
+        }
+    }
+
+    return { workflow: { statuses, transitions }, errors };
+}
+
+function createStatus(id: string, label: string, index: number): WorkflowStatus {
+    const builtin = DEFAULT_WORKFLOW.statuses.find(s => s.id === id);
+    return {
+        id,
+        label,
+        icon: builtin?.icon ?? 'circle-outline',
+        color: builtin?.color,
+        order: builtin?.order ?? index,
+    };
+}
+
+/**
+ * Load the spec workflow for a project from its config.yaml.
+ */
+export function loadSpecWorkflow(projectPath: string): { workflow: SpecWorkflow; errors: string[] } {
+    const config = readProjectConfig(projectPath);
+    if (config.error) {
+        return { workflow: DEFAULT_WORKFLOW, errors: [`config.yaml: ${config.error}`] };
+    }
+    return parseWorkflowConfig(config.data.spec_workflow);
+}
+
+/**
+ * Look up a status by id, including the reserved Error status.
+ */
+export function getWorkflowStatus(workflow: SpecWorkflow, id: string): WorkflowStatus | undefined {
+    if (id === ERROR_STATUS.id) {
+        return ERROR_STATUS;
+    }
+    return workflow.statuses.find(s => s.id === id);
+}
+
+/**
+ * Display label for a status id (falls back to the raw id for unknown statuses).
+ */
+export function getStatusLabel(workflow: SpecWorkflow, id: string): string {
+    return getWorkflowStatus(workflow, id)?.label ?? id;
+}
+
+/**
+ * Sort priority for a status id. Unknown statuses sort last.
+ */
+export function getStatusOrder(workflow: SpecWorkflow, id: string): number {
+    return getWorkflowStatus(workflow, id)?.order ?? Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Whether a spec may move from one status to another.
+ * Specs in the Error state (or an unknown state) may move to any declared status.
+ */
+export function canTransition(workflow: SpecWorkflow, from: string, to: string): boolean {
+    if (from === to || !workflow.statuses.some(s => s.id === to)) {
+        return false;
+    }
+    if (!workflow.transitions || !workflow.statuses.some(s => s.id === from)) {
+        return true;
+    }
+    return (workflow.transitions[from] ?? []).includes(to);
+}
+
+/**
+ * Statuses a spec may move to from its current status, in lifecycle order.
+ */
+export function getAllowedTransitions(workflow: SpecWorkflow, from: string): WorkflowStatus[] {
+    return workflow.statuses.filter(s => canTransition(workflow, from, s.id));
+}
+
+/**
+ * The next allowed status after `from` in lifecycle order, if any.
+ */
+export function getNextStatus(workflow: SpecWorkflow, from: string): WorkflowStatus | undefined {
+    const index = workflow.statuses.findIndex(s => s.id === from);
+    return workflow.statuses
+        .slice(index + 1)
+        .find(s => canTransition(workflow, from, s.id));
+}
+
+/**
+ * Status from the file-existence heuristic, for specs without a declared status:
+ * task progress decides between Approved, In Progress and Complete; otherwise
+ * design.md means In Review. Specs with an empty tasks.md stay Draft.
+ *
+ * Workflows without the built-in status get the status at the same relative
+ * position of their lifecycle, rounded down so that only Complete maps to the
+ * last status.
+ * @param taskProgress Task counts, when the spec has a tasks.md
+ */
+export function inferSpecStatus(
+    hasDesign: boolean,
+    taskProgress?: { completed: number; total: number },
+    workflow: SpecWorkflow = DEFAULT_WORKFLOW
+): string {
+    let id: string;
+    if (taskProgress && taskProgress.total > 0) {
+        if (taskProgress.completed === taskProgress.total) {
+            id = 'complete';
+        } else {
+            id = taskProgress.completed > 0 ? 'in-progress' : 'approved';
+        }
+    } else {
+        id = hasDesign && !taskProgress ? 'in-review' : 'draft';
+    }
+    if (workflow.statuses.some(s => s.id === id)) {
+        return id;
+    }
+
+    const builtin = DEFAULT_WORKFLOW.statuses;
+    const position = builtin.findIndex(s => s.id === id) / (builtin.length - 1);
+    return workflow.statuses[Math.floor(position * (workflow.statuses.length - 1))].id;
+}
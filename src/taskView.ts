@@ -5,14 +5,25 @@
  * - Shows "next up" task at top (first incomplete per spec)
  * - Groups by spec
  * - Allows marking tasks complete
+ * - Hides tasks of archived specs unless ldf.showArchivedSpecs is set
+ * - Can be narrowed to the tasks assigned to the current git user (`@name`
+ *   mentions in the task line)
  */
 
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { parseTasksContent, markTaskInContent } from './utils';
+import { parseTasksContent, markTaskInContent, ParsedTask } from './utils';
 import { detectWorkspaceContext, resolveProjects, getProjectDisplayName } from './workspace';
 import { getActiveProject } from './extension';
+import { readSpecMetadata } from './specMetadata';
+import { loadSpecWorkflow, getWorkflowStatus, WorkflowStatus } from './specWorkflow';
+import { listSpecDirs, getSpecDir } from './specArchive';
+import { specIndex } from './specIndex';
+import { isOwnedBy } from './specFilter';
+
+// workspaceState key for the persisted "assigned to me" filter
+export const TASKS_ASSIGNED_TO_ME_STATE_KEY = 'ldf.tasksAssignedToMe';
 
 export interface TaskInfo {
     id: string;
@@ -20,6 +31,9 @@ export interface TaskInfo {
     title: string;
     status: 'pending' | 'next' | 'complete';
     line: number; // Line number in tasks.md for editing
+    owners?: string[];  // `@name` mentions in the task line
+    specStatus?: WorkflowStatus;  // Declared status of the owning spec, from the project workflow
+    archived?: boolean;   // Owning spec is archived
     folderName?: string;  // For multi-root workspace display
     folderPath?: string;  // Workspace folder this task belongs to
 }
@@ -107,6 +121,10 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
     private tasks: TaskInfo[] = [];
     private workspacePaths: Array<{ path: string; name: string; projectAlias?: string }> = [];
 
+    // "Assigned to me": only tasks mentioning the git user
+    private assignedToMe = false;
+    private userIdentities: string[] = [];
+
     constructor(workspacePath: string | string[]) {
         this.setWorkspacePaths(workspacePath);
     }
@@ -188,7 +206,7 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
             if (showFolderGrouping) {
                 // Multi-root: filter out workspaces with no tasks
                 const workspacesWithTasks = this.workspacePaths.filter(ws =>
-                    this.tasks.some(task => task.folderPath === ws.path)
+                    this.getVisibleTasks().some(task => task.folderPath === ws.path)
                 );
                 return Promise.resolve(workspacesWithTasks.map(ws =>
                     new WorkspaceFolderItem(ws.name, ws.path, ws.projectAlias)
@@ -226,8 +244,8 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
      * Get section header items for single-root display
      */
     private getSectionItems(): TaskTreeItemType[] {
-        const currentTasks = this.tasks.filter(t => t.status !== 'complete');
-        const completedTasks = this.tasks.filter(t => t.status === 'complete');
+        const currentTasks = this.getVisibleTasks().filter(t => t.status !== 'complete');
+        const completedTasks = this.getVisibleTasks().filter(t => t.status === 'complete');
 
         const items: TaskTreeItemType[] = [];
 
@@ -246,7 +264,7 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
      * Get section header items for a specific workspace
      */
     private getSectionItemsForWorkspace(workspacePath: string): TaskTreeItemType[] {
-        const workspaceTasks = this.tasks.filter(t => t.folderPath === workspacePath);
+        const workspaceTasks = this.getVisibleTasks().filter(t => t.folderPath === workspacePath);
         const currentTasks = workspaceTasks.filter(t => t.status !== 'complete');
         const completedTasks = workspaceTasks.filter(t => t.status === 'complete');
 
@@ -279,7 +297,7 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
      * @param showCompleted If true (and includeAll is false), show only completed; otherwise show only pending/next
      */
     private getTaskItemsForWorkspace(workspacePath: string, includeAll: boolean = false, showCompleted: boolean = false): TaskTreeItem[] {
-        let workspaceTasks = this.tasks.filter(task => task.folderPath === workspacePath);
+        let workspaceTasks = this.getVisibleTasks().filter(task => task.folderPath === workspacePath);
 
         if (!includeAll) {
             workspaceTasks = workspaceTasks.filter(task =>
@@ -288,7 +306,7 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
         }
 
         if (workspaceTasks.length === 0) {
-            const message = showCompleted ? 'No completed tasks' : 'No tasks found';
+            const message = showCompleted ? 'No completed tasks' : this.assignedToMe ? 'No tasks assigned to you' : 'No tasks found';
             return [
                 new TaskTreeItem({
                     id: 'no-tasks',
@@ -313,6 +331,7 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
 
         const config = vscode.workspace.getConfiguration('ldf');
         const specsPath = config.get('specsDirectory', '.ldf/specs');
+        const showArchived = config.get('showArchivedSpecs', false);
         const perWorkspaceLimit = 50;
 
         // Filter to active project if one is selected
@@ -326,23 +345,24 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
         for (const workspace of workspacesToLoad) {
             const specsDir = path.join(workspace.path, specsPath);
 
-            if (!fs.existsSync(specsDir)) {
-                continue;
-            }
-
-            const specs = fs.readdirSync(specsDir, { withFileTypes: true })
-                .filter((d) => d.isDirectory())
-                .map((d) => d.name);
+            const specs = listSpecDirs(specsDir, showArchived, dir => specIndex.listDirectories(dir));
 
             const workspaceTasks: TaskInfo[] = [];
-
-            for (const specName of specs) {
-                const tasksPath = path.join(specsDir, specName, 'tasks.md');
-                if (fs.existsSync(tasksPath)) {
-                    const content = fs.readFileSync(tasksPath, 'utf-8');
-                    const specTasks = this.parseTasksFile(specName, content, workspace.path);
+            const { workflow } = loadSpecWorkflow(workspace.path);
+
+            for (const spec of specs) {
+                const tasksPath = path.join(spec.path, 'tasks.md');
+                const parsed = specIndex.parse(tasksPath, 'tasks', content => parseTasksContent(spec.name, content));
+                if (parsed) {
+                    const specTasks = this.toTaskInfos(parsed, workspace.path);
+                    const declaredStatus = readSpecMetadata(spec.path).status;
+                    const specStatus = declaredStatus ? getWorkflowStatus(workflow, declaredStatus) : undefined;
                     // Add folder context for multi-root workspaces
                     for (const task of specTasks) {
+                        task.specStatus = specStatus;
+                        if (spec.archived) {
+                            task.archived = true;
+                        }
                         if (isMultiRoot) {
                             task.folderName = workspace.name;
                         }
@@ -376,15 +396,14 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
         });
     }
 
-    private parseTasksFile(specName: string, content: string, folderPath: string): TaskInfo[] {
-        const parsed = parseTasksContent(specName, content);
-
+    private toTaskInfos(parsed: ParsedTask[], folderPath: string): TaskInfo[] {
         const tasks: TaskInfo[] = parsed.map((p) => ({
             id: p.id,
             specName: p.specName,
             title: `${p.taskNumber}: ${p.title}`,
             status: p.isComplete ? 'complete' : 'pending' as const,
             line: p.line,
+            owners: p.owners,
             folderPath: folderPath,
         }));
 
@@ -406,16 +425,16 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
      * @param showCompleted If true (and includeAll is false), show only completed; otherwise show only pending/next
      */
     private getTaskItems(includeAll: boolean = false, showCompleted: boolean = false): TaskTreeItem[] {
-        let filteredTasks = this.tasks;
+        let filteredTasks = this.getVisibleTasks();
 
         if (!includeAll) {
-            filteredTasks = this.tasks.filter(t =>
+            filteredTasks = this.getVisibleTasks().filter(t =>
                 showCompleted ? t.status === 'complete' : t.status !== 'complete'
             );
         }
 
         if (filteredTasks.length === 0) {
-            const message = showCompleted ? 'No completed tasks' : 'No tasks found';
+            const message = showCompleted ? 'No completed tasks' : this.assignedToMe ? 'No tasks assigned to you' : 'No tasks found';
             return [
                 new TaskTreeItem({
                     id: 'no-tasks',
@@ -435,6 +454,37 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
         return this.tasks;
     }
 
+    /**
+     * Show only the tasks assigned to the current user.
+     */
+    setAssignedToMe(assignedToMe: boolean): void {
+        this.assignedToMe = assignedToMe;
+        this._onDidChangeTreeData.fire();
+    }
+
+    isAssignedToMe(): boolean {
+        return this.assignedToMe;
+    }
+
+    /**
+     * Set the current user's identities (git user.name / user.email) for the "assigned to me" filter.
+     */
+    setUserIdentities(identities: string[]): void {
+        this.userIdentities = identities;
+        if (this.assignedToMe) {
+            this._onDidChangeTreeData.fire();
+        }
+    }
+
+    /**
+     * Tasks shown in the view (all tasks, or those assigned to the current user).
+     */
+    private getVisibleTasks(): TaskInfo[] {
+        return this.assignedToMe
+            ? this.tasks.filter(task => isOwnedBy(task.owners ?? [], this.userIdentities))
+            : this.tasks;
+    }
+
     getTask(id: string): TaskInfo | undefined {
         return this.tasks.find((t) => t.id === id);
     }
@@ -456,17 +506,18 @@ export class TaskTreeProvider implements vscode.TreeDataProvider<TaskTreeItemTyp
             task.folderPath,
             config.get('specsDirectory', '.ldf/specs')
         );
-        const tasksPath = path.join(specsDir, specName, 'tasks.md');
-
-        if (!fs.existsSync(tasksPath)) return false;
+        const tasksPath = path.join(getSpecDir(specsDir, specName, task.archived), 'tasks.md');
 
-        // Re-read the file fresh to avoid stale line numbers
-        const content = fs.readFileSync(tasksPath, 'utf-8');
+        // Re-read the file through the index to avoid stale line numbers
+        await specIndex.update([tasksPath]);
+        const content = specIndex.readFile(tasksPath);
+        if (content === undefined) return false;
 
         // Use utility function to mark task complete
         const updatedContent = markTaskInContent(content, taskNumber);
         if (updatedContent) {
-            fs.writeFileSync(tasksPath, updatedContent, 'utf-8');
+            await fs.promises.writeFile(tasksPath, updatedContent, 'utf-8');
+            await specIndex.update([tasksPath]);
             this.refresh();
             return true;
         }
@@ -496,6 +547,9 @@ export class TaskTreeItem extends vscode.TreeItem {
         } else {
             this.description = taskInfo.specName;
         }
+        if (taskInfo.archived) {
+            this.description = `${this.description} (archived)`;
+        }
 
         if (taskInfo.status === 'next') {
             this.iconPath = new vscode.ThemeIcon(
@@ -514,15 +568,18 @@ export class TaskTreeItem extends vscode.TreeItem {
             this.tooltip = 'Pending';
         }
 
+        // Show the spec's declared workflow status alongside the task state
+        if (taskInfo.specStatus) {
+            this.tooltip = `${this.tooltip}\nSpec status: ${taskInfo.specStatus.label}`;
+        }
+
         // Click to open tasks.md at the task line
         if (taskInfo.line > 0 && taskInfo.specName && taskInfo.folderPath) {
             const config = vscode.workspace.getConfiguration('ldf');
             const specsDir = config.get('specsDirectory', '.ldf/specs');
 
             const tasksPath = path.join(
-                taskInfo.folderPath,
-                specsDir,
-                taskInfo.specName,
+                getSpecDir(path.join(taskInfo.folderPath, specsDir), taskInfo.specName, taskInfo.archived),
                 'tasks.md'
             );
             this.command = {
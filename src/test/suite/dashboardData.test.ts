@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import type { SpecInfo } from '../../specView';
+import type { GuardrailCoverage } from '../../guardrailView';
+import type { TaskInfo } from '../../taskView';
+import { buildDashboardData } from '../../dashboardData';
+import { DEFAULT_WORKFLOW } from '../../specWorkflow';
+
+function spec(name: string, status: string, completed = 0, total = 0): SpecInfo {
+    return {
+        name,
+        path: `/app/.ldf/specs/${name}`,
+        status,
+        statusSource: 'inferred',
+        hasRequirements: true,
+        hasDesign: total > 0,
+        hasTasks: total > 0,
+        taskProgress: total > 0 ? { completed, total } : undefined,
+        folderPath: '/app',
+    };
+}
+
+function coverage(id: number, name: string, specs: Array<[string, 'done' | 'todo' | 'partial' | 'n/a']>): GuardrailCoverage {
+    return {
+        guardrail: { id, name, description: '', severity: 'high', enabled: true },
+        coveredBy: specs.filter(([, s]) => s === 'done').map(([n]) => n),
+        specCoverage: specs.map(([specName, status]) => ({ specName, status })),
+        status: specs.every(([, s]) => s === 'done') ? 'covered' : 'partial',
+        justifications: [],
+    };
+}
+
+function task(specName: string, line: number, status: TaskInfo['status']): TaskInfo {
+    return { id: `${specName}:${line}`, specName, title: `Task ${line}`, status, line, folderPath: '/app' };
+}
+
+suite('Dashboard Data Test Suite', () => {
+    const getWorkflow = () => DEFAULT_WORKFLOW;
+
+    test('should summarize spec progress and totals', () => {
+        const data = buildDashboardData(
+            [spec('auth', 'in-progress', 2, 4), spec('search', 'draft')],
+            getWorkflow,
+            [coverage(1, 'Testing', [['auth', 'done']]), coverage(2, 'Security', [['auth', 'todo']])],
+            []
+        );
+
+        assert.strictEqual(data.specs[0].statusLabel, 'In Progress');
+        assert.strictEqual(data.specs[0].color, 'charts.blue');
+        assert.deepStrictEqual(data.totals, {
+            specs: 2,
+            tasksCompleted: 2,
+            tasksTotal: 4,
+            guardrailsCovered: 1,
+            guardrails: 2,
+        });
+    });
+
+    test('should count statuses in workflow order', () => {
+        const data = buildDashboardData(
+            [spec('a', 'draft'), spec('b', 'complete'), spec('c', 'draft'), spec('d', 'in-progress')],
+            getWorkflow,
+            [],
+            []
+        );
+        assert.deepStrictEqual(
+            data.statusCounts.map(c => [c.id, c.count]),
+            [['in-progress', 1], ['draft', 2], ['complete', 1]]
+        );
+    });
+
+    test('should build a guardrail by spec heatmap', () => {
+        const data = buildDashboardData([], getWorkflow, [
+            coverage(1, 'Testing', [['search', 'partial'], ['auth', 'done']]),
+            coverage(2, 'Security', [['auth', 'n/a']]),
+        ], []);
+
+        assert.deepStrictEqual(data.heatmap.specs, ['auth', 'search']);
+        assert.deepStrictEqual(data.heatmap.rows[0].cells, ['done', 'partial']);
+        assert.deepStrictEqual(data.heatmap.rows[1].cells, ['n/a', null]);
+    });
+
+    test('should list the first open task of each spec', () => {
+        const data = buildDashboardData([], getWorkflow, [], [
+            task('search', 9, 'pending'),
+            task('auth', 5, 'complete'),
+            task('auth', 7, 'pending'),
+            task('search', 4, 'pending'),
+            task('done', 3, 'complete'),
+        ]);
+
+        assert.deepStrictEqual(data.nextTasks.map(t => t.id), ['auth:7', 'search:4']);
+    });
+});
@@ -10,6 +10,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { GuardrailTreeProvider } from '../../guardrailView';
+import { specIndex } from '../../specIndex';
 
 // Test helper functions
 function createTempDir(): string {
@@ -55,6 +56,11 @@ function createSpecWithGuardrailCoverage(
     fs.writeFileSync(path.join(specDir, 'requirements.md'), content);
 }
 
+// The providers read spec files from the spec index only
+async function loadSpecIndex(...projectDirs: string[]): Promise<void> {
+    await specIndex.update(projectDirs.map(dir => path.join(dir, '.ldf', 'specs')));
+}
+
 function cleanupDir(dir: string): void {
     if (fs.existsSync(dir)) {
         fs.rmSync(dir, { recursive: true, force: true });
@@ -129,12 +135,13 @@ suite('Multi-Root Duplicate Basename Tests', () => {
             assert.ok(guardrailIds.includes(14), 'Should have Fintech guardrail 14 (Double-Entry)');
         });
 
-        test('should maintain separate coverage per workspace with same basename', () => {
+        test('should maintain separate coverage per workspace with same basename', async () => {
             // Create specs with different coverage in each workspace
             createSpecWithGuardrailCoverage(projectA, 'feature-x', 1, 'DONE');
             createSpecWithGuardrailCoverage(projectB, 'feature-y', 1, 'TODO');
 
             const provider = new GuardrailTreeProvider([projectA, projectB]);
+            await loadSpecIndex(projectA, projectB);
             provider.refresh();
 
             const coverage = provider.getCoverage();
@@ -6,9 +6,10 @@ import * as assert from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { SpecTreeProvider } from '../../specView';
+import { SpecTreeProvider, WorkspaceFolderItem } from '../../specView';
 import { GuardrailTreeProvider } from '../../guardrailView';
 import { TaskTreeProvider } from '../../taskView';
+import { specIndex } from '../../specIndex';
 
 // Test helper functions
 function createTempDir(): string {
@@ -65,6 +66,11 @@ function createSpec(projectDir: string, specName: string, options: {
     }
 }
 
+// The providers read spec files from the spec index only
+async function loadSpecIndex(...projectDirs: string[]): Promise<void> {
+    await specIndex.update(projectDirs.map(dir => path.join(dir, '.ldf', 'specs')));
+}
+
 function cleanupDir(dir: string): void {
     if (fs.existsSync(dir)) {
         fs.rmSync(dir, { recursive: true, force: true });
@@ -146,11 +152,12 @@ suite('Provider Multi-Root Tests', () => {
             assert.ok(Array.isArray(specs));
         });
 
-        test('loads specs from single workspace', () => {
+        test('loads specs from single workspace', async () => {
             createSpec(project1, 'feature-a');
             createSpec(project1, 'feature-b');
 
             const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const specs = provider.getSpecs();
 
@@ -159,11 +166,12 @@ suite('Provider Multi-Root Tests', () => {
             assert.ok(specs.some(s => s.name === 'feature-b'));
         });
 
-        test('loads specs from multiple workspaces', () => {
+        test('loads specs from multiple workspaces', async () => {
             createSpec(project1, 'alpha-feature');
             createSpec(project2, 'beta-feature');
 
             const provider = new SpecTreeProvider([project1, project2]);
+            await loadSpecIndex(project1, project2);
             provider.refresh();
             const specs = provider.getSpecs();
 
@@ -172,11 +180,12 @@ suite('Provider Multi-Root Tests', () => {
             assert.ok(specs.some(s => s.name === 'beta-feature'));
         });
 
-        test('specs have folderName in multi-root mode', () => {
+        test('specs have folderName in multi-root mode', async () => {
             createSpec(project1, 'alpha-feature');
             createSpec(project2, 'beta-feature');
 
             const provider = new SpecTreeProvider([project1, project2]);
+            await loadSpecIndex(project1, project2);
             provider.refresh();
             const specs = provider.getSpecs();
 
@@ -186,10 +195,11 @@ suite('Provider Multi-Root Tests', () => {
             }
         });
 
-        test('specs have folderPath always set', () => {
+        test('specs have folderPath always set', async () => {
             createSpec(project1, 'alpha-feature');
 
             const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const specs = provider.getSpecs();
 
@@ -197,10 +207,11 @@ suite('Provider Multi-Root Tests', () => {
             assert.strictEqual(specs[0].folderPath, project1);
         });
 
-        test('specs without folderName in single-root mode', () => {
+        test('specs without folderName in single-root mode', async () => {
             createSpec(project1, 'feature');
 
             const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const specs = provider.getSpecs();
 
@@ -208,16 +219,196 @@ suite('Provider Multi-Root Tests', () => {
             assert.strictEqual(specs[0].folderName, undefined);
         });
 
-        test('getSpec finds spec by name', () => {
+        test('getSpec finds spec by name', async () => {
             createSpec(project1, 'my-feature');
 
             const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
 
             const spec = provider.getSpec('my-feature');
             assert.ok(spec);
             assert.strictEqual(spec.name, 'my-feature');
         });
+
+        test('explicit status in spec.yaml overrides file heuristics', async () => {
+            createSpec(project1, 'declared', { design: true, tasks: true });
+            fs.writeFileSync(
+                path.join(project1, '.ldf', 'specs', 'declared', 'spec.yaml'),
+                'status: in-review\n'
+            );
+
+            const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
+            provider.refresh();
+
+            const spec = provider.getSpec('declared');
+            assert.ok(spec);
+            assert.strictEqual(spec.status, 'in-review');
+            assert.strictEqual(spec.statusSource, 'metadata');
+        });
+
+        test('uses statuses declared by the project workflow', async () => {
+            fs.writeFileSync(
+                path.join(project1, '.ldf', 'config.yaml'),
+                'spec_workflow:\n  statuses:\n    - id: draft\n    - id: blocked\n      order: 0\n'
+            );
+            createSpec(project1, 'stuck');
+            createSpec(project1, 'unknown-status');
+            fs.writeFileSync(path.join(project1, '.ldf', 'specs', 'stuck', 'spec.yaml'), 'status: Blocked\n');
+            fs.writeFileSync(path.join(project1, '.ldf', 'specs', 'unknown-status', 'spec.yaml'), 'status: shipped\n');
+
+            const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
+            provider.refresh();
+
+            const stuck = provider.getSpec('stuck');
+            assert.ok(stuck);
+            assert.strictEqual(stuck.status, 'blocked');
+            // Undeclared statuses fall back to the heuristic
+            const unknown = provider.getSpec('unknown-status');
+            assert.ok(unknown);
+            assert.strictEqual(unknown.statusSource, 'inferred');
+            // Custom order sorts blocked first
+            assert.strictEqual(provider.getSpecs()[0].name, 'stuck');
+        });
+
+        test('falls back to inferred status without metadata', async () => {
+            createSpec(project1, 'inferred', { design: true });
+
+            const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
+            provider.refresh();
+
+            const spec = provider.getSpec('inferred');
+            assert.ok(spec);
+            assert.strictEqual(spec.status, 'in-review');
+            assert.strictEqual(spec.statusSource, 'inferred');
+        });
+
+        test('hides archived specs by default', async () => {
+            createSpec(project1, 'active');
+            createSpec(project1, 'finished');
+            fs.mkdirSync(path.join(project1, '.ldf', 'specs', '_archive'));
+            fs.renameSync(
+                path.join(project1, '.ldf', 'specs', 'finished'),
+                path.join(project1, '.ldf', 'specs', '_archive', 'finished')
+            );
+
+            const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
+            provider.refresh();
+
+            assert.deepStrictEqual(provider.getSpecs().map(s => s.name), ['active']);
+        });
+
+        test('resolves cross-project dependencies and flags cycles', async () => {
+            const writeDeps = (project: string, spec: string, deps: string[]) => {
+                createSpec(project, spec);
+                fs.writeFileSync(
+                    path.join(project, '.ldf', 'specs', spec, 'requirements.md'),
+                    `# Requirements\n\n## Dependencies\n\n${deps.map(d => `- ${d}`).join('\n')}\n`
+                );
+            };
+            writeDeps(project1, 'checkout', ['project-beta:payments', 'cart']);
+            writeDeps(project1, 'cart', ['checkout']);
+            writeDeps(project2, 'payments', ['PostgreSQL 14']);
+
+            const provider = new SpecTreeProvider([project1, project2]);
+            await loadSpecIndex(project1, project2);
+            provider.refresh();
+
+            const graph = provider.getDependencyGraph();
+            assert.strictEqual(graph.edges.length, 3);
+            assert.strictEqual(graph.cycles.length, 1);
+
+            const checkout = provider.getSpecs().find(s => s.name === 'checkout');
+            const payments = provider.getSpecs().find(s => s.name === 'payments');
+            assert.ok(checkout?.dependencyWarnings?.some(w => w.startsWith('Dependency cycle')));
+            assert.strictEqual(payments?.dependencyWarnings, undefined);
+        });
+
+        test('marks specs that fail validation as Error', async () => {
+            createSpec(project1, 'no-requirements', { requirements: false, design: true });
+            createSpec(project1, 'duplicate-tasks', {
+                tasks: true,
+                taskContent: '# Tasks\n\n- [ ] **Task 1.1:** One\n- [ ] **Task 1.1:** Two\n',
+            });
+            createSpec(project1, 'valid', { tasks: true });
+
+            const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
+            provider.refresh();
+
+            const noRequirements = provider.getSpec('no-requirements');
+            assert.strictEqual(noRequirements?.status, 'error');
+            assert.deepStrictEqual(noRequirements?.problems?.map(p => p.message), ['requirements.md is missing']);
+            assert.strictEqual(provider.getSpec('duplicate-tasks')?.status, 'error');
+            assert.strictEqual(provider.getSpec('duplicate-tasks')?.problems?.[0].line, 3);
+            assert.strictEqual(provider.getSpec('valid')?.status, 'in-progress');
+            assert.strictEqual(provider.getSpec('valid')?.problems, undefined);
+        });
+
+        test('lists declared spec documents and requires them by status', async () => {
+            fs.appendFileSync(
+                path.join(project1, '.ldf', 'config.yaml'),
+                'spec_documents:\n' +
+                '  - { file: test-plan.md, label: Test Plan, required_from: approved }\n' +
+                '  - { id: adr, file: adr/*.md, label: ADRs }\n'
+            );
+            createSpec(project1, 'planned', { tasks: true });
+            createSpec(project1, 'unplanned', { tasks: true });
+            createSpec(project1, 'draft', { design: false });
+            const planned = path.join(project1, '.ldf', 'specs', 'planned');
+            fs.writeFileSync(path.join(planned, 'test-plan.md'), '# Test Plan\n');
+            fs.mkdirSync(path.join(planned, 'adr'));
+            fs.writeFileSync(path.join(planned, 'adr', '0002-cache.md'), '# Cache\n');
+            fs.writeFileSync(path.join(planned, 'adr', '0001-db.md'), '# Database\n');
+
+            const provider = new SpecTreeProvider(project1);
+            await loadSpecIndex(project1);
+            provider.refresh();
+
+            assert.deepStrictEqual(provider.getDocumentTypes(project1).map(t => t.id), ['test-plan', 'adr']);
+            assert.deepStrictEqual(
+                provider.getSpec('planned')?.documents?.map(d => [d.type.id, d.files]),
+                [['test-plan', ['test-plan.md']], ['adr', ['adr/0001-db.md', 'adr/0002-cache.md']]]
+            );
+            assert.strictEqual(provider.getSpec('planned')?.status, 'in-progress');
+            assert.strictEqual(provider.getSpec('unplanned')?.status, 'error');
+            assert.deepStrictEqual(
+                provider.getSpec('unplanned')?.problems?.map(p => p.message),
+                ['Test Plan (test-plan.md) is required at In Progress']
+            );
+            assert.strictEqual(provider.getSpec('draft')?.status, 'draft');
+        });
+
+        test('filters specs and hides workspace groups without matches', async () => {
+            createSpec(project1, 'login', { design: true });
+            createSpec(project1, 'search');
+            createSpec(project2, 'payments');
+            fs.writeFileSync(
+                path.join(project1, '.ldf', 'specs', 'search', 'requirements.md'),
+                '# Requirements\n\n## Overview\n\nFull-text login history search\n\n' +
+                '| 1. Testing Coverage | [US-1] | [TBD] | [TBD] | alice | TODO |\n'
+            );
+
+            const provider = new SpecTreeProvider([project1, project2]);
+            await loadSpecIndex(project1, project2);
+            provider.refresh();
+            provider.setUserIdentities(['Alice Smith', 'alice@example.com']);
+
+            provider.setFilter({ statuses: [], text: 'login', hasGaps: false, ownedByMe: false });
+            assert.deepStrictEqual(provider.getFilteredSpecs().map(s => s.name).sort(), ['login', 'search']);
+            const groups = await provider.getChildren();
+            assert.strictEqual(groups.length, 1);
+            assert.strictEqual((groups[0] as WorkspaceFolderItem).workspacePath, project1);
+
+            provider.setFilter({ statuses: ['draft'], text: '', hasGaps: true, ownedByMe: true });
+            assert.deepStrictEqual(provider.getFilteredSpecs().map(s => s.name), ['search']);
+            // The unfiltered list is still available to commands
+            assert.strictEqual(provider.getSpecs().length, 3);
+        });
     });
 
     suite('GuardrailTreeProvider Multi-Root', () => {
@@ -261,8 +452,9 @@ suite('Provider Multi-Root Tests', () => {
             assert.ok(Array.isArray(coverage));
         });
 
-        test('loads core guardrails by default', () => {
+        test('loads core guardrails by default', async () => {
             const provider = new GuardrailTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const coverage = provider.getCoverage();
 
@@ -272,7 +464,7 @@ suite('Provider Multi-Root Tests', () => {
             assert.ok(coverage.some(c => c.guardrail.name === 'Security Basics'));
         });
 
-        test('parses DONE status as covered', () => {
+        test('parses DONE status as covered', async () => {
             // Create a spec with guardrail coverage matrix
             const specDir = path.join(project1, '.ldf', 'specs', 'auth-feature');
             fs.mkdirSync(specDir, { recursive: true });
@@ -287,6 +479,7 @@ suite('Provider Multi-Root Tests', () => {
 `);
 
             const provider = new GuardrailTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const coverage = provider.getCoverage();
 
@@ -301,7 +494,28 @@ suite('Provider Multi-Root Tests', () => {
             assert.strictEqual(securityCoverage.status, 'not-covered');
         });
 
-        test('parses N/A status as not-applicable', () => {
+        test('excludes archived specs from coverage by default', async () => {
+            const specDir = path.join(project1, '.ldf', 'specs', '_archive', 'old-feature');
+            fs.mkdirSync(specDir, { recursive: true });
+            fs.writeFileSync(path.join(specDir, 'requirements.md'), `# Old Feature
+
+## Guardrail Coverage Matrix
+
+| Guardrail | Requirements | Design | Tasks | Owner | Status |
+|-----------|--------------|--------|-------|-------|--------|
+| 1. Testing Coverage | [US-1] | [D-1] | [T-1] | Alice | DONE |
+`);
+
+            const provider = new GuardrailTreeProvider(project1);
+            await loadSpecIndex(project1);
+            provider.refresh();
+
+            const testingCoverage = provider.getCoverage().find(c => c.guardrail.id === 1);
+            assert.ok(testingCoverage);
+            assert.strictEqual(testingCoverage.specCoverage.length, 0);
+        });
+
+        test('parses N/A status as not-applicable', async () => {
             const specDir = path.join(project1, '.ldf', 'specs', 'api-feature');
             fs.mkdirSync(specDir, { recursive: true });
             fs.writeFileSync(path.join(specDir, 'requirements.md'), `# API Feature
@@ -314,6 +528,7 @@ suite('Provider Multi-Root Tests', () => {
 `);
 
             const provider = new GuardrailTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const coverage = provider.getCoverage();
 
@@ -322,7 +537,7 @@ suite('Provider Multi-Root Tests', () => {
             assert.strictEqual(dbCoverage.status, 'not-applicable');
         });
 
-        test('parses mixed statuses as partial', () => {
+        test('parses mixed statuses as partial', async () => {
             // Create two specs with different statuses for the same guardrail
             const spec1Dir = path.join(project1, '.ldf', 'specs', 'feature-a');
             const spec2Dir = path.join(project1, '.ldf', 'specs', 'feature-b');
@@ -348,6 +563,7 @@ suite('Provider Multi-Root Tests', () => {
 `);
 
             const provider = new GuardrailTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const coverage = provider.getCoverage();
 
@@ -357,7 +573,7 @@ suite('Provider Multi-Root Tests', () => {
             assert.strictEqual(testingCoverage.specCoverage.length, 2);
         });
 
-        test('parses PARTIAL status explicitly', () => {
+        test('parses PARTIAL status explicitly', async () => {
             const specDir = path.join(project1, '.ldf', 'specs', 'wip-feature');
             fs.mkdirSync(specDir, { recursive: true });
             fs.writeFileSync(path.join(specDir, 'requirements.md'), `# WIP Feature
@@ -370,6 +586,7 @@ suite('Provider Multi-Root Tests', () => {
 `);
 
             const provider = new GuardrailTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const coverage = provider.getCoverage();
 
@@ -378,7 +595,7 @@ suite('Provider Multi-Root Tests', () => {
             assert.strictEqual(errorCoverage.status, 'partial');
         });
 
-        test('loads guardrails from guardrails.yaml with preset', () => {
+        test('loads guardrails from guardrails.yaml with preset', async () => {
             // Create guardrails.yaml with saas preset
             fs.writeFileSync(
                 path.join(project1, '.ldf', 'guardrails.yaml'),
@@ -386,6 +603,7 @@ suite('Provider Multi-Root Tests', () => {
             );
 
             const provider = new GuardrailTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const coverage = provider.getCoverage();
 
@@ -437,21 +655,23 @@ suite('Provider Multi-Root Tests', () => {
             assert.ok(Array.isArray(tasks));
         });
 
-        test('loads tasks from single workspace', () => {
+        test('loads tasks from single workspace', async () => {
             createSpec(project1, 'feature', { tasks: true });
 
             const provider = new TaskTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const tasks = provider.getTasks();
 
             assert.ok(tasks.length > 0);
         });
 
-        test('loads tasks from multiple workspaces', () => {
+        test('loads tasks from multiple workspaces', async () => {
             createSpec(project1, 'alpha-feature', { tasks: true });
             createSpec(project2, 'beta-feature', { tasks: true });
 
             const provider = new TaskTreeProvider([project1, project2]);
+            await loadSpecIndex(project1, project2);
             provider.refresh();
             const tasks = provider.getTasks();
 
@@ -459,10 +679,11 @@ suite('Provider Multi-Root Tests', () => {
             assert.ok(tasks.length >= 2);
         });
 
-        test('tasks have folderPath set', () => {
+        test('tasks have folderPath set', async () => {
             createSpec(project1, 'feature', { tasks: true });
 
             const provider = new TaskTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const tasks = provider.getTasks();
 
@@ -472,11 +693,12 @@ suite('Provider Multi-Root Tests', () => {
             }
         });
 
-        test('tasks have folderName in multi-root mode', () => {
+        test('tasks have folderName in multi-root mode', async () => {
             createSpec(project1, 'alpha-feature', { tasks: true });
             createSpec(project2, 'beta-feature', { tasks: true });
 
             const provider = new TaskTreeProvider([project1, project2]);
+            await loadSpecIndex(project1, project2);
             provider.refresh();
             const tasks = provider.getTasks();
 
@@ -485,10 +707,11 @@ suite('Provider Multi-Root Tests', () => {
             }
         });
 
-        test('getTask finds task by id', () => {
+        test('getTask finds task by id', async () => {
             createSpec(project1, 'feature', { tasks: true });
 
             const provider = new TaskTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const tasks = provider.getTasks();
 
@@ -503,6 +726,7 @@ suite('Provider Multi-Root Tests', () => {
             createSpec(project1, 'feature', { tasks: true });
 
             const provider = new TaskTreeProvider(project1);
+            await loadSpecIndex(project1);
             provider.refresh();
             const tasks = provider.getTasks();
 
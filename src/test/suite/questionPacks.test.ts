@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { listQuestionPacks, formatPackTitle } from '../../questionPacks';
+
+suite('Question Packs Test Suite', () => {
+    let tempDir: string;
+    let projectDir: string;
+    let sharedDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-packs-'));
+        projectDir = path.join(tempDir, 'project');
+        sharedDir = path.join(tempDir, '.ldf-shared', 'question-packs');
+        fs.mkdirSync(path.join(projectDir, '.ldf', 'question-packs'), { recursive: true });
+        fs.mkdirSync(sharedDir, { recursive: true });
+        fs.writeFileSync(
+            path.join(projectDir, '.ldf', 'config.yaml'),
+            'question_packs:\n  core:\n    - security\n    - api-design\n  optional:\n    - billing\n'
+        );
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should format pack titles', () => {
+        assert.strictEqual(formatPackTitle('api-design'), 'Api Design');
+        assert.strictEqual(formatPackTitle('data_model'), 'Data Model');
+    });
+
+    test('should list configured packs and pack files', () => {
+        fs.writeFileSync(
+            path.join(projectDir, '.ldf', 'question-packs', 'security.yaml'),
+            'title: Security\nquestions:\n  - Authentication\n  - id: authz\n    question: Authorization\n'
+        );
+        fs.writeFileSync(path.join(sharedDir, 'security.yaml'), 'title: Shared Security\n');
+        fs.writeFileSync(path.join(sharedDir, 'compliance.yml'), 'questions: [Audit trail]\n');
+
+        const packs = listQuestionPacks(projectDir, sharedDir);
+        assert.deepStrictEqual(packs.map(p => [p.name, p.title, p.questions, p.core]), [
+            ['security', 'Security', ['Authentication', 'Authorization'], true],
+            ['api-design', 'Api Design', [], true],
+            ['billing', 'Billing', [], false],
+            ['compliance', 'Compliance', ['Audit trail'], false],
+        ]);
+    });
+
+    test('should ignore shared packs that are not inherited', () => {
+        fs.writeFileSync(path.join(sharedDir, 'compliance.yaml'), 'questions: [Audit trail]\n');
+        assert.deepStrictEqual(listQuestionPacks(projectDir).map(p => p.name), ['security', 'api-design', 'billing']);
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+    ARCHIVE_DIR,
+    archiveSpec,
+    restoreSpec,
+    listSpecDirs,
+    listArchivedSpecs,
+    getSpecDir,
+} from '../../specArchive';
+
+suite('Spec Archive Test Suite', () => {
+    let specsDir: string;
+
+    setup(() => {
+        specsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-archive-'));
+        for (const name of ['auth', 'search']) {
+            fs.mkdirSync(path.join(specsDir, name));
+            fs.writeFileSync(path.join(specsDir, name, 'requirements.md'), `# ${name}\n`);
+        }
+    });
+
+    teardown(() => {
+        fs.rmSync(specsDir, { recursive: true, force: true });
+    });
+
+    test('should move a spec into the archive and back', () => {
+        const archived = archiveSpec(specsDir, 'auth');
+        assert.strictEqual(archived, path.join(specsDir, ARCHIVE_DIR, 'auth'));
+        assert.ok(fs.existsSync(path.join(archived, 'requirements.md')));
+        assert.ok(!fs.existsSync(path.join(specsDir, 'auth')));
+
+        const restored = restoreSpec(specsDir, 'auth');
+        assert.strictEqual(restored, path.join(specsDir, 'auth'));
+        assert.ok(fs.existsSync(path.join(restored, 'requirements.md')));
+    });
+
+    test('should list active specs without the archive folder', () => {
+        archiveSpec(specsDir, 'auth');
+        assert.deepStrictEqual(listSpecDirs(specsDir).map(d => d.name), ['search']);
+        assert.deepStrictEqual(listArchivedSpecs(specsDir).map(d => d.name), ['auth']);
+    });
+
+    test('should include archived specs on request', () => {
+        archiveSpec(specsDir, 'auth');
+        const entries = listSpecDirs(specsDir, true);
+        assert.deepStrictEqual(entries.map(d => [d.name, d.archived]), [['search', false], ['auth', true]]);
+        assert.strictEqual(entries[1].path, getSpecDir(specsDir, 'auth', true));
+    });
+
+    test('should refuse to overwrite existing specs', () => {
+        archiveSpec(specsDir, 'auth');
+        fs.mkdirSync(path.join(specsDir, 'auth'));
+        assert.throws(() => restoreSpec(specsDir, 'auth'), /already exists/);
+        assert.throws(() => archiveSpec(specsDir, 'auth'), /already exists/);
+    });
+
+    test('should report missing specs', () => {
+        assert.throws(() => archiveSpec(specsDir, 'missing'), /not found/);
+        assert.throws(() => restoreSpec(specsDir, 'search'), /not found/);
+    });
+
+    test('should return nothing for a missing specs directory', () => {
+        assert.deepStrictEqual(listSpecDirs(path.join(specsDir, 'nope'), true), []);
+    });
+});
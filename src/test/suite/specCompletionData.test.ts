@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import { SpecCompletionContext, getSpecCompletions } from '../../specCompletionData';
+
+const guardrails = [
+    { id: 1, name: 'Testing Coverage', description: '', severity: 'critical' as const, enabled: true },
+    { id: 2, name: 'Security Basics', description: '', severity: 'critical' as const, enabled: true },
+    { id: 3, name: 'Error Handling', description: '', severity: 'high' as const, enabled: false },
+];
+
+const requirements = [
+    '## User Stories',                                                    // 0
+    '### US-1: Sign in',
+    '- [ ] AC-1.1: Users can sign in',
+    '- [ ] AC-1.2: Errors are shown',
+    '### US-2: Sign out',
+    '- [ ] ',                                                             // 5
+    '### ',
+    '## Guardrail Coverage Matrix',
+    '| Guardrail | Requirements | Design | Tasks | Owner | Status |',   // 8
+    '|-----------|--------------|--------|-------|-------|--------|',
+    '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | D |',
+    '| ',                                                                 // 11
+].join('\n');
+
+const tasks = [
+    '## Phase 1: Setup',
+    '- [x] **Task 1.1:** Add login form',
+    '- [ ] **Task 1.2:** Add session store',
+    '- [ ] ',
+    '## ',
+].join('\n');
+
+function complete(overrides: Partial<SpecCompletionContext>) {
+    return getSpecCompletions({
+        kind: 'requirements',
+        content: requirements,
+        line: 0,
+        character: 0,
+        guardrails,
+        documents: { requirements, tasks, design: '# Design\n## Overview\n## 2. Components' },
+        ...overrides,
+    });
+}
+
+suite('Spec Completion Data Test Suite', () => {
+    test('should suggest the next story and criterion numbers', () => {
+        assert.deepStrictEqual(
+            complete({ line: 6, character: 4 }).map(c => [c.label, c.insertText, c.replaceStart]),
+            [['US-3', 'US-3: ', 4]]
+        );
+        assert.deepStrictEqual(
+            complete({ line: 5, character: 6 }).map(c => [c.label, c.insertText, c.detail]),
+            [['AC-2.1', 'AC-2.1: ', 'Next criterion of US-2']]
+        );
+    });
+
+    test('should suggest the next phase and task numbers', () => {
+        assert.deepStrictEqual(
+            complete({ kind: 'tasks', content: tasks, line: 3, character: 6 }).map(c => [c.label, c.insertText]),
+            [['Task 1.3', '**Task 1.3:** ']]
+        );
+        assert.deepStrictEqual(
+            complete({ kind: 'tasks', content: tasks, line: 4, character: 3 }).map(c => c.insertText),
+            ['Phase 2: ']
+        );
+    });
+
+    test('should suggest guardrails for a new matrix row', () => {
+        const completions = complete({ line: 11, character: 2 });
+        assert.deepStrictEqual(completions.map(c => [c.label, c.detail, c.sortText]), [
+            ['1. Testing Coverage', 'critical · in table', '10001'],
+            ['2. Security Basics', 'critical', '00002'],
+            ['3. Error Handling', 'high · disabled', '10003'],
+        ]);
+        assert.strictEqual(
+            completions[1].insertText,
+            '2. Security Basics | [${1}] | [${2}] | [${3}] | ${4} | ${5|DONE,TODO,PARTIAL,N/A|} |'
+        );
+        assert.strictEqual(completions[1].isSnippet, true);
+        assert.strictEqual(completions[1].replaceStart, 2);
+
+        const [cost] = complete({
+            line: 11,
+            character: 2,
+            guardrails: [{ id: 9, name: 'Cost ${budget} \\ limits', description: '', severity: 'low', enabled: true }],
+        });
+        assert.ok(cost.insertText.startsWith('9. Cost \\${budget\\} \\\\ limits | [${1}]'));
+    });
+
+    test('should suggest statuses in the Status column', () => {
+        const line = '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | D |';
+        const completions = complete({ line: 10, character: line.length - 2 });
+        assert.deepStrictEqual(completions.map(c => [c.label, c.insertText, c.replaceStart]), [
+            ['DONE', 'DONE', line.length - 3],
+            ['TODO', 'TODO', line.length - 3],
+            ['PARTIAL', 'PARTIAL', line.length - 3],
+            ['N/A - …', 'N/A - ${1:justification}', line.length - 3],
+        ]);
+        assert.deepStrictEqual(complete({ line: 10, character: line.indexOf('Alice') + 2 }), []);
+    });
+
+    test('should suggest IDs of the column inside reference brackets', () => {
+        const line = '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | D |';
+        assert.deepStrictEqual(
+            complete({ line: 10, character: line.indexOf('US-1') }).map(c => [c.label, c.detail]),
+            [['US-1', 'Sign in'], ['AC-1.1', 'Users can sign in'], ['AC-1.2', 'Errors are shown'], ['US-2', 'Sign out']]
+        );
+        assert.deepStrictEqual(
+            complete({ line: 10, character: line.indexOf('S1') + 1 }).map(c => [c.label, c.detail, c.replaceStart]),
+            [['S1', 'Overview', line.indexOf('S1')], ['S2', 'Components', line.indexOf('S1')]]
+        );
+        assert.strictEqual(complete({ kind: 'tasks', content: 'See [US-2, ', line: 0, character: 11 }).length, 9);
+        assert.deepStrictEqual(complete({ kind: 'tasks', content: tasks, line: 3, character: 3 }), []);
+    });
+});
@@ -0,0 +1,134 @@
+import * as assert from 'assert';
+import {
+    DependencyNode,
+    parseDependencies,
+    buildDependencyGraph,
+    getDependencies,
+    getDependents,
+    getCycle,
+    findStatusConflicts,
+    computeLayers,
+} from '../../specDependencies';
+
+function node(name: string, status: string, deps: string[], projectPath = '/app'): DependencyNode {
+    return {
+        id: `${projectPath}/.ldf/specs/${name}`,
+        name,
+        projectPath,
+        status,
+        dependencies: deps.flatMap(d => parseDependencies(`## Dependencies\n\n- ${d}\n`)),
+    };
+}
+
+suite('Spec Dependencies Test Suite', () => {
+    suite('parseDependencies', () => {
+        test('should read bullets from the Dependencies section only', () => {
+            const content = [
+                '# Requirements',
+                '- not-a-dependency',
+                '## Dependencies',
+                '',
+                '- user-auth - sessions must exist',
+                '- **billing**:payment-api',
+                '- [user-profile](../user-profile/requirements.md)',
+                '- `search`',
+                '## Out of Scope',
+                '- out-of-scope',
+            ].join('\n');
+
+            const refs = parseDependencies(content);
+            assert.deepStrictEqual(refs.map(r => r.spec), ['user-auth', 'payment-api', 'user-profile', 'search']);
+            assert.strictEqual(refs[1].project, 'billing');
+            assert.strictEqual(refs[0].line, 4);
+            assert.deepStrictEqual([refs[0].column, refs[0].length], [2, 'user-auth'.length]);
+            // Emphasis inside the reference can't be located for rewriting
+            assert.strictEqual(refs[1].column, -1);
+        });
+
+        test('should skip template placeholders', () => {
+            const refs = parseDependencies('## Dependencies\n\n- [List any dependencies]\n');
+            assert.deepStrictEqual(refs, []);
+        });
+
+        test('should support project/spec references', () => {
+            const [ref] = parseDependencies('## Dependencies\n- billing/payment-api\n');
+            assert.strictEqual(ref.project, 'billing');
+            assert.strictEqual(ref.spec, 'payment-api');
+        });
+
+        test('should return nothing without a Dependencies section', () => {
+            assert.deepStrictEqual(parseDependencies('# Requirements\n- user-auth\n'), []);
+        });
+    });
+
+    suite('buildDependencyGraph', () => {
+        const projects = [
+            { path: '/app', names: ['app'] },
+            { path: '/billing', names: ['billing-service', 'billing'] },
+        ];
+
+        test('should resolve local and cross-project references', () => {
+            const specs = [
+                node('checkout', 'draft', ['cart', 'Billing:payments', 'PostgreSQL']),
+                node('cart', 'draft', []),
+                node('payments', 'draft', [], '/billing'),
+            ];
+            const graph = buildDependencyGraph(specs, projects);
+
+            assert.deepStrictEqual(
+                getDependencies(graph, specs[0].id).map(n => n.name),
+                ['cart', 'payments']
+            );
+            assert.deepStrictEqual(getDependents(graph, specs[2].id).map(n => n.name), ['checkout']);
+            assert.strictEqual(graph.cycles.length, 0);
+        });
+
+        test('should detect cycles and self-dependencies', () => {
+            const specs = [
+                node('a', 'draft', ['b']),
+                node('b', 'draft', ['c']),
+                node('c', 'draft', ['a']),
+                node('self', 'draft', ['self']),
+                node('free', 'draft', ['a']),
+            ];
+            const graph = buildDependencyGraph(specs, projects);
+
+            assert.strictEqual(graph.cycles.length, 2);
+            assert.deepStrictEqual([...getCycle(graph, specs[1].id)!].sort(), [specs[0].id, specs[1].id, specs[2].id].sort());
+            assert.ok(getCycle(graph, specs[3].id));
+            assert.strictEqual(getCycle(graph, specs[4].id), undefined);
+        });
+
+        test('should flag In Progress specs with Draft dependencies', () => {
+            const specs = [
+                node('api', 'in-progress', ['schema', 'auth']),
+                node('schema', 'draft', []),
+                node('auth', 'approved', []),
+            ];
+            const conflicts = findStatusConflicts(buildDependencyGraph(specs, projects));
+            assert.deepStrictEqual(conflicts, [{ spec: specs[0].id, dependency: specs[1].id }]);
+        });
+    });
+
+    suite('computeLayers', () => {
+        test('should place specs after their deepest dependency', () => {
+            const specs = [
+                node('base', 'draft', []),
+                node('mid', 'draft', ['base']),
+                node('top', 'draft', ['mid', 'base']),
+                node('x', 'draft', ['y']),
+                node('y', 'draft', ['x', 'top']),
+                node('after-cycle', 'draft', ['x']),
+            ];
+            const layers = computeLayers(buildDependencyGraph(specs, []));
+
+            assert.strictEqual(layers.get(specs[0].id), 0);
+            assert.strictEqual(layers.get(specs[1].id), 1);
+            assert.strictEqual(layers.get(specs[2].id), 2);
+            // Cycle members share a layer after their external dependencies
+            assert.strictEqual(layers.get(specs[3].id), 3);
+            assert.strictEqual(layers.get(specs[4].id), 3);
+            assert.strictEqual(layers.get(specs[5].id), 4);
+        });
+    });
+});
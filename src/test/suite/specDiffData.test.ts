@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { diffSpecVersions, parseCoverageMatrix, isEmptySpecDiff } from '../../specDiffData';
+
+suite('Spec Diff Test Suite', () => {
+    const matrix = (testing: string, security: string) => [
+        '## Guardrail Coverage Matrix',
+        '',
+        '| Guardrail | Requirements | Design | Tasks/Tests | Owner | Status |',
+        '|-----------|--------------|--------|-------------|-------|--------|',
+        `| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | ${testing} |`,
+        `| 2. Security Basics | [US-1] | [S2] | [T-2] | Alice | ${security} |`,
+    ].join('\n');
+
+    test('should parse coverage matrix rows', () => {
+        assert.deepStrictEqual(parseCoverageMatrix(matrix('DONE', 'N/A - internal')), [
+            { id: 1, guardrail: '1. Testing Coverage', owners: ['Alice'], status: 'DONE', line: 4 },
+            { id: 2, guardrail: '2. Security Basics', owners: ['Alice'], status: 'N/A - internal', line: 5 },
+        ]);
+    });
+
+    test('should diff user stories and acceptance criteria by id', () => {
+        const before = [
+            '## User Stories',
+            '### US-1: Sign in',
+            '- [ ] AC-1.1: Email and password',
+            '- [ ] AC-1.2: Lockout after 5 attempts',
+            '### US-2: Sign out',
+            '- [ ] AC-2.1: Clears the session',
+        ].join('\n');
+        const after = [
+            '## User Stories',
+            '### US-1: Sign in with email',
+            '- [x] AC-1.1: Email and password',
+            '- [ ] AC-1.3: Remember me',
+            '### US-2: Sign out',
+            '- [ ] AC-2.1: Clears the session',
+            '### US-3: Reset password',
+            '- [ ] AC-3.1: Emails a reset link',
+        ].join('\n');
+
+        const diff = diffSpecVersions({ requirements: before }, { requirements: after });
+        assert.deepStrictEqual(diff.stories, [
+            {
+                id: 'US-1',
+                kind: 'changed',
+                title: 'Sign in with email',
+                previousTitle: 'Sign in',
+                criteria: [
+                    { id: 'AC-1.1', kind: 'checked', text: 'Email and password' },
+                    { id: 'AC-1.3', kind: 'added', text: 'Remember me' },
+                    { id: 'AC-1.2', kind: 'removed', text: 'Lockout after 5 attempts' },
+                ],
+            },
+            {
+                id: 'US-3',
+                kind: 'added',
+                title: 'Reset password',
+                criteria: [{ id: 'AC-3.1', kind: 'added', text: 'Emails a reset link' }],
+            },
+        ]);
+    });
+
+    test('should diff guardrail matrix statuses', () => {
+        const diff = diffSpecVersions(
+            { requirements: matrix('TODO', 'PARTIAL') },
+            { requirements: matrix('DONE', 'partial') }
+        );
+        assert.deepStrictEqual(diff.matrix, [
+            { id: 1, guardrail: '1. Testing Coverage', kind: 'changed', status: 'DONE', previousStatus: 'TODO' },
+        ]);
+    });
+
+    test('should diff tasks by number', () => {
+        const diff = diffSpecVersions(
+            { tasks: '- [ ] **Task 1.1:** Model\n- [ ] **Task 1.2:** API\n- [x] **Task 1.3:** Docs\n' },
+            { tasks: '- [x] **Task 1.1:** Model\n- [ ] **Task 1.2:** REST API\n- [ ] **Task 1.4:** UI\n' }
+        );
+        assert.deepStrictEqual(diff.tasks, [
+            { taskNumber: '1.1', kind: 'completed', title: 'Model' },
+            { taskNumber: '1.2', kind: 'changed', title: 'REST API', previousTitle: 'API' },
+            { taskNumber: '1.4', kind: 'added', title: 'UI' },
+            { taskNumber: '1.3', kind: 'removed', title: 'Docs' },
+        ]);
+    });
+
+    test('should treat missing files as empty', () => {
+        const diff = diffSpecVersions({}, { requirements: '### US-1: Sign in\n', tasks: '' });
+        assert.deepStrictEqual(diff.stories.map(s => [s.id, s.kind]), [['US-1', 'added']]);
+        assert.strictEqual(isEmptySpecDiff(diffSpecVersions({}, {})), true);
+    });
+});
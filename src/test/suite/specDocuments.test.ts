@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+    parseSpecDocumentsConfig,
+    loadSpecDocuments,
+    findDocumentFiles,
+    getDocumentPath,
+    renderDocumentTemplate,
+    getRequiredDocuments,
+    validateSpecDocuments,
+} from '../../specDocuments';
+import { DEFAULT_WORKFLOW } from '../../specWorkflow';
+
+suite('Spec Documents Test Suite', () => {
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-documents-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    suite('parseSpecDocumentsConfig', () => {
+        test('should parse entries with defaults', () => {
+            const { documents, errors } = parseSpecDocumentsConfig([
+                'rollout.md',
+                { file: 'test-plan.md', label: 'Test Plan', icon: 'beaker', required_from: 'In Progress' },
+                { id: 'adr', file: 'adr/*.md', label: 'ADRs', template: '.ldf/templates/adr.md' },
+            ]);
+            assert.deepStrictEqual(errors, []);
+            assert.deepStrictEqual(documents, [
+                { id: 'rollout', file: 'rollout.md', label: 'rollout', icon: 'file' },
+                { id: 'test-plan', file: 'test-plan.md', label: 'Test Plan', icon: 'beaker', requiredFrom: 'in-progress' },
+                { id: 'adr', file: 'adr/*.md', label: 'ADRs', icon: 'files', template: '.ldf/templates/adr.md' },
+            ]);
+        });
+
+        test('should skip invalid entries', () => {
+            const { documents, errors } = parseSpecDocumentsConfig([
+                42,
+                { label: 'No file' },
+                'tasks.md',
+                '../outside.md',
+                'adr/*/notes.md',
+                'notes.md',
+                { file: 'other/notes.md', id: 'notes' },
+            ]);
+            assert.deepStrictEqual(documents.map(d => d.file), ['notes.md']);
+            assert.strictEqual(errors.length, 6);
+            assert.ok(errors[5].includes("duplicate document 'notes'"));
+        });
+
+        test('should reject a section that is not a list', () => {
+            assert.deepStrictEqual(parseSpecDocumentsConfig({ file: 'a.md' }).errors, ['spec_documents must be an array']);
+        });
+    });
+
+    test('loadSpecDocuments should let config.yaml override the setting by id', () => {
+        fs.mkdirSync(path.join(tempDir, '.ldf'));
+        fs.writeFileSync(
+            path.join(tempDir, '.ldf', 'config.yaml'),
+            'spec_documents:\n  - { id: plan, file: test-plan.md, label: Test Plan }\n'
+        );
+        const { documents, errors } = loadSpecDocuments(tempDir, [
+            { id: 'plan', file: 'plan.md' },
+            { file: 'rollout.md' },
+        ]);
+        assert.deepStrictEqual(errors, []);
+        assert.deepStrictEqual(documents.map(d => [d.id, d.file]), [['rollout', 'rollout.md'], ['plan', 'test-plan.md']]);
+    });
+
+    test('findDocumentFiles should match single files and collections', () => {
+        const { documents: [plan, adr] } = parseSpecDocumentsConfig(['test-plan.md', 'adr/*.md']);
+        assert.deepStrictEqual(findDocumentFiles(tempDir, plan), []);
+        assert.deepStrictEqual(findDocumentFiles(tempDir, adr), []);
+
+        fs.writeFileSync(path.join(tempDir, 'test-plan.md'), '# Plan');
+        fs.mkdirSync(path.join(tempDir, 'adr', 'drafts'), { recursive: true });
+        fs.writeFileSync(path.join(tempDir, 'adr', 'b.md'), '# B');
+        fs.writeFileSync(path.join(tempDir, 'adr', 'a.md'), '# A');
+        fs.writeFileSync(path.join(tempDir, 'adr', 'notes.txt'), '');
+        assert.deepStrictEqual(findDocumentFiles(tempDir, plan), ['test-plan.md']);
+        assert.deepStrictEqual(findDocumentFiles(tempDir, adr), ['adr/a.md', 'adr/b.md']);
+        assert.strictEqual(getDocumentPath(adr, '0003-queue'), 'adr/0003-queue.md');
+    });
+
+    test('renderDocumentTemplate should substitute variables', () => {
+        const templatesDir = path.join(tempDir, 'templates');
+        fs.mkdirSync(templatesDir);
+        fs.writeFileSync(path.join(tempDir, 'adr.md'), '# {{ name }}\n\nSpec: {{spec_name}}\n');
+        fs.writeFileSync(path.join(templatesDir, 'rollout.md'), '# Rollout by {{author}}\n');
+        const { documents: [plan, adr, rollout] } = parseSpecDocumentsConfig([
+            { file: 'test-plan.md', label: 'Test Plan' },
+            { file: 'adr/*.md', template: 'adr.md' },
+            'rollout.md',
+        ]);
+        const variables = { spec_name: 'auth', author: 'Dana' };
+        assert.strictEqual(renderDocumentTemplate(tempDir, plan, [templatesDir], variables), '# auth - Test Plan\n\n');
+        assert.strictEqual(
+            renderDocumentTemplate(tempDir, adr, [templatesDir], variables, '0001-db'),
+            '# 0001-db\n\nSpec: auth\n'
+        );
+        assert.strictEqual(renderDocumentTemplate(tempDir, rollout, [templatesDir], variables), '# Rollout by Dana\n');
+    });
+
+    test('should require documents from their status onwards', () => {
+        const { documents } = parseSpecDocumentsConfig([
+            { file: 'test-plan.md', label: 'Test Plan', required_from: 'approved' },
+            { file: 'rollout.md', label: 'Rollout', required_from: 'unknown' },
+        ]);
+        assert.deepStrictEqual(getRequiredDocuments(documents, DEFAULT_WORKFLOW, 'in-review'), []);
+        assert.deepStrictEqual(getRequiredDocuments(documents, DEFAULT_WORKFLOW, 'complete').map(d => d.id), ['test-plan']);
+
+        const missing = validateSpecDocuments(documents, [], DEFAULT_WORKFLOW, 'approved', () => undefined);
+        assert.deepStrictEqual(missing, [
+            { file: 'test-plan.md', message: 'Test Plan (test-plan.md) is required at Approved' },
+        ]);
+        const empty = validateSpecDocuments(
+            documents,
+            [{ type: documents[0], files: ['test-plan.md'] }],
+            DEFAULT_WORKFLOW,
+            'approved',
+            () => '  \n'
+        );
+        assert.deepStrictEqual(empty, [{ file: 'test-plan.md', message: 'test-plan.md is empty' }]);
+    });
+});
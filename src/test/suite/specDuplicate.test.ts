@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+    resetCheckboxes,
+    resetCoverageStatuses,
+    applyTextReplacements,
+    planSpecDuplicate,
+    listSpecFiles,
+} from '../../specDuplicate';
+import { buildDependencyGraph, parseDependencies } from '../../specDependencies';
+
+suite('Spec Duplicate Test Suite', () => {
+    test('should uncheck checkboxes outside code blocks', () => {
+        const content = [
+            '- [x] **Task 1.1:** Done',
+            '  * [X] Nested',
+            '- [ ] **Task 1.2:** Open',
+            '```',
+            '- [x] Example',
+            '```',
+        ].join('\n');
+        assert.strictEqual(resetCheckboxes(content), [
+            '- [ ] **Task 1.1:** Done',
+            '  * [ ] Nested',
+            '- [ ] **Task 1.2:** Open',
+            '```',
+            '- [x] Example',
+            '```',
+        ].join('\n'));
+    });
+
+    test('should reset coverage statuses and keep evidence', () => {
+        const content = [
+            '| Name | Status |',
+            '|------|--------|',
+            '| a | DONE |',
+            '',
+            '| Guardrail | Requirements | Design | Tasks/Tests | Owner | Status |',
+            '|-----------|--------------|--------|-------------|-------|--------|',
+            '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | DONE |',
+            '| 2. Security Basics | [US-1] | [S2] | [T-2] | Alice | N/A - internal only |',
+            '| 3. Error Handling | [US-1] | [S3] | [T-3] | Alice | |',
+            '| 4. Logging | [US-2] | [S4] | [T-4] | Bob |PARTIAL',
+        ].join('\r\n');
+        const lines = resetCoverageStatuses(content).split('\r\n');
+        assert.strictEqual(lines[2], '| a | DONE |');
+        assert.deepStrictEqual(lines.slice(6), [
+            '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | TODO |',
+            '| 2. Security Basics | [US-1] | [S2] | [T-2] | Alice | TODO |',
+            '| 3. Error Handling | [US-1] | [S3] | [T-3] | Alice | TODO |',
+            '| 4. Logging | [US-2] | [S4] | [T-4] | Bob |TODO',
+        ]);
+    });
+
+    test('should apply replacements right to left', () => {
+        assert.strictEqual(
+            applyTextReplacements('auth:1.1 and auth:1.2', [
+                { line: 0, start: 0, end: 4, newText: 'login' },
+                { line: 0, start: 13, end: 17, newText: 'login' },
+            ]),
+            'login:1.1 and login:1.2'
+        );
+    });
+
+    suite('planSpecDuplicate', () => {
+        let tempDir: string;
+
+        setup(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-duplicate-'));
+        });
+
+        teardown(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        test('should plan a reset copy in another project', () => {
+            const projectA = path.join(tempDir, 'alpha');
+            const projectB = path.join(tempDir, 'beta');
+            const auth = path.join(projectA, 'specs', 'auth');
+            const users = path.join(projectA, 'specs', 'users');
+            fs.mkdirSync(path.join(auth, 'adr'), { recursive: true });
+            fs.mkdirSync(users, { recursive: true });
+            fs.writeFileSync(path.join(auth, 'requirements.md'), [
+                '# auth - Requirements',
+                '',
+                '## Dependencies',
+                '',
+                '- users',
+                '',
+                '## Guardrail Coverage Matrix',
+                '',
+                '| Guardrail | Requirements | Design | Tasks/Tests | Owner | Status |',
+                '|-----------|--------------|--------|-------------|-------|--------|',
+                '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | DONE |',
+            ].join('\n'));
+            fs.writeFileSync(path.join(auth, 'tasks.md'), '# auth - Tasks\n\n- [x] **Task 1.1:** Build (see auth:1.2)\n');
+            fs.writeFileSync(path.join(auth, 'adr', '0001-db.md'), '# Database\n');
+            fs.writeFileSync(path.join(auth, 'spec.yaml'), 'status: complete\n');
+            fs.writeFileSync(path.join(users, 'requirements.md'), '# users - Requirements\n');
+
+            const readFile = (filePath: string) => fs.readFileSync(filePath, 'utf-8');
+            const graph = buildDependencyGraph(
+                [
+                    { id: auth, name: 'auth', projectPath: projectA, status: 'complete',
+                        dependencies: parseDependencies(readFile(path.join(auth, 'requirements.md'))) },
+                    { id: users, name: 'users', projectPath: projectA, status: 'complete', dependencies: [] },
+                ],
+                [{ path: projectA, names: ['alpha'] }, { path: projectB, names: ['beta'] }]
+            );
+
+            const files = listSpecFiles(auth);
+            assert.deepStrictEqual(files, ['adr/0001-db.md', 'requirements.md', 'spec.yaml', 'tasks.md']);
+
+            const plan = planSpecDuplicate({
+                spec: { path: auth, name: 'auth', projectPath: projectA },
+                newName: 'login',
+                targetProjectPath: projectB,
+                graph,
+                files,
+                getProjectName: p => path.basename(p),
+                readFile,
+            });
+
+            assert.deepStrictEqual([...plan.keys()].sort(), ['adr/0001-db.md', 'requirements.md', 'tasks.md']);
+            const requirements = plan.get('requirements.md')!.split('\n');
+            assert.strictEqual(requirements[0], '# login - Requirements');
+            assert.strictEqual(requirements[4], '- alpha:users');
+            assert.strictEqual(requirements[10], '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | TODO |');
+            assert.strictEqual(plan.get('tasks.md'), '# login - Tasks\n\n- [ ] **Task 1.1:** Build (see login:1.2)\n');
+            assert.strictEqual(plan.get('adr/0001-db.md'), '# Database\n');
+        });
+    });
+});
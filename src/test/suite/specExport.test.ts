@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { ExportBundle, renderExport, getExportFileName, markdownToHtml } from '../../specExport';
+
+suite('Spec Export Test Suite', () => {
+    const bundle: ExportBundle = {
+        title: 'billing',
+        generatedAt: '2026-01-01T10:00:00.000Z',
+        specs: [
+            {
+                name: 'auth',
+                project: 'billing',
+                status: 'in-progress',
+                statusLabel: 'In Progress',
+                archived: false,
+                taskProgress: { completed: 1, total: 4 },
+                coverage: [{ id: 1, guardrail: '1. Testing Coverage', owners: ['Alice'], status: 'DONE', line: 0 }],
+                documents: {
+                    requirements: '# auth - Requirements\n\n## Overview\n\nSign in <securely>.\n',
+                    tasks: '# auth - Tasks\n\n- [x] **Task 1.1:** Model\n',
+                },
+            },
+            {
+                name: 'invoices',
+                project: 'billing',
+                status: 'draft',
+                statusLabel: 'Draft',
+                archived: true,
+                coverage: [],
+                documents: {},
+            },
+        ],
+        guardrails: [{ id: 1, name: 'Testing Coverage', severity: 'critical', status: 'partial' }],
+    };
+
+    test('should export JSON with the computed data', () => {
+        assert.deepStrictEqual(JSON.parse(renderExport(bundle, 'json')), bundle);
+    });
+
+    test('should concatenate documents under spec headings in Markdown', () => {
+        const markdown = renderExport(bundle, 'markdown');
+        assert.ok(markdown.startsWith('# billing\n'));
+        assert.ok(markdown.includes('| 1. Testing Coverage | critical | partial |'));
+        assert.ok(markdown.includes('| auth | In Progress | 1/4 tasks (25%) |'));
+        assert.ok(markdown.includes('- **Status:** Draft (archived)'));
+        // Document headings move below the spec heading
+        assert.ok(markdown.includes('### Requirements\n\n#### auth - Requirements\n\n##### Overview'));
+        assert.ok(!markdown.includes('### Design'));
+    });
+
+    test('should render a self-contained HTML page', () => {
+        const html = renderExport(bundle, 'html');
+        assert.ok(html.startsWith('<!DOCTYPE html>'));
+        assert.ok(!/<script|<link|src=/i.test(html));
+        assert.ok(html.includes('<section id="spec-auth">'));
+        assert.ok(html.includes('<span class="badge done">DONE</span>'));
+        assert.ok(html.includes('Sign in &lt;securely&gt;.'));
+    });
+
+    test('should convert Markdown to HTML', () => {
+        const html = markdownToHtml([
+            '## Overview',
+            'Uses **JWT** and `Bearer <token>` ([spec](https://example.com)).',
+            '',
+            '- [x] AC-1.1: Done',
+            '- Plain item',
+            '',
+            '| A | B |',
+            '|---|---|',
+            '| 1 | 2 |',
+            '',
+            '```',
+            '# not a heading',
+            '```',
+        ].join('\n'));
+        assert.strictEqual(html, [
+            '<h2>Overview</h2>',
+            '<p>Uses <strong>JWT</strong> and <code>Bearer &lt;token&gt;</code> (<a href="https://example.com">spec</a>).</p>',
+            '<ul>',
+            '<li>☑ AC-1.1: Done</li>',
+            '<li>Plain item</li>',
+            '</ul>',
+            '<table>\n<tr><th>A</th><th>B</th></tr>\n<tr><td>1</td><td>2</td></tr>\n</table>',
+            '<pre><code># not a heading</code></pre>',
+        ].join('\n'));
+    });
+
+    test('should build safe export file names', () => {
+        assert.strictEqual(getExportFileName('auth', 'html'), 'auth.html');
+        assert.strictEqual(getExportFileName('My Project/API', 'markdown'), 'My-Project-API.md');
+        assert.strictEqual(getExportFileName('///', 'json'), 'specs.json');
+    });
+});
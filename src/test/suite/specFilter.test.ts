@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import type { SpecInfo } from '../../specView';
+import {
+    EMPTY_SPEC_FILTER,
+    summarizeRequirements,
+    isOwnedBy,
+    matchesSpecFilter,
+    isSpecFilterActive,
+    describeSpecFilter,
+    normalizeSpecFilter,
+} from '../../specFilter';
+
+function spec(name: string, fields: Partial<SpecInfo> = {}): SpecInfo {
+    return {
+        name,
+        path: `/app/.ldf/specs/${name}`,
+        status: 'draft',
+        statusSource: 'inferred',
+        hasRequirements: true,
+        hasDesign: false,
+        hasTasks: false,
+        ...fields,
+    };
+}
+
+suite('Spec Filter Test Suite', () => {
+    suite('summarizeRequirements', () => {
+        test('should read overview, owners and coverage gaps', () => {
+            const content = [
+                '# auth - Requirements',
+                '',
+                '## Overview',
+                '',
+                'Password and SSO login.',
+                '',
+                '## Guardrail Coverage Matrix',
+                '',
+                '| Guardrail | Requirements | Design | Tasks/Tests | Owner | Status |',
+                '|-----------|--------------|--------|-------------|-------|--------|',
+                '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | DONE |',
+                '| 2. Security Basics | [US-1] | [S2] | [T-2] | Alice, @bob | PARTIAL |',
+                '| 3. Error Handling | [US-1] | [TBD] | [TBD] | [TBD] | TODO |',
+                '| 7. Database Migrations | [US-1] | - | - | - | N/A - no database |',
+            ].join('\n');
+
+            assert.deepStrictEqual(summarizeRequirements(content), {
+                overview: 'Password and SSO login.',
+                owners: ['Alice', '@bob'],
+                coverageGaps: 2,
+            });
+        });
+
+        test('should count matrix rows with empty cells but not rows in code blocks', () => {
+            const content = [
+                '| Guardrail | Requirements | Design | Tasks/Tests | Owner | Status |',
+                '|-----------|--------------|--------|-------------|-------|--------|',
+                '| 1. Testing Coverage |  |  |  |  | TODO |',
+                '```',
+                '| 2. Security Basics | [US-1] | [S2] | [T-2] | Carol | TODO |',
+                '```',
+            ].join('\n');
+
+            assert.deepStrictEqual(summarizeRequirements(content), { overview: '', owners: [], coverageGaps: 1 });
+        });
+
+        test('should read owners from the Owner line before the matrix', () => {
+            const content = [
+                '# auth - Requirements',
+                '',
+                '**Owner:** @carol',
+                '',
+                '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | DONE |',
+            ].join('\n');
+            assert.deepStrictEqual(summarizeRequirements(content).owners, ['@carol', 'Alice']);
+        });
+
+        test('should return empty values for a bare document', () => {
+            assert.deepStrictEqual(summarizeRequirements('# Requirements\n'), {
+                overview: '',
+                owners: [],
+                coverageGaps: 0,
+            });
+        });
+    });
+
+    suite('isOwnedBy', () => {
+        test('should match git name, email and email local part', () => {
+            const identities = ['Alice Smith', 'alice@example.com'];
+            assert.ok(isOwnedBy(['alice smith'], identities));
+            assert.ok(isOwnedBy(['ALICE@example.com'], identities));
+            assert.ok(isOwnedBy(['@alice'], identities));
+            assert.ok(!isOwnedBy(['bob'], identities));
+            assert.ok(!isOwnedBy(['alice'], []));
+        });
+    });
+
+    suite('matchesSpecFilter', () => {
+        test('should match everything with the empty filter', () => {
+            assert.ok(matchesSpecFilter(spec('auth'), EMPTY_SPEC_FILTER, []));
+        });
+
+        test('should combine status, text, gaps and owner filters', () => {
+            const auth = spec('auth', { status: 'in-progress', overview: 'SSO login', owners: ['alice'], coverageGaps: 1 });
+            const filter = { statuses: ['in-progress'], text: 'sso', hasGaps: true, ownedByMe: true };
+
+            assert.ok(matchesSpecFilter(auth, filter, ['alice@example.com']));
+            assert.ok(!matchesSpecFilter(auth, filter, ['bob@example.com']));
+            assert.ok(!matchesSpecFilter({ ...auth, coverageGaps: 0 }, filter, ['alice@example.com']));
+            assert.ok(!matchesSpecFilter({ ...auth, status: 'draft' }, filter, ['alice@example.com']));
+            assert.ok(!matchesSpecFilter(auth, { ...filter, text: 'billing' }, ['alice@example.com']));
+            assert.ok(matchesSpecFilter(auth, { ...EMPTY_SPEC_FILTER, text: 'AUTH' }, []));
+        });
+
+        test('should count specs with tasks assigned to the user as assigned', () => {
+            const filter = { ...EMPTY_SPEC_FILTER, ownedByMe: true };
+            const billing = spec('billing', { owners: ['bob'], taskOwners: ['@alice'] });
+            assert.ok(matchesSpecFilter(billing, filter, ['alice@example.com']));
+            assert.ok(!matchesSpecFilter({ ...billing, taskOwners: [] }, filter, ['alice@example.com']));
+        });
+    });
+
+    suite('filter state', () => {
+        test('should describe active filters', () => {
+            const filter = { statuses: ['draft', 'in-review'], text: ' auth ', hasGaps: true, ownedByMe: false };
+            assert.ok(isSpecFilterActive(filter));
+            assert.ok(!isSpecFilterActive({ ...EMPTY_SPEC_FILTER, text: '  ' }));
+            assert.strictEqual(
+                describeSpecFilter(filter, id => id.toUpperCase()),
+                'DRAFT, IN-REVIEW • "auth" • has gaps'
+            );
+        });
+
+        test('should ignore malformed stored filters', () => {
+            assert.deepStrictEqual(normalizeSpecFilter(undefined), EMPTY_SPEC_FILTER);
+            assert.deepStrictEqual(
+                normalizeSpecFilter({ statuses: ['draft', 3], text: 7, hasGaps: 'yes', ownedByMe: true }),
+                { statuses: ['draft'], text: '', hasGaps: false, ownedByMe: true }
+            );
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import {
+    parseGitLog,
+    buildSpecHistory,
+    loadSpecRevisions,
+    readSpecFileAt,
+    resolveRevision,
+    SpecRevision,
+} from '../../specHistoryData';
+import { DEFAULT_WORKFLOW } from '../../specWorkflow';
+
+suite('Spec History Test Suite', () => {
+    function revision(subject: string, changes: SpecRevision['changes'], contents: SpecRevision['contents']): SpecRevision {
+        return { hash: `${subject}0000000`, author: 'Alice', date: '2026-01-01T10:00:00+00:00', subject, changes, contents };
+    }
+
+    test('should parse git log records under the spec folder', () => {
+        const output = [
+            '\x1eabc123\x1fAlice\x1f2026-01-01T10:00:00+00:00\x1fAdd auth spec',
+            '',
+            'A\t.ldf/specs/auth/requirements.md',
+            'A\t.ldf/specs/auth/adr/0001-db.md',
+            '',
+            '\x1edef456\x1fBob\x1f2026-01-02T10:00:00+00:00\x1fWork on tasks: part 1',
+            '',
+            'M\t.ldf/specs/auth/tasks.md',
+            'D\t.ldf/specs/auth/design.md',
+            'M\t.ldf/specs/authz/tasks.md',
+            '',
+        ].join('\n');
+
+        assert.deepStrictEqual(parseGitLog(output, '.ldf/specs/auth/'), [
+            {
+                hash: 'abc123', author: 'Alice', date: '2026-01-01T10:00:00+00:00', subject: 'Add auth spec',
+                changes: [
+                    { status: 'added', file: 'requirements.md' },
+                    { status: 'added', file: 'adr/0001-db.md' },
+                ],
+            },
+            {
+                hash: 'def456', author: 'Bob', date: '2026-01-02T10:00:00+00:00', subject: 'Work on tasks: part 1',
+                changes: [
+                    { status: 'modified', file: 'tasks.md' },
+                    { status: 'deleted', file: 'design.md' },
+                ],
+            },
+        ]);
+    });
+
+    test('should replay task completions and status transitions', () => {
+        const history = buildSpecHistory([
+            revision('requirements', [{ status: 'added', file: 'requirements.md' }], { 'requirements.md': '# auth\n' }),
+            revision('design', [{ status: 'added', file: 'design.md' }], { 'design.md': '# Design\n' }),
+            revision('tasks', [{ status: 'added', file: 'tasks.md' }], {
+                'tasks.md': '- [ ] **Task 1.1:** Model\n- [ ] **Task 1.2:** API\n',
+            }),
+            revision('progress', [{ status: 'modified', file: 'tasks.md' }], {
+                'tasks.md': '- [x] **Task 1.1:** Model\n- [ ] **Task 1.2:** API\n- [ ] **Task 1.3:** UI\n',
+            }),
+            revision('reopen', [{ status: 'modified', file: 'tasks.md' }], {
+                'tasks.md': '- [ ] **Task 1.1:** Model\n- [x] **Task 1.2:** API\n- [ ] **Task 1.3:** UI\n',
+            }),
+        ], DEFAULT_WORKFLOW);
+
+        assert.deepStrictEqual(history.map(e => e.subject), ['reopen', 'progress', 'tasks', 'design', 'requirements']);
+        assert.deepStrictEqual(history.map(e => e.status), ['in-progress', 'in-progress', 'approved', 'in-review', 'draft']);
+        assert.deepStrictEqual(history[4].events.map(e => e.message), ['Added requirements.md', 'Status: Draft']);
+        assert.deepStrictEqual(history[2].events.map(e => e.message), [
+            'Added tasks.md',
+            'Added 2 tasks',
+            'Status: In Review → Approved',
+        ]);
+        assert.deepStrictEqual(history[1].events.map(e => e.message), [
+            'Added 1 task',
+            'Completed Task 1.1: Model',
+            'Status: Approved → In Progress',
+        ]);
+        assert.deepStrictEqual(history[0].events.map(e => e.kind), ['task-reopened', 'task-completed']);
+        assert.deepStrictEqual(history[0].taskProgress, { completed: 1, total: 3 });
+        assert.strictEqual(history[0].shortHash, 'reopen0');
+    });
+
+    test('should prefer a declared status defined by the workflow', () => {
+        const history = buildSpecHistory([
+            revision('frontmatter', [{ status: 'added', file: 'requirements.md' }], {
+                'requirements.md': '---\nstatus: In Review\n---\n# auth\n',
+            }),
+            revision('spec.yaml', [{ status: 'added', file: 'spec.yaml' }], { 'spec.yaml': 'status: approved\n' }),
+            revision('unknown', [{ status: 'modified', file: 'spec.yaml' }], { 'spec.yaml': 'status: shipped\n' }),
+            revision('removed', [{ status: 'deleted', file: 'spec.yaml' }], { 'spec.yaml': undefined }),
+        ], DEFAULT_WORKFLOW);
+
+        assert.deepStrictEqual(
+            history.map(e => [e.status, e.declared]),
+            [['in-review', true], ['draft', false], ['approved', true], ['in-review', true]]
+        );
+    });
+
+    suite('loadSpecRevisions', () => {
+        let repo: string;
+
+        const git = (...args: string[]) => execFileSync(
+            'git',
+            ['-c', 'user.name=Alice', '-c', 'user.email=alice@example.com', ...args],
+            { cwd: repo }
+        );
+
+        setup(() => {
+            repo = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-history-'));
+            git('init', '-q');
+        });
+
+        teardown(() => {
+            fs.rmSync(repo, { recursive: true, force: true });
+        });
+
+        test('should read the commits and file contents of a spec folder', async () => {
+            const specPath = path.join(repo, '.ldf', 'specs', 'auth');
+            fs.mkdirSync(specPath, { recursive: true });
+            fs.writeFileSync(path.join(specPath, 'tasks.md'), '- [ ] **Task 1.1:** Model\n');
+            fs.writeFileSync(path.join(repo, 'README.md'), '# Project\n');
+            git('add', '-A');
+            git('commit', '-q', '-m', 'Add auth tasks');
+            fs.writeFileSync(path.join(specPath, 'tasks.md'), '- [x] **Task 1.1:** Model\n');
+            git('commit', '-q', '-am', 'Complete model');
+
+            const revisions = await loadSpecRevisions(specPath);
+            assert.deepStrictEqual(revisions.map(r => r.subject), ['Add auth tasks', 'Complete model']);
+            assert.strictEqual(revisions[0].author, 'Alice');
+            assert.deepStrictEqual(revisions[0].changes, [{ status: 'added', file: 'tasks.md' }]);
+            assert.deepStrictEqual(revisions[1].contents, { 'tasks.md': '- [x] **Task 1.1:** Model\n' });
+        });
+
+        test('should read files at a revision', async () => {
+            const specPath = path.join(repo, 'auth');
+            fs.mkdirSync(specPath);
+            fs.writeFileSync(path.join(specPath, 'requirements.md'), '# auth\n');
+            git('add', '-A');
+            git('commit', '-q', '-m', 'Add auth');
+            git('tag', 'v1');
+            fs.writeFileSync(path.join(specPath, 'requirements.md'), '# auth v2\n');
+            git('commit', '-q', '-am', 'Update auth');
+
+            const hash = await resolveRevision(specPath, 'v1');
+            assert.match(hash, /^[0-9a-f]{40}$/);
+            assert.strictEqual(await readSpecFileAt(specPath, hash, 'requirements.md'), '# auth\n');
+            assert.strictEqual(await readSpecFileAt(specPath, 'HEAD', 'requirements.md'), '# auth v2\n');
+            assert.strictEqual(await readSpecFileAt(specPath, 'HEAD', 'tasks.md'), undefined);
+            await assert.rejects(resolveRevision(specPath, 'no-such-branch'));
+        });
+
+        test('should fail outside a git repository', async () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-history-'));
+            try {
+                await assert.rejects(loadSpecRevisions(dir));
+            } finally {
+                fs.rmSync(dir, { recursive: true, force: true });
+            }
+        });
+    });
+});
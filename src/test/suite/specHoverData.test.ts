@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { findGuardrailReference, formatGuardrailHover, formatSpecIdHover } from '../../specHoverData';
+
+suite('Spec Hover Data Test Suite', () => {
+    const guardrail = {
+        id: 6,
+        name: 'Data Validation',
+        description: 'Input validation at boundaries',
+        severity: 'critical' as const,
+        enabled: true,
+    };
+
+    test('should find guardrails in matrix rows and mentions', () => {
+        const row = '| 6. Data Validation  | [US-1] | [S2] | [T-1] | Alice | TODO |';
+        assert.deepStrictEqual(findGuardrailReference(row, 5), { guardrailId: 6, start: 2, end: 20 });
+        assert.strictEqual(findGuardrailReference(row, 25), undefined);
+        assert.deepStrictEqual(
+            findGuardrailReference('Covers guardrail #6 and more', 10),
+            { guardrailId: 6, start: 7, end: 19 }
+        );
+        assert.strictEqual(findGuardrailReference('| Guardrail | Status |', 3), undefined);
+    });
+
+    test('should describe a guardrail with its coverage', () => {
+        const markdown = formatGuardrailHover({ ...guardrail, enabled: false }, {
+            guardrail,
+            coveredBy: ['auth'],
+            specCoverage: [
+                { specName: 'auth', status: 'done', owners: ['Alice'] },
+                { specName: 'billing', status: 'todo' },
+            ],
+            status: 'partial',
+            justifications: [],
+        });
+        assert.strictEqual(markdown, [
+            '**6. Data Validation**',
+            '',
+            'Input validation at boundaries',
+            '',
+            'Severity: critical · $(circle-slash) Disabled',
+            '',
+            'Coverage: $(warning) Partial (1/2 specs done)',
+            '',
+            '- auth: DONE (Alice)',
+            '- billing: TODO',
+        ].join('\n'));
+        assert.ok(!formatGuardrailHover(guardrail).includes('Coverage'));
+    });
+
+    test('should describe stories, criteria, phases and tasks', () => {
+        const requirements = [
+            '## User Stories',
+            '### US-1: Sign in',
+            '- [x] AC-1.1: Users can sign in',
+            '- [ ] AC-1.2: Errors are shown',
+        ].join('\n');
+        const tasks = [
+            '## Phase 1: Setup',
+            '- [x] **Task 1.1:** Add login form',
+            '- [x] **Task 1.2:** Add session store',
+        ].join('\n');
+
+        assert.strictEqual(formatSpecIdHover('US-1', { requirements }), [
+            '**US-1: Sign in** · $(circle-large-outline) Open',
+            '',
+            '1/2 criteria done',
+            '',
+            '- $(pass-filled) AC-1.1: Users can sign in',
+            '- $(circle-large-outline) AC-1.2: Errors are shown',
+        ].join('\n'));
+        assert.strictEqual(
+            formatSpecIdHover('AC-1.1', { requirements }),
+            '**AC-1.1** · $(pass-filled) Done\n\nUsers can sign in\n\n_US-1: Sign in_'
+        );
+        assert.ok(formatSpecIdHover('T-1', { tasks })?.startsWith('**Phase 1: Setup** · $(pass-filled) Done\n\n2/2 tasks done'));
+        assert.strictEqual(
+            formatSpecIdHover('T-1.2', { tasks }),
+            '**Task 1.2: Add session store** · $(pass-filled) Done\n\n_Phase 1: Setup_'
+        );
+        assert.strictEqual(formatSpecIdHover('US-9', { requirements }), undefined);
+        assert.strictEqual(formatSpecIdHover('S1', { requirements, tasks }), undefined);
+    });
+});
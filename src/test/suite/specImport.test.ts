@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import {
+    parseIssueExport,
+    parseCsv,
+    splitChecklist,
+    toSpecName,
+    toSpecContent,
+} from '../../specImport';
+
+suite('Spec Import Test Suite', () => {
+    test('should parse CSV with quoted fields', () => {
+        assert.deepStrictEqual(
+            parseCsv('Title,Body\r\n"Sign in, with SSO","Line 1\nsaid ""hi"""\n\n'),
+            [['Title', 'Body'], ['Sign in, with SSO', 'Line 1\nsaid "hi"']]
+        );
+    });
+
+    test('should split checklist items outside code blocks', () => {
+        const { body, criteria } = splitChecklist(
+            'Intro\n\n- [ ] Users can sign in\n- [x] Errors are shown\n\n```\n- [ ] not a criterion\n```'
+        );
+        assert.deepStrictEqual(criteria, ['Users can sign in', 'Errors are shown']);
+        assert.strictEqual(body, 'Intro\n\n```\n- [ ] not a criterion\n```');
+    });
+
+    test('should derive spec names from titles', () => {
+        assert.strictEqual(toSpecName('Add SSO: sign-in (Café)'), 'add-sso-sign-in-cafe');
+        assert.strictEqual(toSpecName('!!!'), '');
+    });
+
+    test('should map GitHub issues and sub-issues', () => {
+        const { source, issues } = parseIssueExport(JSON.stringify([
+            {
+                number: 1,
+                title: 'Sign in',
+                body: '## Context\nUsers need accounts.\n- [ ] Works with SSO',
+                state: 'open',
+                html_url: 'https://github.com/acme/app/issues/1',
+                sub_issues: [{ number: 2, title: 'Add login form', state: 'closed' }, 3],
+            },
+            { number: 2, title: 'Add login form', state: 'closed' },
+            { number: 3, title: 'Add session store', state: 'OPEN' },
+            { number: 4, title: 'Sign out', body: '', parent: { number: 1 } },
+        ]), 'issues.json');
+
+        assert.strictEqual(source, 'GitHub');
+        assert.strictEqual(issues.length, 1);
+        assert.deepStrictEqual(issues[0].criteria, ['Works with SSO']);
+        assert.deepStrictEqual(issues[0].tasks, [
+            { title: 'Add login form', done: true },
+            { title: 'Add session store', done: false },
+            { title: 'Sign out', done: false },
+        ]);
+
+        const content = toSpecContent(issues[0], source);
+        assert.strictEqual(
+            content.overview,
+            '**Sign in**\n\n#### Context\nUsers need accounts.\n\n' +
+            '_Imported from GitHub issue [#1](https://github.com/acme/app/issues/1)._'
+        );
+        assert.deepStrictEqual(content.userStories, [{ title: 'Sign in', criteria: ['Works with SSO'] }]);
+        assert.strictEqual(content.tasks?.length, 3);
+    });
+
+    test('should map Jira issues with ADF descriptions and subtasks', () => {
+        const { source, issues } = parseIssueExport(JSON.stringify({
+            issues: [{
+                key: 'PROJ-7',
+                self: 'https://acme.atlassian.net/rest/api/3/issue/10007',
+                fields: {
+                    summary: 'Export reports',
+                    description: {
+                        type: 'doc',
+                        content: [
+                            { type: 'paragraph', content: [{ type: 'text', text: 'Reports as PDF.' }] },
+                            {
+                                type: 'taskList',
+                                content: [
+                                    { type: 'taskItem', attrs: { state: 'TODO' }, content: [{ type: 'text', text: 'Has a cover page' }] },
+                                    { type: 'taskItem', attrs: { state: 'DONE' }, content: [{ type: 'text', text: 'Lists specs' }] },
+                                ],
+                            },
+                        ],
+                    },
+                    subtasks: [
+                        { key: 'PROJ-8', fields: { summary: 'Render PDF', status: { statusCategory: { key: 'done' } } } },
+                    ],
+                },
+            }],
+        }), 'search.json');
+
+        assert.strictEqual(source, 'Jira');
+        assert.deepStrictEqual(issues, [{
+            key: 'PROJ-7',
+            title: 'Export reports',
+            body: 'Reports as PDF.',
+            url: 'https://acme.atlassian.net/browse/PROJ-7',
+            criteria: ['Has a cover page', 'Lists specs'],
+            tasks: [{ title: 'Render PDF', done: true }],
+        }]);
+    });
+
+    test('should map CSV rows with parent columns to tasks', () => {
+        const { issues } = parseIssueExport(
+            '\uFEFFIssue key,Summary,Description,Parent,Status\n' +
+            'PROJ-1,Search,"Find specs\n- [ ] By name",,To Do\n' +
+            'PROJ-2,Index specs,,PROJ-1,Done\n',
+            'export.csv'
+        );
+        assert.deepStrictEqual(issues, [{
+            key: 'PROJ-1',
+            title: 'Search',
+            body: 'Find specs',
+            url: undefined,
+            criteria: ['By name'],
+            tasks: [{ title: 'Index specs', done: true }],
+        }]);
+    });
+
+    test('should reject unsupported exports', () => {
+        assert.throws(() => parseIssueExport('{"items": []}', 'export.json'), /"issues" array/);
+        assert.throws(() => parseIssueExport('not json', 'export.json'), /Not a JSON or CSV export/);
+        assert.throws(() => parseIssueExport('Key,Body\n1,x', 'export.csv'), /Title or Summary column/);
+    });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SpecIndex } from '../../specIndex';
+
+suite('Spec Index Test Suite', () => {
+    let dir: string;
+    let index: SpecIndex;
+    let filePath: string;
+
+    // Rewrite a file with a distinct mtime so the change is visible to the cache
+    function write(content: string, mtime: number): void {
+        fs.writeFileSync(filePath, content);
+        fs.utimesSync(filePath, mtime, mtime);
+    }
+
+    setup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-index-'));
+        fs.mkdirSync(path.join(dir, 'auth'));
+        filePath = path.join(dir, 'auth', 'tasks.md');
+        write('# Tasks\n', 1000);
+        index = new SpecIndex();
+    });
+
+    teardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should parse each file version once', async () => {
+        let calls = 0;
+        const parse = (content: string) => {
+            calls++;
+            return content.length;
+        };
+
+        await index.load([dir]);
+        assert.strictEqual(index.parse(filePath, 'length', parse), 8);
+        assert.strictEqual(index.parse(filePath, 'length', parse), 8);
+        assert.strictEqual(calls, 1);
+
+        write('# Tasks\n- [ ] **Task 1:** One\n', 2000);
+        assert.strictEqual(index.parse(filePath, 'length', parse), 8);
+        await index.update([filePath]);
+        assert.strictEqual(index.parse(filePath, 'length', parse), 30);
+        assert.strictEqual(calls, 2);
+    });
+
+    test('should return undefined for missing files', async () => {
+        await index.load([dir]);
+        assert.strictEqual(index.readFile(path.join(dir, 'auth', 'design.md')), undefined);
+        assert.strictEqual(index.parse(path.join(dir, 'missing.md'), 'length', c => c.length), undefined);
+        assert.strictEqual(index.exists(path.join(dir, 'auth', 'design.md')), false);
+        assert.strictEqual(index.exists(filePath), true);
+    });
+
+    test('should read uncached files in the background', async () => {
+        const changed = new Promise<string[]>(resolve => index.onDidChange(resolve));
+        assert.strictEqual(index.readFile(filePath), undefined);
+        assert.deepStrictEqual(index.listDirectories(dir), []);
+
+        assert.deepStrictEqual((await changed).sort(), [dir, filePath].sort());
+        assert.strictEqual(index.readFile(filePath), '# Tasks\n');
+        assert.deepStrictEqual(index.listDirectories(dir), ['auth']);
+    });
+
+    test('should notify only when content changes', async () => {
+        await index.load([dir]);
+        const notified: string[][] = [];
+        index.onDidChange(changed => notified.push(changed));
+
+        // Touched but unchanged
+        write('# Tasks\n', 2000);
+        assert.deepStrictEqual(await index.update([filePath]), []);
+
+        write('# Tasks\nchanged\n', 3000);
+        assert.deepStrictEqual(await index.update([filePath, filePath]), [filePath]);
+        assert.strictEqual(index.readFile(filePath), '# Tasks\nchanged\n');
+
+        fs.rmSync(path.join(dir, 'auth'), { recursive: true });
+        assert.deepStrictEqual(await index.update([path.join(dir, 'auth')]), [path.join(dir, 'auth')]);
+        assert.strictEqual(index.readFile(filePath), undefined);
+        assert.deepStrictEqual(index.listDirectories(dir), []);
+        assert.strictEqual(notified.length, 2);
+    });
+
+    test('should keep parser results when a file is touched without changes', async () => {
+        await index.load([dir]);
+        let calls = 0;
+        index.parse(filePath, 'count', () => ++calls);
+        write('# Tasks\n', 2000);
+        await index.update([filePath]);
+        assert.strictEqual(index.parse(filePath, 'count', () => ++calls), 1);
+    });
+
+    test('should load spec folders and archived specs', async () => {
+        fs.writeFileSync(path.join(dir, 'auth', 'spec.yaml'), 'status: draft\n');
+        fs.writeFileSync(path.join(dir, 'auth', 'notes.txt'), 'ignored');
+        fs.mkdirSync(path.join(dir, 'auth', 'adr'));
+        fs.writeFileSync(path.join(dir, 'auth', 'adr', '0001-tokens.md'), '# ADR\n');
+        fs.mkdirSync(path.join(dir, '_archive', 'billing'), { recursive: true });
+        fs.writeFileSync(path.join(dir, '_archive', 'billing', 'requirements.md'), '# Billing\n');
+        await index.load([dir, path.join(dir, 'missing')]);
+
+        assert.deepStrictEqual(index.listDirectories(dir), ['_archive', 'auth']);
+        assert.deepStrictEqual(index.listFiles(path.join(dir, 'auth')), ['notes.txt', 'spec.yaml', 'tasks.md']);
+        assert.strictEqual(index.readFile(path.join(dir, 'auth', 'adr', '0001-tokens.md')), '# ADR\n');
+        assert.strictEqual(index.readFile(path.join(dir, '_archive', 'billing', 'requirements.md')), '# Billing\n');
+        assert.strictEqual(index.readFile(path.join(dir, 'auth', 'notes.txt')), undefined);
+
+        // Loaded files count as known: an unchanged update reports nothing
+        assert.deepStrictEqual(
+            await index.update([filePath, path.join(dir, 'auth', 'spec.yaml')]),
+            []
+        );
+    });
+
+    test('should list files created after loading', async () => {
+        await index.load([dir]);
+        const designPath = path.join(dir, 'auth', 'design.md');
+        fs.writeFileSync(designPath, '# Design\n');
+        assert.deepStrictEqual(await index.update([designPath]), [designPath]);
+        assert.deepStrictEqual(index.listFiles(path.join(dir, 'auth')), ['design.md', 'tasks.md']);
+    });
+});
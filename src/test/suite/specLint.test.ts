@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { LINT_RULES, lintSpec, parseLintConfig } from '../../specLint';
+
+const guardrails = [
+    { id: 1, name: 'Testing Coverage', description: '', severity: 'critical' as const, enabled: true },
+    { id: 2, name: 'Security Basics', description: '', severity: 'critical' as const, enabled: true },
+    { id: 3, name: 'Error Handling', description: '', severity: 'high' as const, enabled: false },
+];
+
+const requirements = [
+    '# auth',
+    '## User Stories',
+    '### US-1: Sign in',
+    '**As a** [user type]',
+    '- [x] AC-1.1: Users can sign in',
+    '- [ ] AC-1.3: Errors are shown',
+    '### US-1: Sign in again',
+    '## Guardrail Coverage Matrix',
+    '| Guardrail | Requirements | Design | Tasks | Owner | Status |',
+    '|-----------|--------------|--------|-------|-------|--------|',
+    '| 1. Testing Coverage | [US-1, US-2] | [S1] | [T-1.1] | Alice | N/A |',
+    '| 3. Error Handling | [US-1] | [S9] | [T-1] | [TBD] | N/A - internal only |',
+    '```',
+    '[TBD] in a code block',
+    '```',
+].join('\n');
+
+const tasks = [
+    '## Phase 1: Setup',
+    '- [ ] **Task 1.1:** Add login form',
+    '- [ ] **Task 1.2:** Add session store',
+    '- [ ] **Task 1.4:** Add cookies, see [Story Title] and [docs](https://example.com)',
+].join('\n');
+
+suite('Spec Lint Test Suite', () => {
+    test('should report each rule at its location', () => {
+        const findings = lintSpec({ documents: { requirements, design: '# Design\n## Overview', tasks }, guardrails });
+        assert.deepStrictEqual(findings.map(f => [f.rule, f.file, f.line, f.start, f.end]), [
+            ['placeholder', 'requirements.md', 3, 9, 20],
+            ['numbering-gap', 'requirements.md', 5, 6, 12],
+            ['duplicate-id', 'requirements.md', 6, 4, 8],
+            ['missing-guardrail', 'requirements.md', 8, 0, 62],
+            ['dangling-reference', 'requirements.md', 10, 31, 35],
+            ['na-without-justification', 'requirements.md', 10, 64, 67],
+            ['disabled-guardrail', 'requirements.md', 11, 0, 75],
+            ['dangling-reference', 'requirements.md', 11, 32, 34],
+            ['placeholder', 'requirements.md', 11, 46, 51],
+            ['numbering-gap', 'tasks.md', 3, 8, 16],
+            ['placeholder', 'tasks.md', 3, 37, 50],
+        ]);
+        assert.deepStrictEqual(findings.map(f => f.message).filter((_, i) => [1, 2, 3, 4, 6, 9].includes(i)), [
+            'Numbering gap: expected AC-1.2, found AC-1.3',
+            'Duplicate ID US-1 (first on line 3)',
+            'Enabled guardrails missing from the coverage matrix: 2. Security Basics',
+            "US-2 is not defined in this spec's requirements.md",
+            '3. Error Handling is disabled; its coverage matrix row can be removed',
+            'Numbering gap: expected Task 1.3, found Task 1.4',
+        ]);
+        assert.strictEqual(findings[0].severity, 'warning');
+        assert.strictEqual(findings[2].severity, 'error');
+    });
+
+    test('should apply rule severities', () => {
+        const { config } = parseLintConfig({ rules: { placeholder: 'off', 'numbering-gap': false, 'duplicate-id': 'hint' } });
+        const findings = lintSpec({ documents: { requirements, tasks }, guardrails: [] }, config);
+        assert.ok(!findings.some(f => f.rule === 'placeholder' || f.rule === 'numbering-gap'));
+        assert.strictEqual(findings.find(f => f.rule === 'duplicate-id')?.severity, 'hint');
+    });
+
+    test('should parse the lint block of config.yaml', () => {
+        assert.deepStrictEqual(parseLintConfig(undefined), { config: LINT_RULES, errors: [] });
+        const strict = parseLintConfig({ strict: true, auto_fix: false, rules: { placeholder: 'info' } });
+        assert.strictEqual(strict.config['dangling-reference'], 'error');
+        assert.strictEqual(strict.config.placeholder, 'info');
+        assert.deepStrictEqual(parseLintConfig({ rules: { 'no-such-rule': 'error', placeholder: 'loud' } }).errors, [
+            "lint.rules: unknown rule 'no-such-rule'",
+            'lint.rules.placeholder must be one of: error, warning, info, hint, off',
+        ]);
+        assert.deepStrictEqual(parseLintConfig({ rules: ['placeholder'] }).errors, ['lint.rules must be an object']);
+    });
+});
@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import { LintFixEdit, getLintFixes } from '../../specLintFixes';
+import { LintRuleId, lintSpec } from '../../specLint';
+
+const guardrails = [
+    { id: 1, name: 'Testing Coverage', description: '', severity: 'critical' as const, enabled: true },
+    { id: 2, name: 'Security Basics', description: '', severity: 'critical' as const, enabled: true },
+    { id: 3, name: 'Error Handling', description: '', severity: 'high' as const, enabled: false },
+    { id: 4, name: 'Logging', description: '', severity: 'medium' as const, enabled: true },
+];
+
+const requirements = [
+    '### US-1: Sign in',
+    '- [ ] AC-1.1: Users can sign in',
+    '- [ ] AC-1.3: Errors are shown',
+    '- [ ] AC-1.5: Sessions expire',
+    '## Guardrail Coverage Matrix',
+    '| Guardrail | Requirements | Design | Tasks | Owner | Status |',
+    '|-----------|--------------|--------|-------|-------|--------|',
+    '| 1. Testing Coverage | [AC-1.3, AC-1.5] | [S2.1] | [T-1.3] | Alice | N/A |',
+    '| 3. Error Handling | [US-1] | [S9] | [T-1] | Bob | TODO |',
+    '',
+    'Next steps',
+].join('\n');
+
+const design = ['# Design', '## 1. Overview', 'Text', '## 2. Components', '### 2.2 Store', '## 3. Data Model', ''].join('\n');
+
+const tasks = ['## Phase 1: Setup', '- [ ] **Task 1.1:** Add form', '- [ ] **Task 1.3:** Add store'].join('\n');
+
+function fix(rule: LintRuleId, file: string, line: number, start: number, end = start) {
+    return getLintFixes({ rule, file, line, start, end }, { documents: { requirements, design, tasks }, guardrails });
+}
+
+function apply(content: string, edits: LintFixEdit[]): string {
+    const lines = content.split('\n');
+    const offset = (line: number, character: number) =>
+        lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0) + character;
+    return [...edits]
+        .sort((a, b) => offset(b.line, b.start) - offset(a.line, a.start))
+        .reduce((text, edit) => text.slice(0, offset(edit.line, edit.start)) + edit.text
+            + text.slice(offset(edit.endLine ?? edit.line, edit.end)), content);
+}
+
+suite('Spec Lint Fixes Test Suite', () => {
+    test('should add rows for missing guardrails at the end of the matrix', () => {
+        const [rows] = fix('missing-guardrail', 'requirements.md', 5, 0);
+        assert.strictEqual(rows.title, 'Add coverage matrix rows for 2 missing guardrails');
+        assert.deepStrictEqual(apply(requirements, rows.edits).split('\n').slice(8, 11), [
+            '| 3. Error Handling | [US-1] | [S9] | [T-1] | Bob | TODO |',
+            '| 2. Security Basics |  |  |  |  | TODO |',
+            '| 4. Logging |  |  |  |  | TODO |',
+        ]);
+        const fixed = apply(requirements, rows.edits);
+        assert.deepStrictEqual(lintSpec({ documents: { requirements: fixed }, guardrails })
+            .filter(f => f.rule === 'placeholder' || f.rule === 'missing-guardrail'), []);
+    });
+
+    test('should renumber criteria and tasks with their references', () => {
+        const [criteria] = fix('numbering-gap', 'requirements.md', 2, 6);
+        assert.strictEqual(criteria.title, 'Renumber the acceptance criteria of US-1 sequentially');
+        assert.strictEqual(criteria.edits.length, 4);
+        const renumbered = apply(requirements, criteria.edits).split('\n');
+        assert.deepStrictEqual(renumbered.slice(1, 4), [
+            '- [ ] AC-1.1: Users can sign in',
+            '- [ ] AC-1.2: Errors are shown',
+            '- [ ] AC-1.3: Sessions expire',
+        ]);
+        assert.ok(renumbered[7].startsWith('| 1. Testing Coverage | [AC-1.2, AC-1.3] |'));
+
+        const [taskFix] = fix('numbering-gap', 'tasks.md', 2, 8);
+        assert.strictEqual(taskFix.title, 'Renumber the tasks of Phase 1 sequentially');
+        assert.deepStrictEqual(taskFix.edits.map(e => [e.file, e.line, e.text]), [
+            ['requirements.md', 7, '1.2'],
+            ['tasks.md', 2, '1.2'],
+        ]);
+    });
+
+    test('should add a justification snippet to N/A', () => {
+        const line = requirements.split('\n')[7];
+        const [justify] = fix('na-without-justification', 'requirements.md', 7, line.indexOf('N/A'), line.indexOf('N/A') + 3);
+        assert.strictEqual(justify.isSnippet, true);
+        assert.deepStrictEqual(justify.edits, [
+            { file: 'requirements.md', line: 7, start: line.indexOf('N/A'), end: line.indexOf('N/A') + 3, text: 'N/A - ${1:justification}' },
+        ]);
+    });
+
+    test('should remove the row of a disabled guardrail', () => {
+        const [remove] = fix('disabled-guardrail', 'requirements.md', 8, 0);
+        assert.strictEqual(remove.title, 'Remove the coverage matrix row of disabled guardrail 3. Error Handling');
+        assert.deepStrictEqual(apply(requirements, remove.edits).split('\n').slice(7, 9), [
+            '| 1. Testing Coverage | [AC-1.3, AC-1.5] | [S2.1] | [T-1.3] | Alice | N/A |',
+            '',
+        ]);
+        assert.deepStrictEqual(fix('disabled-guardrail', 'requirements.md', 9, 0), []);
+    });
+
+    test('should add stub design sections for dangling section references', () => {
+        const line = requirements.split('\n')[7];
+        const [subsection] = fix('dangling-reference', 'requirements.md', 7, line.indexOf('S2.1'));
+        assert.strictEqual(subsection.title, 'Add design section S2.1 to design.md');
+        assert.deepStrictEqual(apply(design, subsection.edits).split('\n').slice(4, 9), [
+            '### 2.2 Store',
+            '### 2.1 Testing Coverage',
+            '',
+            'TBD',
+            '',
+        ]);
+
+        const row = requirements.split('\n')[8];
+        const [section] = fix('dangling-reference', 'requirements.md', 8, row.indexOf('S9'));
+        assert.strictEqual(apply(design, section.edits), `${design}\n## 9. Error Handling\n\nTBD\n`);
+        assert.deepStrictEqual(fix('dangling-reference', 'requirements.md', 8, row.indexOf('T-1')), []);
+
+        const [create] = getLintFixes(
+            { rule: 'dangling-reference', file: 'requirements.md', line: 8, start: row.indexOf('S9'), end: row.indexOf('S9') },
+            { documents: { requirements }, guardrails }
+        );
+        assert.strictEqual(create.title, 'Create design.md with section S9');
+        assert.deepStrictEqual(create.edits, [
+            { file: 'design.md', create: true, line: 0, start: 0, end: 0, text: '# Design\n\n## 9. Error Handling\n\nTBD\n' },
+        ]);
+    });
+});
@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+    parseFrontmatter,
+    normalizeStatusId,
+    readSpecMetadata,
+    writeSpecStatus,
+    setFrontmatterField,
+    SPEC_METADATA_FILE,
+} from '../../specMetadata';
+import { specIndex } from '../../specIndex';
+
+suite('Spec Metadata Test Suite', () => {
+    let specDir: string;
+
+    setup(() => {
+        specDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-meta-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(specDir, { recursive: true, force: true });
+    });
+
+    // Metadata is read from the spec index, so re-read the spec folder first
+    async function readMetadata() {
+        await specIndex.update([specDir]);
+        return readSpecMetadata(specDir);
+    }
+
+    suite('parseFrontmatter', () => {
+        test('should parse YAML frontmatter', () => {
+            const result = parseFrontmatter('---\nstatus: approved\n---\n# Title\n');
+            assert.ok(result);
+            assert.strictEqual(result.data.status, 'approved');
+            assert.strictEqual(result.lineCount, 3);
+        });
+
+        test('should return null without frontmatter', () => {
+            assert.strictEqual(parseFrontmatter('# Title\n\n---\n'), null);
+        });
+
+        test('should return null for invalid YAML', () => {
+            assert.strictEqual(parseFrontmatter('---\nstatus: [unclosed\n---\n'), null);
+        });
+    });
+
+    suite('normalizeStatusId', () => {
+        test('should normalize labels and separators', () => {
+            assert.strictEqual(normalizeStatusId('In Review'), 'in-review');
+            assert.strictEqual(normalizeStatusId('in_progress'), 'in-progress');
+            assert.strictEqual(normalizeStatusId(' APPROVED '), 'approved');
+        });
+    });
+
+    suite('setFrontmatterField', () => {
+        test('should replace an existing field', () => {
+            const updated = setFrontmatterField('---\nstatus: draft\nowner: bob\n---\n# T\n', 'status', 'approved');
+            assert.strictEqual(updated, '---\nstatus: approved\nowner: bob\n---\n# T\n');
+        });
+
+        test('should add a missing field', () => {
+            const updated = setFrontmatterField('---\nowner: bob\n---\n# T\n', 'status', 'draft');
+            assert.strictEqual(updated, '---\nowner: bob\nstatus: draft\n---\n# T\n');
+        });
+
+        test('should remove a field when value is undefined', () => {
+            const updated = setFrontmatterField('---\nstatus: draft\n---\n# T\n', 'status', undefined);
+            assert.strictEqual(updated, '---\n---\n# T\n');
+        });
+
+        test('should return null without frontmatter', () => {
+            assert.strictEqual(setFrontmatterField('# T\n', 'status', 'draft'), null);
+        });
+    });
+
+    suite('readSpecMetadata', () => {
+        test('should read status from spec.yaml', async () => {
+            fs.writeFileSync(path.join(specDir, SPEC_METADATA_FILE), 'status: In Review\n');
+            const metadata = await readMetadata();
+            assert.strictEqual(metadata.status, 'in-review');
+            assert.strictEqual(metadata.source, 'spec.yaml');
+        });
+
+        test('should read status from requirements.md frontmatter', async () => {
+            fs.writeFileSync(path.join(specDir, 'requirements.md'), '---\nstatus: approved\n---\n# Req\n');
+            const metadata = await readMetadata();
+            assert.strictEqual(metadata.status, 'approved');
+            assert.strictEqual(metadata.source, 'frontmatter');
+        });
+
+        test('should prefer spec.yaml over frontmatter', async () => {
+            fs.writeFileSync(path.join(specDir, SPEC_METADATA_FILE), 'status: complete\n');
+            fs.writeFileSync(path.join(specDir, 'requirements.md'), '---\nstatus: draft\n---\n# Req\n');
+            assert.strictEqual((await readMetadata()).status, 'complete');
+        });
+
+        test('should read owners as a string or a list', async () => {
+            fs.writeFileSync(path.join(specDir, SPEC_METADATA_FILE), 'owner: Alice\n');
+            assert.deepStrictEqual((await readMetadata()).owners, ['Alice']);
+            fs.writeFileSync(path.join(specDir, SPEC_METADATA_FILE), 'owners:\n  - Alice\n  - bob@example.com\n');
+            assert.deepStrictEqual((await readMetadata()).owners, ['Alice', 'bob@example.com']);
+        });
+
+        test('should return empty metadata when nothing is declared', async () => {
+            fs.writeFileSync(path.join(specDir, 'requirements.md'), '# Req\n');
+            assert.strictEqual((await readMetadata()).status, undefined);
+        });
+    });
+
+    suite('writeSpecStatus', () => {
+        test('should create spec.yaml when no metadata exists', async () => {
+            fs.writeFileSync(path.join(specDir, 'requirements.md'), '# Req\n');
+            const written = writeSpecStatus(specDir, 'approved');
+            assert.strictEqual(written, path.join(specDir, SPEC_METADATA_FILE));
+            assert.strictEqual((await readMetadata()).status, 'approved');
+        });
+
+        test('should update existing frontmatter in place', async () => {
+            const reqPath = path.join(specDir, 'requirements.md');
+            fs.writeFileSync(reqPath, '---\nstatus: draft\n---\n# Req\n');
+            const written = writeSpecStatus(specDir, 'in-review');
+            assert.strictEqual(written, reqPath);
+            assert.ok(!fs.existsSync(path.join(specDir, SPEC_METADATA_FILE)));
+            assert.strictEqual((await readMetadata()).status, 'in-review');
+        });
+
+        test('should clear status when undefined', async () => {
+            fs.writeFileSync(path.join(specDir, SPEC_METADATA_FILE), 'status: approved\n');
+            writeSpecStatus(specDir, undefined);
+            assert.strictEqual((await readMetadata()).status, undefined);
+        });
+    });
+});
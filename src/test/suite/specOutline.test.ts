@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import {
+    parseRequirementsOutline,
+    parseDesignOutline,
+    parseTasksOutline,
+} from '../../specOutline';
+
+suite('Spec Outline Test Suite', () => {
+    suite('parseRequirementsOutline', () => {
+        test('should list user stories with acceptance criteria', () => {
+            const content = [
+                '# auth - Requirements',             // 0
+                '## User Stories',                   // 1
+                '### US-1: Sign in',                 // 2
+                '**Acceptance Criteria:**',          // 3
+                '- [x] AC-1.1: Password login',      // 4
+                '- [ ] **AC-1.2:** SSO login',       // 5
+                '### US-2: Sign out',                // 6
+                '- AC-2.1: Clears the session',      // 7
+                '## Question-Pack Answers',           // 8
+                '- [ ] AC-9.9: Not a criterion',     // 9
+            ].join('\n');
+
+            const stories = parseRequirementsOutline(content);
+            assert.deepStrictEqual(stories.map(s => [s.label, s.description, s.line]), [
+                ['US-1', 'Sign in', 2],
+                ['US-2', 'Sign out', 6],
+            ]);
+            assert.deepStrictEqual(
+                stories[0].children.map(c => [c.label, c.description, c.line, c.checked]),
+                [
+                    ['AC-1.1', 'Password login', 4, true],
+                    ['AC-1.2', 'SSO login', 5, false],
+                ]
+            );
+            assert.strictEqual(stories[1].children[0].checked, undefined);
+        });
+    });
+
+    suite('parseDesignOutline', () => {
+        test('should nest subsections and skip code blocks', () => {
+            const content = [
+                '# auth - Design',
+                '## Components',
+                '### Session Store',
+                '```markdown',
+                '## Not a heading',
+                '```',
+                '## API Endpoints',
+                '## Data Model',
+                '### users table',
+            ].join('\n');
+
+            const sections = parseDesignOutline(content);
+            assert.deepStrictEqual(sections.map(s => [s.label, s.line, s.children.map(c => c.label)]), [
+                ['Components', 1, ['Session Store']],
+                ['API Endpoints', 6, []],
+                ['Data Model', 7, ['users table']],
+            ]);
+        });
+    });
+
+    suite('parseTasksOutline', () => {
+        test('should group tasks under phases with progress', () => {
+            const content = [
+                '# auth - Tasks',
+                '## Phase 1: Setup',
+                '- [x] **Task 1.1:** Create project',
+                '- [ ] **Task 1.2:** Add config',
+                '## Phase 2: Build',
+                '- [ ] **Task 2.1:** Login form',
+            ].join('\n');
+
+            const phases = parseTasksOutline(content);
+            assert.deepStrictEqual(phases.map(p => [p.label, p.description, p.line]), [
+                ['Phase 1: Setup', '1/2', 1],
+                ['Phase 2: Build', '0/1', 4],
+            ]);
+            assert.deepStrictEqual(
+                phases[0].children.map(t => [t.label, t.description, t.line, t.checked]),
+                [
+                    ['Task 1.1', 'Create project', 2, true],
+                    ['Task 1.2', 'Add config', 3, false],
+                ]
+            );
+        });
+
+        test('should keep tasks without a phase at the top level', () => {
+            const tasks = parseTasksOutline('# Tasks\n- [ ] **Task 1:** Only task\n');
+            assert.deepStrictEqual(tasks.map(t => [t.kind, t.label, t.line]), [['task', 'Task 1', 1]]);
+        });
+    });
+});
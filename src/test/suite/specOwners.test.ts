@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { splitOwners, parseOwnerLine, parseMentions, buildOwnerRollup } from '../../specOwners';
+
+suite('Spec Owners Test Suite', () => {
+    test('should split owner cells without placeholders', () => {
+        assert.deepStrictEqual(splitOwners(' Alice, @bob ,TBD'), ['Alice', '@bob']);
+        assert.deepStrictEqual(splitOwners(' - '), []);
+    });
+
+    test('should read the Owner line before the first section', () => {
+        assert.deepStrictEqual(parseOwnerLine('# auth\n\n**Owner:** @alice, Bob\n\n## Overview\n'), ['@alice', 'Bob']);
+        assert.deepStrictEqual(parseOwnerLine('# auth\n- Owners: carol@example.com\n'), ['carol@example.com']);
+        assert.deepStrictEqual(parseOwnerLine('# auth\n\n## Overview\n\nOwner: @late\n'), []);
+    });
+
+    test('should find @name mentions but not email addresses', () => {
+        assert.deepStrictEqual(
+            parseMentions('Add login form @alice (@bob.smith) for dave@example.com, @alice.'),
+            ['@alice', '@bob.smith']
+        );
+        assert.deepStrictEqual(parseMentions('No owner'), []);
+    });
+
+    test('should roll up specs, tasks and coverage rows per owner', () => {
+        const rollup = buildOwnerRollup([
+            {
+                name: 'auth',
+                owners: ['Alice'],
+                tasks: [
+                    { owners: ['@alice'], isComplete: true },
+                    { owners: ['@bob'], isComplete: false },
+                ],
+                coverage: [{ owners: ['Bob'], isGap: true }, { owners: ['alice'], isGap: false }],
+            },
+            {
+                name: 'billing',
+                owners: [],
+                tasks: [{ owners: ['@alice'], isComplete: false }],
+                coverage: [],
+            },
+        ]);
+
+        assert.deepStrictEqual(rollup, [
+            {
+                owner: 'Alice',
+                specs: ['auth'],
+                contributesTo: ['billing'],
+                openTasks: 1,
+                completedTasks: 1,
+                coverageRows: 1,
+                coverageGaps: 0,
+            },
+            {
+                owner: 'bob',
+                specs: [],
+                contributesTo: ['auth'],
+                openTasks: 1,
+                completedTasks: 0,
+                coverageRows: 1,
+                coverageGaps: 1,
+            },
+        ]);
+    });
+});
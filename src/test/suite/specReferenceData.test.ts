@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import { parseSpecId, findSpecIds, getSpecIdAt, planSpecIdRename } from '../../specReferenceData';
+
+const requirements = [
+    '# auth',
+    '## User Stories',
+    '### US-1: Sign in',
+    '- [ ] AC-1.1: Users can sign in',
+    '- [x] **AC-1.2:** Errors are shown (see US-2)',
+    '### US-2: Sign out',
+    '## Guardrail Coverage Matrix',
+    '| 1. Testing Coverage | [US-1] | [S2.1] | [T-1.1], [T-2] | Alice | DONE |',
+    '```',
+    'US-1 in a code block',
+    '```',
+].join('\n');
+
+const design = [
+    '# auth design',
+    '## Overview',
+    '## 2. Components',
+    '### 2.1 SessionStore',
+    '### Cookies',
+    'Implements AC-1.2; AWS S3 is not a reference.',
+].join('\n');
+
+const tasks = [
+    '# auth tasks',
+    '## Phase 1: Setup',
+    '- [ ] **Task 1.1:** Add login form [US-1]',
+    '- [x] **Task 1.2:** Add session store [S2.1]',
+].join('\n');
+
+suite('Spec Reference Data Test Suite', () => {
+    test('should parse IDs in their written forms', () => {
+        assert.deepStrictEqual(parseSpecId('[US-3]'), { family: 'story', number: '3' });
+        assert.deepStrictEqual(parseSpecId('#ac-1.2'), { family: 'story', number: '1.2' });
+        assert.deepStrictEqual(parseSpecId('S3.2'), { family: 'section', number: '3.2' });
+        assert.deepStrictEqual(parseSpecId('T-1'), { family: 'task', number: '1' });
+        assert.strictEqual(parseSpecId('US-1.2'), undefined);
+        assert.strictEqual(parseSpecId('AC-1'), undefined);
+    });
+
+    test('should find definitions and references in requirements', () => {
+        const ids = findSpecIds('requirements', requirements);
+        assert.deepStrictEqual(ids.map(o => [o.id, o.line, o.start, o.definition]), [
+            ['US-1', 2, 4, true],
+            ['AC-1.1', 3, 6, true],
+            ['AC-1.2', 4, 8, true],
+            ['US-2', 4, 40, false],
+            ['US-2', 5, 4, true],
+            ['US-1', 7, 25, false],
+            ['S2.1', 7, 34, false],
+            ['T-1.1', 7, 43, false],
+            ['T-2', 7, 52, false],
+        ]);
+        assert.strictEqual(getSpecIdAt(ids, 7, 27)?.id, 'US-1');
+        assert.strictEqual(getSpecIdAt(ids, 7, 30), undefined);
+    });
+
+    test('should number design sections explicitly or by position', () => {
+        const ids = findSpecIds('design', design);
+        assert.deepStrictEqual(ids.map(o => [o.id, o.line, o.numberStart, o.definition]), [
+            ['S1', 1, undefined, true],
+            ['S2', 2, 3, true],
+            ['S2.1', 3, 4, true],
+            ['S2.2', 4, undefined, true],
+            ['AC-1.2', 5, 14, false],
+        ]);
+    });
+
+    test('should find phase and task definitions', () => {
+        const ids = findSpecIds('tasks', tasks);
+        assert.deepStrictEqual(ids.map(o => [o.id, o.start, o.end, o.definition]), [
+            ['T-1', 3, 10, true],
+            ['T-1.1', 8, 16, true],
+            ['US-1', 36, 40, false],
+            ['T-1.2', 8, 16, true],
+            ['S2.1', 39, 43, false],
+        ]);
+    });
+
+    test('should renumber a story with its criteria and references', () => {
+        const files = [
+            { file: 'requirements.md', occurrences: findSpecIds('requirements', requirements) },
+            { file: 'design.md', occurrences: findSpecIds('design', design) },
+            { file: 'tasks.md', occurrences: findSpecIds('tasks', tasks) },
+        ];
+        const edits = planSpecIdRename(files, 'US-1', 'US-4');
+        assert.deepStrictEqual(edits.map(e => [e.file, e.line, e.start, e.end, e.text]), [
+            ['requirements.md', 2, 7, 8, '4'],
+            ['requirements.md', 3, 9, 12, '4.1'],
+            ['requirements.md', 4, 11, 14, '4.2'],
+            ['requirements.md', 7, 28, 29, '4'],
+            ['design.md', 5, 14, 17, '4.2'],
+            ['tasks.md', 2, 39, 40, '4'],
+        ]);
+        assert.deepStrictEqual(planSpecIdRename(files, 'T-1.2', '1.5').map(e => [e.file, e.text]), [
+            ['tasks.md', '1.5'],
+        ]);
+    });
+
+    test('should reject invalid or taken names and positional sections', () => {
+        const files = [
+            { file: 'requirements.md', occurrences: findSpecIds('requirements', requirements) },
+            { file: 'design.md', occurrences: findSpecIds('design', design) },
+        ];
+        assert.throws(() => planSpecIdRename(files, 'US-1', 'US-2'), /US-2 already exists/);
+        assert.throws(() => planSpecIdRename(files, 'US-1', 'AC-4.1'), /not a user story or acceptance criterion ID like US-1/);
+        assert.throws(() => planSpecIdRename(files, 'S2', 'S5'), /S2\.2 is numbered by its position/);
+        assert.deepStrictEqual(planSpecIdRename(files, 'S2.1', 'S2.3').map(e => [e.file, e.line, e.text]), [
+            ['requirements.md', 7, '2.3'],
+            ['design.md', 3, '2.3'],
+        ]);
+    });
+});
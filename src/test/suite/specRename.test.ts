@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { buildDependencyGraph, parseDependencies, DependencyNode } from '../../specDependencies';
+import {
+    TextReplacement,
+    findReferenceReplacements,
+    findTitleReplacement,
+    planSpecRename,
+} from '../../specRename';
+
+function applyReplacements(content: string, replacements: TextReplacement[]): string {
+    const lines = content.split('\n');
+    const sorted = [...replacements].sort((a, b) => b.line - a.line || b.start - a.start);
+    for (const r of sorted) {
+        lines[r.line] = lines[r.line].slice(0, r.start) + r.newText + lines[r.line].slice(r.end);
+    }
+    return lines.join('\n');
+}
+
+suite('Spec Rename Test Suite', () => {
+    suite('findReferenceReplacements', () => {
+        test('should rewrite task IDs and link path segments', () => {
+            const content = [
+                'See auth:1.2 and [tasks](../auth/tasks.md).',
+                'Not oauth:1, auth-v2:3 or [docs](https://example.com/auth/).',
+            ].join('\n');
+
+            const result = applyReplacements(content, findReferenceReplacements(content, 'auth', 'login'));
+            assert.strictEqual(result, [
+                'See login:1.2 and [tasks](../login/tasks.md).',
+                'Not oauth:1, auth-v2:3 or [docs](https://example.com/auth/).',
+            ].join('\n'));
+        });
+    });
+
+    suite('findTitleReplacement', () => {
+        test('should rewrite the first heading only', () => {
+            const content = '# auth - Requirements\n\n## auth\n';
+            const title = findTitleReplacement(content, 'auth', 'login');
+            assert.deepStrictEqual(title, { line: 0, start: 2, end: 6, newText: 'login' });
+            assert.strictEqual(findTitleReplacement('# Overview\n# auth\n', 'auth', 'login'), undefined);
+        });
+    });
+
+    suite('planSpecRename', () => {
+        const app = '/ws/app';
+        const billing = '/ws/billing';
+        const specDir = (project: string, name: string) => path.join(project, '.ldf/specs', name);
+
+        let files: Map<string, string>;
+
+        function graph() {
+            const nodes: DependencyNode[] = [];
+            for (const [filePath, content] of files) {
+                if (path.basename(filePath) !== 'requirements.md') continue;
+                const id = path.dirname(filePath);
+                nodes.push({
+                    id,
+                    name: path.basename(id),
+                    projectPath: id.startsWith(billing) ? billing : app,
+                    status: 'draft',
+                    dependencies: parseDependencies(content),
+                });
+            }
+            return buildDependencyGraph(nodes, [
+                { path: app, names: ['app'] },
+                { path: billing, names: ['billing'] },
+            ]);
+        }
+
+        function plan(newName: string, targetProjectPath: string) {
+            return planSpecRename({
+                spec: { path: specDir(app, 'auth'), name: 'auth', projectPath: app },
+                newName,
+                targetProjectPath,
+                graph: graph(),
+                markdownFiles: [...files.keys()],
+                getProjectName: p => path.basename(p),
+                readFile: p => files.get(p)!,
+            });
+        }
+
+        function result(filePath: string, edits: Map<string, TextReplacement[]>): string {
+            return applyReplacements(files.get(filePath)!, edits.get(filePath) ?? []);
+        }
+
+        setup(() => {
+            files = new Map([
+                [path.join(specDir(app, 'auth'), 'requirements.md'), '# auth - Requirements\n\n## Dependencies\n\n- sessions\n'],
+                [path.join(specDir(app, 'auth'), 'tasks.md'), '# auth - Tasks\n\n- [ ] **Task auth:1.1:** Login form\n'],
+                [path.join(specDir(app, 'sessions'), 'requirements.md'), '# sessions\n'],
+                [path.join(specDir(app, 'profile'), 'requirements.md'), '# profile\n\n## Dependencies\n\n- auth - login first\n'],
+                [path.join(specDir(billing, 'payments'), 'requirements.md'), '# payments\n\n## Dependencies\n\n- app:auth\n'],
+            ]);
+        });
+
+        test('should rewrite references when renaming in place', () => {
+            const edits = plan('login', app);
+
+            assert.strictEqual(
+                result(path.join(specDir(app, 'profile'), 'requirements.md'), edits),
+                '# profile\n\n## Dependencies\n\n- login - login first\n'
+            );
+            assert.strictEqual(
+                result(path.join(specDir(billing, 'payments'), 'requirements.md'), edits),
+                '# payments\n\n## Dependencies\n\n- app:login\n'
+            );
+            assert.strictEqual(
+                result(path.join(specDir(app, 'auth'), 'tasks.md'), edits),
+                '# login - Tasks\n\n- [ ] **Task login:1.1:** Login form\n'
+            );
+            assert.ok(!edits.has(path.join(specDir(app, 'sessions'), 'requirements.md')));
+        });
+
+        test('should switch between local and qualified references when moving', () => {
+            const edits = plan('auth', billing);
+
+            // Now in the same project as payments, but away from profile and sessions
+            assert.strictEqual(
+                result(path.join(specDir(billing, 'payments'), 'requirements.md'), edits),
+                '# payments\n\n## Dependencies\n\n- auth\n'
+            );
+            assert.strictEqual(
+                result(path.join(specDir(app, 'profile'), 'requirements.md'), edits),
+                '# profile\n\n## Dependencies\n\n- billing:auth - login first\n'
+            );
+            assert.strictEqual(
+                result(path.join(specDir(app, 'auth'), 'requirements.md'), edits),
+                '# auth - Requirements\n\n## Dependencies\n\n- app:sessions\n'
+            );
+            // Same name: task IDs and titles stay as they are
+            assert.ok(!edits.has(path.join(specDir(app, 'auth'), 'tasks.md')));
+        });
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { getSpecFileKind, parseSpecSymbols, flattenSpecSymbols } from '../../specSymbolData';
+
+suite('Spec Symbol Data Test Suite', () => {
+    test('should recognize spec files by name', () => {
+        assert.strictEqual(getSpecFileKind('/ws/.ldf/specs/auth/requirements.md'), 'requirements');
+        assert.strictEqual(getSpecFileKind('Tasks.md'), 'tasks');
+        assert.strictEqual(getSpecFileKind('/ws/.ldf/specs/auth/test-plan.md'), undefined);
+    });
+
+    test('should parse stories, criteria and coverage matrix rows', () => {
+        const content = [
+            '# auth',                                        // 0
+            '',
+            '## User Stories',
+            '',
+            '### US-1: Sign in',                             // 4
+            '- [x] AC-1.1: Users can sign in',
+            '- [ ] AC-1.2: Errors are shown',
+            '',
+            '## Guardrail Coverage Matrix',                  // 8
+            '',
+            '| Guardrail | Requirements | Design | Tasks | Owner | Status |',
+            '|-----------|--------------|--------|-------|-------|--------|',
+            '| 1. Testing Coverage | [US-1] | | | Alice | TODO |',
+            '',
+        ].join('\n');
+
+        const symbols = parseSpecSymbols('requirements', content);
+        assert.deepStrictEqual(symbols.map(s => [s.kind, s.name, s.line, s.endLine]), [
+            ['story', 'US-1: Sign in', 4, 6],
+            ['guardrail', '1. Testing Coverage', 12, 12],
+        ]);
+        assert.deepStrictEqual(symbols[0].children.map(c => [c.kind, c.name, c.detail, c.line]), [
+            ['criterion', 'AC-1.1: Users can sign in', 'done', 5],
+            ['criterion', 'AC-1.2: Errors are shown', 'open', 6],
+        ]);
+        assert.strictEqual(symbols[1].detail, 'TODO');
+    });
+
+    test('should type design subsections by their section', () => {
+        const content = [
+            '# auth design',
+            '## Components',
+            '### SessionStore',
+            'Keeps sessions.',
+            '## Data Model',
+            '### User',
+            '## API',
+            '### POST /api/sessions',
+            '## Overview',
+            '### Goals',
+            '```',
+            '## Not a heading',
+            '```',
+        ].join('\n');
+
+        const symbols = parseSpecSymbols('design', content);
+        assert.deepStrictEqual(symbols.map(s => [s.name, s.line, s.endLine]), [
+            ['Components', 1, 3],
+            ['Data Model', 4, 5],
+            ['API', 6, 7],
+            ['Overview', 8, 12],
+        ]);
+        assert.deepStrictEqual(flattenSpecSymbols(symbols).filter(s => s.kind !== 'section').map(s => [s.kind, s.name]), [
+            ['component', 'SessionStore'],
+            ['entity', 'User'],
+            ['endpoint', 'POST /api/sessions'],
+        ]);
+        assert.strictEqual(symbols[3].children[0].kind, 'section');
+    });
+
+    test('should parse phases and tasks', () => {
+        const content = [
+            '# auth tasks',
+            '',
+            '## Phase 1: Setup',
+            '- [x] **Task 1.1:** Add login form',
+            '- [ ] **Task 1.2:** Add session store',
+            '',
+            '## Phase 2: Polish',
+            '- [ ] **Task 2.1:** Add styles',
+        ].join('\n');
+
+        const symbols = parseSpecSymbols('tasks', content);
+        assert.deepStrictEqual(symbols.map(s => [s.kind, s.line, s.endLine, s.children.length]), [
+            ['phase', 2, 4, 2],
+            ['phase', 6, 7, 1],
+        ]);
+        assert.deepStrictEqual(symbols[0].children.map(t => [t.name, t.detail, t.line]), [
+            ['Task 1.1: Add login form', 'done', 3],
+            ['Task 1.2: Add session store', 'open', 4],
+        ]);
+    });
+});
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+    BUILTIN_TEMPLATES,
+    createTemplateVariables,
+    createRequirementsVariables,
+    createTasksVariables,
+    renderTemplate,
+    getTemplateDirs,
+    readTemplate,
+    renderSpecTemplate,
+} from '../../specTemplates';
+
+suite('Spec Templates Test Suite', () => {
+    let tempDir: string;
+    let projectDir: string;
+    let sharedDir: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-templates-'));
+        projectDir = path.join(tempDir, 'project');
+        sharedDir = path.join(tempDir, '.ldf-shared', 'templates');
+        fs.mkdirSync(path.join(projectDir, '.ldf', 'templates'), { recursive: true });
+        fs.mkdirSync(sharedDir, { recursive: true });
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('should create variables with an ISO date', () => {
+        assert.deepStrictEqual(createTemplateVariables('auth', 'Dana', 'saas', new Date(2026, 0, 5)), {
+            spec_name: 'auth',
+            date: '2026-01-05',
+            author: 'Dana',
+            preset: 'saas',
+        });
+    });
+
+    test('should substitute known variables and keep unknown ones', () => {
+        assert.strictEqual(
+            renderTemplate('# {{spec_name}} by {{ author }} ({{owner}})', { spec_name: 'auth', author: 'Dana' }),
+            '# auth by Dana ({{owner}})'
+        );
+    });
+
+    test('should prefer project templates over shared ones', () => {
+        const dirs = getTemplateDirs(projectDir, sharedDir);
+        assert.deepStrictEqual(dirs, [path.join(projectDir, '.ldf', 'templates'), sharedDir]);
+
+        fs.writeFileSync(path.join(sharedDir, 'design.md'), 'shared design');
+        fs.writeFileSync(path.join(sharedDir, 'tasks.md'), 'shared tasks');
+        fs.writeFileSync(path.join(projectDir, '.ldf', 'templates', 'tasks.md'), 'project tasks');
+
+        assert.strictEqual(readTemplate('design.md', dirs), 'shared design');
+        assert.strictEqual(readTemplate('tasks.md', dirs), 'project tasks');
+        assert.strictEqual(readTemplate('design.md', getTemplateDirs(projectDir)), undefined);
+    });
+
+    test('should fall back to the built-in templates', () => {
+        const variables = {
+            ...createTemplateVariables('auth', '', ''),
+            ...createRequirementsVariables({ guardrails: [{ id: 1, name: 'Testing Coverage' }] }),
+        };
+        const rendered = renderSpecTemplate('requirements', getTemplateDirs(projectDir, sharedDir), variables);
+        assert.ok(BUILTIN_TEMPLATES.requirements.includes('{{guardrail_matrix}}'));
+        assert.ok(rendered.startsWith('# auth - Requirements'));
+        assert.ok(rendered.includes('### US-1: [Story Title]'));
+        assert.ok(rendered.includes('### Security\n- Authentication: [answer]'));
+        assert.ok(rendered.includes('|--------|\n| 1. Testing Coverage | [US-1] | [TBD] | [TBD] | [TBD] | TODO |\n'));
+        assert.ok(!rendered.includes('{{'));
+    });
+
+    test('should build requirements sections from wizard answers', () => {
+        const variables = createRequirementsVariables({
+            overview: '  Let users sign in.  ',
+            userStories: ['Sign in', 'Sign out'],
+            questionPacks: [
+                { title: 'Security', questions: ['Authentication'] },
+                { title: 'Billing', questions: [] },
+            ],
+            guardrails: [
+                { id: 1, name: 'Testing Coverage' },
+                { id: 9, name: 'PCI Compliance' },
+            ],
+        });
+        assert.strictEqual(variables.overview, 'Let users sign in.');
+        assert.ok(variables.user_stories.startsWith('### US-1: Sign in\n'));
+        assert.ok(variables.user_stories.includes('\n\n### US-2: Sign out\n'));
+        assert.ok(variables.user_stories.endsWith('- [ ] AC-2.2: [Criterion]'));
+        assert.strictEqual(
+            variables.question_pack_answers,
+            '### Security\n- Authentication: [answer]\n\n### Billing\n- [answer]'
+        );
+        assert.strictEqual(variables.guardrail_matrix, [
+            '| 1. Testing Coverage | [US-1], [US-2] | [TBD] | [TBD] | [TBD] | TODO |',
+            '| 9. PCI Compliance | [US-1], [US-2] | [TBD] | [TBD] | [TBD] | TODO |',
+        ].join('\n'));
+    });
+
+    test('should number given acceptance criteria per story', () => {
+        const variables = createRequirementsVariables({
+            userStories: [{ title: 'Import issues', criteria: ['Reads CSV', 'Reads JSON'] }],
+        });
+        assert.ok(variables.user_stories.endsWith('- [ ] AC-1.1: Reads CSV\n- [ ] AC-1.2: Reads JSON'));
+    });
+
+    test('should list given tasks or placeholder phases', () => {
+        const { task_phases } = createTasksVariables({
+            tasks: [{ title: 'Parse CSV', done: true }, { title: 'Parse JSON', done: false }],
+        });
+        assert.strictEqual(
+            task_phases,
+            '## Phase 1: Implementation\n\n- [x] **Task 1.1:** Parse CSV\n- [ ] **Task 1.2:** Parse JSON'
+        );
+        assert.ok(createTasksVariables({}).task_phases.includes('## Phase 4: Documentation'));
+    });
+
+    test('should render the built-in tasks template with task phases', () => {
+        const rendered = renderSpecTemplate('tasks', [], {
+            ...createTemplateVariables('user-auth', 'Alice', ''),
+            ...createTasksVariables({}),
+        });
+        assert.ok(rendered.startsWith('# user-auth - Tasks\n\n## Phase 1: Setup\n'));
+        assert.ok(!rendered.includes('{{'));
+    });
+});
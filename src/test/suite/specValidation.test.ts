@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { validateTasks, validateRequirements } from '../../specValidation';
+
+suite('Spec Validation Test Suite', () => {
+    suite('validateTasks', () => {
+        test('should accept well-formed tasks', () => {
+            const content = [
+                '# Tasks',
+                '## Phase 1',
+                '- [ ] **Task 1.1:** Create project',
+                '- [x] **Task 1.2:** Add config',
+                '',
+                '## Completion Checklist',
+                '- [ ] All tests pass',
+            ].join('\n');
+            assert.deepStrictEqual(validateTasks(content), []);
+        });
+
+        test('should report duplicate task numbers', () => {
+            const content = '- [ ] **Task 1.1:** One\n- [ ] **Task 1.2:** Two\n- [x] **Task 1.1:** Again\n';
+            assert.deepStrictEqual(validateTasks(content), [
+                { file: 'tasks.md', line: 2, message: 'Duplicate task number 1.1 (first on line 1)' },
+            ]);
+        });
+
+        test('should report lines that look like tasks', () => {
+            const content = [
+                '- [ ] Task 1.1: Missing bold',
+                '- [ ] **Task 1.2**: Colon outside bold',
+                '- [] **Task 1.3:** Empty checkbox',
+                '- **Task 1.4:** No checkbox',
+                '```',
+                '- [ ] Task 9.9: Example in a code block',
+                '```',
+            ].join('\n');
+            assert.deepStrictEqual(validateTasks(content).map(p => p.line), [0, 1, 2, 3]);
+        });
+    });
+
+    suite('validateRequirements', () => {
+        const header = [
+            '## Guardrail Coverage Matrix',
+            '',
+            '| Guardrail | Requirements | Design | Tasks/Tests | Owner | Status |',
+            '|-----------|--------------|--------|-------------|-------|--------|',
+        ];
+
+        test('should accept a complete matrix and ignore other tables', () => {
+            const content = [
+                '| Name | Value |',
+                '|------|-------|',
+                '| a | b |',
+                '',
+                ...header,
+                '| 1. Testing Coverage | [US-1] | [S1] | [T-1] | Alice | DONE |',
+            ].join('\n');
+            assert.deepStrictEqual(validateRequirements(content), []);
+        });
+
+        test('should report broken matrix rows', () => {
+            const content = [
+                ...header,
+                '| 1. Testing Coverage | [US-1] | [S1] | Alice | DONE |',
+                '| 2. Security Basics | [US-1] | [S2] | [T-2] | Alice | |',
+                '| Error Handling | [US-1] | [S3] | [T-3] | Alice | TODO |',
+            ].join('\n');
+            assert.deepStrictEqual(validateRequirements(content), [
+                { file: 'requirements.md', line: 4, message: 'Coverage matrix row has 5 cells, expected 6' },
+                { file: 'requirements.md', line: 5, message: 'Coverage matrix row has no status' },
+                {
+                    file: 'requirements.md',
+                    line: 6,
+                    message: 'Coverage matrix row should start with a guardrail number (e.g. "1. Testing Coverage")',
+                },
+            ]);
+        });
+    });
+});
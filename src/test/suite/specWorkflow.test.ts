@@ -0,0 +1,179 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+    DEFAULT_WORKFLOW,
+    parseWorkflowConfig,
+    loadSpecWorkflow,
+    canTransition,
+    getAllowedTransitions,
+    getNextStatus,
+    getStatusLabel,
+    getStatusOrder,
+    inferSpecStatus,
+} from '../../specWorkflow';
+
+suite('Spec Workflow Test Suite', () => {
+    const customConfig = {
+        statuses: [
+            { id: 'draft', label: 'Draft' },
+            { id: 'blocked', label: 'Blocked', icon: 'circle-slash', color: 'charts.red', order: 0 },
+            { id: 'shipped', label: 'Shipped', order: 9 },
+        ],
+        transitions: {
+            draft: ['blocked', 'shipped'],
+            blocked: ['draft'],
+        },
+    };
+
+    suite('parseWorkflowConfig', () => {
+        test('should return default workflow when section is missing', () => {
+            const { workflow, errors } = parseWorkflowConfig(undefined);
+            assert.strictEqual(workflow, DEFAULT_WORKFLOW);
+            assert.strictEqual(errors.length, 0);
+        });
+
+        test('should parse statuses and transitions', () => {
+            const { workflow, errors } = parseWorkflowConfig(customConfig);
+            assert.deepStrictEqual(errors, []);
+            assert.deepStrictEqual(workflow.statuses.map(s => s.id), ['draft', 'blocked', 'shipped']);
+            assert.strictEqual(workflow.statuses[1].icon, 'circle-slash');
+            assert.deepStrictEqual(workflow.transitions, customConfig.transitions);
+        });
+
+        test('should inherit built-in icon and order for known ids', () => {
+            const { workflow } = parseWorkflowConfig(customConfig);
+            assert.strictEqual(workflow.statuses[0].icon, 'edit');
+            assert.strictEqual(workflow.statuses[0].order, 3);
+        });
+
+        test('should accept string shorthand statuses', () => {
+            const { workflow } = parseWorkflowConfig({ statuses: ['Draft', 'On Hold'] });
+            assert.deepStrictEqual(workflow.statuses.map(s => s.id), ['draft', 'on-hold']);
+            assert.strictEqual(workflow.statuses[1].label, 'On Hold');
+        });
+
+        test('should report reserved, duplicate and unknown entries', () => {
+            const { workflow, errors } = parseWorkflowConfig({
+                statuses: ['draft', 'draft', { id: 'error' }, 42],
+                transitions: { draft: ['nowhere'] },
+            });
+            assert.strictEqual(workflow.statuses.length, 1);
+            assert.strictEqual(errors.length, 4);
+        });
+
+        test('should fall back to default when no statuses are valid', () => {
+            const { workflow, errors } = parseWorkflowConfig({ statuses: [] });
+            assert.strictEqual(workflow, DEFAULT_WORKFLOW);
+            assert.ok(errors.length > 0);
+        });
+    });
+
+    suite('transitions', () => {
+        const { workflow } = parseWorkflowConfig(customConfig);
+
+        test('should allow declared transitions only', () => {
+            assert.strictEqual(canTransition(workflow, 'draft', 'blocked'), true);
+            assert.strictEqual(canTransition(workflow, 'blocked', 'shipped'), false);
+            assert.strictEqual(canTransition(workflow, 'draft', 'draft'), false);
+        });
+
+        test('should allow any transition without a transitions map', () => {
+            assert.strictEqual(canTransition(DEFAULT_WORKFLOW, 'complete', 'draft'), true);
+        });
+
+        test('should allow leaving the error state', () => {
+            assert.strictEqual(canTransition(workflow, 'error', 'draft'), true);
+        });
+
+        test('should list allowed transitions in lifecycle order', () => {
+            assert.deepStrictEqual(
+                getAllowedTransitions(workflow, 'draft').map(s => s.id),
+                ['blocked', 'shipped']
+            );
+        });
+
+        test('should find the next allowed status', () => {
+            assert.strictEqual(getNextStatus(workflow, 'draft')?.id, 'blocked');
+            assert.strictEqual(getNextStatus(workflow, 'blocked'), undefined);
+            assert.strictEqual(getNextStatus(DEFAULT_WORKFLOW, 'approved')?.id, 'in-progress');
+        });
+    });
+
+    suite('labels and order', () => {
+        test('should fall back to raw id for unknown statuses', () => {
+            assert.strictEqual(getStatusLabel(DEFAULT_WORKFLOW, 'in-review'), 'In Review');
+            assert.strictEqual(getStatusLabel(DEFAULT_WORKFLOW, 'mystery'), 'mystery');
+            assert.strictEqual(getStatusLabel(DEFAULT_WORKFLOW, 'error'), 'Error');
+        });
+
+        test('should sort error and unknown statuses last', () => {
+            const complete = getStatusOrder(DEFAULT_WORKFLOW, 'complete');
+            const error = getStatusOrder(DEFAULT_WORKFLOW, 'error');
+            const unknown = getStatusOrder(DEFAULT_WORKFLOW, 'mystery');
+            assert.ok(complete < error);
+            assert.ok(error < unknown);
+        });
+    });
+
+    suite('inferSpecStatus', () => {
+        test('should infer status from files and task progress', () => {
+            assert.strictEqual(inferSpecStatus(false), 'draft');
+            assert.strictEqual(inferSpecStatus(true), 'in-review');
+            assert.strictEqual(inferSpecStatus(true, { completed: 0, total: 0 }), 'draft');
+            assert.strictEqual(inferSpecStatus(true, { completed: 0, total: 3 }), 'approved');
+            assert.strictEqual(inferSpecStatus(false, { completed: 1, total: 3 }), 'in-progress');
+            assert.strictEqual(inferSpecStatus(false, { completed: 3, total: 3 }), 'complete');
+        });
+
+        test('should map inferred statuses onto a custom workflow', () => {
+            const { workflow } = parseWorkflowConfig({
+                statuses: [{ id: 'todo' }, { id: 'doing' }, { id: 'review' }, { id: 'done' }],
+            });
+            assert.strictEqual(inferSpecStatus(false, undefined, workflow), 'todo');
+            assert.strictEqual(inferSpecStatus(true, undefined, workflow), 'todo');
+            assert.strictEqual(inferSpecStatus(true, { completed: 0, total: 3 }, workflow), 'doing');
+            assert.strictEqual(inferSpecStatus(true, { completed: 1, total: 3 }, workflow), 'review');
+            assert.strictEqual(inferSpecStatus(true, { completed: 3, total: 3 }, workflow), 'done');
+
+            // Declared ids are kept
+            const custom = parseWorkflowConfig(customConfig).workflow;
+            assert.strictEqual(inferSpecStatus(false, undefined, custom), 'draft');
+            assert.strictEqual(inferSpecStatus(true, { completed: 3, total: 3 }, custom), 'shipped');
+        });
+    });
+
+    suite('loadSpecWorkflow', () => {
+        let projectDir: string;
+
+        setup(() => {
+            projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ldf-workflow-'));
+            fs.mkdirSync(path.join(projectDir, '.ldf'));
+        });
+
+        teardown(() => {
+            fs.rmSync(projectDir, { recursive: true, force: true });
+        });
+
+        test('should read spec_workflow from config.yaml', () => {
+            fs.writeFileSync(
+                path.join(projectDir, '.ldf', 'config.yaml'),
+                'spec_workflow:\n  statuses:\n    - draft\n    - deferred\n'
+            );
+            const { workflow } = loadSpecWorkflow(projectDir);
+            assert.deepStrictEqual(workflow.statuses.map(s => s.id), ['draft', 'deferred']);
+        });
+
+        test('should use default workflow when config.yaml is missing', () => {
+            assert.strictEqual(loadSpecWorkflow(projectDir).workflow, DEFAULT_WORKFLOW);
+        });
+
+        test('should report invalid config.yaml', () => {
+            fs.writeFileSync(path.join(projectDir, '.ldf', 'config.yaml'), 'spec_workflow: [\n');
+            const { workflow, errors } = loadSpecWorkflow(projectDir);
+            assert.strictEqual(workflow, DEFAULT_WORKFLOW);
+            assert.strictEqual(errors.length, 1);
+        });
+    });
+});
@@ -9,6 +9,7 @@ import {
     getVenvCandidates,
     getVenvExecutablePath,
     venvExecutableExists,
+    escapeHtml,
 } from '../../utils';
 
 suite('Utils Test Suite', () => {
@@ -138,6 +139,13 @@ suite('Utils Test Suite', () => {
             assert.strictEqual(tasks[0].line, 1);
         });
 
+        test('should read @name owners from the task line', () => {
+            const tasks = parseTasksContent('spec', '- [ ] **Task 1.1:** Add login form @alice @bob');
+
+            assert.deepStrictEqual(tasks[0].owners, ['@alice', '@bob']);
+            assert.deepStrictEqual(parseTasksContent('spec', '- [ ] **Task 1.2:** Unassigned')[0].owners, []);
+        });
+
         test('should parse completed tasks', () => {
             const content = '- [x] **Task 1.1:** Done task';
             const tasks = parseTasksContent('spec', content);
@@ -380,4 +388,13 @@ Some notes here`;
             assert.strictEqual(result, false);
         });
     });
+
+    suite('escapeHtml', () => {
+        test('should escape markup and quotes', () => {
+            assert.strictEqual(
+                escapeHtml('<a href="x">Tom & Jerry</a>'),
+                '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&lt;/a&gt;'
+            );
+        });
+    });
 });
@@ -8,6 +8,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { parseMentions } from './specOwners';
 
 /**
  * Promisified execFile for async command execution (no shell).
@@ -381,6 +382,8 @@ export interface ParsedTask {
     taskNumber: string;
     isComplete: boolean;
     line: number;
+    /** `@name` mentions in the task line */
+    owners: string[];
 }
 
 /**
@@ -413,6 +416,7 @@ export function parseTasksContent(specName: string, content: string): ParsedTask
                 taskNumber,
                 isComplete,
                 line: lineNumber,
+                owners: parseMentions(title),
             });
         }
     }
@@ -450,3 +454,48 @@ export function markTaskInContent(content: string, taskNumber: string): string |
 
     return null;
 }
+
+/**
+ * Generate a random nonce for webview Content-Security-Policy script tags.
+ */
+export function getNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
+
+/**
+ * Escape text for safe inclusion in webview HTML (element content and quoted attributes).
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Get the git user.name and user.email (or the given config keys) configured for a folder.
+ * Unset values (or a missing git) are left out.
+ */
+export async function getGitUserIdentities(
+    cwd: string,
+    keys: string[] = ['user.name', 'user.email']
+): Promise<string[]> {
+    const identities: string[] = [];
+    for (const key of keys) {
+        try {
+            const { stdout } = await execFileAsync('git', ['config', '--get', key], { cwd, timeout: 5000 });
+            if (stdout.trim()) {
+                identities.push(stdout.trim());
+            }
+        } catch {
+            // Not configured
+        }
+    }
+    return identities;
+}
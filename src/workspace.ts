@@ -390,6 +390,18 @@ export function detectWorkspaceContext(startPath: string): WorkspaceInfo | null
     };
 }
 
+/**
+ * Directory for reports and exports of a project: the workspace's
+ * `reporting.output_dir` (relative to the workspace root) when the project is
+ * in an LDF workspace, otherwise the default output directory in the project.
+ */
+export function getReportsDir(projectPath: string): string {
+    const workspace = detectWorkspaceContext(projectPath);
+    return workspace
+        ? path.resolve(workspace.root, workspace.manifest.reporting.outputDir)
+        : path.join(projectPath, DEFAULT_REPORTING.outputDir);
+}
+
 /**
  * Resolve project context for a given path.
  *